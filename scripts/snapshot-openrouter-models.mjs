@@ -84,6 +84,11 @@ function toModel(model) {
   const promptPrice = Number(model?.pricing?.prompt);
   const completionPrice = Number(model?.pricing?.completion);
   const contextLength = Number(model.context_length);
+  const inputModalities = Array.isArray(model.architecture?.input_modalities)
+    ? normalizeStringList(model.architecture.input_modalities).map((value) =>
+        value.toLowerCase()
+      )
+    : undefined;
 
   return {
     id,
@@ -95,6 +100,7 @@ function toModel(model) {
     },
     supportedParameters,
     supportsReasoning,
+    ...(inputModalities ? { inputModalities } : {}),
   };
 }
 
@@ -1,4 +1,4 @@
-import { describe, expect, test } from 'vitest';
+import { afterEach, describe, expect, test, vi } from 'vitest';
 import {
   buildHeaders,
   getBundledEmbeddingFallbackModels,
@@ -78,3 +78,109 @@ describe('bundled fallback models', () => {
     ).toEqual([]);
   });
 });
+
+describe('getModels', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test('reads input modalities from the model architecture', async () => {
+    const payload = {
+      data: [
+        {
+          id: 'vision/model',
+          name: 'Vision',
+          context_length: 8192,
+          architecture: { input_modalities: ['text', 'Image', 'file'] },
+        },
+        { id: 'plain/model', name: 'Plain', context_length: 8192 },
+      ],
+    };
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(payload))));
+
+    const models = await getOpenRouterClient('models-key', OPENROUTER_BASE_URL).getModels();
+
+    expect(models[0].inputModalities).toEqual(['text', 'image', 'file']);
+    expect(models[1].inputModalities).toBeUndefined();
+  });
+});
+
+describe('streamChatCompletion', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test('yields text deltas and returns finish reason and usage', async () => {
+    const events = [
+      { id: 'gen-1', choices: [{ delta: { content: 'Hel' }, finish_reason: null }] },
+      { id: 'gen-1', choices: [{ delta: { content: 'lo' }, finish_reason: 'stop' }] },
+      {
+        id: 'gen-1',
+        model: 'test/model',
+        choices: [],
+        usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15, cost: 0.0004 },
+      },
+    ];
+    const body = [...events.map((event) => JSON.stringify(event)), '[DONE]']
+      .map((data) => `data: ${data}\n\n`)
+      .join('');
+    const fetchMock = vi.fn(async () => new Response(body, { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = getOpenRouterClient('stream-key', OPENROUTER_BASE_URL);
+    const stream = client.streamChatCompletion({ model: 'test/model', messages: [] });
+    const deltas: string[] = [];
+    let step = await stream.next();
+    while (!step.done) {
+      deltas.push(step.value.text);
+      step = await stream.next();
+    }
+
+    expect(deltas).toEqual(['Hel', 'lo']);
+    expect(step.value).toEqual({
+      finishReason: 'stop',
+      generationId: 'gen-1',
+      model: 'test/model',
+      usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15, cost: 0.0004 },
+    });
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    const request = JSON.parse(String(init.body));
+    expect(request.stream_options).toEqual({ include_usage: true });
+    expect(request.usage).toEqual({ include: true });
+  });
+
+  test('yields reasoning deltas separately from content', async () => {
+    const events = [
+      {
+        id: 'gen-2',
+        choices: [
+          {
+            delta: {
+              reasoning: 'Think',
+              reasoning_details: [{ type: 'reasoning.text', text: 'Think' }],
+            },
+            finish_reason: null,
+          },
+        ],
+      },
+      { id: 'gen-2', choices: [{ delta: { reasoning_content: 'ing.' }, finish_reason: null }] },
+      { id: 'gen-2', choices: [{ delta: { content: 'Answer' }, finish_reason: 'stop' }] },
+    ];
+    const body = [...events.map((event) => JSON.stringify(event)), '[DONE]']
+      .map((data) => `data: ${data}\n\n`)
+      .join('');
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(body, { status: 200 })));
+
+    const client = getOpenRouterClient('stream-key', OPENROUTER_BASE_URL);
+    const deltas = [];
+    for await (const delta of client.streamChatCompletion({ model: 'test/model', messages: [] })) {
+      deltas.push(delta);
+    }
+
+    expect(deltas).toEqual([
+      { type: 'reasoning', text: 'Think' },
+      { type: 'reasoning', text: 'ing.' },
+      { type: 'text', text: 'Answer' },
+    ]);
+  });
+});
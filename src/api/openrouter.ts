@@ -12,7 +12,7 @@ interface ModelsCache {
   timestamp: number;
 }
 
-const CACHE_KEY = 'openrouter_models_cache_v2';
+const CACHE_KEY = 'openrouter_models_cache_v3';
 const EMBEDDINGS_CACHE_KEY = 'openrouter_embedding_models_cache_v1';
 const CACHE_TTL = 15 * 60 * 1000; // 15 minutes
 
@@ -39,9 +39,15 @@ const GENERIC_FALLBACK_MODELS: LLMModel[] = POPULAR_MODELS_MINIMAL.map((model) =
   supportsReasoning: false,
 }));
 
+// OpenAI-compatible multipart content; images and PDFs travel as data URLs
+export type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+  | { type: 'file'; file: { filename: string; file_data: string } };
+
 export interface ChatMessage {
   role: 'system' | 'user' | 'assistant';
-  content: string;
+  content: string | ChatContentPart[];
 }
 
 export interface ChatCompletionRequest {
@@ -61,21 +67,59 @@ interface EmbeddingRequest {
   input: string | string[];
 }
 
+interface ReasoningDetail {
+  type: string;
+  text?: string;
+  summary?: string;
+}
+
 interface StreamChoice {
   delta: {
     content?: string;
     role?: string;
+    // Providers name the reasoning delta differently; OpenRouter may send all of them
+    reasoning?: string | null;
+    reasoning_content?: string | null;
+    reasoning_details?: ReasoningDetail[];
   };
   finish_reason: string | null;
   index: number;
 }
 
+export interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  cost?: number;
+  prompt_tokens_details?: {
+    cached_tokens?: number;
+  };
+  completion_tokens_details?: {
+    reasoning_tokens?: number;
+  };
+}
+
 interface StreamChunk {
   id: string;
   object: string;
   created: number;
   model: string;
   choices: StreamChoice[];
+  usage?: ChatCompletionUsage | null;
+}
+
+// A piece of streamed output: visible answer text or the model's reasoning trace
+export interface StreamDelta {
+  type: 'text' | 'reasoning';
+  text: string;
+}
+
+// Final metadata of a streamed completion, returned once all deltas are yielded
+export interface ChatCompletionResult {
+  finishReason?: string;
+  generationId?: string;
+  model?: string;
+  usage?: ChatCompletionUsage;
 }
 
 export class OpenRouterClient {
@@ -91,16 +135,21 @@ export class OpenRouterClient {
 
   /**
    * Stream chat completion from OpenRouter
-   * Yields content chunks as they arrive
+   * Yields content and reasoning chunks as they arrive
    */
   async *streamChatCompletion(
     request: ChatCompletionRequest,
     signal?: AbortSignal
-  ): AsyncGenerator<string, void, unknown> {
+  ): AsyncGenerator<StreamDelta, ChatCompletionResult, unknown> {
     const response = await fetch(`${this.baseUrl}/chat/completions`, {
       method: 'POST',
       headers: buildHeaders(this.apiKey, this.isOpenRouter),
-      body: JSON.stringify({ ...request, stream: true }),
+      body: JSON.stringify({
+        ...request,
+        stream: true,
+        stream_options: { include_usage: true },
+        ...(this.isOpenRouter ? { usage: { include: true } } : {}),
+      }),
       signal,
     });
 
@@ -114,6 +163,7 @@ export class OpenRouterClient {
 
     const decoder = new TextDecoder();
     let buffer = '';
+    const result: ChatCompletionResult = {};
 
     try {
       while (true) {
@@ -130,21 +180,30 @@ export class OpenRouterClient {
 
           if (trimmed.startsWith('data: ')) {
             const data = trimmed.slice(6);
-            if (data === '[DONE]') return;
+            if (data === '[DONE]') return result;
 
+            let chunk: StreamChunk;
             try {
-              const chunk: StreamChunk = JSON.parse(data);
-              const content = chunk.choices[0]?.delta?.content;
-              if (content) yield content;
+              chunk = JSON.parse(data);
             } catch {
-              // Ignore parse errors for malformed chunks
+              continue; // Ignore parse errors for malformed chunks
             }
+            if (chunk.id) result.generationId = chunk.id;
+            if (chunk.model) result.model = chunk.model;
+            if (chunk.usage) result.usage = chunk.usage;
+            const choice = chunk.choices?.[0];
+            if (choice?.finish_reason) result.finishReason = choice.finish_reason;
+            const reasoning = choice?.delta ? getReasoningDelta(choice.delta) : '';
+            if (reasoning) yield { type: 'reasoning', text: reasoning };
+            if (choice?.delta?.content) yield { type: 'text', text: choice.delta.content };
           }
         }
       }
     } finally {
       reader.releaseLock();
     }
+
+    return result;
   }
 
   /**
@@ -360,6 +419,18 @@ export function getBundledEmbeddingFallbackModels(baseUrl: string): LLMModel[] {
   return [];
 }
 
+/**
+ * Reasoning text of a stream delta. The plain fields take precedence because
+ * OpenRouter repeats the same text in `reasoning_details`.
+ */
+function getReasoningDelta(delta: StreamChoice['delta']): string {
+  if (delta.reasoning) return delta.reasoning;
+  if (delta.reasoning_content) return delta.reasoning_content;
+  return (delta.reasoning_details ?? [])
+    .map((detail) => detail.text ?? detail.summary ?? '')
+    .join('');
+}
+
 export function buildHeaders(
   apiKey: string,
   isOpenRouter: boolean,
@@ -447,6 +518,13 @@ function mapApiModel(model: Record<string, unknown>): LLMModel {
         [...tags, ...capabilities].some((tag) => tag === 'reasoning' || tag === 'thinking') ||
         capabilityReasoning;
 
+  const architecture = model.architecture as Record<string, unknown> | undefined;
+  const inputModalities = Array.isArray(architecture?.input_modalities)
+    ? normalizeStringList(architecture.input_modalities).map((modality) =>
+        modality.toLowerCase()
+      )
+    : undefined;
+
   return {
     id: model.id as string,
     name: (model.name as string) || (model.id as string),
@@ -457,6 +535,7 @@ function mapApiModel(model: Record<string, unknown>): LLMModel {
     },
     supportedParameters,
     supportsReasoning,
+    ...(inputModalities ? { inputModalities } : {}),
   };
 }
 
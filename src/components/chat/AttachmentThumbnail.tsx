@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import { loadAttachmentBlob } from '../../db';
+import { useStore } from '../../store';
+import type { FileAttachment } from '../../types';
+import { formatFileSize } from '../../utils/files';
+
+interface AttachmentThumbnailProps {
+  attachment: FileAttachment;
+}
+
+/**
+ * Image preview for a message attachment, from its stored copy or its file handle.
+ * Falls back to the name chip when the image can't be read.
+ */
+export function AttachmentThumbnail({ attachment }: AttachmentThumbnailProps) {
+  const handle = useStore((state) =>
+    attachment.handleId ? state.fileHandles.get(attachment.handleId) : undefined
+  );
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!attachment.blobId && !handle) return;
+    let cancelled = false;
+    let url: string | null = null;
+    const load = attachment.blobId
+      ? loadAttachmentBlob(attachment.blobId).then((stored) => stored?.data)
+      : handle?.getFile();
+    Promise.resolve(load)
+      .then((file) => {
+        if (cancelled || !file) return;
+        url = URL.createObjectURL(file);
+        setObjectUrl(url);
+      })
+      .catch(() => {
+        // Copy missing, permission lapsed or file moved; keep the name chip.
+      });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [attachment.blobId, handle]);
+
+  const src = objectUrl;
+  const label = `${attachment.name} · ${formatFileSize(attachment.size)}`;
+
+  if (!src) {
+    return (
+      <div className="px-3 py-1 rounded-full border border-gray-200 dark:border-gray-700 text-xs text-gray-600 dark:text-gray-200 bg-gray-50 dark:bg-gray-800">
+        {label}
+      </div>
+    );
+  }
+
+  return (
+    <a
+      href={src}
+      download={attachment.name}
+      title={label}
+      className="block rounded-lg overflow-hidden border border-gray-200 dark:border-gray-700"
+      data-testid="attachment-thumbnail"
+    >
+      <img src={src} alt={attachment.name} className="h-24 w-auto max-w-[12rem] object-cover" />
+    </a>
+  );
+}
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { useStore } from '../../store';
+import {
+  buildBranchMarkdown,
+  collectBranchExport,
+  getBranchExportFileName,
+} from '../../utils/branchExport';
+import { downloadTextFile } from '../../utils/files';
+
+type ExportFormat = 'md' | 'html';
+
+export function BranchExportMenu() {
+  const activeNodeId = useStore((state) => state.activeNodeId);
+  const addToast = useStore((state) => state.addToast);
+  const [isOpen, setIsOpen] = useState(false);
+  const [includeReplies, setIncludeReplies] = useState(true);
+  const [includeToolTraces, setIncludeToolTraces] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    const state = useStore.getState();
+    const conversation = state.activeConversationId
+      ? state.conversations.get(state.activeConversationId)
+      : undefined;
+    if (!conversation) return;
+
+    setIsExporting(true);
+    try {
+      const data = collectBranchExport({
+        conversation,
+        pathNodeIds: state.getActivePath(),
+        nodes: state.nodes,
+        getReplies: state.getRepliesForNode,
+        toolTraces: state.toolTraceByConversation[conversation.id] || [],
+        options: { includeReplies, includeToolTraces },
+      });
+      const markdown = buildBranchMarkdown(data);
+      const fileName = getBranchExportFileName(data, format);
+      if (format === 'md') {
+        downloadTextFile(fileName, markdown, 'text/markdown');
+      } else {
+        const { renderBranchHtml } = await import('../../utils/branchExportHtml');
+        const html = await renderBranchHtml(markdown, data.title, state.theme);
+        downloadTextFile(fileName, html, 'text/html');
+      }
+      setIsOpen(false);
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Branch export failed',
+        message: error instanceof Error ? error.message : 'Could not export this branch.',
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (!activeNodeId) return null;
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className="text-xs px-2 py-1 rounded text-gray-500 hover:text-gray-700 hover:bg-gray-100 dark:text-gray-400 dark:hover:text-gray-200 dark:hover:bg-gray-800"
+        data-testid="branch-export-toggle"
+      >
+        Export branch
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-56 z-20 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 shadow-lg p-3 space-y-2 text-xs text-gray-700 dark:text-gray-200">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={includeReplies}
+              onChange={(event) => setIncludeReplies(event.target.checked)}
+            />
+            Reply threads as footnotes
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={includeToolTraces}
+              onChange={(event) => setIncludeToolTraces(event.target.checked)}
+            />
+            Tool traces
+          </label>
+          <div className="flex gap-2 pt-1">
+            <button
+              type="button"
+              disabled={isExporting}
+              onClick={() => void handleExport('md')}
+              className="flex-1 px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              Markdown
+            </button>
+            <button
+              type="button"
+              disabled={isExporting}
+              onClick={() => void handleExport('html')}
+              className="flex-1 px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              HTML
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
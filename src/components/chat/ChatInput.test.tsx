@@ -1,5 +1,7 @@
+import { useState } from 'react';
 import { fireEvent, render, screen } from '@testing-library/react';
 import { ChatInput } from './ChatInput';
+import { useStore } from '../../store';
 import type { PendingAttachment } from '../../types';
 
 describe('ChatInput', () => {
@@ -22,4 +24,72 @@ describe('ChatInput', () => {
     expect(onSubmit).toHaveBeenCalledTimes(1);
     expect(onSubmit).toHaveBeenCalledWith('', [attachment]);
   });
+
+  test('sends to several models when more than one is picked', () => {
+    useStore.setState({
+      models: [
+        { id: 'a/one', name: 'One', contextLength: 1000, pricing: { prompt: 0, completion: 0 } },
+        { id: 'b/two', name: 'Two', contextLength: 1000, pricing: { prompt: 0, completion: 0 } },
+      ],
+    });
+    const onSubmit = vi.fn();
+    const onSubmitToModels = vi.fn();
+
+    render(
+      <ChatInput
+        onSubmit={onSubmit}
+        onSubmitToModels={onSubmitToModels}
+        initialContent="Compare these"
+      />
+    );
+
+    fireEvent.click(screen.getByTestId('fan-out-toggle'));
+    for (const checkbox of screen.getAllByTestId('fan-out-model')) {
+      fireEvent.click(checkbox);
+    }
+    expect(screen.getByTestId('send-message').textContent).toContain('Send to 2');
+    fireEvent.click(screen.getByTestId('send-message'));
+
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(onSubmitToModels).toHaveBeenCalledWith('Compare these', [], ['a/one', 'b/two']);
+  });
+
+  test('fills a slash-command template through its variable form', () => {
+    useStore.setState({
+      activeConversationId: null,
+      activeProjectId: null,
+      promptTemplates: new Map([
+        [
+          'tpl-1',
+          {
+            id: 'tpl-1',
+            scopeType: 'user',
+            scopeId: 'global',
+            name: 'Code review',
+            content: 'Review this {{language}} code.',
+            createdAt: 1,
+            updatedAt: 1,
+          },
+        ],
+      ]),
+    });
+    const onSubmit = vi.fn();
+    function Harness() {
+      const [draft, setDraft] = useState('');
+      return <ChatInput onSubmit={onSubmit} initialContent={draft} onDraftChange={setDraft} />;
+    }
+
+    render(<Harness />);
+    const input = screen.getByTestId('chat-input');
+    fireEvent.change(input, { target: { value: '/code' } });
+    expect(screen.getAllByTestId('template-option')).toHaveLength(1);
+
+    fireEvent.keyDown(input, { key: 'Enter' });
+    fireEvent.change(screen.getByTestId('template-variable'), { target: { value: 'Go' } });
+    fireEvent.click(screen.getByTestId('apply-template'));
+
+    expect(screen.queryByTestId('template-variable-form')).toBeNull();
+    expect((input as HTMLTextAreaElement).value).toBe('Review this Go code.');
+    expect(onSubmit).not.toHaveBeenCalled();
+  });
 });
@@ -1,8 +1,28 @@
-import { forwardRef, useCallback, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import {
+  forwardRef,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import { useStore } from '../../store';
-import type { PendingAttachment } from '../../types';
+import { expandMcpPromptTemplate, useMcpPromptTemplates } from '../../hooks';
+import type { PendingAttachment, PromptTemplate } from '../../types';
 import { formatFileSize } from '../../utils/files';
+import {
+  extractTemplateVariables,
+  fillTemplate,
+  filterTemplatesByCommand,
+  getAvailableTemplates,
+  getSlashQuery,
+} from '../../utils/promptTemplates';
+import { FanOutModelPicker } from './FanOutModelPicker';
+import { PromptTemplatePicker, TemplateVariableForm } from './PromptTemplatePicker';
+
+const MAX_TEMPLATE_SUGGESTIONS = 8;
 
 export interface ChatInputHandle {
   insertQuote: (quoteText: string) => void;
@@ -12,6 +32,11 @@ export interface ChatInputHandle {
 
 interface ChatInputProps {
   onSubmit: (content: string, attachments: PendingAttachment[]) => void;
+  onSubmitToModels?: (
+    content: string,
+    attachments: PendingAttachment[],
+    models: string[]
+  ) => void;
   disabled?: boolean;
   isStreaming?: boolean;
   onCancel?: () => void;
@@ -27,6 +52,7 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(
   (
     {
       onSubmit,
+      onSubmitToModels,
       disabled,
       isStreaming,
       onCancel,
@@ -44,9 +70,39 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(
       initialAttachments ?? []
     );
     const [attachError, setAttachError] = useState<string | null>(null);
+    const [fanOutModels, setFanOutModels] = useState<string[]>([]);
+    const [isFanOutOpen, setIsFanOutOpen] = useState(false);
     const textareaRef = useRef<HTMLTextAreaElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
     const registerFileHandle = useStore((state) => state.registerFileHandle);
+    const models = useStore((state) => state.models);
+    const promptTemplates = useStore((state) => state.promptTemplates);
+    const addToast = useStore((state) => state.addToast);
+    const projectId = useStore((state) =>
+      state.activeConversationId
+        ? state.conversations.get(state.activeConversationId)?.projectId
+        : state.activeProjectId
+    );
+    const [templateIndex, setTemplateIndex] = useState(0);
+    const [dismissedSlashQuery, setDismissedSlashQuery] = useState<string | null>(null);
+    const [pendingTemplate, setPendingTemplate] = useState<PromptTemplate | null>(null);
+    const isFanOut = Boolean(onSubmitToModels) && fanOutModels.length >= 2;
+
+    const slashQuery = getSlashQuery(content);
+    const mcpPromptTemplates = useMcpPromptTemplates(slashQuery !== null);
+    const templateMatches = useMemo(() => {
+      if (slashQuery === null) return [];
+      return filterTemplatesByCommand(
+        [...getAvailableTemplates(promptTemplates.values(), projectId), ...mcpPromptTemplates],
+        slashQuery
+      ).slice(0, MAX_TEMPLATE_SUGGESTIONS);
+    }, [promptTemplates, projectId, slashQuery, mcpPromptTemplates]);
+    const isTemplatePickerOpen =
+      templateMatches.length > 0 && slashQuery !== dismissedSlashQuery && !pendingTemplate;
+
+    useEffect(() => {
+      setTemplateIndex(0);
+    }, [slashQuery]);
 
     // Auto-resize textarea
     useEffect(() => {
@@ -99,12 +155,75 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(
       const trimmed = content.trim();
       if ((!trimmed && attachments.length === 0) || disabled) return;
 
-      onSubmit(trimmed, attachments);
+      if (isFanOut && onSubmitToModels) {
+        onSubmitToModels(trimmed, attachments, fanOutModels);
+        setIsFanOutOpen(false);
+      } else {
+        onSubmit(trimmed, attachments);
+      }
       updateContent('');
       updateAttachments([]);
     };
 
+    const applyTemplateText = (text: string) => {
+      updateContent(text);
+      requestAnimationFrame(() => {
+        const textarea = textareaRef.current;
+        if (!textarea) return;
+        textarea.focus();
+        textarea.setSelectionRange(text.length, text.length);
+      });
+    };
+
+    // MCP prompts are expanded by their server instead of filled locally
+    const applyFilledTemplate = async (
+      template: PromptTemplate,
+      values: Record<string, string>
+    ) => {
+      if (!template.mcpPrompt) {
+        applyTemplateText(fillTemplate(template.content, values));
+        return;
+      }
+      try {
+        applyTemplateText(await expandMcpPromptTemplate(template, values));
+      } catch (error) {
+        addToast({
+          type: 'error',
+          title: `Prompt ${template.name} failed`,
+          message: error instanceof Error ? error.message : 'The MCP server returned an error.',
+        });
+      }
+    };
+
+    const selectTemplate = (template: PromptTemplate) => {
+      if (extractTemplateVariables(template.content).length === 0) {
+        void applyFilledTemplate(template, {});
+        return;
+      }
+      setPendingTemplate(template);
+    };
+
     const handleKeyDown = (e: React.KeyboardEvent) => {
+      if (isTemplatePickerOpen) {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+          e.preventDefault();
+          const step = e.key === 'ArrowDown' ? 1 : -1;
+          setTemplateIndex(
+            (index) => (index + step + templateMatches.length) % templateMatches.length
+          );
+          return;
+        }
+        if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Tab') {
+          e.preventDefault();
+          selectTemplate(templateMatches[Math.min(templateIndex, templateMatches.length - 1)]);
+          return;
+        }
+        if (e.key === 'Escape') {
+          e.preventDefault();
+          setDismissedSlashQuery(slashQuery);
+          return;
+        }
+      }
       if (e.key === 'Enter' && !e.shiftKey) {
         e.preventDefault();
         handleSubmit(e);
@@ -234,6 +353,27 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(
 
     return (
       <form onSubmit={handleSubmit} className="border-t border-gray-200 dark:border-gray-800 p-4 bg-white dark:bg-gray-900">
+        {pendingTemplate && (
+          <TemplateVariableForm
+            key={pendingTemplate.id}
+            template={pendingTemplate}
+            onSubmit={(values) => {
+              setPendingTemplate(null);
+              void applyFilledTemplate(pendingTemplate, values);
+            }}
+            onCancel={() => {
+              setPendingTemplate(null);
+              textareaRef.current?.focus();
+            }}
+          />
+        )}
+        {onSubmitToModels && isFanOutOpen && (
+          <FanOutModelPicker
+            models={models}
+            selectedModels={fanOutModels}
+            onChange={setFanOutModels}
+          />
+        )}
         <div className="flex gap-3 items-end max-w-4xl mx-auto">
           <button
             type="button"
@@ -244,7 +384,31 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(
           >
             Attach
           </button>
+          {onSubmitToModels && (
+            <button
+              type="button"
+              onClick={() => setIsFanOutOpen((open) => !open)}
+              data-testid="fan-out-toggle"
+              disabled={disabled || isStreaming}
+              title="Send the next message to several models at once"
+              className={`px-3 py-3 border rounded-xl text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                isFanOut
+                  ? 'border-blue-300 bg-blue-50 text-blue-700 dark:border-blue-500/50 dark:bg-blue-500/20 dark:text-blue-200'
+                  : 'border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-800'
+              }`}
+            >
+              {fanOutModels.length > 0 ? `Models (${fanOutModels.length})` : 'Models'}
+            </button>
+          )}
           <div className="flex-1 relative">
+            {isTemplatePickerOpen && (
+              <PromptTemplatePicker
+                templates={templateMatches}
+                highlightedIndex={templateIndex}
+                onSelect={selectTemplate}
+                onHighlight={setTemplateIndex}
+              />
+            )}
             <textarea
               ref={textareaRef}
               data-testid="chat-input"
@@ -252,7 +416,7 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(
               onChange={(e) => updateContent(e.target.value)}
               onKeyDown={handleKeyDown}
               onFocus={onFocusInput}
-              placeholder="Type a message... (Shift+Enter for new line)"
+              placeholder="Type a message, or / for templates (Shift+Enter for new line)"
               disabled={disabled}
               rows={1}
               className="w-full px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-xl resize-none focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 dark:disabled:bg-gray-800 disabled:text-gray-500 dark:text-gray-100 dark:disabled:text-gray-500 bg-white dark:bg-gray-900"
@@ -299,7 +463,7 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(
                   d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
                 />
               </svg>
-              Send
+              {isFanOut ? `Send to ${fanOutModels.length}` : 'Send'}
             </button>
           )}
         </div>
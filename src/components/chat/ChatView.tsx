@@ -2,15 +2,24 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import { useShallow } from 'zustand/react/shallow';
 import { useStore } from '../../store';
-import { useStreaming } from '../../hooks';
+import { useRegisterCommands, useStreaming } from '../../hooks';
 import { MessageList } from './MessageList';
 import { ChatInput, type ChatInputHandle } from './ChatInput';
+import { BranchExportMenu } from './BranchExportMenu';
+import { TagList } from '../shared/TagList';
 import type { NodeId, PendingAttachment } from '../../types';
+import type { PaletteCommand } from '../../utils/commandRegistry';
 import {
   estimateAttachmentTokens,
   estimateContextExtraTokens,
+  estimateReasoningTokens,
   estimateTokensFromText,
 } from '../../utils/tokenBudget';
+import { formatUsd, summarizeMessageUsage } from '../../utils/usage';
+import { isImageFile } from '../../utils/files';
+import { supportsInputModality } from '../../utils/models';
+import { getNodeLabel } from '../../utils/nodeLabels';
+import { resolveToolSettings } from '../../utils/tools';
 import type { LLMModel } from '../../types';
 
 const DEFAULT_MAX_TOKENS = 1024;
@@ -24,6 +33,7 @@ export function ChatView() {
     nodes,
     createReply,
     conversations,
+    projects,
     getComputedContext,
     selectedModel,
     models,
@@ -32,6 +42,7 @@ export function ChatView() {
     memoryRetrievalByConversation,
     registerFileHandle,
     updateConversation,
+    updateNode,
     connectFlowNodes,
     chatDrafts,
     setChatDraft,
@@ -45,6 +56,7 @@ export function ChatView() {
       nodes: state.nodes,
       createReply: state.createReply,
       conversations: state.conversations,
+      projects: state.projects,
       getComputedContext: state.getComputedContext,
       selectedModel: state.selectedModel,
       models: state.models,
@@ -53,6 +65,7 @@ export function ChatView() {
       memoryRetrievalByConversation: state.memoryRetrievalByConversation,
       registerFileHandle: state.registerFileHandle,
       updateConversation: state.updateConversation,
+      updateNode: state.updateNode,
       connectFlowNodes: state.connectFlowNodes,
       chatDrafts: state.chatDrafts,
       setChatDraft: state.setChatDraft,
@@ -60,7 +73,7 @@ export function ChatView() {
     }))
   );
 
-  const { sendMessage, cancelRequest, retryMessage } = useStreaming();
+  const { sendMessage, sendToModels, cancelRequest, retryMessage } = useStreaming();
   const chatInputRef = useRef<ChatInputHandle>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
   const [quoteSelection, setQuoteSelection] = useState<{
@@ -117,14 +130,25 @@ export function ChatView() {
     ? memoryRetrievalByConversation[activeNode.conversationId] || null
     : null;
   const extras = estimateContextExtraTokens({
-    toolSettings,
+    toolSettings: resolveToolSettings(
+      toolSettings,
+      activeConversation?.projectId
+        ? projects.get(activeConversation.projectId)?.toolPolicy
+        : undefined,
+      activeConversation?.toolPolicy
+    ),
     memorySettings,
     memoryPreview,
   });
   const contextTokens = contextBaseTokens + extras.total;
+  const reasoningTokens = estimateReasoningTokens(
+    contextInfo?.nodes.flatMap((node) => node.messages) ?? []
+  );
+  const reasoningIncluded = activeConversation?.contextSettings?.includeReasoning ?? false;
   const tokenUsageRatio = contextLimit > 0 ? Math.min(1, contextTokens / contextLimit) : 0;
   const draftTokens = estimateTokensFromText(draftText);
   const attachmentTokens = estimateAttachmentTokens(draftAttachments);
+  const hasDraftImages = draftAttachments.some((attachment) => isImageFile(attachment));
   const projectedTokens = contextTokens + draftTokens + attachmentTokens;
   const projectedRatio =
     contextLimit > 0 ? Math.min(1, projectedTokens / contextLimit) : 0;
@@ -135,6 +159,14 @@ export function ChatView() {
     completionTokenEstimate,
     resolvedModelInfo
   );
+  const conversationUsage = useMemo(() => {
+    const conversationId = activeConversation?.id;
+    if (!conversationId) return null;
+    const messages = Array.from(nodes.values())
+      .filter((node) => node.conversationId === conversationId)
+      .flatMap((node) => node.messages);
+    return summarizeMessageUsage(messages);
+  }, [nodes, activeConversation?.id]);
 
   const handleDraftChange = useCallback(
     (nextDraft: string) => {
@@ -223,6 +255,19 @@ export function ChatView() {
     ]
   );
 
+  // Send one prompt to several models as sibling branches of the current leaf
+  const handleSubmitToModels = useCallback(
+    async (content: string, attachments: PendingAttachment[], models: string[]) => {
+      const leafNodeId = getLeafNodeId();
+      if (!leafNodeId) return;
+      clearChatDraft(leafNodeId);
+      await sendToModels(leafNodeId, content, models, attachments, (nodeIds) => {
+        if (nodeIds[0]) setActiveNode(nodeIds[0]);
+      });
+    },
+    [getLeafNodeId, clearChatDraft, sendToModels, setActiveNode]
+  );
+
   // Handle sending a reply to a specific message
   const handleSendReply = useCallback(
     async (parentNodeId: NodeId, content: string) => {
@@ -242,6 +287,60 @@ export function ChatView() {
     }
   }, [getLeafNodeId, cancelRequest]);
 
+  // Palette commands act on the newest user or assistant message of the active node
+  const activeMessage = activeNode
+    ? [...activeNode.messages].reverse().find((entry) => entry.role !== 'system')
+    : undefined;
+  const activeMessageId = activeMessage?.id ?? null;
+  const activeMessagePreview = activeMessage?.content.slice(0, 80) ?? '';
+
+  const messageCommands = useMemo((): PaletteCommand[] => {
+    if (!activeNodeId || !activeMessageId || isStreaming) return [];
+    const subtitle = activeMessagePreview || undefined;
+    const commands: PaletteCommand[] = [
+      {
+        id: 'message.branch',
+        title: 'Branch from selected message',
+        group: 'Message',
+        subtitle,
+        run: () => {
+          useStore.getState().branchFromMessage(activeNodeId, activeMessageId);
+        },
+      },
+      {
+        id: 'message.edit',
+        title: 'Edit selected message',
+        group: 'Message',
+        subtitle,
+        run: () => useStore.getState().setPendingEditMessage(activeMessageId),
+      },
+      {
+        id: 'message.delete',
+        title: 'Delete selected message',
+        group: 'Message',
+        subtitle,
+        run: () => useStore.getState().deleteMessage(activeNodeId, activeMessageId),
+      },
+    ];
+    if (leafNodeId) {
+      commands.splice(1, 0, {
+        id: 'message.retry',
+        title: 'Retry reply',
+        group: 'Message',
+        run: () => retryMessage(leafNodeId),
+      });
+    }
+    return commands;
+  }, [
+    activeNodeId,
+    activeMessageId,
+    activeMessagePreview,
+    leafNodeId,
+    isStreaming,
+    retryMessage,
+  ]);
+  useRegisterCommands(messageCommands);
+
   const updateSelection = useCallback(() => {
     if (isStreaming) {
       if (lastSelectionRef.current !== null) {
@@ -527,9 +626,47 @@ export function ChatView() {
       onDragLeave={handleDragLeave}
       onDrop={handleDrop}
     >
-      <div className="border-b border-gray-100 dark:border-gray-800 px-4 py-2 flex items-center justify-between bg-white dark:bg-gray-900">
-        <div className="text-sm text-gray-500 dark:text-gray-400">
-          {activeNode?.label || (activeNodeId ? `Node ${activeNodeId.slice(0, 6)}` : '')}
+      <div className="border-b border-gray-100 dark:border-gray-800 px-4 py-2 flex items-center justify-between gap-3 bg-white dark:bg-gray-900">
+        <div className="flex min-w-0 items-center gap-2">
+          {activeNode ? (
+            <button
+              type="button"
+              onClick={() => {
+                const nextLabel = prompt(
+                  'Node label (leave empty to use the generated one)',
+                  activeNode.label ?? ''
+                );
+                if (nextLabel === null) return;
+                updateNode(activeNode.id, { label: nextLabel.trim() || undefined });
+              }}
+              title={activeNode.branchSummary?.content ?? 'Rename node'}
+              data-testid="node-label"
+              className="truncate text-sm text-gray-500 dark:text-gray-400 hover:text-blue-600"
+            >
+              {getNodeLabel(activeNode)}
+            </button>
+          ) : (
+            <div className="text-sm text-gray-500 dark:text-gray-400">
+              {activeNodeId ? `Node ${activeNodeId.slice(0, 6)}` : ''}
+            </div>
+          )}
+          {activeNode && (
+            <TagList
+              tags={activeNode.tags ?? []}
+              onChange={(tags) => updateNode(activeNode.id, { tags })}
+              addLabel="+ Node tag"
+            />
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          {activeConversation && (
+            <TagList
+              tags={activeConversation.tags ?? []}
+              onChange={(tags) => updateConversation(activeConversation.id, { tags })}
+              addLabel="+ Chat tag"
+            />
+          )}
+          <BranchExportMenu />
         </div>
       </div>
       <MessageList
@@ -558,10 +695,24 @@ export function ChatView() {
           </div>
           <div className="mt-1 text-[11px] text-gray-500 dark:text-gray-400">
             Base {contextBaseTokens.toLocaleString()} + tools {extras.tools.total.toLocaleString()} + memory {extras.memory.total.toLocaleString()}
+            {reasoningTokens > 0 && (
+              <span data-testid="reasoning-tokens">
+                {' '}
+                · Reasoning {reasoningTokens.toLocaleString()}
+                {reasoningIncluded ? ' (included in base)' : ' (not sent)'}
+              </span>
+            )}
           </div>
           <div className="mt-1 text-[11px] text-gray-500 dark:text-gray-400">
             Est. cost now ≈ {formatUsd(currentCost.total)} (in {formatUsd(currentCost.input)} + out{' '}
             {formatUsd(currentCost.output)})
+            {conversationUsage && conversationUsage.replyCount > 0 && (
+              <span data-testid="conversation-spend">
+                {' '}
+                · Spent in this chat {formatUsd(conversationUsage.costUsd)} (
+                {conversationUsage.totalTokens.toLocaleString()} tokens)
+              </span>
+            )}
           </div>
           {(draftText.trim() || draftAttachments.length > 0) && (
             <div className="mt-2 flex items-center gap-3 text-[11px] text-gray-500 dark:text-gray-400">
@@ -588,6 +739,15 @@ export function ChatView() {
               {formatUsd(projectedCost.input)} + out {formatUsd(projectedCost.output)})
             </div>
           )}
+          {hasDraftImages && !supportsInputModality(resolvedModelInfo, 'image') && (
+            <div
+              className="mt-1 text-[11px] text-amber-600 dark:text-amber-400"
+              data-testid="image-input-warning"
+            >
+              {resolvedModelInfo?.name || resolvedModelId} does not accept images; attached
+              images will be skipped.
+            </div>
+          )}
           {resolvedModelInfo && (
             <div className="text-[11px] text-gray-400 dark:text-gray-500 mt-1">
               Context for: {resolvedModelInfo.name}
@@ -601,6 +761,7 @@ export function ChatView() {
         initialContent={activeDraft?.content || ''}
         initialAttachments={activeDraft?.attachments || []}
         onSubmit={handleSubmit}
+        onSubmitToModels={handleSubmitToModels}
         disabled={!activeNodeId}
         isStreaming={isStreaming}
         onCancel={handleCancel}
@@ -639,10 +800,3 @@ function estimateCostUsd(
   const output = Number.isFinite(completionRate) ? outputTokens * completionRate : 0;
   return { input, output, total: input + output };
 }
-
-function formatUsd(value: number) {
-  if (!Number.isFinite(value) || value <= 0) return '—';
-  if (value >= 1) return `$${value.toFixed(2)}`;
-  if (value >= 0.01) return `$${value.toFixed(3)}`;
-  return `$${value.toFixed(5)}`;
-}
@@ -0,0 +1,88 @@
+import { useMemo, useState } from 'react';
+import type { LLMModel } from '../../types';
+
+const MAX_VISIBLE_MODELS = 60;
+
+interface FanOutModelPickerProps {
+  models: LLMModel[];
+  selectedModels: string[];
+  onChange: (models: string[]) => void;
+}
+
+export function FanOutModelPicker({ models, selectedModels, onChange }: FanOutModelPickerProps) {
+  const [query, setQuery] = useState('');
+  const normalized = query.trim().toLowerCase();
+
+  const visibleModels = useMemo(() => {
+    const selected = new Set(selectedModels);
+    const matches = models.filter(
+      (model) =>
+        !normalized ||
+        model.name.toLowerCase().includes(normalized) ||
+        model.id.toLowerCase().includes(normalized)
+    );
+    // Keep checked models at the top so they stay visible while searching.
+    return [
+      ...matches.filter((model) => selected.has(model.id)),
+      ...matches.filter((model) => !selected.has(model.id)),
+    ].slice(0, MAX_VISIBLE_MODELS);
+  }, [models, normalized, selectedModels]);
+
+  const toggleModel = (modelId: string) => {
+    onChange(
+      selectedModels.includes(modelId)
+        ? selectedModels.filter((id) => id !== modelId)
+        : [...selectedModels, modelId]
+    );
+  };
+
+  return (
+    <div
+      className="max-w-4xl mx-auto mb-3 rounded-xl border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900"
+      data-testid="fan-out-picker"
+    >
+      <div className="px-3 py-2 flex items-center gap-2 border-b border-gray-200 dark:border-gray-700">
+        <input
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="Search models to send to"
+          className="flex-1 px-3 py-1.5 text-sm border border-gray-200 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-100"
+        />
+        {selectedModels.length > 0 && (
+          <button
+            type="button"
+            onClick={() => onChange([])}
+            className="text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-800">
+        {visibleModels.map((model) => (
+          <li key={model.id}>
+            <label className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-700 dark:text-gray-200 hover:bg-white dark:hover:bg-gray-800 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selectedModels.includes(model.id)}
+                onChange={() => toggleModel(model.id)}
+                data-testid="fan-out-model"
+                data-model-id={model.id}
+              />
+              <span className="truncate">{model.name}</span>
+              <span className="ml-auto text-xs text-gray-400 truncate">{model.id}</span>
+            </label>
+          </li>
+        ))}
+        {visibleModels.length === 0 && (
+          <li className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">No models found.</li>
+        )}
+      </ul>
+      <div className="px-3 py-1.5 text-[11px] text-gray-500 dark:text-gray-400">
+        {selectedModels.length < 2
+          ? 'Pick at least two models to send one prompt as sibling branches.'
+          : `Next message creates ${selectedModels.length} branches, one per model.`}
+      </div>
+    </div>
+  );
+}
@@ -4,8 +4,10 @@ import { MarkdownRenderer } from '../shared/MarkdownRenderer';
 import type { Message, NodeId, ConversationNode } from '../../types';
 import { useStore } from '../../store';
 import { ReplyThread } from './ReplyThread';
+import { AttachmentThumbnail } from './AttachmentThumbnail';
+import { ToolArtifactList } from '../shared/ToolArtifactList';
 import { copyTextToClipboard } from '../../utils/clipboard';
-import { formatFileSize } from '../../utils/files';
+import { formatFileSize, isImageFile } from '../../utils/files';
 import { compactAttachmentContextMessage } from '../../utils/attachments';
 
 interface MessageItemProps {
@@ -29,12 +31,21 @@ export const MessageItem = memo(function MessageItem({
   highlightQuery,
   isHighlighted,
 }: MessageItemProps) {
-  const { activeRequests, editMessage, deleteMessage, nodeModel } = useStore(
+  const {
+    activeRequests,
+    editMessage,
+    deleteMessage,
+    nodeModel,
+    isEditRequested,
+    setPendingEditMessage,
+  } = useStore(
     useShallow((state) => ({
       activeRequests: state.activeRequests,
       editMessage: state.editMessage,
       deleteMessage: state.deleteMessage,
       nodeModel: state.nodes.get(nodeId)?.model,
+      isEditRequested: state.pendingEditMessageId === message.id,
+      setPendingEditMessage: state.setPendingEditMessage,
     }))
   );
   const isStreaming = activeRequests.has(nodeId) && message.isStreaming;
@@ -57,6 +68,14 @@ export const MessageItem = memo(function MessageItem({
   const showReplyThread = isAssistant && isLastInNode && !isStreaming;
   const timestamp = formatTimestamp(message.createdAt);
 
+  useEffect(() => {
+    if (!isEditRequested) return;
+    setPendingEditMessage(null);
+    if (!canEdit) return;
+    setDraft(message.content);
+    setIsEditing(true);
+  }, [isEditRequested, canEdit, message.content, setPendingEditMessage]);
+
   useEffect(() => {
     return () => {
       if (copyTimeoutRef.current !== null) {
@@ -112,6 +131,13 @@ export const MessageItem = memo(function MessageItem({
 
         {!isEditing ? (
           <>
+            {isAssistant && message.reasoning && (
+              <ThinkingBlock
+                reasoning={message.reasoning}
+                isThinking={isStreaming && !message.content}
+                tokenCount={message.usage?.reasoningTokens}
+              />
+            )}
             <MarkdownRenderer
               className="prose prose-sm max-w-none text-gray-800 dark:text-gray-100 dark:prose-invert"
               content={message.content || (isStreaming ? '...' : '')}
@@ -119,16 +145,23 @@ export const MessageItem = memo(function MessageItem({
             />
             {message.attachments && message.attachments.length > 0 && (
               <div className="mt-2 flex flex-wrap gap-2">
-                {message.attachments.map((attachment) => (
-                  <div
-                    key={attachment.id}
-                    className="px-3 py-1 rounded-full border border-gray-200 dark:border-gray-700 text-xs text-gray-600 dark:text-gray-200 bg-gray-50 dark:bg-gray-800"
-                  >
-                    {attachment.name} · {formatFileSize(attachment.size)}
-                  </div>
-                ))}
+                {message.attachments.map((attachment) =>
+                  isImageFile(attachment) ? (
+                    <AttachmentThumbnail key={attachment.id} attachment={attachment} />
+                  ) : (
+                    <div
+                      key={attachment.id}
+                      className="px-3 py-1 rounded-full border border-gray-200 dark:border-gray-700 text-xs text-gray-600 dark:text-gray-200 bg-gray-50 dark:bg-gray-800"
+                    >
+                      {attachment.name} · {formatFileSize(attachment.size)}
+                    </div>
+                  )
+                )}
               </div>
             )}
+            {isAssistant && message.toolArtifacts && (
+              <ToolArtifactList artifacts={message.toolArtifacts} />
+            )}
           </>
         ) : (
           <div className="space-y-2">
@@ -266,3 +299,31 @@ function formatTimestamp(timestamp: number) {
     minute: '2-digit',
   });
 }
+
+function ThinkingBlock({
+  reasoning,
+  isThinking,
+  tokenCount,
+}: {
+  reasoning: string;
+  isThinking: boolean;
+  tokenCount?: number;
+}) {
+  return (
+    <details
+      className="mb-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/60"
+      data-testid="thinking-block"
+    >
+      <summary className="cursor-pointer select-none px-3 py-1.5 text-xs font-medium text-gray-500 dark:text-gray-400">
+        {isThinking ? 'Thinking...' : 'Thinking'}
+        {typeof tokenCount === 'number' && tokenCount > 0 && (
+          <span className="ml-2 font-normal">{tokenCount.toLocaleString()} tokens</span>
+        )}
+      </summary>
+      <MarkdownRenderer
+        className="prose prose-sm max-w-none px-3 pb-2 text-gray-600 dark:text-gray-300 dark:prose-invert"
+        content={reasoning}
+      />
+    </details>
+  );
+}
@@ -240,10 +240,10 @@ const BranchChooser = memo(function BranchChooser({
               className="text-left rounded-lg border border-gray-200 dark:border-gray-700 px-3 py-2 hover:border-blue-300 hover:bg-blue-50 dark:hover:bg-blue-500/10 transition-colors"
             >
               <div className="text-sm font-medium text-gray-800 dark:text-gray-100">
-                {node.label || preview.title}
+                {node.label || node.autoLabel || preview.title}
               </div>
-              <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
-                {preview.subtitle}
+              <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5 line-clamp-2">
+                {node.branchSummary?.content || preview.subtitle}
               </div>
             </button>
           );
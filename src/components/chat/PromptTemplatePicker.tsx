@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import type { PromptTemplate } from '../../types';
+import { extractTemplateVariables, getTemplateCommand } from '../../utils/promptTemplates';
+
+interface PromptTemplatePickerProps {
+  templates: PromptTemplate[];
+  highlightedIndex: number;
+  onSelect: (template: PromptTemplate) => void;
+  onHighlight: (index: number) => void;
+}
+
+export function PromptTemplatePicker({
+  templates,
+  highlightedIndex,
+  onSelect,
+  onHighlight,
+}: PromptTemplatePickerProps) {
+  return (
+    <div
+      className="absolute bottom-full left-0 right-0 mb-2 max-h-64 overflow-y-auto rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 shadow-lg"
+      role="listbox"
+      data-testid="template-picker"
+    >
+      {templates.map((template, index) => (
+        <button
+          key={template.id}
+          type="button"
+          role="option"
+          aria-selected={index === highlightedIndex}
+          // Keep focus in the textarea so keyboard navigation continues to work.
+          onMouseDown={(event) => event.preventDefault()}
+          onMouseEnter={() => onHighlight(index)}
+          onClick={() => onSelect(template)}
+          data-testid="template-option"
+          className={`w-full px-3 py-2 text-left flex items-baseline gap-2 ${
+            index === highlightedIndex ? 'bg-blue-50 dark:bg-blue-500/20' : ''
+          }`}
+        >
+          <span className="text-sm font-medium text-gray-800 dark:text-gray-100">
+            /{getTemplateCommand(template.name)}
+          </span>
+          <span className="text-xs text-gray-500 dark:text-gray-400 truncate">
+            {template.description || template.name}
+          </span>
+          {(template.mcpPrompt || template.scopeType === 'project') && (
+            <span className="ml-auto text-[10px] uppercase tracking-wide text-gray-400">
+              {template.mcpPrompt ? 'MCP' : 'Project'}
+            </span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface TemplateVariableFormProps {
+  template: PromptTemplate;
+  onSubmit: (values: Record<string, string>) => void;
+  onCancel: () => void;
+}
+
+export function TemplateVariableForm({ template, onSubmit, onCancel }: TemplateVariableFormProps) {
+  const variables = extractTemplateVariables(template.content);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  return (
+    <div
+      className="max-w-4xl mx-auto mb-3 rounded-xl border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 p-3 space-y-2"
+      data-testid="template-variable-form"
+    >
+      <div className="text-sm font-medium text-gray-700 dark:text-gray-200">{template.name}</div>
+      {variables.map((name, index) => (
+        <label key={name} className="block">
+          <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{name}</span>
+          <textarea
+            value={values[name] ?? ''}
+            autoFocus={index === 0}
+            rows={1}
+            onChange={(event) => setValues((prev) => ({ ...prev, [name]: event.target.value }))}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter' && (event.metaKey || event.ctrlKey)) {
+                event.preventDefault();
+                onSubmit(values);
+              } else if (event.key === 'Escape') {
+                onCancel();
+              }
+            }}
+            data-testid="template-variable"
+            data-variable={name}
+            className="w-full px-3 py-1.5 text-sm border border-gray-200 dark:border-gray-700 rounded-lg resize-y focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-100"
+          />
+        </label>
+      ))}
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1.5 text-xs text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => onSubmit(values)}
+          data-testid="apply-template"
+          className="px-3 py-1.5 text-xs bg-blue-500 text-white rounded-lg hover:bg-blue-600"
+        >
+          Insert
+        </button>
+      </div>
+    </div>
+  );
+}
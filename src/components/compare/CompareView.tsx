@@ -0,0 +1,274 @@
+import { useMemo } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { useStore } from '../../store';
+import type { ConversationNode, Message, NodeId } from '../../types';
+import { alignBranches } from '../../utils/graph';
+import { diffWords, type DiffSegment } from '../../utils/textDiff';
+import { estimateTokensFromText } from '../../utils/tokenBudget';
+import { getNodeLabel } from '../../utils/nodeLabels';
+
+interface ComparedBranch {
+  leafId: NodeId;
+  label: string;
+  prompts: Message[];
+  reply: Message | null;
+  model?: string;
+}
+
+export function CompareView() {
+  const {
+    compareNodeIds,
+    nodes,
+    conversations,
+    activeConversationId,
+    reverseAdjacencyList,
+    compareNodes,
+    setActiveNode,
+    setViewMode,
+  } = useStore(
+    useShallow((state) => ({
+      compareNodeIds: state.compareNodeIds,
+      nodes: state.nodes,
+      conversations: state.conversations,
+      activeConversationId: state.activeConversationId,
+      reverseAdjacencyList: state.reverseAdjacencyList,
+      compareNodes: state.compareNodes,
+      setActiveNode: state.setActiveNode,
+      setViewMode: state.setViewMode,
+    }))
+  );
+
+  const conversation = activeConversationId ? conversations.get(activeConversationId) : null;
+  const leafIds = useMemo(
+    () =>
+      compareNodeIds.filter((id) => {
+        const node = nodes.get(id);
+        return node && !node.isReply && node.conversationId === activeConversationId;
+      }),
+    [compareNodeIds, nodes, activeConversationId]
+  );
+
+  const comparison = useMemo(() => {
+    if (!conversation || leafIds.length < 2) return null;
+    const alignment = alignBranches(
+      leafIds,
+      conversation.rootNodeId,
+      reverseAdjacencyList,
+      nodes
+    );
+
+    const branches = alignment.branches.map((branch): ComparedBranch => {
+      const divergentMessages = collectMessages(branch.divergentPath, nodes);
+      const reply =
+        findLast(divergentMessages, (message) => message.role === 'assistant') ??
+        findLast(collectMessages(branch.path, nodes), (message) => message.role === 'assistant');
+      const leaf = nodes.get(branch.leafId);
+      return {
+        leafId: branch.leafId,
+        label: leaf ? getNodeLabel(leaf) : `Node ${branch.leafId.slice(0, 6)}`,
+        prompts: divergentMessages.filter((message) => message.role === 'user'),
+        reply,
+        model: reply?.model || leaf?.model,
+      };
+    });
+
+    const ancestor = alignment.commonAncestorId ? nodes.get(alignment.commonAncestorId) : null;
+    return {
+      ancestorLabel: ancestor ? getNodeLabel(ancestor) : null,
+      sharedNodeCount: alignment.sharedPath.length,
+      branches,
+    };
+  }, [conversation, leafIds, reverseAdjacencyList, nodes]);
+
+  const handleOpen = (nodeId: NodeId) => {
+    setActiveNode(nodeId);
+    setViewMode('chat');
+  };
+
+  const handleSetBaseline = (nodeId: NodeId) => {
+    compareNodes([nodeId, ...leafIds.filter((id) => id !== nodeId)]);
+  };
+
+  if (!comparison) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <div className="text-center p-8 max-w-md">
+          <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-100 mb-2">
+            Nothing to compare
+          </h2>
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            Select two or more branch nodes in the graph (Shift+click) and choose
+            &quot;Compare Selected&quot;.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  // Replies are diffed against the baseline once both are complete, not on every delta
+  const baseline = comparison.branches[0].reply;
+  const diffBaseline = baseline && !baseline.isStreaming ? baseline.content : null;
+
+  return (
+    <div className="h-full flex flex-col" data-testid="compare-view">
+      <div className="border-b border-gray-100 dark:border-gray-800 px-4 py-2 text-sm text-gray-500 dark:text-gray-400 bg-white dark:bg-gray-900">
+        {comparison.ancestorLabel
+          ? `Diverges after ${comparison.ancestorLabel} (${comparison.sharedNodeCount} shared node${
+              comparison.sharedNodeCount === 1 ? '' : 's'
+            })`
+          : 'Branches share no common ancestor'}
+        <span className="ml-2 text-xs">
+          Differences are shown against {comparison.branches[0].label}.
+        </span>
+      </div>
+      <div className="flex-1 overflow-auto">
+        <div
+          className="grid gap-4 p-4 min-w-max"
+          style={{
+            gridTemplateColumns: `repeat(${comparison.branches.length}, minmax(20rem, 1fr))`,
+          }}
+        >
+          {comparison.branches.map((branch, index) => (
+            <section
+              key={branch.leafId}
+              className="flex flex-col rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900"
+              data-testid="compare-column"
+            >
+              <header className="px-3 py-2 border-b border-gray-100 dark:border-gray-800 flex items-center justify-between gap-2">
+                <div className="text-sm font-medium text-gray-800 dark:text-gray-100 truncate">
+                  {branch.label}
+                  {index === 0 && (
+                    <span className="ml-2 text-[10px] uppercase tracking-wide px-1.5 py-0.5 rounded bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-200">
+                      Baseline
+                    </span>
+                  )}
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  {index > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => handleSetBaseline(branch.leafId)}
+                      className="text-xs px-2 py-1 rounded text-gray-500 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-800"
+                    >
+                      Set baseline
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => handleOpen(branch.leafId)}
+                    className="text-xs px-2 py-1 rounded text-blue-600 hover:bg-blue-50 dark:text-blue-300 dark:hover:bg-gray-800"
+                  >
+                    Open
+                  </button>
+                </div>
+              </header>
+              <BranchMetadata branch={branch} />
+              {branch.prompts.length > 0 && (
+                <div className="px-3 py-2 border-b border-gray-100 dark:border-gray-800 space-y-1">
+                  {branch.prompts.map((prompt) => (
+                    <div
+                      key={prompt.id}
+                      className="text-xs text-gray-600 dark:text-gray-300 whitespace-pre-wrap line-clamp-4"
+                    >
+                      <span className="font-medium">Prompt:</span> {prompt.content}
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="px-3 py-3 text-sm text-gray-800 dark:text-gray-100 whitespace-pre-wrap break-words">
+                {!branch.reply ? (
+                  <span className="text-gray-400 italic">No assistant reply yet.</span>
+                ) : index > 0 && diffBaseline !== null && !branch.reply.isStreaming ? (
+                  <ReplyDiff baseline={diffBaseline} text={branch.reply.content} />
+                ) : (
+                  branch.reply.content
+                )}
+              </div>
+            </section>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function BranchMetadata({ branch }: { branch: ComparedBranch }) {
+  const reply = branch.reply;
+  const tokens = reply
+    ? reply.tokenCount ?? estimateTokensFromText(reply.content)
+    : null;
+  const items: Array<[string, string]> = [
+    ['Model', branch.model || '—'],
+    [
+      'Tokens',
+      tokens === null
+        ? '—'
+        : `${reply?.tokenCount === undefined ? '~' : ''}${tokens.toLocaleString()}`,
+    ],
+    ['Finish', reply?.finishReason || '—'],
+    [
+      'Latency',
+      typeof reply?.latencyMs === 'number' ? `${(reply.latencyMs / 1000).toFixed(1)} s` : '—',
+    ],
+  ];
+
+  return (
+    <dl className="px-3 py-2 grid grid-cols-2 gap-x-3 gap-y-1 text-xs border-b border-gray-100 dark:border-gray-800">
+      {items.map(([label, value]) => (
+        <div key={label} className="flex gap-1 min-w-0">
+          <dt className="text-gray-400 dark:text-gray-500">{label}</dt>
+          <dd className="text-gray-700 dark:text-gray-200 truncate" title={value}>
+            {value}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+// Diffing is the expensive part, so it only reruns when one of the two texts changes
+function ReplyDiff({ baseline, text }: { baseline: string; text: string }) {
+  const segments = useMemo(() => diffWords(baseline, text), [baseline, text]);
+  return <DiffText segments={segments} />;
+}
+
+function DiffText({ segments }: { segments: DiffSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.op === 'equal' ? (
+          <span key={index}>{segment.value}</span>
+        ) : segment.op === 'added' ? (
+          <ins
+            key={index}
+            className="no-underline bg-green-100 text-green-900 dark:bg-green-900/40 dark:text-green-100"
+          >
+            {segment.value}
+          </ins>
+        ) : (
+          <del
+            key={index}
+            className="bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200"
+          >
+            {segment.value}
+          </del>
+        )
+      )}
+    </>
+  );
+}
+
+function collectMessages(nodeIds: NodeId[], nodes: Map<NodeId, ConversationNode>): Message[] {
+  return nodeIds.flatMap((id) =>
+    (nodes.get(id)?.messages ?? []).filter(
+      (message) => !message.isAttachmentContext && !message.isCustomInstruction
+    )
+  );
+}
+
+function findLast<T>(items: T[], predicate: (item: T) => boolean): T | null {
+  for (let index = items.length - 1; index >= 0; index--) {
+    if (predicate(items[index])) return items[index];
+  }
+  return null;
+}
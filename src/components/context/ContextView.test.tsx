@@ -70,4 +70,49 @@ describe('ContextView', () => {
     expect(screen.getByText('attachment')).toBeInTheDocument();
     expect(screen.getByText('Hello')).toBeInTheDocument();
   });
+
+  it('shows the source parent of merged branch messages', () => {
+    const makeNode = (
+      id: string,
+      content: string,
+      createdAt: number,
+      overrides: Partial<ConversationNode> = {}
+    ): ConversationNode => ({
+      id,
+      conversationId: 'c1',
+      messages: [
+        { id: `m-${id}`, nodeId: id, role: 'user', content, createdAt, isStreaming: false },
+      ],
+      position: { x: 0, y: 0 },
+      status: 'idle',
+      createdAt,
+      updatedAt: createdAt,
+      isCollapsed: false,
+      ...overrides,
+    });
+
+    useStore.setState({
+      nodes: new Map([
+        ['n1', makeNode('n1', 'Root question', 1)],
+        ['a', makeNode('a', 'Approach A', 2, { label: 'Branch A', parentNodeId: 'n1' })],
+        ['b', makeNode('b', 'Approach B', 3, { label: 'Branch B', parentNodeId: 'n1' })],
+        [
+          'merge',
+          makeNode('merge', 'Reconcile', 4, {
+            parentNodeId: 'a',
+            isMerge: true,
+            mergeStrategy: 'concatenate',
+          }),
+        ],
+      ]),
+      activeNodeId: 'merge',
+      adjacencyList: { n1: ['a', 'b'], a: ['merge'], b: ['merge'] },
+      reverseAdjacencyList: { a: ['n1'], b: ['n1'], merge: ['a', 'b'] },
+    });
+
+    render(<ContextView />);
+    const sources = screen.getAllByTestId('context-source-parent').map((el) => el.textContent);
+    expect(sources).toEqual(['via Branch A', 'via Branch B']);
+    expect(screen.getByText('Reconcile')).toBeInTheDocument();
+  });
 });
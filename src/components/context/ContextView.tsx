@@ -1,12 +1,22 @@
 import { useEffect, useMemo, useState } from 'react';
 import { useShallow } from 'zustand/react/shallow';
 import { MarkdownRenderer } from '../shared/MarkdownRenderer';
+import { ToolArtifactList } from '../shared/ToolArtifactList';
 import { useStore } from '../../store';
-import type { NodeId, MemoryItem } from '../../types';
+import type {
+  NodeId,
+  MemoryItem,
+  ToolApprovalDecision,
+  ToolApprovalRecord,
+  ToolTraceProgress,
+} from '../../types';
 import { computeContext } from '../../utils/graph';
 import { SummaryBlock } from '../shared/SummaryBlock';
 import { normalizeAttachmentProcessingSettings } from '../../utils/attachments';
-import { estimateContextExtraTokens } from '../../utils/tokenBudget';
+import {
+  estimateContextExtraTokens,
+  estimateReasoningTokens,
+} from '../../utils/tokenBudget';
 import {
   deleteRagChunksForScope,
   loadRagScopeEmbeddingStats,
@@ -15,6 +25,35 @@ import {
   updateMemory,
   deleteMemory as deleteMemoryRecord,
 } from '../../db';
+import { getNodeLabel } from '../../utils/nodeLabels';
+import { resolveToolSettings } from '../../utils/tools';
+import { McpResourceBrowser } from './McpResourceBrowser';
+
+const APPROVAL_DECISION_LABELS: Record<ToolApprovalDecision, string> = {
+  'allow-once': 'allowed once',
+  'allow-conversation': 'allowed for this chat',
+  'allow-always': 'always allowed',
+  'deny-once': 'denied',
+  'deny-always': 'always denied',
+};
+
+function describeToolProgress(progress: ToolTraceProgress) {
+  const amount = progress.total
+    ? `${Math.round((progress.progress / progress.total) * 100)}%`
+    : String(progress.progress);
+  return `progress: ${amount}${progress.message ? ` · ${progress.message}` : ''}`;
+}
+
+function describeToolApproval(approval: ToolApprovalRecord) {
+  const time = new Date(approval.decidedAt).toLocaleTimeString();
+  if (approval.decidedBy === 'user' && approval.decision) {
+    return `approval: ${APPROVAL_DECISION_LABELS[approval.decision]} by you at ${time}`;
+  }
+  if (approval.decidedBy === 'rule') {
+    return `approval: ${approval.allowed ? 'allowed' : 'denied'} by a saved rule`;
+  }
+  return 'approval: not required';
+}
 
 export function ContextView() {
   const {
@@ -144,7 +183,7 @@ export function ContextView() {
   const nodeLabels = useMemo(() => {
     const map = new Map<string, string>();
     context?.nodes.forEach((node) => {
-      map.set(node.id, node.label || `Node ${node.id.slice(0, 6)}`);
+      map.set(node.id, getNodeLabel(node));
     });
     return map;
   }, [context?.nodes]);
@@ -166,6 +205,11 @@ export function ContextView() {
     return Array.from(attachments.values());
   }, [baseContext]);
 
+  const reasoningTokens = useMemo(
+    () => estimateReasoningTokens(baseContext?.nodes.flatMap((node) => node.messages) ?? []),
+    [baseContext]
+  );
+
   const resolvedModelId = (() => {
     if (!activeNode) return selectedModel;
     const conversation = conversations.get(activeNode.conversationId);
@@ -183,7 +227,11 @@ export function ContextView() {
     ? memoryRetrievalByConversation[activeConversation.id] || null
     : null;
   const extraTokens = estimateContextExtraTokens({
-    toolSettings,
+    toolSettings: resolveToolSettings(
+      toolSettings,
+      project?.toolPolicy,
+      activeConversation?.toolPolicy
+    ),
     memorySettings,
     memoryPreview: memoryRetrieval,
   });
@@ -430,6 +478,12 @@ export function ContextView() {
               Model: {resolvedModelInfo.name}
             </span>
           )}
+          {activeNode?.isMerge && (
+            <span className="text-purple-600 dark:text-purple-300">
+              Merge: {activeNode.mergeStrategy ?? 'interleave'} (
+              {(reverseAdjacencyList[activeNode.id] || []).length} parents)
+            </span>
+          )}
         </div>
         <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
           Base {tokenBaseEstimate.toLocaleString()} + tools {extraTokens.tools.total.toLocaleString()} + memory {extraTokens.memory.total.toLocaleString()}
@@ -535,6 +589,7 @@ export function ContextView() {
             topK={attachmentProcessing.retrievalTopK}, chunk={attachmentProcessing.chunkSize}, overlap={attachmentProcessing.chunkOverlap}
           </div>
         </div>
+        <McpResourceBrowser draftNodeId={leafNodeId} />
         <div className="mt-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 px-3 py-2">
           <div className="flex items-center justify-between">
             <div className="text-xs font-medium text-gray-600 dark:text-gray-300">
@@ -576,6 +631,14 @@ export function ContextView() {
                         </span>
                       )}
                     </div>
+                    {entry.status === 'started' && entry.progress && (
+                      <div
+                        className="mt-1 text-[11px] text-blue-600 dark:text-blue-400 break-words"
+                        data-testid="tool-trace-progress"
+                      >
+                        {describeToolProgress(entry.progress)}
+                      </div>
+                    )}
                     {entry.inputPreview && (
                       <div className="mt-1 text-[11px] text-gray-500 dark:text-gray-400 break-words">
                         args: {entry.inputPreview}
@@ -586,11 +649,20 @@ export function ContextView() {
                         result: {entry.outputPreview}
                       </div>
                     )}
+                    {entry.artifacts && <ToolArtifactList artifacts={entry.artifacts} compact />}
                     {entry.error && (
                       <div className="mt-1 text-[11px] text-red-600 dark:text-red-400 break-words">
                         error: {entry.error}
                       </div>
                     )}
+                    {entry.approval && (
+                      <div
+                        className="mt-1 text-[11px] text-gray-500 dark:text-gray-400"
+                        data-testid="tool-trace-approval"
+                      >
+                        {describeToolApproval(entry.approval)}
+                      </div>
+                    )}
                   </div>
                 ))}
             </div>
@@ -711,6 +783,16 @@ export function ContextView() {
               Project attachment context ({project?.attachments?.length ?? 0})
             </label>
           )}
+          {reasoningTokens > 0 && (
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={contextSettings.includeReasoning ?? false}
+                onChange={(e) => handleToggleSetting('includeReasoning', e.target.checked)}
+              />
+              Reasoning traces (~{reasoningTokens.toLocaleString()} tokens)
+            </label>
+          )}
         </div>
 
         {selectionNodes.length > 0 && (
@@ -726,7 +808,7 @@ export function ContextView() {
                     checked={!excludedNodeIds.has(node.id)}
                     onChange={() => handleToggleNode(node.id)}
                   />
-                  <span>{node.label || `Node ${node.id.slice(0, 6)}`}</span>
+                  <span>{getNodeLabel(node)}</span>
                 </label>
               ))}
             </div>
@@ -774,9 +856,11 @@ export function ContextView() {
               const roleLabel =
                 message.role === 'system' && message.isAttachmentContext
                   ? 'attachment'
-                  : message.role === 'assistant'
-                    ? message.model || 'assistant'
-                    : message.role;
+                  : message.role === 'system' && message.isMergeSummary
+                    ? 'branch summary'
+                    : message.role === 'assistant'
+                      ? message.model || 'assistant'
+                      : message.role;
 
               return (
                 <div
@@ -789,6 +873,16 @@ export function ContextView() {
                     </span>
                     <span>·</span>
                     <span>{label}</span>
+                    {message.sourceParentId && (
+                      <span
+                        className="px-2 py-0.5 rounded-full border border-purple-300 text-[10px] text-purple-600 dark:border-purple-500/40 dark:text-purple-300"
+                        data-testid="context-source-parent"
+                      >
+                        via{' '}
+                        {nodeLabels.get(message.sourceParentId) ||
+                          `Node ${message.sourceParentId.slice(0, 6)}`}
+                      </span>
+                    )}
                   </div>
                   <MarkdownRenderer
                     className="prose prose-sm max-w-none text-gray-800 dark:text-gray-100 dark:prose-invert"
@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { useStore } from '../../store';
+import type { NodeId } from '../../types';
+import type { McpResourceDescriptor } from '../../tools/mcpClient';
+import { createMcpResourceAttachment, listMcpResources } from '../../tools/mcpResources';
+import { formatFileSize } from '../../utils/files';
+
+interface McpResourceBrowserProps {
+  draftNodeId: NodeId | null;
+}
+
+/**
+ * Lists resources of the configured MCP servers. Attaching one adds it to the
+ * chat draft, where it is processed like a file when the message is sent.
+ */
+export function McpResourceBrowser({ draftNodeId }: McpResourceBrowserProps) {
+  const { toolSettings, chatDrafts, setChatDraft, addToast } = useStore(
+    useShallow((state) => ({
+      toolSettings: state.toolSettings,
+      chatDrafts: state.chatDrafts,
+      setChatDraft: state.setChatDraft,
+      addToast: state.addToast,
+    }))
+  );
+  const servers = toolSettings.mcp.enabled
+    ? toolSettings.mcp.servers.filter((server) => server.enabled && server.url.trim())
+    : [];
+  const [selectedServerId, setSelectedServerId] = useState<string | null>(null);
+  const [resources, setResources] = useState<McpResourceDescriptor[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const server = servers.find((entry) => entry.id === selectedServerId) ?? servers[0];
+  const draft = draftNodeId ? chatDrafts[draftNodeId] : undefined;
+  const attachedUris = new Set(
+    (draft?.attachments ?? [])
+      .filter((attachment) => attachment.mcpResource?.serverId === server?.id)
+      .map((attachment) => attachment.mcpResource?.uri)
+  );
+
+  if (servers.length === 0 || !server) return null;
+
+  const handleLoad = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setResources(await listMcpResources(server));
+    } catch (loadError) {
+      setResources(null);
+      setError(loadError instanceof Error ? loadError.message : 'Failed to list resources.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAttach = (resource: McpResourceDescriptor) => {
+    if (!draftNodeId) return;
+    setChatDraft(draftNodeId, {
+      content: draft?.content ?? '',
+      attachments: [
+        ...(draft?.attachments ?? []),
+        createMcpResourceAttachment(server.id, resource),
+      ],
+    });
+    addToast({
+      type: 'success',
+      title: 'Resource attached',
+      message: `${resource.name} will be sent with your next message.`,
+    });
+  };
+
+  return (
+    <div
+      className="mt-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 px-3 py-2"
+      data-testid="mcp-resource-browser"
+    >
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-xs font-medium text-gray-600 dark:text-gray-300">MCP Resources</div>
+        <div className="flex items-center gap-2">
+          {servers.length > 1 && (
+            <select
+              value={server.id}
+              onChange={(event) => {
+                setSelectedServerId(event.target.value);
+                setResources(null);
+                setError(null);
+              }}
+              className="px-2 py-1 text-xs border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-200"
+            >
+              {servers.map((entry) => (
+                <option key={entry.id} value={entry.id}>
+                  {entry.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <button
+            type="button"
+            onClick={handleLoad}
+            disabled={loading}
+            data-testid="mcp-resources-load"
+            className="px-2 py-1 text-xs rounded-md border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 disabled:opacity-50"
+          >
+            {loading ? 'Loading...' : resources ? 'Refresh' : 'Browse'}
+          </button>
+        </div>
+      </div>
+      {error && (
+        <div className="mt-1 text-xs text-red-600 dark:text-red-400 break-words">{error}</div>
+      )}
+      {resources && resources.length === 0 && (
+        <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          {server.name} has no resources.
+        </div>
+      )}
+      {resources && resources.length > 0 && (
+        <ul className="mt-2 space-y-1 max-h-44 overflow-y-auto">
+          {resources.map((resource) => (
+            <li
+              key={resource.uri}
+              className="flex items-center gap-2 text-xs"
+              data-testid="mcp-resource"
+            >
+              <div className="min-w-0 flex-1">
+                <div className="truncate text-gray-700 dark:text-gray-200" title={resource.uri}>
+                  {resource.name}
+                </div>
+                <div className="truncate text-[11px] text-gray-400 dark:text-gray-500">
+                  {[resource.mimeType, resource.size ? formatFileSize(resource.size) : null]
+                    .filter(Boolean)
+                    .join(' · ') || resource.uri}
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleAttach(resource)}
+                disabled={!draftNodeId || attachedUris.has(resource.uri)}
+                data-testid="mcp-resource-attach"
+                className="shrink-0 px-2 py-0.5 rounded-md text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-500/10 disabled:text-gray-400 disabled:hover:bg-transparent"
+              >
+                {attachedUris.has(resource.uri) ? 'Attached' : 'Attach'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,9 @@ import { memo } from 'react';
 import { Handle, Position } from '@xyflow/react';
 import { useStore } from '../../store';
 import type { ConversationNode as ConversationNodeType, Message } from '../../types';
+import { formatUsd, summarizeMessageUsage } from '../../utils/usage';
+import { getNodeLabel } from '../../utils/nodeLabels';
+import { TagList } from '../shared/TagList';
 
 interface ConversationNodeProps {
   data: {
@@ -27,6 +30,7 @@ function ConversationNodeComponent({ data, selected }: ConversationNodeProps) {
   // Get preview of messages
   const userMessage = node.messages.find((m: Message) => m.role === 'user');
   const assistantMessage = node.messages.find((m: Message) => m.role === 'assistant');
+  const usage = summarizeMessageUsage(node.messages);
 
   const handleClick = () => {
     setActiveNode(node.id);
@@ -65,7 +69,15 @@ function ConversationNodeComponent({ data, selected }: ConversationNodeProps) {
       {/* Header */}
       <div className="px-3 py-2 border-b border-gray-100 dark:border-gray-800 flex items-center justify-between gap-2">
         <span className="text-xs font-medium text-gray-500 dark:text-gray-400">
-          {node.label || `Node ${node.id.slice(0, 6)}`}
+          {getNodeLabel(node)}
+          {node.isMerge && (
+            <span
+              className="ml-2 px-1.5 py-0.5 rounded-full border border-purple-300 text-[10px] text-purple-600 dark:border-purple-500/40 dark:text-purple-300"
+              title={`Merges all parent branches (${node.mergeStrategy ?? 'interleave'})`}
+            >
+              Merge · {node.mergeStrategy ?? 'interleave'}
+            </span>
+          )}
         </span>
         <button
           type="button"
@@ -108,6 +120,12 @@ function ConversationNodeComponent({ data, selected }: ConversationNodeProps) {
         )}
       </div>
 
+      {node.tags && node.tags.length > 0 && (
+        <div className="px-3 pt-2">
+          <TagList tags={node.tags} />
+        </div>
+      )}
+
       {/* Content */}
       <div className="p-3 space-y-2">
         {node.messages.length === 0 ? (
@@ -134,11 +152,28 @@ function ConversationNodeComponent({ data, selected }: ConversationNodeProps) {
             )}
           </>
         )}
+        {node.branchSummary && (
+          <p
+            className="pt-2 border-t border-gray-100 dark:border-gray-800 text-xs text-gray-500 dark:text-gray-400 line-clamp-3"
+            title={node.branchSummary.content}
+            data-testid="branch-summary"
+          >
+            {node.branchSummary.content}
+          </p>
+        )}
       </div>
 
       {/* Footer */}
       <div className="px-3 py-1.5 bg-gray-50 dark:bg-gray-800 rounded-b-lg flex items-center justify-between text-xs text-gray-400 dark:text-gray-500">
         <span>{node.messages.length} messages</span>
+        {usage.replyCount > 0 && (
+          <span
+            className="tabular-nums"
+            title={`${usage.promptTokens.toLocaleString()} prompt + ${usage.completionTokens.toLocaleString()} completion tokens`}
+          >
+            {usage.totalTokens.toLocaleString()} tok · {formatUsd(usage.costUsd)}
+          </span>
+        )}
         <span>{new Date(node.createdAt).toLocaleTimeString()}</span>
       </div>
 
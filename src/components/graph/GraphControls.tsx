@@ -1,6 +1,17 @@
 import { useStore } from '../../store';
+import type { MergeStrategy } from '../../types';
 
-export function GraphControls() {
+interface GraphControlsProps {
+  selectedNodeIds?: string[];
+}
+
+const MERGE_STRATEGY_LABELS: Record<MergeStrategy, string> = {
+  interleave: 'Interleave by time',
+  concatenate: 'Concatenate branches',
+  summarize: 'Summarize branches',
+};
+
+export function GraphControls({ selectedNodeIds = [] }: GraphControlsProps) {
   const autoLayoutNodes = useStore((state) => state.autoLayoutNodes);
   const activeNodeId = useStore((state) => state.activeNodeId);
   const nodes = useStore((state) => state.nodes);
@@ -8,6 +19,10 @@ export function GraphControls() {
   const setActiveNode = useStore((state) => state.setActiveNode);
   const deleteNode = useStore((state) => state.deleteNode);
   const conversations = useStore((state) => state.conversations);
+  const reverseAdjacencyList = useStore((state) => state.reverseAdjacencyList);
+  const createMergeNode = useStore((state) => state.createMergeNode);
+  const updateNode = useStore((state) => state.updateNode);
+  const compareNodes = useStore((state) => state.compareNodes);
 
   const activeNode = activeNodeId ? nodes.get(activeNodeId) : null;
   const activeConversation = activeNode
@@ -17,6 +32,17 @@ export function GraphControls() {
     Boolean(activeNodeId) &&
     Boolean(activeConversation) &&
     activeConversation?.rootNodeId !== activeNodeId;
+  const mergeCandidates = selectedNodeIds.filter((id) => {
+    const node = nodes.get(id);
+    return node && !node.isReply && node.conversationId === activeNode?.conversationId;
+  });
+  const canMerge = mergeCandidates.length >= 2;
+  const compareCandidates = selectedNodeIds.filter((id) => {
+    const node = nodes.get(id);
+    return node && !node.isReply;
+  });
+  const parentCount = activeNodeId ? (reverseAdjacencyList[activeNodeId] || []).length : 0;
+  const showMergeStrategy = Boolean(activeNode) && (activeNode?.isMerge || parentCount > 1);
 
   const handleAutoLayout = () => {
     autoLayoutNodes();
@@ -28,6 +54,23 @@ export function GraphControls() {
     setActiveNode(newNodeId);
   };
 
+  const handleMergeSelected = () => {
+    if (!activeNode || !canMerge) return;
+    const newNodeId = createMergeNode(activeNode.conversationId, mergeCandidates);
+    if (newNodeId) {
+      setActiveNode(newNodeId);
+    }
+  };
+
+  const handleMergeStrategyChange = (value: string) => {
+    if (!activeNodeId) return;
+    if (value === 'path') {
+      updateNode(activeNodeId, { isMerge: false });
+      return;
+    }
+    updateNode(activeNodeId, { isMerge: true, mergeStrategy: value as MergeStrategy });
+  };
+
   return (
     <div className="absolute top-4 right-4 flex flex-col gap-2 z-10">
       <button
@@ -64,6 +107,62 @@ export function GraphControls() {
         </button>
       )}
 
+      {canMerge && (
+        <button
+          onClick={handleMergeSelected}
+          className="px-3 py-2 bg-purple-500 text-white rounded-lg shadow-sm hover:bg-purple-600 text-sm font-medium flex items-center gap-2"
+          title="Create a merge node from the selected nodes"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 4v4a4 4 0 004 4h4a4 4 0 004-4V4M12 12v8"
+            />
+          </svg>
+          Merge Selected ({mergeCandidates.length})
+        </button>
+      )}
+
+      {compareCandidates.length >= 2 && (
+        <button
+          onClick={() => compareNodes(compareCandidates)}
+          className="px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg shadow-sm hover:bg-gray-50 dark:hover:bg-gray-800 text-sm font-medium text-gray-700 dark:text-gray-200 flex items-center gap-2"
+          title="Compare the selected branches side by side"
+          data-testid="compare-selected"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2"
+            />
+          </svg>
+          Compare Selected ({compareCandidates.length})
+        </button>
+      )}
+
+      {showMergeStrategy && (
+        <label className="px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg shadow-sm text-xs text-gray-600 dark:text-gray-300 flex flex-col gap-1">
+          <span className="font-medium">Parent context</span>
+          <select
+            value={activeNode?.isMerge ? activeNode.mergeStrategy ?? 'interleave' : 'path'}
+            onChange={(event) => handleMergeStrategyChange(event.target.value)}
+            className="px-2 py-1 rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-sm text-gray-700 dark:text-gray-200"
+            data-testid="merge-strategy"
+          >
+            <option value="path">Primary path only</option>
+            {(Object.keys(MERGE_STRATEGY_LABELS) as MergeStrategy[]).map((strategy) => (
+              <option key={strategy} value={strategy}>
+                {MERGE_STRATEGY_LABELS[strategy]}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
       {activeNode && (
         <button
           onClick={() => {
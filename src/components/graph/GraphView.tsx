@@ -1,4 +1,4 @@
-import { useCallback, useMemo, useEffect } from 'react';
+import { useCallback, useMemo, useEffect, useState } from 'react';
 import {
   ReactFlow,
   Background,
@@ -10,6 +10,8 @@ import {
   type Connection,
   type Edge,
   type Node,
+  type OnSelectionChangeParams,
+  type ReactFlowInstance,
   BackgroundVariant,
 } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
@@ -21,6 +23,7 @@ import type { ContextSettings } from '../../types';
 import type { ConversationNode as ConversationNodeType } from '../../types';
 import { ContextItemNode } from './ContextItemNode';
 import { estimateContextExtraTokens } from '../../utils/tokenBudget';
+import { resolveToolSettings } from '../../utils/tools';
 
 interface ConversationNodeData {
   node: ConversationNodeType;
@@ -50,6 +53,12 @@ export function GraphView() {
   const canCreateEdge = useStore((state) => state.canCreateEdge);
   const autoLayoutNodes = useStore((state) => state.autoLayoutNodes);
   const theme = useStore((state) => state.theme);
+  const graphFocusNodeId = useStore((state) => state.graphFocusNodeId);
+  const setGraphFocusNode = useStore((state) => state.setGraphFocusNode);
+  const [selectedNodeIds, setSelectedNodeIds] = useState<string[]>([]);
+  const [flowInstance, setFlowInstance] = useState<ReactFlowInstance | null>(null);
+  // Opened to show one node: skip fitting the whole graph first
+  const [fitOnInit] = useState(() => !useStore.getState().graphFocusNodeId);
 
   // Convert store nodes to React Flow nodes
   const baseNodes = useMemo(() => {
@@ -100,8 +109,13 @@ export function GraphView() {
       ? projects.get(conversation.projectId) || null
       : null;
     const memoryPreview = memoryRetrievalByConversation[conversation.id] || null;
-    const extraTokens = estimateContextExtraTokens({
+    const effectiveToolSettings = resolveToolSettings(
       toolSettings,
+      project?.toolPolicy,
+      conversation.toolPolicy
+    );
+    const extraTokens = estimateContextExtraTokens({
+      toolSettings: effectiveToolSettings,
       memorySettings,
       memoryPreview,
     });
@@ -200,7 +214,7 @@ export function GraphView() {
       });
     }
 
-    if (toolSettings.enabled) {
+    if (effectiveToolSettings.enabled) {
       items.push({
         id: 'tools-overhead',
         title: 'Tools / MCP',
@@ -270,7 +284,7 @@ export function GraphView() {
     const conversation = conversations.get(activeConversationId);
     if (!conversation) return [];
     const rootId = conversation.rootNodeId;
-    return contextNodes.map((node) => ({
+    return contextNodes.map((node): Edge => ({
       id: `edge:${node.id}:${rootId}`,
       source: node.id,
       target: rootId,
@@ -312,6 +326,30 @@ export function GraphView() {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [activeConversationId]); // Only on conversation change
 
+  // Center on a node asked for from elsewhere, once its conversation is shown
+  useEffect(() => {
+    if (!graphFocusNodeId || !flowInstance) return;
+    const node = storeNodes.get(graphFocusNodeId);
+    if (!node || node.conversationId !== activeConversationId) return;
+    const measured = flowInstance.getNode(node.id)?.measured;
+    void flowInstance.setCenter(
+      node.position.x + (measured?.width ?? 0) / 2,
+      node.position.y + (measured?.height ?? 0) / 2,
+      { zoom: Math.max(flowInstance.getZoom(), 1), duration: 300 }
+    );
+    setNodes((current) =>
+      current.map((entry) => ({ ...entry, selected: entry.id === node.id }))
+    );
+    setGraphFocusNode(null);
+  }, [
+    graphFocusNodeId,
+    flowInstance,
+    storeNodes,
+    activeConversationId,
+    setNodes,
+    setGraphFocusNode,
+  ]);
+
   // Handle node drag end - update position in store
   const onNodeDragStop = useCallback(
     (_: React.MouseEvent, node: Node) => {
@@ -353,6 +391,13 @@ export function GraphView() {
     [canCreateEdge, createEdge, setEdges]
   );
 
+  // Track multi-selection for merge node creation
+  const onSelectionChange = useCallback(({ nodes: selected }: OnSelectionChangeParams) => {
+    setSelectedNodeIds(
+      selected.filter((node) => !node.id.startsWith('context:')).map((node) => node.id)
+    );
+  }, []);
+
   // Validate connection before allowing
   const isValidConnection = useCallback(
     (connection: Edge | Connection) => {
@@ -374,9 +419,11 @@ export function GraphView() {
         onEdgesChange={onEdgesChange}
         onNodeDragStop={onNodeDragStop}
         onConnect={onConnect}
+        onSelectionChange={onSelectionChange}
         isValidConnection={isValidConnection}
         nodeTypes={nodeTypes}
-        fitView
+        onInit={setFlowInstance}
+        fitView={fitOnInit}
         fitViewOptions={{ padding: 0.2 }}
         minZoom={0.1}
         maxZoom={2}
@@ -404,7 +451,7 @@ export function GraphView() {
         />
       </ReactFlow>
 
-      <GraphControls />
+      <GraphControls selectedNodeIds={selectedNodeIds} />
     </div>
   );
 }
@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useShallow } from 'zustand/react/shallow';
 import { useStore } from '../../store';
 import { Header } from './Header';
@@ -7,10 +7,18 @@ import { ChatView } from '../chat/ChatView';
 import { GraphView } from '../graph/GraphView';
 import { ModelSidebar } from './ModelSidebar';
 import { ContextView } from '../context/ContextView';
+import { CompareView } from '../compare/CompareView';
 import { ToastContainer } from '../shared/ToastContainer';
 import { ErrorBoundary } from '../shared/ErrorBoundary';
+import { CommandPalette } from '../shared/CommandPalette';
+import { ToolApprovalDialog } from '../shared/ToolApprovalDialog';
+import { useMessageEmbeddings, useRegisterCommands } from '../../hooks';
+import type { PaletteCommand } from '../../utils/commandRegistry';
 import { SettingsModal, type SettingsTab } from './SettingsModal';
 import { ProjectSettingsModal } from './ProjectSettingsModal';
+import { UsageDashboardModal } from './UsageDashboardModal';
+import { PromptTemplatesModal } from './PromptTemplatesModal';
+import { mcpConnections } from '../../tools/mcpConnections';
 
 export function AppLayout() {
   const {
@@ -26,6 +34,7 @@ export function AppLayout() {
     customResponseStyle,
     autoTitleEnabled,
     autoTitleModel,
+    autoLabelEnabled,
     embeddingModel,
     memorySettings,
     toolSettings,
@@ -42,6 +51,7 @@ export function AppLayout() {
     setCustomResponseStyle,
     setAutoTitleEnabled,
     setAutoTitleModel,
+    setAutoLabelEnabled,
     setEmbeddingModel,
     setToolSettings,
     setMemorySettings,
@@ -60,6 +70,7 @@ export function AppLayout() {
       customResponseStyle: state.customResponseStyle,
       autoTitleEnabled: state.autoTitleEnabled,
       autoTitleModel: state.autoTitleModel,
+      autoLabelEnabled: state.autoLabelEnabled,
       embeddingModel: state.embeddingModel,
       memorySettings: state.memorySettings,
       toolSettings: state.toolSettings,
@@ -76,6 +87,7 @@ export function AppLayout() {
       setCustomResponseStyle: state.setCustomResponseStyle,
       setAutoTitleEnabled: state.setAutoTitleEnabled,
       setAutoTitleModel: state.setAutoTitleModel,
+      setAutoLabelEnabled: state.setAutoLabelEnabled,
       setEmbeddingModel: state.setEmbeddingModel,
       setToolSettings: state.setToolSettings,
       setMemorySettings: state.setMemorySettings,
@@ -87,14 +99,111 @@ export function AppLayout() {
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [settingsTab, setSettingsTab] = useState<SettingsTab>('general');
   const [isProjectSettingsOpen, setIsProjectSettingsOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
   const [projectSettingsId, setProjectSettingsId] = useState<string | null>(null);
 
+  const layoutCommands = useMemo((): PaletteCommand[] => {
+    const settingsTabs: Array<{ tab: SettingsTab; label: string }> = [
+      { tab: 'general', label: 'General' },
+      { tab: 'custom', label: 'Customize' },
+      { tab: 'tools', label: 'Tools' },
+      { tab: 'memory', label: 'Memory' },
+    ];
+    return [
+      ...settingsTabs.map(({ tab, label }) => ({
+        id: `settings.${tab}`,
+        title: `Open settings: ${label}`,
+        group: 'Settings',
+        run: () => {
+          setSettingsTab(tab);
+          setIsSettingsOpen(true);
+        },
+      })),
+      {
+        id: 'usage.open',
+        title: 'Open usage dashboard',
+        group: 'Settings',
+        run: () => setIsUsageOpen(true),
+      },
+      {
+        id: 'templates.open',
+        title: 'Manage prompt templates',
+        group: 'Settings',
+        run: () => setIsTemplatesOpen(true),
+      },
+      {
+        id: 'history.undo',
+        title: 'Undo',
+        group: 'Edit',
+        run: () => {
+          useStore.getState().undo();
+        },
+      },
+      {
+        id: 'history.redo',
+        title: 'Redo',
+        group: 'Edit',
+        run: () => {
+          useStore.getState().redo();
+        },
+      },
+      {
+        id: 'layout.toggle-chats',
+        title: 'Toggle chats sidebar',
+        group: 'View',
+        run: () => setIsLeftSidebarOpen((value) => !value),
+      },
+      {
+        id: 'layout.toggle-model',
+        title: 'Toggle model sidebar',
+        group: 'View',
+        run: () => setIsRightSidebarOpen((value) => !value),
+      },
+      {
+        id: 'layout.toggle-theme',
+        title: 'Toggle dark mode',
+        group: 'View',
+        run: () => {
+          const state = useStore.getState();
+          state.setTheme(state.theme === 'dark' ? 'light' : 'dark');
+        },
+      },
+    ];
+  }, []);
+  useRegisterCommands(layoutCommands);
+  useMessageEmbeddings();
+
   useEffect(() => {
     if (!isInitialized) {
       initialize();
     }
   }, [isInitialized, initialize]);
 
+  // Graph undo/redo; text fields keep their native undo.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || event.altKey) return;
+      const key = event.key.toLowerCase();
+      const isRedo = key === 'y' || (key === 'z' && event.shiftKey);
+      if (key !== 'z' && !isRedo) return;
+      const target = event.target;
+      if (
+        target instanceof Element &&
+        target.closest('input, textarea, select, [contenteditable="true"]')
+      ) {
+        return;
+      }
+
+      const { undo, redo } = useStore.getState();
+      if (isRedo ? redo() : undo()) {
+        event.preventDefault();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   useEffect(() => {
     if (!apiKey) return;
     void loadModels();
@@ -157,6 +266,8 @@ export function AppLayout() {
                   setProjectSettingsId(projectId);
                   setIsProjectSettingsOpen(true);
                 }}
+                onOpenUsage={() => setIsUsageOpen(true)}
+                onOpenTemplates={() => setIsTemplatesOpen(true)}
               />
             )}
             <main className="flex-1 overflow-hidden">
@@ -197,6 +308,8 @@ export function AppLayout() {
                 <ChatView />
               ) : viewMode === 'graph' ? (
                 <GraphView />
+              ) : viewMode === 'compare' ? (
+                <CompareView />
               ) : (
                 <ContextView />
               )}
@@ -212,6 +325,7 @@ export function AppLayout() {
               customResponseStyle={customResponseStyle}
               autoTitleEnabled={autoTitleEnabled}
               autoTitleModel={autoTitleModel}
+              autoLabelEnabled={autoLabelEnabled}
               embeddingModel={embeddingModel}
               memorySettings={memorySettings}
               toolSettings={toolSettings}
@@ -220,6 +334,7 @@ export function AppLayout() {
               embeddingModels={embeddingModels}
               modelsLoading={modelsLoading}
               modelsError={modelsError}
+              conversations={conversations}
               initialTab={settingsTab}
               onClose={() => setIsSettingsOpen(false)}
               onSave={(
@@ -231,7 +346,8 @@ export function AppLayout() {
                 nextAutoTitleModel,
                 nextEmbeddingModel,
                 nextToolSettings,
-                nextMemorySettings
+                nextMemorySettings,
+                nextAutoLabelEnabled
               ) => {
                 setApiKey(nextKey);
                 setApiBaseUrl(nextBaseUrl);
@@ -239,8 +355,12 @@ export function AppLayout() {
                 setCustomResponseStyle(nextStyle);
                 setAutoTitleEnabled(nextAutoTitleEnabled);
                 setAutoTitleModel(nextAutoTitleModel);
+                setAutoLabelEnabled(nextAutoLabelEnabled);
                 setEmbeddingModel(nextEmbeddingModel);
                 setToolSettings(nextToolSettings);
+                mcpConnections.retain(
+                  useStore.getState().toolSettings.mcp.servers.map((server) => server.id)
+                );
                 setMemorySettings(nextMemorySettings);
                 addToast({
                   type: 'success',
@@ -259,6 +379,13 @@ export function AppLayout() {
               setProjectSettingsId(null);
             }}
           />
+          <UsageDashboardModal isOpen={isUsageOpen} onClose={() => setIsUsageOpen(false)} />
+          <PromptTemplatesModal
+            isOpen={isTemplatesOpen}
+            onClose={() => setIsTemplatesOpen(false)}
+          />
+          <CommandPalette />
+          <ToolApprovalDialog />
           <ToastContainer />
         </ErrorBoundary>
       </div>
@@ -92,6 +92,17 @@ export function Header({
           >
             Context
           </button>
+          <button
+            onClick={() => handleViewModeChange('compare')}
+            data-testid="view-compare"
+            className={`px-3 py-1.5 text-sm font-medium transition-colors ${
+              viewMode === 'compare'
+                ? 'bg-blue-500 text-white'
+                : 'bg-white dark:bg-gray-900 text-gray-600 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-800'
+            }`}
+          >
+            Compare
+          </button>
         </div>
 
         <button
@@ -2,6 +2,7 @@ import { useEffect, useMemo } from 'react';
 import { useShallow } from 'zustand/react/shallow';
 import { useStore } from '../../store';
 import { ModelPicker } from '../shared/ModelPicker';
+import { ToolPolicySection } from './ToolPolicySection';
 import { getReasoningParameter, REASONING_EFFORT_OPTIONS } from '../../utils/models';
 import { normalizeAttachmentProcessingSettings } from '../../utils/attachments';
 
@@ -316,6 +317,8 @@ export function ModelSidebar() {
                 </p>
               </div>
             )}
+
+            {activeConversation && <ToolPolicySection conversation={activeConversation} />}
           </div>
         </div>
       )}
@@ -55,12 +55,12 @@ export function ProjectSettingsModal({
   };
 
   const handleDelete = async () => {
-    if (!confirm('Delete this project?')) return;
+    if (!confirm('Move this project and its chats to the trash?')) return;
     await deleteProject(project.id);
     addToast({
       type: 'success',
-      title: 'Project deleted',
-      message: 'Project removed successfully.',
+      title: 'Project moved to trash',
+      message: 'Restore it from the Trash in the sidebar.',
     });
     onClose();
   };
@@ -0,0 +1,312 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { useStore } from '../../store';
+import type { PromptTemplate, PromptTemplateScopeType } from '../../types';
+import { downloadTextFile } from '../../utils/files';
+import {
+  createTemplateExport,
+  extractTemplateVariables,
+  getTemplateCommand,
+  getTemplateExportFileName,
+  parseTemplateExport,
+  USER_TEMPLATE_SCOPE_ID,
+} from '../../utils/promptTemplates';
+
+interface PromptTemplatesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const EMPTY_FORM = { id: null as string | null, name: '', description: '', content: '' };
+
+function toScopeKey(scopeType: PromptTemplateScopeType, scopeId: string) {
+  return `${scopeType}:${scopeId}`;
+}
+
+export function PromptTemplatesModal({ isOpen, onClose }: PromptTemplatesModalProps) {
+  const {
+    promptTemplates,
+    projects,
+    activeProjectId,
+    savePromptTemplate,
+    deletePromptTemplate,
+    importPromptTemplates,
+    addToast,
+  } = useStore(
+    useShallow((state) => ({
+      promptTemplates: state.promptTemplates,
+      projects: state.projects,
+      activeProjectId: state.activeProjectId,
+      savePromptTemplate: state.savePromptTemplate,
+      deletePromptTemplate: state.deletePromptTemplate,
+      importPromptTemplates: state.importPromptTemplates,
+      addToast: state.addToast,
+    }))
+  );
+  const [scopeKey, setScopeKey] = useState(toScopeKey('user', USER_TEMPLATE_SCOPE_ID));
+  const [form, setForm] = useState(EMPTY_FORM);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setScopeKey(
+      activeProjectId
+        ? toScopeKey('project', activeProjectId)
+        : toScopeKey('user', USER_TEMPLATE_SCOPE_ID)
+    );
+    setForm(EMPTY_FORM);
+  }, [isOpen, activeProjectId]);
+
+  const separator = scopeKey.indexOf(':');
+  const scopeType = scopeKey.slice(0, separator) as PromptTemplateScopeType;
+  const scopeId = scopeKey.slice(separator + 1);
+  const scopeName =
+    scopeType === 'project' ? projects.get(scopeId)?.name || 'Project' : 'Personal';
+
+  const scopedTemplates = useMemo(
+    () =>
+      Array.from(promptTemplates.values())
+        .filter((template) => template.scopeType === scopeType && template.scopeId === scopeId)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [promptTemplates, scopeType, scopeId]
+  );
+  const variables = useMemo(() => extractTemplateVariables(form.content), [form.content]);
+
+  if (!isOpen) return null;
+
+  const selectTemplate = (template: PromptTemplate) => {
+    setForm({
+      id: template.id,
+      name: template.name,
+      description: template.description || '',
+      content: template.content,
+    });
+  };
+
+  const handleSave = () => {
+    const name = form.name.trim();
+    if (!name || !form.content.trim()) return;
+    const id = savePromptTemplate({
+      id: form.id ?? undefined,
+      scopeType,
+      scopeId,
+      name,
+      description: form.description.trim() || undefined,
+      content: form.content,
+    });
+    setForm((prev) => ({ ...prev, id, name }));
+    addToast({ type: 'success', title: 'Template saved', message: `/${getTemplateCommand(name)}` });
+  };
+
+  const handleDelete = () => {
+    if (!form.id || !confirm(`Delete template "${form.name}"?`)) return;
+    deletePromptTemplate(form.id);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleExport = () => {
+    const data = createTemplateExport(scopedTemplates);
+    downloadTextFile(
+      getTemplateExportFileName(scopeName, data.exportedAt),
+      JSON.stringify(data, null, 2),
+      'application/json'
+    );
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const drafts = parseTemplateExport(await file.text());
+      const count = importPromptTemplates(drafts, scopeType, scopeId);
+      addToast({
+        type: 'success',
+        title: 'Templates imported',
+        message: `${count} template${count === 1 ? '' : 's'} added to ${scopeName}.`,
+      });
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Import failed',
+        message: error instanceof Error ? error.message : 'Could not import templates.',
+      });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+      <div
+        className="w-full max-w-4xl max-h-[90vh] overflow-hidden rounded-xl bg-white dark:bg-gray-900 shadow-xl flex flex-col"
+        data-testid="prompt-templates"
+      >
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-800 flex items-center justify-between gap-4">
+          <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-100">
+            Prompt templates
+          </h2>
+          <div className="flex items-center gap-2">
+            <select
+              value={scopeKey}
+              onChange={(event) => {
+                setScopeKey(event.target.value);
+                setForm(EMPTY_FORM);
+              }}
+              data-testid="template-scope"
+              className="px-2 py-1.5 text-sm border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-200"
+            >
+              <option value={toScopeKey('user', USER_TEMPLATE_SCOPE_ID)}>Personal</option>
+              {Array.from(projects.values()).map((project) => (
+                <option key={project.id} value={toScopeKey('project', project.id)}>
+                  Project: {project.name}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => importInputRef.current?.click()}
+              data-testid="import-templates"
+              className="px-2 py-1.5 text-xs text-gray-600 dark:text-gray-200 border border-gray-200 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg"
+            >
+              Import
+            </button>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={scopedTemplates.length === 0}
+              data-testid="export-templates"
+              className="px-2 py-1.5 text-xs text-gray-600 dark:text-gray-200 border border-gray-200 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg disabled:opacity-50"
+            >
+              Export
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleImportFile}
+            />
+            <button
+              type="button"
+              onClick={onClose}
+              className="ml-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+              aria-label="Close prompt templates"
+            >
+              ×
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 flex overflow-hidden">
+          <div className="w-64 border-r border-gray-200 dark:border-gray-800 overflow-y-auto p-3 space-y-1">
+            <button
+              type="button"
+              onClick={() => setForm(EMPTY_FORM)}
+              data-testid="new-template"
+              className="w-full px-3 py-2 text-sm text-left text-blue-600 dark:text-blue-300 hover:bg-blue-50 dark:hover:bg-blue-500/10 rounded-lg"
+            >
+              + New template
+            </button>
+            {scopedTemplates.length === 0 && (
+              <p className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400">
+                No templates in {scopeName} yet.
+              </p>
+            )}
+            {scopedTemplates.map((template) => (
+              <button
+                key={template.id}
+                type="button"
+                onClick={() => selectTemplate(template)}
+                data-testid="template-list-item"
+                className={`w-full px-3 py-2 text-left rounded-lg ${
+                  form.id === template.id
+                    ? 'bg-blue-50 dark:bg-blue-500/20'
+                    : 'hover:bg-gray-50 dark:hover:bg-gray-800'
+                }`}
+              >
+                <div className="text-sm font-medium text-gray-800 dark:text-gray-100 truncate">
+                  {template.name}
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                  /{getTemplateCommand(template.name)}
+                </div>
+              </button>
+            ))}
+          </div>
+
+          <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+                Name
+              </label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(event) => setForm((prev) => ({ ...prev, name: event.target.value }))}
+                data-testid="template-name"
+                placeholder="Code review"
+                className="w-full px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-lg text-sm bg-white dark:bg-gray-900 dark:text-gray-100"
+              />
+              {form.name.trim() && (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Type /{getTemplateCommand(form.name)} in the chat input to use it.
+                </p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+                Description
+              </label>
+              <input
+                type="text"
+                value={form.description}
+                onChange={(event) =>
+                  setForm((prev) => ({ ...prev, description: event.target.value }))
+                }
+                className="w-full px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-lg text-sm bg-white dark:bg-gray-900 dark:text-gray-100"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+                Prompt
+              </label>
+              <textarea
+                value={form.content}
+                onChange={(event) =>
+                  setForm((prev) => ({ ...prev, content: event.target.value }))
+                }
+                data-testid="template-content"
+                rows={10}
+                placeholder={'Review this {{language}} code for bugs:\n\n{{code}}'}
+                className="w-full px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-lg text-sm font-mono bg-white dark:bg-gray-900 dark:text-gray-100"
+              />
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                {variables.length > 0
+                  ? `Variables: ${variables.join(', ')}`
+                  : 'Use {{name}} placeholders for values to fill in when the template is used.'}
+              </p>
+            </div>
+            <div className="flex justify-between">
+              <button
+                type="button"
+                onClick={handleDelete}
+                disabled={!form.id}
+                className="px-3 py-2 text-sm text-red-600 hover:bg-red-50 dark:hover:bg-red-500/10 rounded-lg disabled:opacity-0"
+              >
+                Delete
+              </button>
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={!form.name.trim() || !form.content.trim()}
+                data-testid="save-template"
+                className="px-4 py-2 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+              >
+                Save template
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
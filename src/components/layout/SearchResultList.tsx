@@ -0,0 +1,117 @@
+import type { MessageSearchResult, SearchSnippet } from '../../types';
+import { formatBranchPath, groupSearchResults } from '../../utils/searchBranches';
+import { getSearchResultTags } from '../../utils/tags';
+import { TagList } from '../shared/TagList';
+
+export type SearchResultTarget = 'chat' | 'graph';
+
+interface SearchResultListProps {
+  results: MessageSearchResult[];
+  onOpen: (result: MessageSearchResult, target: SearchResultTarget) => void;
+}
+
+/**
+ * Search hits grouped by chat and by the branch node they sit on, best match
+ * first. Clicking a hit opens it in chat with the match highlighted.
+ */
+export function SearchResultList({ results, onOpen }: SearchResultListProps) {
+  const groups = groupSearchResults(results);
+
+  return (
+    <ul className="space-y-3" data-testid="search-results">
+      {groups.map((group) => (
+        <li key={group.conversationId} data-testid="search-result-group">
+          <div className="px-1 text-xs font-medium text-gray-600 dark:text-gray-300 truncate">
+            {group.projectName
+              ? `${group.projectName} · ${group.conversationTitle}`
+              : group.conversationTitle}
+          </div>
+          <ul className="mt-1 space-y-2">
+            {group.branches.map(({ branchNodeId, branch, results: hits }) => (
+              <li
+                key={branchNodeId}
+                data-testid="search-result-branch"
+                className="rounded-lg border border-gray-200 dark:border-gray-700"
+              >
+                <div className="flex items-center gap-2 px-3 pt-2 text-[11px] text-gray-400 dark:text-gray-500">
+                  <span
+                    className="flex-1 truncate"
+                    title={branch?.path.map((step) => step.label).join(' → ')}
+                    data-testid="search-result-path"
+                  >
+                    {branch ? formatBranchPath(branch.path) : 'Branch unavailable'}
+                  </span>
+                  {branch?.isOnActiveBranch && (
+                    <span
+                      className="shrink-0 rounded-full bg-blue-100 dark:bg-blue-500/20 px-1.5 py-0.5 text-blue-700 dark:text-blue-200"
+                      data-testid="search-result-active"
+                    >
+                      Active branch
+                    </span>
+                  )}
+                </div>
+                {hits.map((result) => (
+                  <button
+                    key={result.messageId}
+                    type="button"
+                    onClick={() => onOpen(result, 'chat')}
+                    data-testid="search-result"
+                    className="w-full text-left px-3 py-2 hover:bg-blue-50 dark:hover:bg-blue-500/10 transition-colors"
+                  >
+                    <div className="text-sm text-gray-800 dark:text-gray-100">
+                      {result.snippet
+                        ? renderSnippet(result.snippet)
+                        : result.content.slice(0, 140)}
+                    </div>
+                    <div className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+                      {result.role}
+                      {result.isReply ? ' · reply' : ''}
+                    </div>
+                    {getSearchResultTags(result).length > 0 && (
+                      <div className="mt-1">
+                        <TagList tags={getSearchResultTags(result)} />
+                      </div>
+                    )}
+                  </button>
+                ))}
+                <div className="flex gap-3 px-3 pb-2 text-xs">
+                  <button
+                    type="button"
+                    onClick={() => onOpen(hits[0], 'chat')}
+                    className="text-blue-600 hover:text-blue-700"
+                  >
+                    Open in chat
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onOpen(hits[0], 'graph')}
+                    data-testid="search-result-open-graph"
+                    className="text-blue-600 hover:text-blue-700"
+                  >
+                    Open in graph
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function renderSnippet(snippet: SearchSnippet) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const [start, end] of snippet.ranges) {
+    if (start > cursor) parts.push(snippet.text.slice(cursor, start));
+    parts.push(
+      <mark key={start} className="bg-amber-200/80 dark:bg-amber-500/40 rounded px-0.5">
+        {snippet.text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  }
+  parts.push(snippet.text.slice(cursor));
+  return parts;
+}
@@ -1,6 +1,9 @@
 import { type ReactNode, useState } from 'react';
 import type {
+  Conversation,
+  ConversationId,
   LLMModel,
+  McpServerSettings,
   NormalizedToolSettings,
   ToolSettings,
   NormalizedMemorySettings,
@@ -10,6 +13,13 @@ import { normalizeToolSettings } from '../../utils/tools';
 import { normalizeMemorySettings } from '../../utils/memory';
 import { ModelPicker } from '../shared/ModelPicker';
 import { discoverMcpToolNames } from '../../tools/mcpTools';
+import { mcpConnections, type McpServerHealth } from '../../tools/mcpConnections';
+import {
+  authorizeMcpServer,
+  clearMcpOAuthSession,
+  loadMcpOAuthSession,
+} from '../../tools/mcpOAuth';
+import { useMcpServerHealth } from '../../hooks';
 
 export type SettingsTab = 'general' | 'custom' | 'memory' | 'tools';
 
@@ -21,6 +31,7 @@ interface SettingsModalProps {
   customResponseStyle: string;
   autoTitleEnabled: boolean;
   autoTitleModel: string;
+  autoLabelEnabled: boolean;
   embeddingModel: string;
   memorySettings: NormalizedMemorySettings;
   toolSettings: NormalizedToolSettings;
@@ -29,6 +40,7 @@ interface SettingsModalProps {
   embeddingModels: LLMModel[];
   modelsLoading: boolean;
   modelsError: string | null;
+  conversations: Map<ConversationId, Conversation>;
   initialTab?: SettingsTab;
   onClose: () => void;
   onSave: (
@@ -40,7 +52,8 @@ interface SettingsModalProps {
     autoTitleModel: string,
     embeddingModel: string,
     toolSettings: ToolSettings,
-    memorySettings: MemorySettings
+    memorySettings: MemorySettings,
+    autoLabelEnabled: boolean
   ) => void;
 }
 
@@ -52,6 +65,7 @@ export function SettingsModal({
   customResponseStyle,
   autoTitleEnabled,
   autoTitleModel,
+  autoLabelEnabled,
   embeddingModel,
   memorySettings,
   toolSettings,
@@ -60,6 +74,7 @@ export function SettingsModal({
   embeddingModels,
   modelsLoading,
   modelsError,
+  conversations,
   initialTab = 'general',
   onClose,
   onSave,
@@ -70,6 +85,7 @@ export function SettingsModal({
   const [localResponseStyle, setLocalResponseStyle] = useState(customResponseStyle);
   const [localAutoTitleEnabled, setLocalAutoTitleEnabled] = useState(autoTitleEnabled);
   const [localAutoTitleModel, setLocalAutoTitleModel] = useState(autoTitleModel);
+  const [localAutoLabelEnabled, setLocalAutoLabelEnabled] = useState(autoLabelEnabled);
   const [localEmbeddingModel, setLocalEmbeddingModel] = useState(embeddingModel);
   const [localMemorySettings, setLocalMemorySettings] = useState(
     normalizeMemorySettings(memorySettings)
@@ -77,6 +93,7 @@ export function SettingsModal({
   const [localToolSettings, setLocalToolSettings] = useState(
     normalizeToolSettings(toolSettings)
   );
+  const mcpHealthById = useMcpServerHealth();
   const [mcpDiscoveringById, setMcpDiscoveringById] = useState<Record<string, boolean>>(
     {}
   );
@@ -90,11 +107,22 @@ export function SettingsModal({
 
   const sensitiveToolsCsv = localToolSettings.permissions.sensitiveTools.join(', ');
   const getDefaultServerName = (index: number) => `MCP ${index + 1}`;
-  const generateServerId = () =>
+  const generateId = () =>
     typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
       ? crypto.randomUUID()
       : `mcp-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
 
+  const updateApprovalRules = (
+    update: (
+      rules: NormalizedToolSettings['permissions']['rules']
+    ) => NormalizedToolSettings['permissions']['rules']
+  ) => {
+    setLocalToolSettings((prev) => ({
+      ...prev,
+      permissions: { ...prev.permissions, rules: update(prev.permissions.rules) },
+    }));
+  };
+
   const updateMcpServer = (
     serverId: string,
     updater: (
@@ -116,11 +144,12 @@ export function SettingsModal({
     setLocalToolSettings((prev) => {
       const nextIndex = prev.mcp.servers.length;
       const nextServer = {
-        id: generateServerId(),
+        id: generateId(),
         name: getDefaultServerName(nextIndex),
         enabled: true,
         url: '',
         transport: 'http' as const,
+        authType: 'token' as const,
         authToken: '',
         enabledTools: [],
       };
@@ -173,11 +202,7 @@ export function SettingsModal({
     setMcpDiscoveringById((prev) => ({ ...prev, [serverId]: true }));
     setMcpDiscoveryErrorById((prev) => ({ ...prev, [serverId]: null }));
     try {
-      const discovered = await discoverMcpToolNames({
-        url: server.url.trim(),
-        transport: server.transport,
-        authToken: server.authToken.trim() || undefined,
-      });
+      const discovered = await discoverMcpToolNames(server);
       setMcpDiscoveredToolsById((prev) => ({ ...prev, [serverId]: discovered }));
     } catch (error) {
       setMcpDiscoveryErrorById((prev) => ({
@@ -394,10 +419,32 @@ export function SettingsModal({
                 </p>
               </div>
 
-              {localAutoTitleEnabled && (
+              <div>
+                <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+                  <input
+                    type="checkbox"
+                    checked={localAutoLabelEnabled}
+                    onChange={(e) => {
+                      const nextValue = e.target.checked;
+                      setLocalAutoLabelEnabled(nextValue);
+                      if (nextValue && !localAutoTitleModel) {
+                        setLocalAutoTitleModel(selectedModel);
+                      }
+                    }}
+                    data-testid="auto-label-toggle"
+                    className="h-4 w-4 rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500"
+                  />
+                  Auto-label nodes and summarize branches
+                </label>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Runs after each response. Labels you set yourself are kept.
+                </p>
+              </div>
+
+              {(localAutoTitleEnabled || localAutoLabelEnabled) && (
                 <div>
                   <label className="block text-xs font-medium text-gray-600 dark:text-gray-300 mb-1">
-                    Title model
+                    Title and label model
                   </label>
                   <div data-testid="auto-title-model">
                     <ModelPicker
@@ -685,6 +732,102 @@ export function SettingsModal({
                     className="w-full px-3 py-2 text-sm border border-gray-200 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-100"
                   />
                 </div>
+                <div>
+                  <div className="flex items-center justify-between mb-1">
+                    <label className="block text-xs font-medium text-gray-600 dark:text-gray-300">
+                      Approval rules
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        updateApprovalRules((rules) => [
+                          ...rules,
+                          {
+                            id: generateId(),
+                            toolName: '',
+                            action: 'allow',
+                            createdAt: Date.now(),
+                          },
+                        ])
+                      }
+                      data-testid="tool-approval-rule-add"
+                      className="text-xs text-blue-600 hover:text-blue-700"
+                    >
+                      Add rule
+                    </button>
+                  </div>
+                  {localToolSettings.permissions.rules.length === 0 ? (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      No saved answers yet. Choosing "always" or "in this chat" when a tool asks
+                      for approval adds a rule here.
+                    </p>
+                  ) : (
+                    <ul className="space-y-2" data-testid="tool-approval-rules">
+                      {localToolSettings.permissions.rules.map((rule) => (
+                        <li key={rule.id} className="flex items-center gap-2">
+                          <input
+                            type="text"
+                            value={rule.toolName}
+                            onChange={(e) =>
+                              updateApprovalRules((rules) =>
+                                rules.map((entry) =>
+                                  entry.id === rule.id
+                                    ? { ...entry, toolName: e.target.value }
+                                    : entry
+                                )
+                              )
+                            }
+                            placeholder="daytona_exec or mcp:*"
+                            className="flex-1 min-w-0 px-2 py-1 text-sm font-mono border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-100"
+                          />
+                          <select
+                            value={rule.action}
+                            onChange={(e) =>
+                              updateApprovalRules((rules) =>
+                                rules.map((entry) =>
+                                  entry.id === rule.id
+                                    ? {
+                                        ...entry,
+                                        action: e.target.value === 'deny' ? 'deny' : 'allow',
+                                      }
+                                    : entry
+                                )
+                              )
+                            }
+                            className="px-2 py-1 text-sm border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-100"
+                          >
+                            <option value="allow">Allow</option>
+                            <option value="deny">Deny</option>
+                          </select>
+                          <span
+                            className="w-28 truncate text-xs text-gray-500 dark:text-gray-400"
+                            title={
+                              rule.conversationId
+                                ? conversations.get(rule.conversationId)?.title
+                                : undefined
+                            }
+                          >
+                            {rule.conversationId
+                              ? conversations.get(rule.conversationId)?.title ?? 'Deleted chat'
+                              : 'All chats'}
+                          </span>
+                          <button
+                            type="button"
+                            onClick={() =>
+                              updateApprovalRules((rules) =>
+                                rules.filter((entry) => entry.id !== rule.id)
+                              )
+                            }
+                            aria-label={`Remove rule for ${rule.toolName || 'tool'}`}
+                            className="text-gray-400 hover:text-red-500"
+                          >
+                            ×
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
               </ToolCard>
 
               <ToolCard title="mcp (external tools)">
@@ -720,6 +863,7 @@ export function SettingsModal({
                     const discoveredTools = mcpDiscoveredToolsById[server.id] || [];
                     const isDiscovering = Boolean(mcpDiscoveringById[server.id]);
                     const discoveryError = mcpDiscoveryErrorById[server.id];
+                    const health = mcpHealthById[server.id];
                     return (
                       <div
                         key={server.id}
@@ -801,20 +945,42 @@ export function SettingsModal({
                         </div>
                         <div>
                           <label className="block text-xs font-medium text-gray-600 dark:text-gray-300 mb-1">
-                            Auth token (optional)
+                            Authentication
                           </label>
-                          <input
-                            type="password"
-                            value={server.authToken}
+                          <select
+                            value={server.authType}
                             onChange={(e) =>
                               updateMcpServer(server.id, (prev) => ({
                                 ...prev,
-                                authToken: e.target.value,
+                                authType: e.target.value === 'oauth' ? 'oauth' : 'token',
                               }))
                             }
-                            data-testid={`tool-mcp-auth-token-${serverIndex}`}
-                            className="w-full px-3 py-2 text-sm border border-gray-200 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-100"
-                          />
+                            data-testid={`tool-mcp-auth-type-${serverIndex}`}
+                            className="w-full mb-2 px-3 py-2 text-sm border border-gray-200 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-100"
+                          >
+                            <option value="token">Bearer token (optional)</option>
+                            <option value="oauth">OAuth</option>
+                          </select>
+                          {server.authType === 'oauth' ? (
+                            <McpOAuthRow
+                              server={server}
+                              testId={`tool-mcp-oauth-${serverIndex}`}
+                            />
+                          ) : (
+                            <input
+                              type="password"
+                              value={server.authToken}
+                              onChange={(e) =>
+                                updateMcpServer(server.id, (prev) => ({
+                                  ...prev,
+                                  authToken: e.target.value,
+                                }))
+                              }
+                              placeholder="Auth token"
+                              data-testid={`tool-mcp-auth-token-${serverIndex}`}
+                              className="w-full px-3 py-2 text-sm border border-gray-200 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-100"
+                            />
+                          )}
                         </div>
                         <div className="flex flex-wrap items-center gap-2">
                           <button
@@ -830,6 +996,15 @@ export function SettingsModal({
                             </span>
                           )}
                         </div>
+                        {health && (
+                          <McpHealthRow
+                            health={health}
+                            onReconnect={() => {
+                              void mcpConnections.reconnect(server).catch(() => undefined);
+                            }}
+                            testId={`tool-mcp-health-${serverIndex}`}
+                          />
+                        )}
                         {discoveredTools.length > 0 && (
                           <div className="rounded-md border border-gray-200 dark:border-gray-700 p-2 space-y-1">
                             <div className="text-xs text-gray-500 dark:text-gray-400">
@@ -1316,7 +1491,8 @@ export function SettingsModal({
                 localAutoTitleModel || selectedModel,
                 localEmbeddingModel || embeddingModel || selectedModel,
                 normalizeToolSettings(localToolSettings),
-                normalizeMemorySettings(localMemorySettings)
+                normalizeMemorySettings(localMemorySettings),
+                localAutoLabelEnabled
               )
             }
             data-testid="save-settings"
@@ -1357,6 +1533,131 @@ function SettingsTabButton({
   );
 }
 
+// OAuth state of one server; tokens are stored as soon as authorization succeeds
+function McpOAuthRow({ server, testId }: { server: McpServerSettings; testId: string }) {
+  // Bumped after sign-in or sign-out so the stored session is read again
+  const [, setSessionVersion] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const current = loadMcpOAuthSession(server);
+
+  const handleAuthorize = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await authorizeMcpServer(server);
+      setSessionVersion((version) => version + 1);
+      void mcpConnections.reconnect(server).catch(() => undefined);
+    } catch (authError) {
+      setError(authError instanceof Error ? authError.message : 'Authorization failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSignOut = () => {
+    clearMcpOAuthSession(server.id);
+    setSessionVersion((version) => version + 1);
+    mcpConnections.disconnect(server.id);
+  };
+
+  return (
+    <div className="space-y-1 text-xs" data-testid={testId}>
+      <div className="flex flex-wrap items-center gap-2 text-gray-600 dark:text-gray-300">
+        <span data-testid={`${testId}-status`}>
+          {current
+            ? `Authorized${
+                current.expiresAt
+                  ? ` · token expires ${new Date(current.expiresAt).toLocaleString()}`
+                  : ''
+              }`
+            : 'Not authorized'}
+        </span>
+        <button
+          type="button"
+          onClick={handleAuthorize}
+          disabled={busy || !server.url.trim()}
+          data-testid={`${testId}-authorize`}
+          className="ml-auto px-2 py-1 rounded-md border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 disabled:opacity-50"
+        >
+          {busy ? 'Waiting for sign-in...' : current ? 'Re-authorize' : 'Authorize'}
+        </button>
+        {current && (
+          <button
+            type="button"
+            onClick={handleSignOut}
+            className="px-2 py-1 rounded-md border border-red-300 text-red-600"
+          >
+            Sign out
+          </button>
+        )}
+      </div>
+      {error && <div className="text-red-600 dark:text-red-400 break-words">{error}</div>}
+      {!current && !error && (
+        <div className="text-gray-400 dark:text-gray-500">
+          Opens the server's sign-in page in a popup. Tokens are kept in this browser.
+        </div>
+      )}
+    </div>
+  );
+}
+
+const MCP_STATUS_STYLES: Record<McpServerHealth['status'], { label: string; dot: string }> = {
+  idle: { label: 'Not connected', dot: 'bg-gray-300 dark:bg-gray-600' },
+  connecting: { label: 'Connecting', dot: 'bg-amber-400' },
+  reconnecting: { label: 'Reconnecting', dot: 'bg-amber-400' },
+  connected: { label: 'Connected', dot: 'bg-green-500' },
+  unauthorized: { label: 'Needs authorization', dot: 'bg-red-500' },
+  error: { label: 'Unreachable', dot: 'bg-red-500' },
+};
+
+// Live state of a server's session; "Reconnect" starts a fresh one
+function McpHealthRow({
+  health,
+  onReconnect,
+  testId,
+}: {
+  health: McpServerHealth;
+  onReconnect: () => void;
+  testId: string;
+}) {
+  const style = MCP_STATUS_STYLES[health.status];
+  const details = [
+    typeof health.latencyMs === 'number' ? `${health.latencyMs} ms` : null,
+    typeof health.toolCount === 'number' ? `${health.toolCount} tools` : null,
+    health.status === 'error' && health.nextRetryAt
+      ? `retry ${health.reconnectAttempt} at ${new Date(health.nextRetryAt).toLocaleTimeString()}`
+      : null,
+  ].filter(Boolean);
+  return (
+    <div className="space-y-1 text-xs" data-testid={testId}>
+      <div className="flex items-center gap-2 text-gray-600 dark:text-gray-300">
+        <span className={`h-2 w-2 rounded-full ${style.dot}`} />
+        <span data-testid={`${testId}-status`}>{style.label}</span>
+        {details.length > 0 && (
+          <span className="text-gray-400 dark:text-gray-500">{details.join(' · ')}</span>
+        )}
+        <button
+          type="button"
+          onClick={onReconnect}
+          className="ml-auto px-2 py-0.5 rounded-md border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300"
+        >
+          Reconnect
+        </button>
+      </div>
+      {health.lastError && (
+        <div className="text-red-600 dark:text-red-400 break-words">
+          Last error
+          {health.lastErrorAt
+            ? ` (${new Date(health.lastErrorAt).toLocaleTimeString()})`
+            : ''}
+          : {health.lastError}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function ToolCard({
   title,
   children,
@@ -1,17 +1,45 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { useShallow } from 'zustand/react/shallow';
+import { useLiveQuery } from 'dexie-react-hooks';
 import { useStore } from '../../store';
-import { searchMessages } from '../../db';
-import type { MessageSearchResult } from '../../types';
+import { countMessageEmbeddings, loadNodeTagsByConversation, searchMessages } from '../../db';
+import type {
+  BundleScope,
+  Conversation,
+  MessageRole,
+  MessageSearchResult,
+} from '../../types';
 import type { SettingsTab } from './SettingsModal';
 import { regenerateConversationTitle } from '../../hooks/useStreaming';
+import { embedSearchQuery } from '../../hooks/useMessageEmbeddings';
+import { downloadTextFile } from '../../utils/files';
+import { getBundleFileName } from '../../utils/bundle';
+import { countTags, getSearchResultTags, hasAllTags, parseTags } from '../../utils/tags';
+import { TagList } from '../shared/TagList';
+import { TrashPanel } from './TrashPanel';
+import { SearchResultList, type SearchResultTarget } from './SearchResultList';
+
+const SEARCH_DATE_RANGES = [
+  { label: 'Any time', days: 0 },
+  { label: 'Past day', days: 1 },
+  { label: 'Past week', days: 7 },
+  { label: 'Past month', days: 30 },
+  { label: 'Past year', days: 365 },
+];
 
 interface SidebarProps {
   onOpenSettings: (tab?: SettingsTab) => void;
   onOpenProjectSettings: (projectId: string) => void;
+  onOpenUsage: () => void;
+  onOpenTemplates: () => void;
 }
 
-export function Sidebar({ onOpenSettings, onOpenProjectSettings }: SidebarProps) {
+export function Sidebar({
+  onOpenSettings,
+  onOpenProjectSettings,
+  onOpenUsage,
+  onOpenTemplates,
+}: SidebarProps) {
   const {
     conversations,
     activeConversationId,
@@ -26,8 +54,15 @@ export function Sidebar({ onOpenSettings, onOpenProjectSettings }: SidebarProps)
     setViewMode,
     setReplyThreadFocusNodeId,
     setHighlightedMessage,
+    setGraphFocusNode,
+    getSearchResultBranches,
     updateConversation,
+    exportBundle,
+    importBundle,
     addToast,
+    semanticSearchEnabled,
+    setSemanticSearchEnabled,
+    embeddingModel,
   } = useStore(
     useShallow((state) => ({
       conversations: state.conversations,
@@ -43,22 +78,50 @@ export function Sidebar({ onOpenSettings, onOpenProjectSettings }: SidebarProps)
       setViewMode: state.setViewMode,
       setReplyThreadFocusNodeId: state.setReplyThreadFocusNodeId,
       setHighlightedMessage: state.setHighlightedMessage,
+      setGraphFocusNode: state.setGraphFocusNode,
+      getSearchResultBranches: state.getSearchResultBranches,
       updateConversation: state.updateConversation,
+      exportBundle: state.exportBundle,
+      importBundle: state.importBundle,
       addToast: state.addToast,
+      semanticSearchEnabled: state.semanticSearchEnabled,
+      setSemanticSearchEnabled: state.setSemanticSearchEnabled,
+      embeddingModel: state.embeddingModel,
     }))
   );
 
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<MessageSearchResult[]>([]);
   const [isSearching, setIsSearching] = useState(false);
+  const [searchRole, setSearchRole] = useState<MessageRole | ''>('');
+  const [searchDays, setSearchDays] = useState(0);
+  const [isKeywordFallback, setIsKeywordFallback] = useState(false);
+  const embeddedCount = useLiveQuery(
+    () => (semanticSearchEnabled ? countMessageEmbeddings(embeddingModel) : 0),
+    [semanticSearchEnabled, embeddingModel]
+  );
+  const [isImporting, setIsImporting] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const nodeTagsByConversation = useLiveQuery(() => loadNodeTagsByConversation(), []);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const [contextMenu, setContextMenu] = useState<{
     conversationId: string;
     x: number;
     y: number;
   } | null>(null);
 
-  const sortedConversations = Array.from(conversations.values())
-    .filter((conv) => (activeProjectId ? conv.projectId === activeProjectId : true))
+  // A chat carries its own tags plus those of its nodes
+  const getConversationTags = (conversation: Conversation) => [
+    ...(conversation.tags ?? []),
+    ...(nodeTagsByConversation?.get(conversation.id) ?? []),
+  ];
+
+  const projectConversations = Array.from(conversations.values()).filter((conv) =>
+    activeProjectId ? conv.projectId === activeProjectId : true
+  );
+  const sortedConversations = projectConversations
+    .filter((conv) => hasAllTags(getConversationTags(conv), selectedTags))
     .sort((a, b) => b.updatedAt - a.updatedAt);
 
   const sortedProjects = Array.from(projects.values()).sort(
@@ -67,6 +130,25 @@ export function Sidebar({ onOpenSettings, onOpenProjectSettings }: SidebarProps)
 
   const trimmedSearch = searchQuery.trim();
   const showSearchResults = trimmedSearch.length > 0;
+  const visibleSearchResults = searchResults.filter((result) =>
+    hasAllTags(getSearchResultTags(result), selectedTags)
+  );
+
+  // Facets follow what is being browsed: search hits, or the chats in scope
+  const tagCounts = showSearchResults
+    ? countTags(searchResults.map(getSearchResultTags))
+    : countTags(projectConversations.map(getConversationTags));
+  const tagCountsByTag = Object.fromEntries(tagCounts.map(({ tag, count }) => [tag, count]));
+  const filterTags = [
+    ...tagCounts.map(({ tag }) => tag),
+    ...selectedTags.filter((tag) => tagCountsByTag[tag] === undefined),
+  ];
+
+  const toggleSelectedTag = (tag: string) => {
+    setSelectedTags((prev) =>
+      prev.includes(tag) ? prev.filter((item) => item !== tag) : [...prev, tag]
+    );
+  };
 
   useEffect(() => {
     let isActive = true;
@@ -78,18 +160,33 @@ export function Sidebar({ onOpenSettings, onOpenProjectSettings }: SidebarProps)
     }
 
     setIsSearching(true);
+    const controller = new AbortController();
     const handler = window.setTimeout(async () => {
-      const results = await searchMessages(trimmedSearch, 100);
+      const semantic = semanticSearchEnabled
+        ? await embedSearchQuery(trimmedSearch, controller.signal)
+        : null;
+      const results = await searchMessages(
+        trimmedSearch,
+        100,
+        {
+          role: searchRole || undefined,
+          after: searchDays > 0 ? Date.now() - searchDays * 24 * 60 * 60 * 1000 : undefined,
+        },
+        semantic ?? undefined
+      );
+      const resultsWithBranches = await getSearchResultBranches(results);
       if (!isActive) return;
-      setSearchResults(results);
+      setSearchResults(resultsWithBranches);
+      setIsKeywordFallback(semanticSearchEnabled && !semantic);
       setIsSearching(false);
     }, 300);
 
     return () => {
       isActive = false;
+      controller.abort();
       window.clearTimeout(handler);
     };
-  }, [trimmedSearch]);
+  }, [trimmedSearch, searchRole, searchDays, semanticSearchEnabled, getSearchResultBranches]);
 
   useEffect(() => {
     if (!contextMenu) return;
@@ -105,23 +202,38 @@ export function Sidebar({ onOpenSettings, onOpenProjectSettings }: SidebarProps)
     };
   }, [contextMenu]);
 
-  const handleOpenResult = async (result: MessageSearchResult) => {
-    const targetNodeId =
-      result.isReply && result.parentNodeId ? result.parentNodeId : result.nodeId;
+  const handleOpenResult = async (result: MessageSearchResult, target: SearchResultTarget) => {
+    const branchNodeId =
+      result.branch?.branchNodeId ??
+      (result.isReply && result.parentNodeId ? result.parentNodeId : result.nodeId);
     await setActiveConversation(result.conversationId);
-    setActiveNode(targetNodeId);
+    if (target === 'graph') {
+      setGraphFocusNode(branchNodeId);
+      setViewMode('graph');
+      return;
+    }
+    // A hit above the active node is already in view; only switch branches otherwise
+    if (!useStore.getState().getActivePath().includes(branchNodeId)) {
+      setActiveNode(branchNodeId);
+    }
     if (result.isReply && result.parentNodeId) {
       setReplyThreadFocusNodeId(result.parentNodeId);
     }
-    setHighlightedMessage(result.messageId, trimmedSearch);
+    // Highlight the word that matched, since the query may hold filters or fuzzy terms
+    const [firstRange] = result.snippet?.ranges ?? [];
+    const matchedText = firstRange
+      ? result.snippet!.text.slice(firstRange[0], firstRange[1])
+      : trimmedSearch;
+    setHighlightedMessage(result.messageId, matchedText);
     setViewMode('chat');
   };
 
   const resultsSummary = useMemo(() => {
     if (!showSearchResults) return '';
     if (isSearching) return 'Searching...';
-    return `${searchResults.length} result${searchResults.length === 1 ? '' : 's'}`;
-  }, [showSearchResults, isSearching, searchResults.length]);
+    const summary = `${visibleSearchResults.length} result${visibleSearchResults.length === 1 ? '' : 's'}`;
+    return isKeywordFallback ? `${summary} (keywords only)` : summary;
+  }, [showSearchResults, isSearching, visibleSearchResults.length, isKeywordFallback]);
 
   const handleNewChat = async () => {
     const title = `Chat ${conversations.size + 1}`;
@@ -139,7 +251,7 @@ export function Sidebar({ onOpenSettings, onOpenProjectSettings }: SidebarProps)
 
   const handleDeleteConversation = async (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
-    if (confirm('Delete this conversation?')) {
+    if (confirm('Move this conversation to the trash?')) {
       await deleteConversation(id);
     }
   };
@@ -160,6 +272,15 @@ export function Sidebar({ onOpenSettings, onOpenProjectSettings }: SidebarProps)
     setContextMenu(null);
   };
 
+  const handleEditTags = (id: string) => {
+    const conversation = conversations.get(id);
+    if (!conversation) return;
+    const nextTags = prompt('Chat tags (comma-separated)', (conversation.tags ?? []).join(', '));
+    if (nextTags === null) return;
+    updateConversation(id, { tags: parseTags(nextTags) });
+    setContextMenu(null);
+  };
+
   const handleMoveConversation = (id: string, projectId: string | null) => {
     updateConversation(id, { projectId: projectId ?? undefined });
     setContextMenu(null);
@@ -183,6 +304,65 @@ export function Sidebar({ onOpenSettings, onOpenProjectSettings }: SidebarProps)
     }
   };
 
+  const handleExport = async (scope: BundleScope) => {
+    setContextMenu(null);
+    const includeEmbeddings = confirm(
+      'Include embeddings in the export? This makes the file much larger.'
+    );
+    try {
+      const bundle = await exportBundle(scope, { includeEmbeddings });
+      downloadTextFile(
+        getBundleFileName(bundle),
+        JSON.stringify(bundle, null, 2),
+        'application/json'
+      );
+      addToast({
+        type: 'success',
+        title: 'Export ready',
+        message: `${bundle.conversations.length} chat${
+          bundle.conversations.length === 1 ? '' : 's'
+        } exported.`,
+      });
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Export failed',
+        message: error instanceof Error ? error.message : 'Could not export data.',
+      });
+    }
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setIsImporting(true);
+    try {
+      const result = await importBundle(await file.text());
+      addToast({
+        type: 'success',
+        title: 'Import complete',
+        message: `${result.conversationIds.length} chats, ${result.projectIds.length} projects, ${result.messageCount} messages imported.`,
+      });
+      if (result.toolPoliciesReset > 0) {
+        addToast({
+          type: 'info',
+          title: 'Tool permissions not imported',
+          message:
+            'Some imported chats or projects had their own tool settings. They now use yours.',
+        });
+      }
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Import failed',
+        message: error instanceof Error ? error.message : 'Could not import bundle.',
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   return (
     <aside className="w-64 h-full border-r border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-900 flex flex-col">
       {/* Header */}
@@ -236,6 +416,16 @@ export function Sidebar({ onOpenSettings, onOpenProjectSettings }: SidebarProps)
                 >
                   <span className="truncate">{project.name}</span>
                 </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    void handleExport({ type: 'project', id: project.id });
+                  }}
+                  className="opacity-0 group-hover:opacity-100 text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 px-1 text-xs"
+                  title="Export project"
+                >
+                  Export
+                </button>
                 <button
                   type="button"
                   onClick={() => onOpenProjectSettings(project.id)}
@@ -250,53 +440,89 @@ export function Sidebar({ onOpenSettings, onOpenProjectSettings }: SidebarProps)
         </div>
       </div>
 
+      {showTrash && (
+        <div className="flex-1 overflow-y-auto p-2">
+          <TrashPanel onClose={() => setShowTrash(false)} />
+        </div>
+      )}
+
       {/* Conversations List */}
-      <div className="flex-1 overflow-y-auto p-2">
+      <div className={`flex-1 overflow-y-auto p-2 ${showTrash ? 'hidden' : ''}`}>
         <div className="mb-3">
           <input
             value={searchQuery}
             onChange={(event) => setSearchQuery(event.target.value)}
             placeholder="Search all messages..."
+            title='Use "quoted phrases", prefix*, role:, model:, project:, after: and before: (YYYY-MM-DD)'
+            data-testid="message-search"
             className="w-full px-3 py-2 text-sm border border-gray-200 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-100"
           />
           {showSearchResults && (
-            <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">{resultsSummary}</div>
+            <div className="mt-2 flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+              <span className="flex-1">{resultsSummary}</span>
+              <select
+                value={searchRole}
+                onChange={(event) => setSearchRole(event.target.value as MessageRole | '')}
+                aria-label="Filter by role"
+                className="bg-transparent text-xs focus:outline-none"
+              >
+                <option value="">Any role</option>
+                <option value="user">User</option>
+                <option value="assistant">Assistant</option>
+              </select>
+              <select
+                value={searchDays}
+                onChange={(event) => setSearchDays(Number(event.target.value))}
+                aria-label="Filter by date"
+                className="bg-transparent text-xs focus:outline-none"
+              >
+                {SEARCH_DATE_RANGES.map((range) => (
+                  <option key={range.days} value={range.days}>
+                    {range.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => setSemanticSearchEnabled(!semanticSearchEnabled)}
+                aria-pressed={semanticSearchEnabled}
+                title={
+                  semanticSearchEnabled
+                    ? `Matching by meaning too; ${embeddedCount ?? 0} messages embedded with ${embeddingModel}`
+                    : `Also match by meaning. Messages are embedded in the background with ${embeddingModel}`
+                }
+                data-testid="semantic-search-toggle"
+                className={`text-xs ${
+                  semanticSearchEnabled ? 'text-blue-600 font-medium' : 'hover:text-blue-600'
+                }`}
+              >
+                Semantic
+              </button>
+            </div>
+          )}
+          {filterTags.length > 0 && (
+            <div className="mt-2" data-testid="sidebar-tag-filter">
+              <TagList
+                tags={filterTags}
+                selectedTags={selectedTags}
+                onToggle={toggleSelectedTag}
+                counts={tagCountsByTag}
+              />
+            </div>
           )}
         </div>
 
         {showSearchResults ? (
-          searchResults.length === 0 && !isSearching ? (
+          visibleSearchResults.length === 0 && !isSearching ? (
             <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">
               No matches
             </p>
           ) : (
-            <ul className="space-y-2">
-              {searchResults.map((result) => (
-                <li key={`${result.messageId}-${result.nodeId}`}>
-                  <button
-                    onClick={() => handleOpenResult(result)}
-                    className="w-full text-left rounded-lg border border-gray-200 dark:border-gray-700 px-3 py-2 hover:border-blue-300 hover:bg-blue-50 dark:hover:bg-blue-500/10 transition-colors"
-                  >
-                    <div className="text-xs text-gray-500 dark:text-gray-400">
-                      {result.projectName
-                        ? `${result.projectName} · ${result.conversationTitle}`
-                        : result.conversationTitle}
-                    </div>
-                    <div className="text-sm text-gray-800 dark:text-gray-100 mt-1">
-                      {getSnippet(result.content, trimmedSearch)}
-                    </div>
-                    <div className="text-xs text-gray-400 dark:text-gray-500 mt-1">
-                      {result.role}
-                      {result.isReply ? ' · reply' : ''}
-                    </div>
-                  </button>
-                </li>
-              ))}
-            </ul>
+            <SearchResultList results={visibleSearchResults} onOpen={handleOpenResult} />
           )
         ) : sortedConversations.length === 0 ? (
           <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">
-            No conversations yet
+            {selectedTags.length > 0 ? 'No chats with these tags' : 'No conversations yet'}
           </p>
         ) : (
           <ul className="space-y-1">
@@ -344,27 +570,86 @@ export function Sidebar({ onOpenSettings, onOpenProjectSettings }: SidebarProps)
 
       {/* Settings */}
       <div className="p-4 border-t border-gray-200 dark:border-gray-800">
-        <button
-          onClick={() => onOpenSettings('general')}
-          data-testid="open-settings"
-          className="w-full px-3 py-2 text-sm text-gray-600 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg flex items-center gap-2"
-        >
-          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"
-            />
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
-            />
-          </svg>
-          Settings
-        </button>
+        <div className="mb-2 flex gap-2">
+          <button
+            type="button"
+            onClick={() => importInputRef.current?.click()}
+            disabled={isImporting}
+            data-testid="import-bundle"
+            className="flex-1 px-2 py-1.5 text-xs text-gray-600 dark:text-gray-200 border border-gray-200 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg disabled:opacity-50"
+          >
+            {isImporting ? 'Importing...' : 'Import'}
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              void handleExport({ type: 'database' });
+            }}
+            data-testid="export-all"
+            className="flex-1 px-2 py-1.5 text-xs text-gray-600 dark:text-gray-200 border border-gray-200 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg"
+          >
+            Export all
+          </button>
+          <button
+            type="button"
+            onClick={onOpenUsage}
+            data-testid="open-usage"
+            className="flex-1 px-2 py-1.5 text-xs text-gray-600 dark:text-gray-200 border border-gray-200 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg"
+          >
+            Usage
+          </button>
+          <button
+            type="button"
+            onClick={onOpenTemplates}
+            data-testid="open-templates"
+            className="flex-1 px-2 py-1.5 text-xs text-gray-600 dark:text-gray-200 border border-gray-200 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg"
+          >
+            Templates
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImportFile}
+          />
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => onOpenSettings('general')}
+            data-testid="open-settings"
+            className="flex-1 px-3 py-2 text-sm text-gray-600 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg flex items-center gap-2"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"
+              />
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
+              />
+            </svg>
+            Settings
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowTrash((open) => !open)}
+            data-testid="open-trash"
+            aria-pressed={showTrash}
+            className={`px-3 py-2 text-sm rounded-lg ${
+              showTrash
+                ? 'bg-gray-200 dark:bg-gray-800 text-gray-800 dark:text-gray-100'
+                : 'text-gray-600 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800'
+            }`}
+          >
+            Trash
+          </button>
+        </div>
       </div>
 
       {contextMenu && (
@@ -380,6 +665,13 @@ export function Sidebar({ onOpenSettings, onOpenProjectSettings }: SidebarProps)
           >
             Rename
           </button>
+          <button
+            type="button"
+            onClick={() => handleEditTags(contextMenu.conversationId)}
+            className="w-full text-left px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800"
+          >
+            Edit tags
+          </button>
           <button
             type="button"
             onClick={() => {
@@ -389,6 +681,15 @@ export function Sidebar({ onOpenSettings, onOpenProjectSettings }: SidebarProps)
           >
             Regenerate title
           </button>
+          <button
+            type="button"
+            onClick={() => {
+              void handleExport({ type: 'conversation', id: contextMenu.conversationId });
+            }}
+            className="w-full text-left px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800"
+          >
+            Export (JSON)
+          </button>
           <div className="mt-2 border-t border-gray-100 dark:border-gray-800 pt-2">
             <div className="text-xs uppercase tracking-wide text-gray-400 dark:text-gray-500 px-2 pb-1">
               Move to project
@@ -418,17 +719,3 @@ export function Sidebar({ onOpenSettings, onOpenProjectSettings }: SidebarProps)
     </aside>
   );
 }
-
-function getSnippet(content: string, query: string, maxLength = 140) {
-  if (!content) return '';
-  const normalized = content.toLowerCase();
-  const idx = normalized.indexOf(query.toLowerCase());
-  if (idx === -1) {
-    return content.length > maxLength ? `${content.slice(0, maxLength)}...` : content;
-  }
-  const start = Math.max(0, idx - Math.floor(maxLength / 2));
-  const end = Math.min(content.length, start + maxLength);
-  const prefix = start > 0 ? '...' : '';
-  const suffix = end < content.length ? '...' : '';
-  return `${prefix}${content.slice(start, end)}${suffix}`;
-}
@@ -0,0 +1,234 @@
+import { useState } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { useStore } from '../../store';
+import type { Conversation, LocalToolKey, ToolPolicy } from '../../types';
+import { LOCAL_TOOL_LABELS, resolveToolSettings } from '../../utils/tools';
+
+type PolicyScope = 'conversation' | 'project';
+
+interface ToolPolicySectionProps {
+  conversation: Conversation;
+}
+
+// Sets or clears one override, dropping the record once it is empty
+function withOverride<K extends string>(
+  record: Partial<Record<K, boolean>> | undefined,
+  key: K,
+  value: boolean | undefined
+) {
+  const next: Partial<Record<K, boolean>> = { ...record };
+  if (value === undefined) {
+    delete next[key];
+  } else {
+    next[key] = value;
+  }
+  return Object.keys(next).length > 0 ? next : undefined;
+}
+
+function PolicySelect({
+  value,
+  inherited,
+  onChange,
+  testId,
+}: {
+  value: boolean | undefined;
+  inherited: boolean;
+  onChange: (value: boolean | undefined) => void;
+  testId: string;
+}) {
+  return (
+    <select
+      value={value === undefined ? 'inherit' : value ? 'on' : 'off'}
+      onChange={(event) =>
+        onChange(event.target.value === 'inherit' ? undefined : event.target.value === 'on')
+      }
+      data-testid={testId}
+      className="px-2 py-1 text-xs border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-200"
+    >
+      <option value="inherit">Inherit ({inherited ? 'on' : 'off'})</option>
+      <option value="on">On</option>
+      <option value="off">Off</option>
+    </select>
+  );
+}
+
+/**
+ * Tool overrides for the active chat or its project. Each row shows the value
+ * inherited from the level below; the footer lists what the chat will use.
+ */
+export function ToolPolicySection({ conversation }: ToolPolicySectionProps) {
+  const { toolSettings, projects, updateConversation, updateProject } = useStore(
+    useShallow((state) => ({
+      toolSettings: state.toolSettings,
+      projects: state.projects,
+      updateConversation: state.updateConversation,
+      updateProject: state.updateProject,
+    }))
+  );
+  const [selectedScope, setSelectedScope] = useState<PolicyScope>('conversation');
+
+  const project = conversation.projectId ? projects.get(conversation.projectId) : undefined;
+  const scope: PolicyScope = project ? selectedScope : 'conversation';
+  const policy: ToolPolicy =
+    (scope === 'project' ? project?.toolPolicy : conversation.toolPolicy) ?? {};
+  const inherited =
+    scope === 'project'
+      ? toolSettings
+      : resolveToolSettings(toolSettings, project?.toolPolicy);
+  const effective = resolveToolSettings(
+    toolSettings,
+    project?.toolPolicy,
+    conversation.toolPolicy
+  );
+
+  const updatePolicy = (updates: Partial<ToolPolicy>) => {
+    const next: ToolPolicy = { ...policy, ...updates };
+    for (const key of Object.keys(next) as Array<keyof ToolPolicy>) {
+      if (next[key] === undefined) delete next[key];
+    }
+    const toolPolicy = Object.keys(next).length > 0 ? next : undefined;
+    if (scope === 'project' && project) {
+      updateProject(project.id, { toolPolicy });
+    } else {
+      updateConversation(conversation.id, { toolPolicy });
+    }
+  };
+
+  const handleSensitiveToolsBlur = (value: string) => {
+    const sensitiveTools = value
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+    updatePolicy({ sensitiveTools: sensitiveTools.length > 0 ? sensitiveTools : undefined });
+  };
+
+  const effectiveTools = [
+    ...(Object.keys(LOCAL_TOOL_LABELS) as LocalToolKey[])
+      .filter((key) => effective[key].enabled)
+      .map((key) => LOCAL_TOOL_LABELS[key]),
+    ...(effective.mcp.enabled
+      ? effective.mcp.servers
+          .filter((server) => server.enabled && server.url.trim())
+          .map((server) => `mcp:${server.name}`)
+      : []),
+  ];
+
+  return (
+    <div data-testid="tool-policy">
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-xs font-medium text-gray-600 dark:text-gray-300">
+          Tool Policy
+        </label>
+        {project && (
+          <div className="inline-flex rounded-md border border-gray-200 dark:border-gray-700 p-0.5">
+            {(['conversation', 'project'] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setSelectedScope(option)}
+                data-testid={`tool-policy-scope-${option}`}
+                className={`px-2 py-0.5 text-[11px] rounded transition-colors ${
+                  scope === option
+                    ? 'bg-blue-500 text-white'
+                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800'
+                }`}
+              >
+                {option === 'project' ? 'Project' : 'This chat'}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-1.5 text-xs text-gray-600 dark:text-gray-300">
+        <div className="flex items-center justify-between gap-2">
+          <span>Tools</span>
+          <PolicySelect
+            value={policy.enabled}
+            inherited={inherited.enabled}
+            onChange={(enabled) => updatePolicy({ enabled })}
+            testId="tool-policy-enabled"
+          />
+        </div>
+        {(Object.keys(LOCAL_TOOL_LABELS) as LocalToolKey[]).map((key) => (
+          <div key={key} className="flex items-center justify-between gap-2">
+            <span className="font-mono truncate">{LOCAL_TOOL_LABELS[key]}</span>
+            <PolicySelect
+              value={policy.localTools?.[key]}
+              inherited={inherited[key].enabled}
+              onChange={(value) =>
+                updatePolicy({ localTools: withOverride(policy.localTools, key, value) })
+              }
+              testId={`tool-policy-local-${key}`}
+            />
+          </div>
+        ))}
+        {toolSettings.mcp.servers
+          .filter((server) => server.url.trim())
+          .map((server) => (
+            <div key={server.id} className="flex items-center justify-between gap-2">
+              <span className="truncate">MCP: {server.name}</span>
+              <PolicySelect
+                value={policy.mcpServers?.[server.id]}
+                inherited={
+                  inherited.mcp.enabled &&
+                  (inherited.mcp.servers.find((entry) => entry.id === server.id)?.enabled ??
+                    false)
+                }
+                onChange={(value) =>
+                  updatePolicy({
+                    mcpServers: withOverride(policy.mcpServers, server.id, value),
+                  })
+                }
+                testId={`tool-policy-mcp-${server.id}`}
+              />
+            </div>
+          ))}
+        <div className="flex items-center justify-between gap-2">
+          <span>Confirm sensitive tools</span>
+          <PolicySelect
+            value={policy.requireConfirmation}
+            inherited={inherited.permissions.requireConfirmation}
+            onChange={(requireConfirmation) => updatePolicy({ requireConfirmation })}
+            testId="tool-policy-confirmation"
+          />
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <span>Max steps</span>
+          <input
+            type="number"
+            min={1}
+            max={12}
+            value={policy.maxSteps ?? ''}
+            placeholder={String(inherited.maxSteps)}
+            onChange={(event) =>
+              updatePolicy({
+                maxSteps: event.target.value ? Number(event.target.value) : undefined,
+              })
+            }
+            data-testid="tool-policy-max-steps"
+            className="w-20 px-2 py-1 text-xs border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-200"
+          />
+        </div>
+        <input
+          key={`${scope}-${policy.sensitiveTools?.join(',') ?? ''}`}
+          type="text"
+          defaultValue={policy.sensitiveTools?.join(', ') ?? ''}
+          placeholder={inherited.permissions.sensitiveTools.join(', ')}
+          onBlur={(event) => handleSensitiveToolsBlur(event.target.value)}
+          title="Sensitive tools, comma separated. Leave empty to inherit."
+          data-testid="tool-policy-sensitive-tools"
+          className="w-full px-2 py-1 text-xs border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-200"
+        />
+      </div>
+
+      <p className="mt-2 text-xs text-gray-500 dark:text-gray-400" data-testid="tool-policy-effective">
+        {effective.enabled
+          ? `Effective: ${effectiveTools.join(', ') || 'no tools'} · ${effective.maxSteps} steps · ${
+              effective.permissions.requireConfirmation ? 'confirm sensitive' : 'no confirmation'
+            }`
+          : 'Effective: tools off for this chat'}
+      </p>
+    </div>
+  );
+}
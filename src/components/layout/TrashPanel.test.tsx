@@ -0,0 +1,58 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import * as db from '../../db';
+import { useStore } from '../../store';
+import type { Conversation, Project } from '../../types';
+import { TrashPanel } from './TrashPanel';
+
+function makeConversation(id: string, title: string, projectId?: string): Conversation {
+  return {
+    id,
+    title,
+    rootNodeId: `${id}-root`,
+    model: 'openai/gpt-4-turbo',
+    createdAt: 1,
+    updatedAt: 1,
+    projectId,
+    deletedAt: Date.now() - 60_000,
+  };
+}
+
+const project: Project = {
+  id: 'p1',
+  name: 'Research',
+  createdAt: 1,
+  updatedAt: 1,
+  deletedAt: Date.now(),
+};
+
+describe('TrashPanel', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('lists trashed projects with their chats folded in and restores items', async () => {
+    vi.spyOn(db, 'loadTrash').mockResolvedValue({
+      conversations: [
+        makeConversation('c1', 'Loose chat'),
+        makeConversation('c2', 'Project chat', 'p1'),
+      ],
+      projects: [project],
+      trashedNodes: [],
+    });
+    const restoreFromTrash = vi.fn().mockResolvedValue(undefined);
+    useStore.setState({ conversations: new Map(), trashRetentionDays: 30, restoreFromTrash });
+
+    render(<TrashPanel onClose={() => {}} />);
+
+    await waitFor(() => expect(screen.getAllByTestId('trash-item')).toHaveLength(2));
+    const items = screen.getAllByTestId('trash-item');
+    expect(items.map((item) => item.textContent)).toEqual([
+      expect.stringContaining('Project · 1 chat'),
+      expect.stringContaining('Loose chat'),
+    ]);
+    expect(screen.queryByText('Project chat')).toBeNull();
+
+    fireEvent.click(screen.getAllByTestId('trash-restore')[0]);
+    await waitFor(() => expect(restoreFromTrash).toHaveBeenCalledWith('project', 'p1'));
+  });
+});
@@ -0,0 +1,241 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { useStore } from '../../store';
+import { loadTrash } from '../../db';
+import type { Conversation, Project, TrashItemType, TrashedNodes } from '../../types';
+import {
+  getDaysUntilPurge,
+  getTrashedNodesTitle,
+  TRASH_RETENTION_OPTIONS,
+} from '../../utils/trash';
+
+interface TrashContents {
+  conversations: Conversation[];
+  projects: Project[];
+  trashedNodes: TrashedNodes[];
+}
+
+interface TrashRow {
+  type: TrashItemType;
+  id: string;
+  title: string;
+  detail: string;
+  deletedAt: number;
+}
+
+interface TrashPanelProps {
+  onClose: () => void;
+}
+
+export function TrashPanel({ onClose }: TrashPanelProps) {
+  const {
+    conversations,
+    trashRetentionDays,
+    restoreFromTrash,
+    deleteFromTrash,
+    emptyTrash,
+    setTrashRetentionDays,
+    addToast,
+  } = useStore(
+    useShallow((state) => ({
+      conversations: state.conversations,
+      trashRetentionDays: state.trashRetentionDays,
+      restoreFromTrash: state.restoreFromTrash,
+      deleteFromTrash: state.deleteFromTrash,
+      emptyTrash: state.emptyTrash,
+      setTrashRetentionDays: state.setTrashRetentionDays,
+      addToast: state.addToast,
+    }))
+  );
+  const [contents, setContents] = useState<TrashContents | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setContents(await loadTrash());
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh, trashRetentionDays]);
+
+  const rows = contents ? getTrashRows(contents, conversations) : [];
+
+  const runAction = async (row: TrashRow, action: 'restore' | 'delete') => {
+    if (action === 'delete' && !confirm(`Permanently delete "${row.title}"?`)) return;
+    setBusyId(row.id);
+    try {
+      if (action === 'restore') {
+        await restoreFromTrash(row.type, row.id);
+        addToast({ type: 'success', title: 'Restored', message: row.title });
+      } else {
+        await deleteFromTrash(row.type, row.id);
+      }
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: action === 'restore' ? 'Restore failed' : 'Delete failed',
+        message: error instanceof Error ? error.message : row.title,
+      });
+    } finally {
+      setBusyId(null);
+      await refresh();
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!confirm('Permanently delete everything in the trash?')) return;
+    await emptyTrash();
+    await refresh();
+  };
+
+  return (
+    <div data-testid="trash-panel">
+      <div className="flex items-center justify-between mb-2 px-1">
+        <span className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide">
+          Trash
+        </span>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-xs text-blue-600 hover:text-blue-700"
+        >
+          Back to chats
+        </button>
+      </div>
+
+      <label className="flex items-center justify-between gap-2 px-1 mb-3 text-xs text-gray-500 dark:text-gray-400">
+        Delete after
+        <select
+          value={trashRetentionDays}
+          onChange={(event) => setTrashRetentionDays(Number(event.target.value))}
+          data-testid="trash-retention"
+          className="px-2 py-1 text-xs border border-gray-200 dark:border-gray-700 rounded bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-200"
+        >
+          {Array.from(new Set([...TRASH_RETENTION_OPTIONS, trashRetentionDays]))
+            .sort((a, b) => a - b)
+            .map((days) => (
+              <option key={days} value={days}>
+                {days} days
+              </option>
+            ))}
+        </select>
+      </label>
+
+      {!contents ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">Loading...</p>
+      ) : rows.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">
+          Trash is empty
+        </p>
+      ) : (
+        <>
+          <ul className="space-y-1">
+            {rows.map((row) => (
+              <li
+                key={`${row.type}-${row.id}`}
+                data-testid="trash-item"
+                className="rounded-lg border border-gray-200 dark:border-gray-700 px-3 py-2"
+              >
+                <div className="text-sm text-gray-800 dark:text-gray-100 truncate">{row.title}</div>
+                <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                  {row.detail} · {formatPurgeIn(row.deletedAt, trashRetentionDays)}
+                </div>
+                <div className="mt-1 flex gap-3 text-xs">
+                  <button
+                    type="button"
+                    disabled={busyId === row.id}
+                    onClick={() => {
+                      void runAction(row, 'restore');
+                    }}
+                    data-testid="trash-restore"
+                    className="text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                  >
+                    Restore
+                  </button>
+                  <button
+                    type="button"
+                    disabled={busyId === row.id}
+                    onClick={() => {
+                      void runAction(row, 'delete');
+                    }}
+                    className="text-gray-500 hover:text-red-500 disabled:opacity-50"
+                  >
+                    Delete forever
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+          <button
+            type="button"
+            onClick={() => {
+              void handleEmptyTrash();
+            }}
+            className="mt-3 w-full px-3 py-1.5 text-xs text-red-600 border border-red-200 dark:border-red-500/40 hover:bg-red-50 dark:hover:bg-red-500/10 rounded-lg"
+          >
+            Empty trash
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Chats trashed along with their project are restored through the project
+function getTrashRows(
+  contents: TrashContents,
+  liveConversations: Map<string, Conversation>
+): TrashRow[] {
+  const trashedProjectIds = new Set(contents.projects.map((project) => project.id));
+  const chatCounts = new Map<string, number>();
+  const conversationTitles = new Map<string, string>();
+  for (const conversation of contents.conversations) {
+    conversationTitles.set(conversation.id, conversation.title);
+    if (conversation.projectId && trashedProjectIds.has(conversation.projectId)) {
+      chatCounts.set(conversation.projectId, (chatCounts.get(conversation.projectId) ?? 0) + 1);
+    }
+  }
+
+  const rows: TrashRow[] = [
+    ...contents.projects.map((project) => {
+      const count = chatCounts.get(project.id) ?? 0;
+      return {
+        type: 'project' as const,
+        id: project.id,
+        title: project.name,
+        detail: `Project · ${count} chat${count === 1 ? '' : 's'}`,
+        deletedAt: project.deletedAt ?? 0,
+      };
+    }),
+    ...contents.conversations
+      .filter(
+        (conversation) =>
+          !conversation.projectId || !trashedProjectIds.has(conversation.projectId)
+      )
+      .map((conversation) => ({
+        type: 'conversation' as const,
+        id: conversation.id,
+        title: conversation.title,
+        detail: 'Chat',
+        deletedAt: conversation.deletedAt ?? 0,
+      })),
+    ...contents.trashedNodes.map((entry) => ({
+      type: 'nodes' as const,
+      id: entry.id,
+      title: getTrashedNodesTitle(entry),
+      detail: `Node in ${
+        liveConversations.get(entry.conversationId)?.title ??
+        conversationTitles.get(entry.conversationId) ??
+        'a deleted chat'
+      }`,
+      deletedAt: entry.deletedAt,
+    })),
+  ];
+  return rows.sort((a, b) => b.deletedAt - a.deletedAt);
+}
+
+function formatPurgeIn(deletedAt: number, retentionDays: number) {
+  const days = getDaysUntilPurge(deletedAt, retentionDays);
+  if (days === 0) return 'deleted soon';
+  return `deleted in ${days} day${days === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,191 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useStore } from '../../store';
+import { loadUsageRecords } from '../../db';
+import type { UsageRecord } from '../../types';
+import { buildUsageReport, formatUsd, type UsageGroup } from '../../utils/usage';
+
+const MAX_CHART_DAYS = 30;
+
+interface UsageDashboardModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function UsageDashboardModal({ isOpen, onClose }: UsageDashboardModalProps) {
+  const addToast = useStore((state) => state.addToast);
+  const [records, setRecords] = useState<UsageRecord[] | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    const load = async () => {
+      setRecords(null);
+      try {
+        // Flush pending edits so the active chat's latest replies are counted.
+        const { activeConversationId, persistConversation } = useStore.getState();
+        if (activeConversationId) {
+          await persistConversation(activeConversationId);
+        }
+        const nextRecords = await loadUsageRecords();
+        if (!cancelled) setRecords(nextRecords);
+      } catch (error) {
+        if (cancelled) return;
+        setRecords([]);
+        addToast({
+          type: 'error',
+          title: 'Usage unavailable',
+          message: error instanceof Error ? error.message : 'Could not load usage data.',
+        });
+      }
+    };
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, addToast]);
+
+  const report = useMemo(() => (records ? buildUsageReport(records) : null), [records]);
+
+  if (!isOpen) return null;
+
+  const chartDays = report ? report.byDay.slice(-MAX_CHART_DAYS) : [];
+  const maxDayCost = Math.max(0, ...chartDays.map((day) => day.costUsd));
+  const maxDayTokens = Math.max(0, ...chartDays.map((day) => day.totalTokens));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+      <div
+        className="w-full max-w-4xl max-h-[90vh] overflow-hidden rounded-xl bg-white dark:bg-gray-900 shadow-xl flex flex-col"
+        data-testid="usage-dashboard"
+      >
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-800 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-100">Usage</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+            aria-label="Close usage dashboard"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-6">
+          {!report ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Loading usage...</p>
+          ) : report.total.replyCount === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No usage recorded yet. Token counts and cost are stored for replies received
+              from now on.
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <StatCard label="Total spend" value={formatUsd(report.total.costUsd)} />
+                <StatCard label="Replies" value={report.total.replyCount.toLocaleString()} />
+                <StatCard
+                  label="Prompt tokens"
+                  value={report.total.promptTokens.toLocaleString()}
+                  hint={
+                    report.total.cachedTokens > 0
+                      ? `${report.total.cachedTokens.toLocaleString()} cached`
+                      : undefined
+                  }
+                />
+                <StatCard
+                  label="Completion tokens"
+                  value={report.total.completionTokens.toLocaleString()}
+                  hint={
+                    report.total.reasoningTokens > 0
+                      ? `${report.total.reasoningTokens.toLocaleString()} reasoning`
+                      : undefined
+                  }
+                />
+              </div>
+
+              <section>
+                <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-200 mb-2">
+                  Spend per day
+                </h3>
+                <div className="flex items-end gap-1 h-32" data-testid="usage-by-day">
+                  {chartDays.map((day) => {
+                    const ratio =
+                      maxDayCost > 0
+                        ? day.costUsd / maxDayCost
+                        : maxDayTokens > 0
+                          ? day.totalTokens / maxDayTokens
+                          : 0;
+                    return (
+                      <div
+                        key={day.key}
+                        className="flex-1 min-w-[6px] rounded-t bg-blue-400 dark:bg-blue-500"
+                        style={{ height: `${Math.max(2, Math.round(ratio * 100))}%` }}
+                        title={`${day.label}: ${formatUsd(day.costUsd)} · ${day.totalTokens.toLocaleString()} tokens`}
+                      />
+                    );
+                  })}
+                </div>
+                <div className="mt-1 flex justify-between text-[11px] text-gray-400">
+                  <span>{chartDays[0]?.label}</span>
+                  <span>{chartDays[chartDays.length - 1]?.label}</span>
+                </div>
+              </section>
+
+              <UsageTable title="By model" groups={report.byModel} />
+              <UsageTable title="By project" groups={report.byProject} />
+              <UsageTable title="By conversation" groups={report.byConversation} />
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function StatCard({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="rounded-lg border border-gray-200 dark:border-gray-700 px-3 py-2">
+      <div className="text-xs text-gray-500 dark:text-gray-400">{label}</div>
+      <div className="text-lg font-semibold text-gray-800 dark:text-gray-100 tabular-nums">
+        {value}
+      </div>
+      {hint && <div className="text-[11px] text-gray-400">{hint}</div>}
+    </div>
+  );
+}
+
+function UsageTable({ title, groups }: { title: string; groups: UsageGroup[] }) {
+  return (
+    <section>
+      <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-200 mb-2">{title}</h3>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+            <th className="py-1 font-medium">Name</th>
+            <th className="py-1 font-medium text-right">Replies</th>
+            <th className="py-1 font-medium text-right">Prompt</th>
+            <th className="py-1 font-medium text-right">Completion</th>
+            <th className="py-1 font-medium text-right">Cost</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+          {groups.map((group) => (
+            <tr key={group.key} className="text-gray-700 dark:text-gray-200">
+              <td className="py-1 pr-2 truncate max-w-[18rem]" title={group.label}>
+                {group.label}
+              </td>
+              <td className="py-1 text-right tabular-nums">{group.replyCount}</td>
+              <td className="py-1 text-right tabular-nums">
+                {group.promptTokens.toLocaleString()}
+              </td>
+              <td className="py-1 text-right tabular-nums">
+                {group.completionTokens.toLocaleString()}
+              </td>
+              <td className="py-1 text-right tabular-nums">{formatUsd(group.costUsd)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
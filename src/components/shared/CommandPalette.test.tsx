@@ -0,0 +1,121 @@
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { useStore } from '../../store';
+import type { Conversation, ConversationNode } from '../../types';
+import { rankCommands, registerCommands } from '../../utils/commandRegistry';
+import { CommandPalette } from './CommandPalette';
+
+const conversation: Conversation = {
+  id: 'c1',
+  title: 'Trip planning',
+  rootNodeId: 'n1',
+  model: 'openai/gpt-4-turbo',
+  createdAt: 1,
+  updatedAt: 1,
+};
+
+function makeNode(id: string, content: string, label?: string): ConversationNode {
+  return {
+    id,
+    conversationId: 'c1',
+    label,
+    messages: [
+      { id: `${id}-m`, nodeId: id, role: 'user', content, createdAt: 1, isStreaming: false },
+    ],
+    position: { x: 0, y: 0 },
+    status: 'idle',
+    createdAt: 1,
+    updatedAt: 1,
+    isCollapsed: false,
+  };
+}
+
+function openPalette() {
+  fireEvent.keyDown(document, { key: 'k', ctrlKey: true });
+  return screen.getByTestId('command-palette-input');
+}
+
+describe('CommandPalette', () => {
+  const scrollIntoView = Element.prototype.scrollIntoView;
+
+  beforeAll(() => {
+    // jsdom has no layout, so scrolling the highlighted item is a no-op
+    Element.prototype.scrollIntoView = () => {};
+  });
+
+  afterAll(() => {
+    Element.prototype.scrollIntoView = scrollIntoView;
+  });
+
+  beforeEach(() => {
+    useStore.setState({
+      conversations: new Map([[conversation.id, conversation]]),
+      nodes: new Map([
+        ['n1', makeNode('n1', 'Where should we go?')],
+        ['n2', makeNode('n2', 'Compare train fares to Lyon', 'Rail option')],
+      ]),
+      projects: new Map(),
+      activeConversationId: 'c1',
+      activeNodeId: 'n1',
+      activeProjectId: null,
+      viewMode: 'chat',
+    });
+  });
+
+  test('jumps to a node found by its message content', () => {
+    render(<CommandPalette />);
+    const input = openPalette();
+
+    fireEvent.change(input, { target: { value: 'train fares' } });
+    const items = screen.getAllByTestId('command-palette-item');
+    expect(items[0].textContent).toContain('Go to Rail option');
+
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(useStore.getState().activeNodeId).toBe('n2');
+    expect(screen.queryByTestId('command-palette')).toBeNull();
+  });
+
+  test('runs commands registered by components until they unregister', () => {
+    const run = vi.fn();
+    let unregister = () => {};
+    act(() => {
+      unregister = registerCommands([
+        { id: 'test.greet', title: 'Say hello', group: 'Test', run },
+      ]);
+    });
+
+    render(<CommandPalette />);
+    fireEvent.change(openPalette(), { target: { value: 'hello' } });
+    fireEvent.click(screen.getByText('Say hello'));
+    expect(run).toHaveBeenCalledTimes(1);
+
+    act(() => unregister());
+    fireEvent.change(openPalette(), { target: { value: 'hello' } });
+    expect(screen.queryByText('Say hello')).toBeNull();
+  });
+
+  test('switches view mode and closes on Escape', () => {
+    render(<CommandPalette />);
+    const input = openPalette();
+
+    fireEvent.change(input, { target: { value: 'graph view' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(useStore.getState().viewMode).toBe('graph');
+
+    fireEvent.keyDown(openPalette(), { key: 'Escape' });
+    expect(screen.queryByTestId('command-palette')).toBeNull();
+  });
+
+  test('keeps the later of two commands with the same id, in its own position', () => {
+    const run = () => {};
+    const ranked = rankCommands(
+      [
+        { id: 'a', title: 'Old A', group: 'Test', run },
+        { id: 'b', title: 'B', group: 'Test', run },
+        { id: 'a', title: 'New A', group: 'Test', run },
+      ],
+      ''
+    );
+    expect(ranked.map((command) => command.title)).toEqual(['B', 'New A']);
+  });
+});
@@ -0,0 +1,288 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { useStore } from '../../store';
+import { useRegisteredCommands } from '../../hooks';
+import type { ViewMode } from '../../types';
+import { rankCommands, type PaletteCommand } from '../../utils/commandRegistry';
+
+const MAX_RESULTS = 50;
+const NODE_KEYWORD_CHARS = 2000;
+
+const VIEW_MODES: Array<{ mode: ViewMode; label: string }> = [
+  { mode: 'chat', label: 'Chat' },
+  { mode: 'graph', label: 'Graph' },
+  { mode: 'context', label: 'Context' },
+  { mode: 'compare', label: 'Compare' },
+];
+
+/**
+ * Ctrl/Cmd+K launcher. Core navigation commands are built here from the store;
+ * components add their own through useRegisterCommands.
+ */
+export function CommandPalette() {
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() !== 'k' || !(event.metaKey || event.ctrlKey)) return;
+      if (event.shiftKey || event.altKey) return;
+      event.preventDefault();
+      setIsOpen((open) => !open);
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  if (!isOpen) return null;
+  return <CommandPaletteDialog onClose={() => setIsOpen(false)} />;
+}
+
+function CommandPaletteDialog({ onClose }: { onClose: () => void }) {
+  const {
+    conversations,
+    projects,
+    nodes,
+    activeConversationId,
+    activeProjectId,
+    viewMode,
+    addToast,
+  } = useStore(
+    useShallow((state) => ({
+      conversations: state.conversations,
+      projects: state.projects,
+      nodes: state.nodes,
+      activeConversationId: state.activeConversationId,
+      activeProjectId: state.activeProjectId,
+      viewMode: state.viewMode,
+      addToast: state.addToast,
+    }))
+  );
+  const registeredCommands = useRegisteredCommands();
+  const [query, setQuery] = useState('');
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  const coreCommands = useMemo((): PaletteCommand[] => {
+    const store = useStore.getState;
+    const commands: PaletteCommand[] = [];
+    const activeConversation = activeConversationId
+      ? conversations.get(activeConversationId)
+      : undefined;
+
+    for (const { mode, label } of VIEW_MODES) {
+      if (mode === viewMode) continue;
+      commands.push({
+        id: `view.${mode}`,
+        title: `Switch to ${label} view`,
+        group: 'View',
+        run: () => store().setViewMode(mode),
+      });
+    }
+
+    commands.push({
+      id: 'conversation.new',
+      title: 'New chat',
+      group: 'Chats',
+      run: async () => {
+        const state = store();
+        await state.createConversation(
+          `Chat ${state.conversations.size + 1}`,
+          undefined,
+          state.activeProjectId
+        );
+      },
+    });
+
+    if (activeConversation) {
+      commands.push(
+        {
+          id: 'conversation.flow-mode',
+          title: activeConversation.flowMode ? 'Turn off flow mode' : 'Turn on flow mode',
+          group: 'Chats',
+          run: () => store().setFlowMode(activeConversation.id, !activeConversation.flowMode),
+        },
+        {
+          id: 'graph.auto-layout',
+          title: 'Auto-layout graph',
+          group: 'Graph',
+          run: () => store().autoLayoutNodes(),
+        }
+      );
+
+      for (const node of nodes.values()) {
+        if (node.conversationId !== activeConversation.id || node.isReply) continue;
+        const firstText =
+          node.messages.find((message) => message.role !== 'system')?.content.trim() ?? '';
+        const label = node.label || node.autoLabel;
+        commands.push({
+          id: `node.${node.id}`,
+          title: `Go to ${label || firstText.slice(0, 60) || `Node ${node.id.slice(0, 6)}`}`,
+          group: 'Nodes',
+          subtitle: label ? firstText.slice(0, 80) || undefined : undefined,
+          keywords: node.messages
+            .map((message) => message.content)
+            .join(' ')
+            .slice(0, NODE_KEYWORD_CHARS),
+          run: () => store().setActiveNode(node.id),
+        });
+      }
+    }
+
+    const sortedConversations = Array.from(conversations.values()).sort(
+      (a, b) => b.updatedAt - a.updatedAt
+    );
+    for (const conversation of sortedConversations) {
+      if (conversation.id === activeConversationId) continue;
+      commands.push({
+        id: `conversation.open.${conversation.id}`,
+        title: `Open ${conversation.title}`,
+        group: 'Chats',
+        subtitle: conversation.projectId
+          ? projects.get(conversation.projectId)?.name
+          : undefined,
+        run: () => store().setActiveConversation(conversation.id),
+      });
+    }
+
+    commands.push({
+      id: 'project.new',
+      title: 'New project',
+      group: 'Projects',
+      run: async () => {
+        const state = store();
+        await state.createProject(`Project ${state.projects.size + 1}`);
+      },
+    });
+    if (activeProjectId) {
+      commands.push({
+        id: 'project.none',
+        title: 'Leave current project',
+        group: 'Projects',
+        run: () => store().setActiveProject(null),
+      });
+    }
+    for (const project of projects.values()) {
+      if (project.id === activeProjectId) continue;
+      commands.push({
+        id: `project.open.${project.id}`,
+        title: `Switch to project ${project.name}`,
+        group: 'Projects',
+        run: () => store().setActiveProject(project.id),
+      });
+    }
+
+    return commands;
+  }, [conversations, projects, nodes, activeConversationId, activeProjectId, viewMode]);
+
+  // Registered commands first so component actions outrank long navigation lists
+  const results = useMemo(
+    () => rankCommands([...registeredCommands, ...coreCommands], query).slice(0, MAX_RESULTS),
+    [registeredCommands, coreCommands, query]
+  );
+
+  useEffect(() => {
+    setHighlightedIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${highlightedIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [highlightedIndex]);
+
+  const runCommand = async (command: PaletteCommand) => {
+    onClose();
+    try {
+      await command.run();
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Command failed',
+        message: error instanceof Error ? error.message : command.title,
+      });
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      onClose();
+    } else if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      if (results.length === 0) return;
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setHighlightedIndex((index) => (index + step + results.length) % results.length);
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      const command = results[highlightedIndex];
+      if (command) void runCommand(command);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-black/40 pt-[15vh]"
+      onMouseDown={onClose}
+    >
+      <div
+        className="w-full max-w-xl overflow-hidden rounded-xl bg-white dark:bg-gray-900 shadow-xl border border-gray-200 dark:border-gray-700"
+        onMouseDown={(event) => event.stopPropagation()}
+        role="dialog"
+        aria-label="Command palette"
+        data-testid="command-palette"
+      >
+        <input
+          ref={inputRef}
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Type a command, chat, or node..."
+          data-testid="command-palette-input"
+          className="w-full px-4 py-3 text-sm border-b border-gray-200 dark:border-gray-700 bg-transparent text-gray-800 dark:text-gray-100 focus:outline-none"
+        />
+        <div ref={listRef} className="max-h-80 overflow-y-auto py-1" role="listbox">
+          {results.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400">
+              No matching commands.
+            </p>
+          ) : (
+            results.map((command, index) => (
+              <button
+                key={command.id}
+                type="button"
+                role="option"
+                aria-selected={index === highlightedIndex}
+                data-index={index}
+                data-testid="command-palette-item"
+                onMouseEnter={() => setHighlightedIndex(index)}
+                onClick={() => void runCommand(command)}
+                className={`w-full px-4 py-2 text-left flex items-baseline gap-3 ${
+                  index === highlightedIndex ? 'bg-blue-50 dark:bg-blue-500/20' : ''
+                }`}
+              >
+                <span className="w-20 flex-shrink-0 text-[11px] uppercase tracking-wide text-gray-400">
+                  {command.group}
+                </span>
+                <span className="min-w-0 flex-1">
+                  <span className="block text-sm text-gray-800 dark:text-gray-100 truncate">
+                    {command.title}
+                  </span>
+                  {command.subtitle && (
+                    <span className="block text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {command.subtitle}
+                    </span>
+                  )}
+                </span>
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
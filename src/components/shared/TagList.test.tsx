@@ -0,0 +1,36 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { TagList } from './TagList';
+
+describe('TagList', () => {
+  test('adds typed tags and removes existing ones', () => {
+    const onChange = vi.fn();
+    render(<TagList tags={['bug']} onChange={onChange} />);
+
+    fireEvent.click(screen.getByTestId('tag-add'));
+    const input = screen.getByTestId('tag-input');
+    fireEvent.change(input, { target: { value: 'Decision, #bug, to do' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(onChange).toHaveBeenLastCalledWith(['bug', 'decision', 'to-do']);
+
+    fireEvent.click(screen.getByLabelText('Remove tag bug'));
+    expect(onChange).toHaveBeenLastCalledWith([]);
+  });
+
+  test('toggles filter chips', () => {
+    const onToggle = vi.fn();
+    render(
+      <TagList
+        tags={['bug', 'todo']}
+        selectedTags={['todo']}
+        onToggle={onToggle}
+        counts={{ bug: 2, todo: 1 }}
+      />
+    );
+    const chips = screen.getAllByTestId('tag-chip');
+    expect(chips[1]).toHaveAttribute('aria-pressed', 'true');
+    expect(chips[0].textContent).toBe('#bug2');
+
+    fireEvent.click(chips[0]);
+    expect(onToggle).toHaveBeenCalledWith('bug');
+  });
+});
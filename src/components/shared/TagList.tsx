@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { addTags, parseTags, removeTag } from '../../utils/tags';
+
+interface TagListProps {
+  tags: string[];
+  // Editable when provided
+  onChange?: (tags: string[]) => void;
+  addLabel?: string;
+  selectedTags?: string[];
+  onToggle?: (tag: string) => void;
+  counts?: Record<string, number>;
+}
+
+/**
+ * Tag chips. Read-only by default; with onChange they can be removed and new
+ * comma-separated tags typed in, with onToggle they act as filter buttons.
+ */
+export function TagList({
+  tags,
+  onChange,
+  addLabel = '+ Tag',
+  selectedTags,
+  onToggle,
+  counts,
+}: TagListProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commitDraft = () => {
+    if (draft !== null && onChange) {
+      const additions = parseTags(draft);
+      if (additions.length > 0) onChange(addTags(tags, additions));
+    }
+    setDraft(null);
+  };
+
+  if (tags.length === 0 && !onChange) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1" data-testid="tag-list">
+      {tags.map((tag) => {
+        const isSelected = selectedTags?.includes(tag) ?? false;
+        const chipClass = `inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-[11px] leading-none ${
+          isSelected
+            ? 'border-blue-400 bg-blue-100 text-blue-800 dark:bg-blue-500/20 dark:text-blue-200'
+            : 'border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800 text-gray-600 dark:text-gray-300'
+        }`;
+        return onToggle ? (
+          <button
+            key={tag}
+            type="button"
+            onClick={() => onToggle(tag)}
+            aria-pressed={isSelected}
+            data-testid="tag-chip"
+            className={`${chipClass} hover:border-blue-300`}
+          >
+            #{tag}
+            {counts?.[tag] !== undefined && (
+              <span className="text-gray-400 dark:text-gray-500">{counts[tag]}</span>
+            )}
+          </button>
+        ) : (
+          <span key={tag} data-testid="tag-chip" className={chipClass}>
+            #{tag}
+            {onChange && (
+              <button
+                type="button"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  onChange(removeTag(tags, tag));
+                }}
+                className="text-gray-400 hover:text-red-500"
+                aria-label={`Remove tag ${tag}`}
+              >
+                ×
+              </button>
+            )}
+          </span>
+        );
+      })}
+      {onChange &&
+        (draft === null ? (
+          <button
+            type="button"
+            onClick={() => setDraft('')}
+            data-testid="tag-add"
+            className="rounded-full px-2 py-0.5 text-[11px] leading-none text-gray-400 hover:text-blue-600"
+          >
+            {addLabel}
+          </button>
+        ) : (
+          <input
+            autoFocus
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            onBlur={commitDraft}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') {
+                event.preventDefault();
+                commitDraft();
+              } else if (event.key === 'Escape') {
+                event.preventDefault();
+                setDraft(null);
+              }
+            }}
+            placeholder="tag, another"
+            data-testid="tag-input"
+            className="w-28 rounded-full border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 px-2 py-0.5 text-[11px] text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        ))}
+    </div>
+  );
+}
@@ -34,12 +34,25 @@ export function ToastContainer() {
           }`}
         >
           <div className="flex items-start justify-between gap-3">
-            <div>
+            <div className="flex-1">
               <div className="text-sm font-semibold">{toast.title}</div>
               {toast.message && (
                 <div className="text-xs mt-1 leading-snug">{toast.message}</div>
               )}
             </div>
+            {toast.action && (
+              <button
+                type="button"
+                data-testid="toast-action"
+                onClick={() => {
+                  removeToast(toast.id);
+                  toast.action?.onClick();
+                }}
+                className="text-xs font-semibold text-blue-600 dark:text-blue-300 hover:underline"
+              >
+                {toast.action.label}
+              </button>
+            )}
             <button
               type="button"
               data-testid="toast-close"
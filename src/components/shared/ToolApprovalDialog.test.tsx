@@ -0,0 +1,54 @@
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { useStore } from '../../store';
+import { getDefaultToolSettings } from '../../utils/tools';
+import { ToolApprovalDialog } from './ToolApprovalDialog';
+
+describe('ToolApprovalDialog', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useStore.setState({ toolApprovalRequests: [], toolSettings: getDefaultToolSettings() });
+  });
+
+  test('shows the full arguments and resolves a one-off answer', async () => {
+    render(<ToolApprovalDialog />);
+
+    let decision: Promise<string> = Promise.resolve('');
+    act(() => {
+      decision = useStore.getState().requestToolApproval({
+        conversationId: 'c1',
+        nodeId: 'n1',
+        toolName: 'daytona_exec',
+        source: 'local',
+        args: { command: 'ls -la', cwd: '/workspace' },
+      });
+    });
+
+    const args = screen.getByTestId('tool-approval-args').textContent;
+    expect(args).toContain('"cwd": "/workspace"');
+    fireEvent.click(screen.getByTestId('tool-approval-allow-once'));
+
+    await expect(decision).resolves.toBe('allow-once');
+    expect(screen.queryByTestId('tool-approval-dialog')).not.toBeInTheDocument();
+  });
+
+  test('denies pending requests when their generation stops', async () => {
+    render(<ToolApprovalDialog />);
+
+    let decision: Promise<string> = Promise.resolve('');
+    act(() => {
+      decision = useStore.getState().requestToolApproval({
+        conversationId: 'c1',
+        nodeId: 'n1',
+        toolName: 'mcp:search',
+        source: 'mcp',
+        args: {},
+      });
+    });
+    act(() => {
+      useStore.getState().cancelToolApprovals('n1');
+    });
+
+    await expect(decision).resolves.toBe('deny-once');
+    expect(screen.queryByTestId('tool-approval-dialog')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,113 @@
+import { useShallow } from 'zustand/react/shallow';
+import { useStore } from '../../store';
+import type { ToolApprovalDecision } from '../../types';
+
+const ALLOW_CHOICES: Array<{ decision: ToolApprovalDecision; label: string }> = [
+  { decision: 'allow-once', label: 'Allow once' },
+  { decision: 'allow-conversation', label: 'Allow in this chat' },
+  { decision: 'allow-always', label: 'Always allow' },
+];
+
+function formatArgs(args: Record<string, unknown>) {
+  try {
+    return JSON.stringify(args, null, 2);
+  } catch {
+    return String(args);
+  }
+}
+
+/**
+ * Asks before a sensitive tool runs. Requests queue in the store and are shown
+ * one at a time; "always" and "this chat" answers are saved as rules.
+ */
+export function ToolApprovalDialog() {
+  const { requests, conversations, resolveToolApproval } = useStore(
+    useShallow((state) => ({
+      requests: state.toolApprovalRequests,
+      conversations: state.conversations,
+      resolveToolApproval: state.resolveToolApproval,
+    }))
+  );
+
+  const request = requests[0];
+  if (!request) return null;
+  const conversationTitle = conversations.get(request.conversationId)?.title ?? 'this chat';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="tool-approval-title"
+        className="w-full max-w-lg max-h-[90vh] overflow-hidden rounded-xl bg-white dark:bg-gray-900 shadow-xl flex flex-col"
+        data-testid="tool-approval-dialog"
+      >
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-800">
+          <h2
+            id="tool-approval-title"
+            className="text-lg font-semibold text-gray-800 dark:text-gray-100"
+          >
+            Allow tool <span className="font-mono">{request.toolName}</span>?
+          </h2>
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            {request.source === 'mcp'
+              ? `MCP tool${request.serverName ? ` from ${request.serverName}` : ''}`
+              : 'Local tool'}{' '}
+            requested in {conversationTitle}
+            {requests.length > 1 ? ` · ${requests.length - 1} more waiting` : ''}
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4">
+          <div className="text-xs font-medium text-gray-600 dark:text-gray-300 mb-1">
+            Arguments
+          </div>
+          <pre
+            className="text-xs whitespace-pre-wrap break-words rounded-lg bg-gray-50 dark:bg-gray-800 p-3 text-gray-800 dark:text-gray-100"
+            data-testid="tool-approval-args"
+          >
+            {formatArgs(request.args)}
+          </pre>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-800 flex flex-wrap items-center justify-between gap-2">
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => resolveToolApproval(request.id, 'deny-once')}
+              data-testid="tool-approval-deny-once"
+              className="px-3 py-1.5 text-sm rounded-lg border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-800"
+            >
+              Deny
+            </button>
+            <button
+              type="button"
+              onClick={() => resolveToolApproval(request.id, 'deny-always')}
+              data-testid="tool-approval-deny-always"
+              className="px-3 py-1.5 text-sm rounded-lg border border-red-200 dark:border-red-500/40 text-red-600 dark:text-red-300 hover:bg-red-50 dark:hover:bg-red-500/10"
+            >
+              Always deny
+            </button>
+          </div>
+          <div className="flex gap-2">
+            {ALLOW_CHOICES.map(({ decision, label }) => (
+              <button
+                key={decision}
+                type="button"
+                onClick={() => resolveToolApproval(request.id, decision)}
+                data-testid={`tool-approval-${decision}`}
+                className={`px-3 py-1.5 text-sm rounded-lg transition-colors ${
+                  decision === 'allow-once'
+                    ? 'bg-blue-500 text-white hover:bg-blue-600'
+                    : 'border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-800'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
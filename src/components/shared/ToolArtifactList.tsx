@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import { loadToolArtifact } from '../../db';
+import type { ToolResultArtifact } from '../../types';
+import { formatFileSize } from '../../utils/files';
+
+interface ToolArtifactListProps {
+  artifacts: ToolResultArtifact[];
+  compact?: boolean;
+}
+
+const chipClass =
+  'px-3 py-1 rounded-full border border-gray-200 dark:border-gray-700 text-xs text-gray-600 dark:text-gray-200 bg-gray-50 dark:bg-gray-800 break-all';
+
+function isWebUrl(uri: string | undefined): uri is string {
+  return Boolean(uri && /^https?:\/\//i.test(uri));
+}
+
+// Object URL for a stored artifact; null while loading or when it is gone
+function useArtifactUrl(artifact: ToolResultArtifact) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!artifact.stored) return;
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    loadToolArtifact(artifact.id)
+      .then((stored) => {
+        if (cancelled || !stored) return;
+        objectUrl = URL.createObjectURL(stored.data);
+        setUrl(objectUrl);
+      })
+      .catch(() => {
+        // Missing after an import or a purge; the chip is shown instead.
+      });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [artifact.id, artifact.stored]);
+
+  return url;
+}
+
+function ToolArtifactItem({
+  artifact,
+  compact,
+}: {
+  artifact: ToolResultArtifact;
+  compact: boolean;
+}) {
+  const url = useArtifactUrl(artifact);
+  const label = artifact.name || artifact.uri || artifact.mimeType || artifact.kind;
+  const size = artifact.size !== undefined ? ` · ${formatFileSize(artifact.size)}` : '';
+
+  if (artifact.kind === 'resource_link') {
+    return isWebUrl(artifact.uri) ? (
+      <a
+        href={artifact.uri}
+        target="_blank"
+        rel="noreferrer"
+        title={artifact.uri}
+        className={`${chipClass} text-blue-600 dark:text-blue-400 hover:underline`}
+        data-testid="tool-artifact-link"
+      >
+        {label}
+      </a>
+    ) : (
+      <span className={chipClass} title={artifact.uri} data-testid="tool-artifact-link">
+        {label}
+      </span>
+    );
+  }
+
+  if (artifact.kind === 'image' && url) {
+    return (
+      <a
+        href={url}
+        download={artifact.name ?? ''}
+        title={`${label}${size}`}
+        className="block rounded-lg overflow-hidden border border-gray-200 dark:border-gray-700"
+        data-testid="tool-artifact-image"
+      >
+        <img
+          src={url}
+          alt={label}
+          className={`${compact ? 'h-16' : 'h-40'} w-auto max-w-[16rem] object-contain`}
+        />
+      </a>
+    );
+  }
+
+  if (artifact.kind === 'audio' && url) {
+    return <audio controls src={url} className="max-w-full" data-testid="tool-artifact-audio" />;
+  }
+
+  if (url) {
+    return (
+      <a
+        href={url}
+        download={artifact.name ?? ''}
+        className={`${chipClass} text-blue-600 dark:text-blue-400 hover:underline`}
+        data-testid="tool-artifact-resource"
+      >
+        {label}
+        {size}
+      </a>
+    );
+  }
+
+  return (
+    <span className={chipClass} title={artifact.uri} data-testid="tool-artifact-missing">
+      {artifact.kind}: {label}
+      {size}
+      {artifact.stored ? '' : ' (not saved)'}
+    </span>
+  );
+}
+
+/**
+ * Images, audio and resources returned by MCP tools. Stored payloads are read
+ * from IndexedDB and only shown inline or downloaded, never opened as a page;
+ * links to web resources open in a new tab.
+ */
+export function ToolArtifactList({ artifacts, compact = false }: ToolArtifactListProps) {
+  if (artifacts.length === 0) return null;
+  return (
+    <div className="mt-2 flex flex-wrap items-start gap-2" data-testid="tool-artifacts">
+      {artifacts.map((artifact) => (
+        <ToolArtifactItem key={artifact.id} artifact={artifact} compact={compact} />
+      ))}
+    </div>
+  );
+}
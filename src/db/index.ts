@@ -1,4 +1,5 @@
-import Dexie, { type Table } from 'dexie';
+import Dexie, { type Table, type Transaction } from 'dexie';
+import { v4 as uuidv4 } from 'uuid';
 import type {
   Conversation,
   ConversationNode,
@@ -10,12 +11,43 @@ import type {
   Project,
   ProjectId,
   MessageSearchResult,
+  UsageRecord,
   RagChunk,
   RagScopeType,
   RagScopeStats,
   MemoryItem,
   MemoryScopeType,
+  BundleAttachmentBlob,
+  BundleScope,
+  PromptTemplate,
+  PromptTemplateScopeType,
+  TrashedNodes,
+  MessageId,
+  MessageEmbedding,
+  StoredToolArtifact,
+  StoredAttachmentBlob,
+  FileAttachment,
 } from '../types';
+import {
+  buildHighlightedSnippet,
+  parseSearchQuery,
+  SearchIndex,
+  toSearchDocument,
+  type SearchDocument,
+  type SearchFilters,
+} from '../utils/searchIndex';
+import { dataUrlToBlob } from '../utils/files';
+import { fromBundleAttachmentBlob, toBundleAttachmentBlob } from '../utils/bundle';
+import {
+  cosineSimilarity,
+  hashText,
+  rankHybridHits,
+  selectMessagesToEmbed,
+  type SemanticMatch,
+} from '../utils/semanticSearch';
+
+// Latest Dexie schema version; bundles record it for import validation
+export const DB_SCHEMA_VERSION = 11;
 
 class GraphChatDB extends Dexie {
   conversations!: Table<Conversation, ConversationId>;
@@ -26,6 +58,11 @@ class GraphChatDB extends Dexie {
   projects!: Table<Project, ProjectId>;
   ragChunks!: Table<RagChunk, string>;
   memories!: Table<MemoryItem, string>;
+  promptTemplates!: Table<PromptTemplate, string>;
+  trashedNodes!: Table<TrashedNodes, string>;
+  messageEmbeddings!: Table<MessageEmbedding, MessageId>;
+  toolArtifacts!: Table<StoredToolArtifact, string>;
+  attachmentBlobs!: Table<StoredAttachmentBlob, string>;
 
   constructor() {
     super('GraphChatDB');
@@ -77,9 +114,169 @@ class GraphChatDB extends Dexie {
       memories:
         'id, [scopeType+scopeId], [scopeType+scopeId+normalizedText], updatedAt, pinned',
     });
+
+    this.version(6).stores({
+      conversations: 'id, createdAt, updatedAt',
+      nodes: 'id, conversationId, createdAt, [conversationId+createdAt]',
+      edges: 'id, conversationId, source, target, [source+target]',
+      messages: 'id, nodeId, createdAt, [nodeId+createdAt]',
+      fileHandles: 'id, createdAt',
+      projects: 'id, createdAt, updatedAt',
+      ragChunks:
+        'id, [scopeType+scopeId], [scopeType+scopeId+sourceKey], sourceKey, updatedAt',
+      memories:
+        'id, [scopeType+scopeId], [scopeType+scopeId+normalizedText], updatedAt, pinned',
+      promptTemplates: 'id, [scopeType+scopeId], updatedAt',
+    });
+
+    this.version(7).stores({
+      conversations: 'id, createdAt, updatedAt, deletedAt',
+      nodes: 'id, conversationId, createdAt, [conversationId+createdAt]',
+      edges: 'id, conversationId, source, target, [source+target]',
+      messages: 'id, nodeId, createdAt, [nodeId+createdAt]',
+      fileHandles: 'id, createdAt',
+      projects: 'id, createdAt, updatedAt, deletedAt',
+      ragChunks:
+        'id, [scopeType+scopeId], [scopeType+scopeId+sourceKey], sourceKey, updatedAt',
+      memories:
+        'id, [scopeType+scopeId], [scopeType+scopeId+normalizedText], updatedAt, pinned',
+      promptTemplates: 'id, [scopeType+scopeId], updatedAt',
+      trashedNodes: 'id, conversationId, deletedAt',
+    });
+
+    this.version(8).stores({
+      conversations: 'id, createdAt, updatedAt, deletedAt',
+      nodes: 'id, conversationId, createdAt, [conversationId+createdAt], *tags',
+      edges: 'id, conversationId, source, target, [source+target]',
+      messages: 'id, nodeId, createdAt, [nodeId+createdAt]',
+      fileHandles: 'id, createdAt',
+      projects: 'id, createdAt, updatedAt, deletedAt',
+      ragChunks:
+        'id, [scopeType+scopeId], [scopeType+scopeId+sourceKey], sourceKey, updatedAt',
+      memories:
+        'id, [scopeType+scopeId], [scopeType+scopeId+normalizedText], updatedAt, pinned',
+      promptTemplates: 'id, [scopeType+scopeId], updatedAt',
+      trashedNodes: 'id, conversationId, deletedAt',
+    });
+
+    this.version(9).stores({
+      conversations: 'id, createdAt, updatedAt, deletedAt',
+      nodes: 'id, conversationId, createdAt, [conversationId+createdAt], *tags',
+      edges: 'id, conversationId, source, target, [source+target]',
+      messages: 'id, nodeId, createdAt, [nodeId+createdAt]',
+      fileHandles: 'id, createdAt',
+      projects: 'id, createdAt, updatedAt, deletedAt',
+      ragChunks:
+        'id, [scopeType+scopeId], [scopeType+scopeId+sourceKey], sourceKey, updatedAt',
+      memories:
+        'id, [scopeType+scopeId], [scopeType+scopeId+normalizedText], updatedAt, pinned',
+      promptTemplates: 'id, [scopeType+scopeId], updatedAt',
+      trashedNodes: 'id, conversationId, deletedAt',
+      messageEmbeddings: 'messageId, conversationId, embeddingModel',
+    });
+
+    this.version(10).stores({
+      conversations: 'id, createdAt, updatedAt, deletedAt',
+      nodes: 'id, conversationId, createdAt, [conversationId+createdAt], *tags',
+      edges: 'id, conversationId, source, target, [source+target]',
+      messages: 'id, nodeId, createdAt, [nodeId+createdAt]',
+      fileHandles: 'id, createdAt',
+      projects: 'id, createdAt, updatedAt, deletedAt',
+      ragChunks:
+        'id, [scopeType+scopeId], [scopeType+scopeId+sourceKey], sourceKey, updatedAt',
+      memories:
+        'id, [scopeType+scopeId], [scopeType+scopeId+normalizedText], updatedAt, pinned',
+      promptTemplates: 'id, [scopeType+scopeId], updatedAt',
+      trashedNodes: 'id, conversationId, deletedAt',
+      messageEmbeddings: 'messageId, conversationId, embeddingModel',
+      toolArtifacts: 'id, conversationId, createdAt',
+    });
+
+    this.version(DB_SCHEMA_VERSION)
+      .stores({
+        conversations: 'id, createdAt, updatedAt, deletedAt',
+        nodes: 'id, conversationId, createdAt, [conversationId+createdAt], *tags',
+        edges: 'id, conversationId, source, target, [source+target]',
+        messages: 'id, nodeId, createdAt, [nodeId+createdAt]',
+        fileHandles: 'id, createdAt',
+        projects: 'id, createdAt, updatedAt, deletedAt',
+        ragChunks:
+          'id, [scopeType+scopeId], [scopeType+scopeId+sourceKey], sourceKey, updatedAt',
+        memories:
+          'id, [scopeType+scopeId], [scopeType+scopeId+normalizedText], updatedAt, pinned',
+        promptTemplates: 'id, [scopeType+scopeId], updatedAt',
+        trashedNodes: 'id, conversationId, deletedAt',
+        messageEmbeddings: 'messageId, conversationId, embeddingModel',
+        toolArtifacts: 'id, conversationId, createdAt',
+        attachmentBlobs: 'id, conversationId, createdAt',
+      })
+      .upgrade(moveInlineCopiesToBlobs);
   }
 }
 
+/**
+ * Moves the base64 data URLs that older versions kept on message attachments
+ * into attachment blobs. Messages are updated in place; one blob is kept per
+ * attachment and conversation, however many messages repeat it.
+ */
+export function extractInlineCopies(
+  messages: Message[] | undefined,
+  conversationId: ConversationId,
+  blobs: Map<string, StoredAttachmentBlob>
+) {
+  for (const message of messages ?? []) {
+    const attachments = (message.attachments ?? []) as Array<FileAttachment & { dataUrl?: string }>;
+    for (const attachment of attachments) {
+      const dataUrl = attachment.dataUrl;
+      if (dataUrl === undefined) continue;
+      delete attachment.dataUrl;
+      const data = dataUrlToBlob(dataUrl);
+      if (!data) continue;
+      const key = `${conversationId}\n${attachment.id}`;
+      let blob = blobs.get(key);
+      if (!blob) {
+        blob = {
+          id: uuidv4(),
+          conversationId,
+          mimeType: data.type || attachment.type,
+          data,
+          size: data.size,
+          createdAt: message.createdAt,
+        };
+        blobs.set(key, blob);
+      }
+      attachment.blobId = blob.id;
+    }
+  }
+}
+
+async function moveInlineCopiesToBlobs(tx: Transaction) {
+  const blobs = new Map<string, StoredAttachmentBlob>();
+  const conversationByNode = new Map<NodeId, ConversationId>();
+  await tx
+    .table<ConversationNode>('nodes')
+    .toCollection()
+    .modify((node) => {
+      conversationByNode.set(node.id, node.conversationId);
+      extractInlineCopies(node.messages, node.conversationId, blobs);
+    });
+  await tx
+    .table<Message>('messages')
+    .toCollection()
+    .modify((message) => {
+      extractInlineCopies([message], conversationByNode.get(message.nodeId) ?? '', blobs);
+    });
+  await tx
+    .table<TrashedNodes>('trashedNodes')
+    .toCollection()
+    .modify((entry) => {
+      for (const node of entry.nodes) {
+        extractInlineCopies(node.messages, entry.conversationId, blobs);
+      }
+    });
+  await tx.table<StoredAttachmentBlob>('attachmentBlobs').bulkPut(Array.from(blobs.values()));
+}
+
 export const db = new GraphChatDB();
 
 // Load a full conversation with all its data
@@ -97,7 +294,10 @@ export async function loadConversation(id: ConversationId) {
       ? await db.messages.where('nodeId').anyOf(nodeIds).toArray()
       : [];
 
-  // Attach messages to nodes
+  return { conversation, nodes: attachMessagesToNodes(nodes, messages), edges };
+}
+
+function attachMessagesToNodes(nodes: ConversationNode[], messages: Message[]) {
   const messagesByNode = new Map<NodeId, Message[]>();
   for (const msg of messages) {
     const existing = messagesByNode.get(msg.nodeId) || [];
@@ -105,14 +305,12 @@ export async function loadConversation(id: ConversationId) {
     messagesByNode.set(msg.nodeId, existing);
   }
 
-  const nodesWithMessages = nodes.map((node) => ({
+  return nodes.map((node) => ({
     ...node,
     messages: normalizeMessageOrder(
       (messagesByNode.get(node.id) || []).sort((a, b) => a.createdAt - b.createdAt)
     ),
   }));
-
-  return { conversation, nodes: nodesWithMessages, edges };
 }
 
 function normalizeMessageOrder(messages: Message[]) {
@@ -134,13 +332,45 @@ function normalizeMessageOrder(messages: Message[]) {
   return normalized;
 }
 
-// Load all conversations (metadata only)
+// Nodes and edges of several conversations, without messages, for walking their branches
+export async function loadConversationGraphs(ids: ConversationId[]) {
+  const [conversations, nodes, edges] = await Promise.all([
+    db.conversations.bulkGet(ids),
+    db.nodes.where('conversationId').anyOf(ids).toArray(),
+    db.edges.where('conversationId').anyOf(ids).toArray(),
+  ]);
+  const graphs = new Map<
+    ConversationId,
+    { rootNodeId: NodeId; nodes: Map<NodeId, ConversationNode>; edges: ConversationEdge[] }
+  >();
+  for (const conversation of conversations) {
+    if (!conversation) continue;
+    graphs.set(conversation.id, {
+      rootNodeId: conversation.rootNodeId,
+      nodes: new Map(),
+      edges: [],
+    });
+  }
+  for (const node of nodes) graphs.get(node.conversationId)?.nodes.set(node.id, node);
+  for (const edge of edges) graphs.get(edge.conversationId)?.edges.push(edge);
+  return graphs;
+}
+
+// Load all conversations (metadata only), skipping the trash
 export async function loadAllConversations() {
-  return db.conversations.orderBy('updatedAt').reverse().toArray();
+  return db.conversations
+    .orderBy('updatedAt')
+    .reverse()
+    .filter((conversation) => !conversation.deletedAt)
+    .toArray();
 }
 
 export async function loadAllProjects() {
-  return db.projects.orderBy('updatedAt').reverse().toArray();
+  return db.projects
+    .orderBy('updatedAt')
+    .reverse()
+    .filter((project) => !project.deletedAt)
+    .toArray();
 }
 
 // Save a conversation with all its data
@@ -193,6 +423,362 @@ export async function deleteConversation(id: ConversationId) {
   );
 }
 
+export async function trashConversation(id: ConversationId, deletedAt: number) {
+  await db.conversations.update(id, { deletedAt });
+}
+
+export async function restoreConversation(id: ConversationId) {
+  const conversation = await db.conversations.get(id);
+  if (!conversation) return null;
+  const restored = { ...conversation };
+  delete restored.deletedAt;
+  // A chat restored on its own leaves a project that is still in the trash
+  if (restored.projectId) {
+    const project = await db.projects.get(restored.projectId);
+    if (!project || project.deletedAt) delete restored.projectId;
+  }
+  await db.conversations.put(restored);
+  return restored;
+}
+
+// Permanently remove a conversation with its retrieval chunks and trashed nodes
+export async function purgeConversation(id: ConversationId) {
+  await deleteConversation(id);
+  await deleteRagChunksForScope('conversation', id);
+  await db.trashedNodes.where('conversationId').equals(id).delete();
+  await db.messageEmbeddings.where('conversationId').equals(id).delete();
+  await db.toolArtifacts.where('conversationId').equals(id).delete();
+  await db.attachmentBlobs.where('conversationId').equals(id).delete();
+  embeddedHashes = null;
+  for (const [messageId, row] of embeddingVectors?.rows ?? []) {
+    if (row.conversationId === id) embeddingVectors?.rows.delete(messageId);
+  }
+}
+
+// A trashed project takes its chats along, marked with the same timestamp
+export async function trashProject(id: ProjectId, deletedAt: number) {
+  await db.transaction('rw', [db.projects, db.conversations], async () => {
+    await db.projects.update(id, { deletedAt });
+    await db.conversations
+      .filter((conversation) => conversation.projectId === id && !conversation.deletedAt)
+      .modify({ deletedAt });
+  });
+}
+
+export async function restoreProject(id: ProjectId) {
+  return db.transaction('rw', [db.projects, db.conversations], async () => {
+    const project = await db.projects.get(id);
+    if (!project?.deletedAt) return null;
+    const deletedAt = project.deletedAt;
+    const restored = { ...project };
+    delete restored.deletedAt;
+    await db.projects.put(restored);
+
+    const conversations = await db.conversations
+      .filter(
+        (conversation) => conversation.projectId === id && conversation.deletedAt === deletedAt
+      )
+      .toArray();
+    const restoredConversations = conversations.map((conversation) => {
+      const restoredConversation = { ...conversation };
+      delete restoredConversation.deletedAt;
+      return restoredConversation;
+    });
+    await db.conversations.bulkPut(restoredConversations);
+    return { project: restored, conversations: restoredConversations };
+  });
+}
+
+export async function purgeProject(id: ProjectId) {
+  const conversationIds = await db.conversations
+    .filter((conversation) => conversation.projectId === id && !!conversation.deletedAt)
+    .primaryKeys();
+  for (const conversationId of conversationIds) {
+    await purgeConversation(conversationId);
+  }
+  await deleteProject(id);
+  await deleteRagChunksForScope('project', id);
+  await deletePromptTemplatesForScope('project', id);
+}
+
+export async function saveTrashedNodes(entry: TrashedNodes) {
+  await db.trashedNodes.put(entry);
+}
+
+export async function getTrashedNodes(id: string) {
+  return db.trashedNodes.get(id);
+}
+
+export async function deleteTrashedNodes(id: string) {
+  await db.trashedNodes.delete(id);
+}
+
+// Permanently removes trashed nodes along with the tool artifacts and attachment copies
+// only they still use
+export async function purgeTrashedNodes(entries: TrashedNodes[]) {
+  for (const entry of entries) {
+    const messages = entry.nodes.flatMap((node) => node.messages);
+    const artifactIds = new Set(
+      messages.flatMap((message) => (message.toolArtifacts ?? []).map((artifact) => artifact.id))
+    );
+    const blobIds = new Set(
+      messages.flatMap((message) =>
+        (message.attachments ?? []).flatMap((attachment) =>
+          attachment.blobId ? [attachment.blobId] : []
+        )
+      )
+    );
+    await db.transaction(
+      'rw',
+      [db.nodes, db.messages, db.trashedNodes, db.toolArtifacts, db.attachmentBlobs],
+      async () => {
+        // Copied messages elsewhere in the chat, or other trash entries, may share them
+        const nodeIds = (await db.nodes
+          .where('conversationId')
+          .equals(entry.conversationId)
+          .primaryKeys()) as NodeId[];
+        const live = await db.messages.where('nodeId').anyOf(nodeIds).toArray();
+        const otherTrash = await db.trashedNodes
+          .where('conversationId')
+          .equals(entry.conversationId)
+          .filter((other) => other.id !== entry.id)
+          .toArray();
+        const kept = [
+          ...live,
+          ...otherTrash.flatMap((other) => other.nodes.flatMap((node) => node.messages)),
+        ];
+        for (const message of kept) {
+          message.toolArtifacts?.forEach((artifact) => artifactIds.delete(artifact.id));
+          message.attachments?.forEach((attachment) => {
+            if (attachment.blobId) blobIds.delete(attachment.blobId);
+          });
+        }
+        await db.toolArtifacts.bulkDelete(Array.from(artifactIds));
+        await db.attachmentBlobs.bulkDelete(Array.from(blobIds));
+        await db.trashedNodes.delete(entry.id);
+      }
+    );
+  }
+}
+
+// Write trashed nodes back into a conversation that is not loaded in memory
+export async function restoreTrashedNodes(entry: TrashedNodes) {
+  await db.transaction('rw', [db.nodes, db.edges, db.messages, db.trashedNodes], async () => {
+    const existingNodeIds = new Set(
+      (await db.nodes.where('conversationId').equals(entry.conversationId).primaryKeys()) as string[]
+    );
+    const nodes = entry.nodes.filter((node) => !existingNodeIds.has(node.id));
+    const nodeIds = new Set([...existingNodeIds, ...nodes.map((node) => node.id)]);
+    const edges = entry.edges.filter(
+      (edge) => nodeIds.has(edge.source) && nodeIds.has(edge.target)
+    );
+    const messages = nodes.flatMap((node) => node.messages);
+
+    await db.nodes.bulkPut(nodes);
+    await db.edges.bulkPut(edges);
+    if (messages.length > 0) {
+      await db.messages.bulkPut(messages);
+    }
+    await db.trashedNodes.delete(entry.id);
+  });
+}
+
+// Node tags per conversation, read through the multi-entry tags index
+export async function loadNodeTagsByConversation() {
+  const tagsByConversation = new Map<ConversationId, Set<string>>();
+  await db.nodes.orderBy('tags').each((node) => {
+    const tags = tagsByConversation.get(node.conversationId) ?? new Set<string>();
+    for (const tag of node.tags ?? []) tags.add(tag);
+    tagsByConversation.set(node.conversationId, tags);
+  });
+  return tagsByConversation;
+}
+
+export async function loadTrash() {
+  const [conversations, projects, trashedNodes] = await Promise.all([
+    db.conversations.where('deletedAt').above(0).toArray(),
+    db.projects.where('deletedAt').above(0).toArray(),
+    db.trashedNodes.orderBy('deletedAt').reverse().toArray(),
+  ]);
+  return { conversations, projects, trashedNodes };
+}
+
+// Permanently remove everything that went to the trash before the cutoff
+export async function purgeTrash(deletedBefore: number) {
+  const [conversations, projectIds] = await Promise.all([
+    db.conversations.where('deletedAt').below(deletedBefore).toArray(),
+    db.projects.where('deletedAt').below(deletedBefore).primaryKeys(),
+  ]);
+  for (const projectId of projectIds) {
+    await purgeProject(projectId);
+  }
+  for (const conversation of conversations) {
+    if (conversation.projectId && projectIds.includes(conversation.projectId)) continue;
+    await purgeConversation(conversation.id);
+  }
+  await purgeTrashedNodes(await db.trashedNodes.where('deletedAt').below(deletedBefore).toArray());
+  return { projectIds };
+}
+
+// Load every record belonging to an export scope
+export async function loadBundleRecords(scope: BundleScope) {
+  if (scope.type === 'database') {
+    const [conversations, nodes, edges, messages, projects, ragChunks, memories] =
+      await Promise.all([
+        db.conversations.toArray(),
+        db.nodes.toArray(),
+        db.edges.toArray(),
+        db.messages.toArray(),
+        db.projects.toArray(),
+        db.ragChunks.toArray(),
+        db.memories.toArray(),
+      ]);
+    // Trashed conversations and projects stay behind, along with everything scoped to them
+    const liveConversations = conversations.filter((conversation) => !conversation.deletedAt);
+    const liveProjects = projects.filter((project) => !project.deletedAt);
+    const conversationIds = new Set(liveConversations.map((conversation) => conversation.id));
+    const projectIds = new Set(liveProjects.map((project) => project.id));
+    const inLiveScope = (record: { scopeType: string; scopeId: string }) =>
+      record.scopeType === 'conversation'
+        ? conversationIds.has(record.scopeId)
+        : record.scopeType === 'project'
+          ? projectIds.has(record.scopeId)
+          : true;
+    const liveNodes = nodes.filter((node) => conversationIds.has(node.conversationId));
+    const nodeIds = new Set(liveNodes.map((node) => node.id));
+    const nodesWithMessages = attachMessagesToNodes(
+      liveNodes,
+      messages.filter((message) => nodeIds.has(message.nodeId))
+    );
+    return {
+      conversations: liveConversations.map((conversation) =>
+        conversation.projectId && !projectIds.has(conversation.projectId)
+          ? { ...conversation, projectId: undefined }
+          : conversation
+      ),
+      nodes: nodesWithMessages,
+      edges: edges.filter((edge) => conversationIds.has(edge.conversationId)),
+      projects: liveProjects,
+      ragChunks: ragChunks.filter(inLiveScope),
+      memories: memories.filter(inLiveScope),
+      attachmentBlobs: await loadBundleAttachmentBlobs(nodesWithMessages),
+    };
+  }
+
+  const projects: Project[] = [];
+  let conversationIds: ConversationId[] = [scope.id];
+  if (scope.type === 'project') {
+    const project = await db.projects.get(scope.id);
+    if (!project) throw new Error('Project not found.');
+    projects.push(project);
+    conversationIds = await db.conversations
+      .filter((conversation) => conversation.projectId === scope.id && !conversation.deletedAt)
+      .primaryKeys();
+  }
+
+  const loaded = await Promise.all(conversationIds.map((id) => loadConversation(id)));
+  const conversations: Conversation[] = [];
+  const nodes: ConversationNode[] = [];
+  const edges: ConversationEdge[] = [];
+  for (const entry of loaded) {
+    if (!entry) continue;
+    conversations.push(entry.conversation);
+    nodes.push(...entry.nodes);
+    edges.push(...entry.edges);
+  }
+  if (scope.type === 'conversation' && conversations.length === 0) {
+    throw new Error('Conversation not found.');
+  }
+
+  const scopes: Array<{ scopeType: RagScopeType; scopeId: string }> = [
+    ...projects.map((project) => ({ scopeType: 'project' as const, scopeId: project.id })),
+    ...conversations.map((conversation) => ({
+      scopeType: 'conversation' as const,
+      scopeId: conversation.id,
+    })),
+  ];
+  const [ragChunks, memories] = await Promise.all([
+    Promise.all(scopes.map((entry) => loadRagChunksForScope(entry.scopeType, entry.scopeId))),
+    Promise.all(scopes.map((entry) => loadMemoriesForScope(entry.scopeType, entry.scopeId))),
+  ]);
+
+  return {
+    conversations,
+    nodes,
+    edges,
+    projects,
+    ragChunks: ragChunks.flat(),
+    memories: memories.flat(),
+    attachmentBlobs: await loadBundleAttachmentBlobs(nodes),
+  };
+}
+
+// Stored attachment copies the exported messages refer to
+async function loadBundleAttachmentBlobs(nodes: ConversationNode[]) {
+  const blobIds = new Set(
+    nodes.flatMap((node) =>
+      node.messages.flatMap((message) =>
+        (message.attachments ?? []).flatMap((attachment) =>
+          attachment.blobId ? [attachment.blobId] : []
+        )
+      )
+    )
+  );
+  const blobs = await db.attachmentBlobs.bulkGet(Array.from(blobIds));
+  return Promise.all(
+    blobs
+      .filter((blob): blob is StoredAttachmentBlob => Boolean(blob))
+      .map(toBundleAttachmentBlob)
+  );
+}
+
+// Write imported records; IDs are expected to be remapped already
+export async function saveBundleRecords(records: {
+  conversations: Conversation[];
+  nodes: ConversationNode[];
+  edges: ConversationEdge[];
+  projects: Project[];
+  ragChunks: RagChunk[];
+  memories: MemoryItem[];
+  attachmentBlobs: BundleAttachmentBlob[];
+}) {
+  // Bundles from older versions carry inline copies as data URLs
+  const blobs = new Map<string, StoredAttachmentBlob>();
+  for (const node of records.nodes) {
+    extractInlineCopies(node.messages, node.conversationId, blobs);
+  }
+  for (const record of records.attachmentBlobs) {
+    const blob = fromBundleAttachmentBlob(record);
+    if (blob) blobs.set(blob.id, blob);
+  }
+  const messages = records.nodes.flatMap((node) => node.messages);
+  await db.transaction(
+    'rw',
+    [
+      db.conversations,
+      db.nodes,
+      db.edges,
+      db.messages,
+      db.projects,
+      db.ragChunks,
+      db.memories,
+      db.attachmentBlobs,
+    ],
+    async () => {
+      await db.attachmentBlobs.bulkPut(Array.from(blobs.values()));
+      await db.projects.bulkPut(records.projects);
+      await db.conversations.bulkPut(records.conversations);
+      await db.nodes.bulkPut(records.nodes);
+      await db.edges.bulkPut(records.edges);
+      if (messages.length > 0) {
+        await db.messages.bulkPut(messages);
+      }
+      await db.ragChunks.bulkPut(records.ragChunks);
+      await db.memories.bulkPut(records.memories);
+    }
+  );
+}
+
 export async function saveProject(project: Project) {
   await db.projects.put(project);
 }
@@ -306,6 +892,26 @@ export async function clearMemoriesForScope(scopeType: MemoryScopeType, scopeId:
   await db.memories.where('[scopeType+scopeId]').equals([scopeType, scopeId]).delete();
 }
 
+export async function loadAllPromptTemplates() {
+  return db.promptTemplates.toArray();
+}
+
+export async function savePromptTemplates(templates: PromptTemplate[]) {
+  if (templates.length === 0) return;
+  await db.promptTemplates.bulkPut(templates);
+}
+
+export async function deletePromptTemplate(id: string) {
+  await db.promptTemplates.delete(id);
+}
+
+export async function deletePromptTemplatesForScope(
+  scopeType: PromptTemplateScopeType,
+  scopeId: string
+) {
+  await db.promptTemplates.where('[scopeType+scopeId]').equals([scopeType, scopeId]).delete();
+}
+
 export interface RagScopeEmbeddingStats {
   chunkCount: number;
   sourceCount: number;
@@ -356,67 +962,292 @@ export async function loadRagScopeEmbeddingStats(
   };
 }
 
+// In-memory full-text index over all messages. Built from the database on the
+// first search, then kept current by the store through updateSearchIndex.
+let messageIndex: SearchIndex | null = null;
+let messageIndexBuild: Promise<SearchIndex> | null = null;
+let messageIndexGeneration = 0;
+const pendingIndexChanges = new Map<MessageId, SearchDocument | null>();
+
+async function getMessageIndex() {
+  if (messageIndex) return messageIndex;
+  if (!messageIndexBuild) {
+    const generation = messageIndexGeneration;
+    messageIndexBuild = buildMessageIndex()
+      .then((index) => {
+        // Changes that arrived while loading win over what was read
+        for (const [id, doc] of pendingIndexChanges) {
+          if (doc) index.upsert(doc);
+          else index.remove(id);
+        }
+        pendingIndexChanges.clear();
+        if (generation === messageIndexGeneration) messageIndex = index;
+        return index;
+      })
+      .finally(() => {
+        messageIndexBuild = null;
+      });
+  }
+  return messageIndexBuild;
+}
+
+async function buildMessageIndex() {
+  const [messages, nodes] = await Promise.all([db.messages.toArray(), db.nodes.toArray()]);
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+  const index = new SearchIndex();
+  for (const message of messages) {
+    const node = nodesById.get(message.nodeId);
+    if (!node || !message.content) continue;
+    index.upsert(toSearchDocument(message, node));
+  }
+  return index;
+}
+
+export function updateSearchIndex(upserts: SearchDocument[], removedIds: MessageId[]) {
+  if (!messageIndex) {
+    // Nothing to update until the first search; buffer while a build is running
+    if (!messageIndexBuild) return;
+    for (const id of removedIds) pendingIndexChanges.set(id, null);
+    for (const doc of upserts) pendingIndexChanges.set(doc.id, doc);
+    return;
+  }
+  for (const id of removedIds) messageIndex.remove(id);
+  for (const doc of upserts) {
+    if (doc.content) messageIndex.upsert(doc);
+    else messageIndex.remove(doc.id);
+  }
+}
+
+// For writes that bypass the in-memory graph (imports, restores, purges)
+export function invalidateSearchIndex() {
+  messageIndex = null;
+  messageIndexGeneration += 1;
+  pendingIndexChanges.clear();
+}
+
+// Content hashes of the stored embeddings for one model, so the background
+// job can find new work without reading every vector again
+let embeddedHashes: { model: string; hashes: Map<MessageId, string> } | null = null;
+
+async function getEmbeddedHashes(embeddingModel: string) {
+  if (embeddedHashes?.model === embeddingModel) return embeddedHashes.hashes;
+  const hashes = new Map<MessageId, string>();
+  await db.messageEmbeddings
+    .where('embeddingModel')
+    .equals(embeddingModel)
+    .each((row) => hashes.set(row.messageId, row.contentHash));
+  embeddedHashes = { model: embeddingModel, hashes };
+  return hashes;
+}
+
+// Stored vectors for one model, loaded by the first semantic search and kept in
+// step with writes, so later searches don't read the whole table again
+let embeddingVectors: { model: string; rows: Map<MessageId, MessageEmbedding> } | null = null;
+
+async function getEmbeddingVectors(embeddingModel: string) {
+  if (embeddingVectors?.model === embeddingModel) return embeddingVectors.rows;
+  const rows = new Map<MessageId, MessageEmbedding>();
+  await db.messageEmbeddings
+    .where('embeddingModel')
+    .equals(embeddingModel)
+    .each((row) => rows.set(row.messageId, row));
+  embeddingVectors = { model: embeddingModel, rows };
+  return rows;
+}
+
+// Next batch of messages without a current embedding; drops embeddings of deleted messages.
+// Chats in the trash are skipped, but keep their embeddings in case they are restored.
+export async function loadMessagesToEmbed(embeddingModel: string, limit?: number) {
+  const [index, hashes, trashedIds] = await Promise.all([
+    getMessageIndex(),
+    getEmbeddedHashes(embeddingModel),
+    db.conversations.where('deletedAt').above(0).primaryKeys(),
+  ]);
+  const trashed = new Set<ConversationId>(trashedIds);
+  const { pending, orphanIds } = selectMessagesToEmbed(
+    index.docs(),
+    hashes,
+    limit,
+    (doc) => !trashed.has(doc.conversationId)
+  );
+  if (orphanIds.length > 0) {
+    await db.messageEmbeddings.bulkDelete(orphanIds);
+    for (const id of orphanIds) {
+      hashes.delete(id);
+      embeddingVectors?.rows.delete(id);
+    }
+  }
+  return pending;
+}
+
+export async function saveMessageEmbeddings(rows: MessageEmbedding[]) {
+  // An embedding made with another model replaces the old one
+  await db.messageEmbeddings.bulkPut(rows);
+  for (const row of rows) {
+    if (embeddedHashes?.model === row.embeddingModel) {
+      embeddedHashes.hashes.set(row.messageId, row.contentHash);
+    }
+    if (embeddingVectors?.model === row.embeddingModel) {
+      embeddingVectors.rows.set(row.messageId, row);
+    } else {
+      embeddingVectors?.rows.delete(row.messageId);
+    }
+  }
+}
+
+export async function countMessageEmbeddings(embeddingModel: string) {
+  return db.messageEmbeddings.where('embeddingModel').equals(embeddingModel).count();
+}
+
+// Binary parts of tool results, kept per conversation
+export async function saveToolArtifact(artifact: StoredToolArtifact) {
+  await db.toolArtifacts.put(artifact);
+}
+
+export async function loadToolArtifact(id: string) {
+  return db.toolArtifacts.get(id);
+}
+
+export async function getToolArtifactBytes(conversationId: ConversationId) {
+  let total = 0;
+  await db.toolArtifacts
+    .where('conversationId')
+    .equals(conversationId)
+    .each((artifact) => {
+      total += artifact.size;
+    });
+  return total;
+}
+
+export async function saveAttachmentBlob(blob: StoredAttachmentBlob) {
+  await db.attachmentBlobs.put(blob);
+}
+
+export async function loadAttachmentBlob(id: string) {
+  return db.attachmentBlobs.get(id);
+}
+
+export interface SemanticQuery {
+  embedding: number[];
+  embeddingModel: string;
+}
+
+/**
+ * Ranked message search. With a semantic query, keyword hits are merged with
+ * messages whose embedding is close to the query embedding.
+ */
 export async function searchMessages(
   query: string,
-  limit = 100
+  limit = 100,
+  extraFilters: SearchFilters = {},
+  semantic?: SemanticQuery
 ): Promise<MessageSearchResult[]> {
-  const normalized = query.trim().toLowerCase();
-  if (!normalized) return [];
-
-  const [messages, nodes, conversations, projects] = await Promise.all([
-    db.messages.toArray(),
-    db.nodes.toArray(),
+  const parsed = parseSearchQuery(query);
+  const filters = { ...parsed.filters, ...extraFilters };
+  if (parsed.clauses.length === 0 && Object.keys(parsed.filters).length === 0) return [];
+  // Filters alone list messages newest first, so there is nothing to rank by meaning
+  const semanticQuery = parsed.clauses.length > 0 ? semantic : undefined;
+
+  const [index, conversations, projects] = await Promise.all([
+    getMessageIndex(),
     db.conversations.toArray(),
     db.projects.toArray(),
   ]);
+  const conversationsById = new Map(
+    conversations.map((conversation) => [conversation.id, conversation])
+  );
+  const projectsById = new Map(projects.map((project) => [project.id, project]));
+
+  const filter = (doc: SearchDocument) => {
+    const conversation = conversationsById.get(doc.conversationId);
+    if (!conversation || conversation.deletedAt) return false;
+    if (filters.role && doc.role !== filters.role) return false;
+    if (filters.model && !doc.model?.toLowerCase().includes(filters.model)) return false;
+    if (filters.after !== undefined && doc.createdAt < filters.after) return false;
+    if (filters.before !== undefined && doc.createdAt >= filters.before) return false;
+    if (filters.project) {
+      const project = conversation.projectId
+        ? projectsById.get(conversation.projectId)
+        : undefined;
+      if (!project?.name.toLowerCase().includes(filters.project)) return false;
+    }
+    return true;
+  };
 
-  const nodesById = new Map<NodeId, ConversationNode>();
-  for (const node of nodes) {
-    nodesById.set(node.id, node);
+  let hits = index.search(parsed, { limit: semanticQuery ? Infinity : limit, filter });
+  if (semanticQuery) {
+    const matches: SemanticMatch[] = [];
+    const embeddings = await getEmbeddingVectors(semanticQuery.embeddingModel);
+    for (const row of embeddings.values()) {
+      const doc = index.get(row.messageId);
+      // Skip embeddings that no longer describe the message
+      if (!doc || row.contentHash !== hashText(doc.content) || !filter(doc)) continue;
+      matches.push({ doc, similarity: cosineSimilarity(semanticQuery.embedding, row.embedding) });
+    }
+    hits = rankHybridHits(hits, matches, limit);
   }
 
-  const conversationsById = new Map<ConversationId, Conversation>();
-  for (const conversation of conversations) {
-    conversationsById.set(conversation.id, conversation);
-  }
+  return hits.map(({ doc, score, matchedTerms }) => {
+    const conversation = conversationsById.get(doc.conversationId)!;
+    const project = conversation.projectId
+      ? projectsById.get(conversation.projectId)
+      : undefined;
+    return {
+      messageId: doc.id,
+      nodeId: doc.nodeId,
+      conversationId: conversation.id,
+      projectId: conversation.projectId,
+      role: doc.role,
+      content: doc.content,
+      createdAt: doc.createdAt,
+      conversationTitle: conversation.title,
+      projectName: project?.name,
+      isReply: doc.isReply,
+      parentNodeId: doc.parentNodeId,
+      conversationTags: conversation.tags,
+      nodeTags: doc.nodeTags,
+      score,
+      snippet: buildHighlightedSnippet(doc.content, matchedTerms),
+    };
+  });
+}
 
-  const projectsById = new Map<ProjectId, Project>();
-  for (const project of projects) {
-    projectsById.set(project.id, project);
-  }
+// Assistant replies that carry usage, joined with their conversation and project
+export async function loadUsageRecords(): Promise<UsageRecord[]> {
+  const [messages, nodes, conversations, projects] = await Promise.all([
+    db.messages.filter((message) => Boolean(message.usage)).toArray(),
+    db.nodes.toArray(),
+    db.conversations.toArray(),
+    db.projects.toArray(),
+  ]);
 
-  const results: MessageSearchResult[] = [];
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+  const conversationsById = new Map(
+    conversations.map((conversation) => [conversation.id, conversation])
+  );
+  const projectsById = new Map(projects.map((project) => [project.id, project]));
 
+  const records: UsageRecord[] = [];
   for (const message of messages) {
-    if (!message.content) continue;
-    if (!message.content.toLowerCase().includes(normalized)) continue;
-
+    if (!message.usage) continue;
     const node = nodesById.get(message.nodeId);
-    if (!node) continue;
-
-    const conversation = conversationsById.get(node.conversationId);
-    if (!conversation) continue;
-
-    const projectId = conversation.projectId;
-    const project = projectId ? projectsById.get(projectId) : null;
-
-    results.push({
+    const conversation = node ? conversationsById.get(node.conversationId) : undefined;
+    if (!node || !conversation) continue;
+    const project = conversation.projectId ? projectsById.get(conversation.projectId) : undefined;
+    records.push({
       messageId: message.id,
-      nodeId: message.nodeId,
+      nodeId: node.id,
       conversationId: conversation.id,
-      projectId: projectId ?? undefined,
-      role: message.role,
-      content: message.content,
-      createdAt: message.createdAt,
       conversationTitle: conversation.title,
+      projectId: project?.id,
       projectName: project?.name,
-      isReply: node.isReply,
-      parentNodeId: node.parentNodeId,
+      model: message.model || node.model || conversation.model,
+      createdAt: message.createdAt,
+      usage: message.usage,
     });
   }
 
-  results.sort((a, b) => b.createdAt - a.createdAt);
-  return results.slice(0, limit);
+  return records.sort((a, b) => a.createdAt - b.createdAt);
 }
 
 // Update a single node
@@ -1 +1,5 @@
 export { useStreaming } from './useStreaming';
+export { useRegisterCommands, useRegisteredCommands } from './useCommands';
+export { useMessageEmbeddings } from './useMessageEmbeddings';
+export { useMcpPromptTemplates, expandMcpPromptTemplate } from './useMcpPrompts';
+export { useMcpServerHealth } from './useMcpConnections';
@@ -0,0 +1,19 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import {
+  getRegisteredCommands,
+  registerCommands,
+  subscribeToCommands,
+  type PaletteCommand,
+} from '../utils/commandRegistry';
+
+/**
+ * Registers palette commands while the calling component is mounted.
+ * Pass a memoized array; a new array re-registers.
+ */
+export function useRegisterCommands(commands: PaletteCommand[]) {
+  useEffect(() => registerCommands(commands), [commands]);
+}
+
+export function useRegisteredCommands(): PaletteCommand[] {
+  return useSyncExternalStore(subscribeToCommands, getRegisteredCommands);
+}
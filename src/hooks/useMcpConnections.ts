@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { mcpConnections, type McpServerHealth } from '../tools/mcpConnections';
+
+// Health of every MCP session opened so far, keyed by server id
+export function useMcpServerHealth(): Record<string, McpServerHealth> {
+  return useSyncExternalStore(mcpConnections.subscribe, mcpConnections.getHealth);
+}
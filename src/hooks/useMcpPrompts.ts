@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { useStore } from '../store';
+import type { PromptTemplate } from '../types';
+import { getMcpPromptText, listMcpPromptTemplates } from '../tools/mcpResources';
+
+const PROMPT_CACHE_MS = 5 * 60 * 1000;
+
+// Shared across inputs so opening the slash picker does not refetch every time
+let promptCache: { key: string; loadedAt: number; templates: PromptTemplate[] } | null = null;
+
+/**
+ * Prompts offered by the enabled MCP servers, loaded the first time `active`
+ * is true and refreshed after a few minutes.
+ */
+export function useMcpPromptTemplates(active: boolean): PromptTemplate[] {
+  const servers = useStore(
+    useShallow((state) =>
+      state.toolSettings.mcp.enabled
+        ? state.toolSettings.mcp.servers.filter((server) => server.enabled && server.url.trim())
+        : []
+    )
+  );
+  const key = servers
+    .map((server) => [server.id, server.url, server.transport, server.authToken].join('|'))
+    .join('\n');
+  const [templates, setTemplates] = useState<PromptTemplate[]>(() =>
+    promptCache?.key === key ? promptCache.templates : []
+  );
+
+  useEffect(() => {
+    if (!active || !key) return;
+    if (promptCache?.key === key && Date.now() - promptCache.loadedAt < PROMPT_CACHE_MS) {
+      setTemplates(promptCache.templates);
+      return;
+    }
+    let cancelled = false;
+    void listMcpPromptTemplates(servers).then((loaded) => {
+      promptCache = { key, loadedAt: Date.now(), templates: loaded };
+      if (!cancelled) setTemplates(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [active, key, servers]);
+
+  return key ? templates : [];
+}
+
+export async function expandMcpPromptTemplate(
+  template: PromptTemplate,
+  values: Record<string, string>
+) {
+  const prompt = template.mcpPrompt;
+  if (!prompt) throw new Error('Template is not an MCP prompt');
+  const server = useStore
+    .getState()
+    .toolSettings.mcp.servers.find((entry) => entry.id === prompt.serverId);
+  if (!server) throw new Error('MCP server for this prompt is no longer configured');
+  return getMcpPromptText(server, prompt.name, values);
+}
@@ -0,0 +1,112 @@
+import { useEffect } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { useStore } from '../store';
+import { getOpenRouterClient } from '../api/openrouter';
+import { loadMessagesToEmbed, saveMessageEmbeddings, type SemanticQuery } from '../db';
+import type { MessageEmbedding } from '../types';
+import { parseSearchQuery } from '../utils/searchIndex';
+import {
+  EMBEDDING_BATCH_SIZE,
+  getEmbeddingText,
+  getSemanticQueryText,
+  hashText,
+} from '../utils/semanticSearch';
+
+const START_DELAY_MS = 5_000;
+const BUSY_DELAY_MS = 2_000;
+const IDLE_DELAY_MS = 60_000;
+const ERROR_DELAY_MS = 5 * 60_000;
+
+/**
+ * Embeds messages in the background while semantic search is on, one batch
+ * at a time so a long history does not flood the embeddings endpoint.
+ */
+export function useMessageEmbeddings() {
+  const { enabled, apiKey, apiBaseUrl, embeddingModel } = useStore(
+    useShallow((state) => ({
+      enabled: state.semanticSearchEnabled,
+      apiKey: state.apiKey,
+      apiBaseUrl: state.apiBaseUrl,
+      embeddingModel: state.embeddingModel,
+    }))
+  );
+
+  useEffect(() => {
+    if (!enabled || !apiKey || !embeddingModel) return;
+    const client = getOpenRouterClient(apiKey, apiBaseUrl);
+    const controller = new AbortController();
+    let timer: number | undefined;
+
+    const runBatch = async () => {
+      let delay = IDLE_DELAY_MS;
+      try {
+        const embedded = await embedNextBatch(client, embeddingModel, controller.signal);
+        if (embedded >= EMBEDDING_BATCH_SIZE) delay = BUSY_DELAY_MS;
+      } catch {
+        // Messages without an embedding are still found by keyword
+        delay = ERROR_DELAY_MS;
+      }
+      if (controller.signal.aborted) return;
+      timer = window.setTimeout(() => void runBatch(), delay);
+    };
+
+    timer = window.setTimeout(() => void runBatch(), START_DELAY_MS);
+    return () => {
+      controller.abort();
+      window.clearTimeout(timer);
+    };
+  }, [enabled, apiKey, apiBaseUrl, embeddingModel]);
+}
+
+async function embedNextBatch(
+  client: ReturnType<typeof getOpenRouterClient>,
+  embeddingModel: string,
+  signal: AbortSignal
+) {
+  const docs = await loadMessagesToEmbed(embeddingModel, EMBEDDING_BATCH_SIZE);
+  if (docs.length === 0 || signal.aborted) return 0;
+
+  const vectors = await client.embeddings(
+    {
+      model: embeddingModel,
+      input: docs.map((doc) => getEmbeddingText(doc.content)),
+    },
+    signal
+  );
+  const now = Date.now();
+  const rows: MessageEmbedding[] = [];
+  docs.forEach((doc, index) => {
+    const vector = vectors[index];
+    if (!vector || vector.length === 0) return;
+    rows.push({
+      messageId: doc.id,
+      conversationId: doc.conversationId,
+      embeddingModel,
+      contentHash: hashText(doc.content),
+      embedding: vector,
+      updatedAt: now,
+    });
+  });
+  await saveMessageEmbeddings(rows);
+  return rows.length;
+}
+
+// Embeds the words of a search query; null falls back to keyword search
+export async function embedSearchQuery(
+  query: string,
+  signal?: AbortSignal
+): Promise<SemanticQuery | null> {
+  const { apiKey, apiBaseUrl, embeddingModel } = useStore.getState();
+  const text = getSemanticQueryText(parseSearchQuery(query));
+  if (!apiKey || !embeddingModel || !text) return null;
+
+  try {
+    const [embedding] = await getOpenRouterClient(apiKey, apiBaseUrl).embeddings(
+      { model: embeddingModel, input: text },
+      signal
+    );
+    return embedding && embedding.length > 0 ? { embedding, embeddingModel } : null;
+  } catch {
+    return null;
+  }
+}
@@ -1,11 +1,14 @@
 import { useCallback } from 'react';
 import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
 import { stepCountIs, streamText } from 'ai';
+import { v4 as uuidv4 } from 'uuid';
 import { useStore } from '../store';
 import {
   buildHeaders,
   getOpenRouterClient,
   isOpenRouterBaseUrl,
+  type ChatCompletionResult,
+  type ChatCompletionUsage,
   type ChatMessage,
 } from '../api/openrouter';
 import type {
@@ -23,8 +26,34 @@ import type {
   RetrievedMemoryItem,
   NormalizedMemorySettings,
   MemoryRetrievalPreview,
+  LLMModel,
+  Message,
+  ToolApprovalRecord,
+  AttachmentSource,
 } from '../types';
-import { isTextLikeFile, streamFileTextChunks, formatFileSize } from '../utils/files';
+import {
+  isImageFile,
+  streamFileTextChunks,
+  formatFileSize,
+  readFileAsDataUrl,
+} from '../utils/files';
+import {
+  chunkDocumentSections,
+  extractDocumentSections,
+  getDocumentKind,
+  isExtractableFile,
+  type DocumentChunk,
+} from '../utils/documentText';
+import {
+  buildContentParts,
+  canSendInline,
+  estimateChatMessageTokens,
+  getChatMessageText,
+  getInlineAttachmentKind,
+  hasNonTextParts,
+  toModelContentParts,
+  type InlineAttachment,
+} from '../utils/multimodal';
 import { getReasoningParameter } from '../utils/models';
 import {
   deleteRagChunksForScope,
@@ -36,6 +65,8 @@ import {
   loadMemoriesForScope,
   findMemoryByNormalizedText,
   saveMemory,
+  saveAttachmentBlob,
+  loadAttachmentBlob,
 } from '../db';
 import {
   normalizeAttachmentProcessingSettings,
@@ -47,13 +78,35 @@ import {
 } from '../utils/attachments';
 import { createLocalTools } from '../tools/localTools';
 import { createMcpTools } from '../tools/mcpTools';
-import { isSensitiveToolName } from '../utils/tools';
+import { readMcpResourceFile } from '../tools/mcpResources';
+import { getToolOutputArtifacts } from '../tools/mcpContent';
+import {
+  findToolCallApprovalRule,
+  getMcpToolApprovalNames,
+  getRuleForApprovalDecision,
+  isSensitiveToolName,
+  resolveToolSettings,
+} from '../utils/tools';
 import {
   extractMemoryCandidates,
   type MemoryCandidate,
 } from '../utils/memory';
 import { estimateContextExtraTokens } from '../utils/tokenBudget';
-import type { ToolSet } from 'ai';
+import { getMergeBranches, getMergeBranchSignature } from '../utils/graph';
+import { buildMessageUsage } from '../utils/usage';
+import { cosineSimilarity } from '../utils/semanticSearch';
+import {
+  buildNodeLabelPrompt,
+  NODE_LABEL_SYSTEM_PROMPT,
+  parseNodeLabelResponse,
+} from '../utils/nodeLabels';
+import {
+  createSharedSendWork,
+  getAttachmentContextKey,
+  runShared,
+  type SharedSendWork,
+} from '../utils/sharedSendWork';
+import type { LanguageModelUsage, ModelMessage, ToolSet } from 'ai';
 
 const RESERVED_OUTPUT_TOKENS = 512;
 const MIN_INPUT_TOKENS = 512;
@@ -67,13 +120,14 @@ interface AttachmentToolEntry {
   size: number;
   type: string;
   lastModified: number;
-  source: 'handle' | 'memory';
+  source: AttachmentSource;
   handleId?: string;
   scope: 'conversation' | 'project';
 }
 
 interface SendOptions {
   skipUserMessage?: boolean;
+  sharedWork?: SharedSendWork;
 }
 
 function previewPayload(value: unknown, maxLength = 280): string {
@@ -92,6 +146,16 @@ function previewPayload(value: unknown, maxLength = 280): string {
   return raw.length > maxLength ? `${raw.slice(0, maxLength)}...` : raw;
 }
 
+function toChatCompletionUsage(usage: LanguageModelUsage): ChatCompletionUsage {
+  return {
+    prompt_tokens: usage.inputTokens,
+    completion_tokens: usage.outputTokens,
+    total_tokens: usage.totalTokens,
+    prompt_tokens_details: { cached_tokens: usage.inputTokenDetails?.cacheReadTokens },
+    completion_tokens_details: { reasoning_tokens: usage.outputTokenDetails?.reasoningTokens },
+  };
+}
+
 function collectAttachmentToolEntries(params: {
   state: ReturnType<typeof useStore.getState>;
   conversationId: string;
@@ -169,6 +233,11 @@ export function useStreaming() {
       const project =
         conversation?.projectId ? state.projects.get(conversation.projectId) : null;
       const memorySettings = state.memorySettings;
+      const toolSettings = resolveToolSettings(
+        state.toolSettings,
+        project?.toolPolicy,
+        conversation?.toolPolicy
+      );
       const attachmentProcessing = normalizeAttachmentProcessingSettings(
         conversation?.attachmentProcessing
       );
@@ -184,16 +253,33 @@ export function useStreaming() {
 
       // Register active request
       state.registerRequest(nodeId, abortController);
+      const sharedWork = options.sharedWork;
+      if (sharedWork) {
+        abortController.signal.addEventListener('abort', sharedWork.leave, { once: true });
+      }
 
-      const attachmentMetadata: FileAttachment[] = attachments.map((attachment) => ({
-        id: attachment.id,
-        name: attachment.name,
-        size: attachment.size,
-        type: attachment.type,
-        lastModified: attachment.lastModified,
-        source: attachment.source,
-        handleId: attachment.handleId,
-      }));
+      const attachmentMetadata: FileAttachment[] = await Promise.all(
+        attachments.map(async (attachment) => ({
+          id: attachment.id,
+          name: attachment.name,
+          size: attachment.size,
+          type: attachment.type,
+          lastModified: attachment.lastModified,
+          source: attachment.source,
+          handleId: attachment.handleId,
+          mcpResource: attachment.mcpResource,
+          blobId: await storeInlineCopy(
+            attachment,
+            resolvedModelInfo,
+            node.conversationId,
+            sharedWork
+          ),
+        }))
+      );
+      // Images and PDFs the model reads natively skip text extraction
+      const processedAttachments = attachments.filter(
+        (attachment) => !canSendInline(attachment, resolvedModelInfo)
+      );
 
       const projectAttachments = project?.attachments ?? [];
       const hasConversationRagChunks =
@@ -201,7 +287,7 @@ export function useStreaming() {
           ? await hasRagChunksForScope('conversation', node.conversationId)
           : false;
       const shouldProcessConversationAttachmentContext =
-        attachmentMetadata.length > 0 || hasConversationRagChunks;
+        processedAttachments.length > 0 || hasConversationRagChunks;
 
       const hasProjectRagChunks =
         attachmentProcessing.mode === 'retrieval' && project?.id
@@ -275,17 +361,27 @@ export function useStreaming() {
 
         if (attachmentContextMessageId) {
           try {
-            const attachmentContext = await buildAttachmentContext(
-              attachments,
-              userContent,
-              attachmentProcessing,
-              embeddingModel,
-              'conversation',
-              node.conversationId,
-              resolvedModel,
-              client,
-              state,
-              abortController.signal
+            const attachmentContext = await runShared(
+              sharedWork,
+              getAttachmentContextKey(
+                'conversation',
+                processedAttachments,
+                attachmentProcessing,
+                resolvedModel
+              ),
+              (sharedSignal) =>
+                buildAttachmentContext(
+                  processedAttachments,
+                  userContent,
+                  attachmentProcessing,
+                  embeddingModel,
+                  'conversation',
+                  node.conversationId,
+                  resolvedModel,
+                  client,
+                  state,
+                  sharedSignal ?? abortController.signal
+                )
             );
             state.updateMessage(nodeId, attachmentContextMessageId, {
               content: attachmentContext,
@@ -306,17 +402,27 @@ export function useStreaming() {
 
         if (projectAttachmentContextMessageId) {
           try {
-            const attachmentContext = await buildAttachmentContext(
-              projectAttachments.map((attachment) => ({ ...attachment })),
-              userContent,
-              attachmentProcessing,
-              embeddingModel,
-              'project',
-              project?.id || node.conversationId,
-              resolvedModel,
-              client,
-              state,
-              abortController.signal
+            const attachmentContext = await runShared(
+              sharedWork,
+              getAttachmentContextKey(
+                'project',
+                projectAttachments,
+                attachmentProcessing,
+                resolvedModel
+              ),
+              (sharedSignal) =>
+                buildAttachmentContext(
+                  projectAttachments.map((attachment) => ({ ...attachment })),
+                  userContent,
+                  attachmentProcessing,
+                  embeddingModel,
+                  'project',
+                  project?.id || node.conversationId,
+                  resolvedModel,
+                  client,
+                  state,
+                  sharedSignal ?? abortController.signal
+                )
             );
             state.updateMessage(nodeId, projectAttachmentContextMessageId, {
               content: attachmentContext,
@@ -361,25 +467,52 @@ export function useStreaming() {
         }
         state.setMemoryRetrievalPreview(node.conversationId, memoryPrompt?.preview || null);
 
+        try {
+          await refreshMergeSummaries(nodeId, resolvedModel, client);
+        } catch (error) {
+          if ((error as Error).name === 'AbortError') throw error;
+          state.addToast({
+            type: 'error',
+            title: 'Merge summary failed',
+            message:
+              error instanceof Error
+                ? error.message
+                : 'Falling back to full parent branches.',
+          });
+        }
+
         // Get context (all ancestor messages)
         const context: ComputedContext = state.getComputedContext(nodeId);
 
+        const inlineAttachments = await resolveInlineAttachments(
+          context.messages,
+          attachments,
+          resolvedModelInfo,
+          state,
+          sharedWork
+        );
+
         // Build messages array from context
         let messages: ChatMessage[] = context.messages
           .filter((m) => m.id !== assistantMessageId) // Exclude the placeholder
-          .map((m) => ({
-            role: m.role,
-            content: m.content,
-          }))
+          .map((m) => {
+            const inline = inlineAttachments.get(m.id);
+            return {
+              role: m.role,
+              content: inline ? buildContentParts(m.content, inline) : m.content,
+            };
+          })
           // Do not send empty user turns to provider APIs.
-          .filter((m) => !(m.role === 'user' && !m.content.trim()));
+          .filter(
+            (m) => !(m.role === 'user' && !getChatMessageText(m).trim() && !hasNonTextParts(m))
+          );
 
         // Add the new user message if not already in context
         const trimmedUserContent = userContent.trim();
         const hasUserMessage =
           trimmedUserContent.length > 0 &&
           messages.some(
-            (m) => m.role === 'user' && m.content.trim() === trimmedUserContent
+            (m) => m.role === 'user' && getChatMessageText(m).trim() === trimmedUserContent
           );
         if (trimmedUserContent.length > 0 && !hasUserMessage) {
           messages.push({ role: 'user', content: userContent });
@@ -400,7 +533,7 @@ export function useStreaming() {
         const maxContextTokens =
           state.models.find((model) => model.id === resolvedModel)?.contextLength || 4096;
         const toolOverheadTokens = estimateContextExtraTokens({
-          toolSettings: state.toolSettings,
+          toolSettings,
           memorySettings,
           memoryPreview: null,
         }).tools.total;
@@ -439,17 +572,25 @@ export function useStreaming() {
             : {}),
         };
 
+        const requestStartedAt = Date.now();
+        let completion: ChatCompletionResult = {};
+
         const streamLegacyResponse = async () => {
-          for await (const chunk of client.streamChatCompletion(
-            requestPayload,
-            abortController.signal
-          )) {
-            state.appendToStreamingMessage(nodeId, assistantMessageId, chunk);
+          const stream = client.streamChatCompletion(requestPayload, abortController.signal);
+          let step = await stream.next();
+          while (!step.done) {
+            const delta = step.value;
+            if (delta.type === 'reasoning') {
+              state.appendReasoningToStreamingMessage(nodeId, assistantMessageId, delta.text);
+            } else {
+              state.appendToStreamingMessage(nodeId, assistantMessageId, delta.text);
+            }
+            step = await stream.next();
           }
+          completion = step.value;
         };
 
         const streamToolResponse = async () => {
-          const toolSettings = state.toolSettings;
           if (!toolSettings.enabled) {
             await streamLegacyResponse();
             return;
@@ -466,25 +607,58 @@ export function useStreaming() {
             headers: providerHeaders,
           });
 
+          const approvalsByToolCallId = new Map<string, ToolApprovalRecord>();
           const confirmToolCall = async (
             toolName: string,
             args: Record<string, unknown>,
-            source: 'local' | 'mcp'
+            toolCallId?: string,
+            mcpServer?: { id: string; label: string }
           ) => {
-            if (!toolSettings.permissions.requireConfirmation) return true;
+            const approvalNames = mcpServer
+              ? getMcpToolApprovalNames(mcpServer.id, toolName)
+              : { key: toolName, fallbacks: [] };
+            const names = [approvalNames.key, ...approvalNames.fallbacks];
+            const settle = (approval: Omit<ToolApprovalRecord, 'decidedAt'>) => {
+              if (toolCallId) {
+                approvalsByToolCallId.set(toolCallId, { ...approval, decidedAt: Date.now() });
+              }
+              return approval.allowed;
+            };
+
+            // Rules are read live so an "always" answer covers later calls in this run
+            const rules = useStore.getState().toolSettings.permissions.rules;
+            const rule = findToolCallApprovalRule(rules, approvalNames, node.conversationId);
+            if (rule?.action === 'deny') {
+              return settle({ allowed: false, decidedBy: 'rule', ruleId: rule.id });
+            }
+
             const patterns = toolSettings.permissions.sensitiveTools;
             const shouldConfirm =
-              source === 'mcp'
-                ? isSensitiveToolName(`mcp:${toolName}`, patterns) ||
-                  isSensitiveToolName(toolName, patterns)
-                : isSensitiveToolName(toolName, patterns);
-            if (!shouldConfirm) return true;
-
-            return window.confirm(
-              `Allow tool "${source === 'mcp' ? `mcp:${toolName}` : toolName}"?\n\nArgs: ${previewPayload(
-                args
-              )}`
+              toolSettings.permissions.requireConfirmation &&
+              names.some((name) => isSensitiveToolName(name, patterns));
+            if (!shouldConfirm) return settle({ allowed: true, decidedBy: 'auto' });
+            if (rule) return settle({ allowed: true, decidedBy: 'rule', ruleId: rule.id });
+
+            const decision = await state.requestToolApproval({
+              conversationId: node.conversationId,
+              nodeId,
+              toolName: approvalNames.key,
+              source: mcpServer ? 'mcp' : 'local',
+              serverName: mcpServer?.label,
+              args,
+            });
+            const newRule = getRuleForApprovalDecision(
+              decision,
+              approvalNames.key,
+              node.conversationId
             );
+            const ruleId = newRule ? state.addToolApprovalRule(newRule) : undefined;
+            return settle({
+              allowed: decision.startsWith('allow'),
+              decidedBy: 'user',
+              decision,
+              ruleId,
+            });
           };
 
           const localTools = createLocalTools({
@@ -528,10 +702,15 @@ export function useStreaming() {
             },
             conversationId: node.conversationId,
             projectId: project?.id,
-            confirmToolCall: (toolName, args) =>
-              confirmToolCall(toolName, args, 'local'),
+            confirmToolCall: (toolName, args, toolCallId) =>
+              confirmToolCall(toolName, args, toolCallId),
           });
 
+          const tracesByToolCallId = new Map<
+            string,
+            { traceId: string; startedAt: number }
+          >();
+
           const mcpTools: ToolSet = {};
           const mcpAliases: Record<
             string,
@@ -540,7 +719,6 @@ export function useStreaming() {
               displayName: string;
             }
           > = {};
-          const mcpClosers: Array<() => Promise<void>> = [];
 
           if (toolSettings.mcp.enabled) {
             const enabledMcpServers = toolSettings.mcp.servers.filter(
@@ -551,20 +729,25 @@ export function useStreaming() {
               const serverLabel = server.name.trim() || `MCP ${index + 1}`;
               try {
                 const mcpBundle = await createMcpTools({
-                  config: {
-                    url: server.url.trim(),
-                    transport: server.transport,
-                    authToken: server.authToken || undefined,
-                  },
-                  enabledTools: server.enabledTools,
+                  server,
+                  conversationId: node.conversationId,
                   aliasPrefix: server.id || `server-${index + 1}`,
                   displayNamePrefix: serverLabel,
-                  confirmToolCall: (toolName, args) =>
-                    confirmToolCall(toolName, args, 'mcp'),
+                  confirmToolCall: (toolName, args, toolCallId) =>
+                    confirmToolCall(toolName, args, toolCallId, {
+                      id: server.id,
+                      label: serverLabel,
+                    }),
+                  onProgress: (toolCallId, progress) => {
+                    const traceRecord = tracesByToolCallId.get(toolCallId);
+                    if (!traceRecord) return;
+                    state.updateToolTrace(node.conversationId, traceRecord.traceId, {
+                      progress,
+                    });
+                  },
                 });
                 Object.assign(mcpTools, mcpBundle.tools);
                 Object.assign(mcpAliases, mcpBundle.aliases);
-                mcpClosers.push(mcpBundle.close);
               } catch (error) {
                 state.addToast({
                   type: 'error',
@@ -584,18 +767,10 @@ export function useStreaming() {
             return;
           }
 
-          const tracesByToolCallId = new Map<
-            string,
-            { traceId: string; startedAt: number }
-          >();
-
           try {
             const result = streamText({
               model: provider.chatModel(resolvedModel),
-              messages: preparedMessages.map((message) => ({
-                role: message.role,
-                content: message.content,
-              })),
+              messages: preparedMessages.map(toModelMessage),
               tools: allTools,
               stopWhen: stepCountIs(toolSettings.maxSteps),
               abortSignal: abortController.signal,
@@ -645,15 +820,27 @@ export function useStreaming() {
                       ? (chunk.output as Record<string, unknown>)
                       : null;
                   const denied = outputRecord?.denied === true;
+                  const artifacts = getToolOutputArtifacts(chunk.output);
                   if (traceId) {
                     state.updateToolTrace(node.conversationId, traceId, {
                       toolName: displayToolName,
                       status: denied ? 'denied' : 'succeeded',
                       outputPreview: previewPayload(chunk.output),
+                      approval: approvalsByToolCallId.get(chunk.toolCallId),
+                      artifacts: artifacts.length > 0 ? artifacts : undefined,
                       finishedAt: now,
                       durationMs: traceRecord ? now - traceRecord.startedAt : undefined,
                     });
                   }
+                  if (artifacts.length > 0) {
+                    const existing = useStore
+                      .getState()
+                      .nodes.get(nodeId)
+                      ?.messages.find((message) => message.id === assistantMessageId);
+                    state.updateMessage(nodeId, assistantMessageId, {
+                      toolArtifacts: [...(existing?.toolArtifacts ?? []), ...artifacts],
+                    });
+                  }
                   tracesByToolCallId.delete(chunk.toolCallId);
                   if (toolSettings.showEvents) {
                     state.addToast({
@@ -667,12 +854,26 @@ export function useStreaming() {
             });
 
             let hasText = false;
-            for await (const delta of result.textStream) {
-              if (!delta) continue;
-              hasText = true;
-              state.appendToStreamingMessage(nodeId, assistantMessageId, delta);
+            for await (const part of result.fullStream) {
+              if (part.type === 'reasoning-delta' && part.text) {
+                state.appendReasoningToStreamingMessage(nodeId, assistantMessageId, part.text);
+              } else if (part.type === 'text-delta' && part.text) {
+                hasText = true;
+                state.appendToStreamingMessage(nodeId, assistantMessageId, part.text);
+              }
             }
 
+            const [finishReason, totalUsage, response] = await Promise.all([
+              result.finishReason,
+              result.totalUsage,
+              result.response,
+            ]);
+            completion = {
+              finishReason,
+              generationId: response.id,
+              usage: toChatCompletionUsage(totalUsage),
+            };
+
             if (!hasText) {
               const finalText = await result.text;
               if (finalText) {
@@ -682,30 +883,32 @@ export function useStreaming() {
               }
             }
           } finally {
+            state.cancelToolApprovals(nodeId);
             const now = Date.now();
-            for (const [, traceRecord] of tracesByToolCallId) {
+            for (const [toolCallId, traceRecord] of tracesByToolCallId) {
               state.updateToolTrace(node.conversationId, traceRecord.traceId, {
                 status: 'failed',
                 error: 'Tool call did not finish.',
                 finishedAt: now,
                 durationMs: now - traceRecord.startedAt,
+                approval: approvalsByToolCallId.get(toolCallId),
               });
             }
             tracesByToolCallId.clear();
-            for (const close of mcpClosers) {
-              await close();
-            }
           }
         };
 
-        if (state.toolSettings.enabled) {
+        if (toolSettings.enabled) {
           try {
             await streamToolResponse();
           } catch (toolError) {
             if ((toolError as Error).name === 'AbortError') {
               throw toolError;
             }
-            state.updateMessage(nodeId, assistantMessageId, { content: '' });
+            state.updateMessage(nodeId, assistantMessageId, {
+              content: '',
+              reasoning: undefined,
+            });
             state.addToast({
               type: 'info',
               title: 'Tool loop failed',
@@ -718,7 +921,18 @@ export function useStreaming() {
         }
 
         // Mark streaming complete
-        state.updateMessage(nodeId, assistantMessageId, { isStreaming: false });
+        const usage = buildMessageUsage(
+          completion.usage,
+          resolvedModelInfo,
+          completion.generationId
+        );
+        state.updateMessage(nodeId, assistantMessageId, {
+          isStreaming: false,
+          finishReason: completion.finishReason,
+          latencyMs: Date.now() - requestStartedAt,
+          tokenCount: usage?.completionTokens,
+          usage,
+        });
         state.updateNode(nodeId, { status: 'idle' });
 
         if (memorySettings.enabled) {
@@ -775,6 +989,11 @@ export function useStreaming() {
           client,
           fallbackModel: resolvedModel,
         });
+        void maybeAutoLabelNode({
+          nodeId,
+          client,
+          fallbackModel: resolvedModel,
+        });
       } catch (error) {
         if ((error as Error).name === 'AbortError') {
           // Request was cancelled
@@ -868,7 +1087,31 @@ export function useStreaming() {
     [sendMessage]
   );
 
-  return { sendMessage, cancelRequest, retryMessage };
+  // Fan out one prompt to several models as sibling branches streamed in parallel
+  const sendToModels = useCallback(
+    async (
+      parentNodeId: NodeId,
+      userContent: string,
+      models: string[],
+      attachments: PendingAttachment[] = [],
+      onNodesCreated?: (nodeIds: NodeId[]) => void
+    ) => {
+      const state = useStore.getState();
+      if (!state.apiKey) {
+        throw new Error('API key not set');
+      }
+      const nodeIds = state.createFanOutNodes(parentNodeId, models);
+      onNodesCreated?.(nodeIds);
+      const sharedWork = createSharedSendWork(nodeIds.length);
+      await Promise.all(
+        nodeIds.map((nodeId) => sendMessage(nodeId, userContent, attachments, { sharedWork }))
+      );
+      return nodeIds;
+    },
+    [sendMessage]
+  );
+
+  return { sendMessage, sendToModels, cancelRequest, retryMessage };
 }
 
 async function maybeSummarizeMessages(
@@ -914,7 +1157,49 @@ async function maybeSummarizeMessages(
   };
 }
 
+async function refreshMergeSummaries(
+  nodeId: NodeId,
+  model: string,
+  client: ReturnType<typeof getOpenRouterClient>
+) {
+  const state = useStore.getState();
+  const node = state.nodes.get(nodeId);
+  const conversation = node ? state.conversations.get(node.conversationId) : null;
+  if (!conversation) return;
+
+  const contextNodes = state.getComputedContext(nodeId).nodes;
+  for (const contextNode of contextNodes) {
+    if (!contextNode.isMerge || contextNode.mergeStrategy !== 'summarize') continue;
+    const current = useStore.getState();
+    const branches = getMergeBranches(
+      contextNode.id,
+      current.nodes,
+      current.reverseAdjacencyList,
+      conversation.rootNodeId,
+      conversation.contextSettings
+    );
+    const summaries = { ...(contextNode.mergeSummaries || {}) };
+    let changed = false;
+    for (const branch of branches) {
+      if (branch.messages.length === 0) continue;
+      const sourceSignature = getMergeBranchSignature(branch.messages);
+      if (summaries[branch.parentId]?.sourceSignature === sourceSignature) continue;
+      const content = await summarizeMessages(
+        branch.messages.map((message) => ({ role: message.role, content: message.content })),
+        model,
+        client
+      );
+      summaries[branch.parentId] = { content, createdAt: Date.now(), sourceSignature };
+      changed = true;
+    }
+    if (changed) {
+      useStore.getState().updateNode(contextNode.id, { mergeSummaries: summaries });
+    }
+  }
+}
+
 const autoTitleInFlight = new Set<ConversationId>();
+const autoLabelInFlight = new Set<NodeId>();
 
 function findLatestMessageId(nodeId: NodeId, role: MessageRole) {
   const node = useStore.getState().nodes.get(nodeId);
@@ -1221,10 +1506,13 @@ function sanitizeTitleText(raw: string) {
 }
 
 function buildFallbackTitle(visibleMessages: ChatMessage[]) {
+  const texts = visibleMessages.map((message) => ({
+    role: message.role,
+    text: getChatMessageText(message),
+  }));
   const source =
-    visibleMessages.find((message) => message.role === 'user' && message.content.trim())
-      ?.content ||
-    visibleMessages.find((message) => message.content.trim())?.content ||
+    texts.find((message) => message.role === 'user' && message.text.trim())?.text ||
+    texts.find((message) => message.text.trim())?.text ||
     '';
 
   const cleaned = source
@@ -1249,7 +1537,7 @@ async function generateConversationTitle(params: {
   const { client, model, visibleMessages, reasoningParam } = params;
   const sample = visibleMessages.slice(0, 8).map((message) => {
     const role = message.role === 'assistant' ? 'Assistant' : 'User';
-    return `${role}: ${message.content}`;
+    return `${role}: ${getChatMessageText(message)}`;
   });
 
   const prompt: ChatMessage[] = [
@@ -1264,15 +1552,29 @@ async function generateConversationTitle(params: {
     },
   ];
 
-  let rawTitle = '';
-  const baseRequest = {
-    model,
-    messages: prompt,
-    temperature: 0.2,
-    max_tokens: 144,
-  } as const;
+  const rawTitle = await requestShortCompletion({
+    client,
+    request: { model, messages: prompt, temperature: 0.2, max_tokens: 144 },
+    reasoningParam,
+  });
 
-  const attempts: Array<Parameters<typeof client.chatCompletion>[0]> = [];
+  const normalized = sanitizeTitleText(rawTitle);
+  if (normalized) return normalized.slice(0, 80);
+
+  return buildFallbackTitle(visibleMessages).slice(0, 80);
+}
+
+/**
+ * Small housekeeping completion. Reasoning models are asked to skip thinking
+ * first; returns an empty string when every attempt fails.
+ */
+async function requestShortCompletion(params: {
+  client: ReturnType<typeof getOpenRouterClient>;
+  request: Parameters<ReturnType<typeof getOpenRouterClient>['chatCompletion']>[0];
+  reasoningParam: 'reasoning_effort' | 'reasoning' | null;
+}) {
+  const { client, request: baseRequest, reasoningParam } = params;
+  const attempts: Array<typeof baseRequest> = [];
   if (reasoningParam === 'reasoning_effort') {
     attempts.push({ ...baseRequest, reasoning_effort: 'none' });
     attempts.push({ ...baseRequest, reasoning_effort: 'minimal' });
@@ -1284,17 +1586,13 @@ async function generateConversationTitle(params: {
 
   for (const request of attempts) {
     try {
-      rawTitle = await client.chatCompletion(request);
-      if (rawTitle.trim()) break;
+      const text = await client.chatCompletion(request);
+      if (text.trim()) return text;
     } catch {
-      // Retry with next attempt, then fallback to local title extraction.
+      // Retry with next attempt; callers fall back to local text.
     }
   }
-
-  const normalized = sanitizeTitleText(rawTitle);
-  if (normalized) return normalized.slice(0, 80);
-
-  return buildFallbackTitle(visibleMessages).slice(0, 80);
+  return '';
 }
 
 async function maybeAutoTitleConversation(params: {
@@ -1349,6 +1647,65 @@ async function maybeAutoTitleConversation(params: {
   }
 }
 
+/**
+ * Generates the node's label and a summary of its branch. Only autoLabel is
+ * written, so a label the user typed stays in place.
+ */
+async function maybeAutoLabelNode(params: {
+  nodeId: NodeId;
+  client: ReturnType<typeof getOpenRouterClient>;
+  fallbackModel: string;
+}) {
+  const { nodeId, client, fallbackModel } = params;
+  const state = useStore.getState();
+
+  if (!state.autoLabelEnabled) return;
+  const node = state.nodes.get(nodeId);
+  if (!node || node.isReply || autoLabelInFlight.has(nodeId)) return;
+
+  const nodeMessages = node.messages.filter(
+    (message) => message.role !== 'system' && message.content.trim()
+  );
+  if (nodeMessages.length === 0) return;
+
+  const branch = state
+    .getComputedContext(nodeId)
+    .messages.map((message) => ({ role: message.role, text: getChatMessageText(message) }));
+  const labelModel = state.autoTitleModel || fallbackModel;
+  const labelModelInfo = state.models.find((model) => model.id === labelModel) || null;
+
+  autoLabelInFlight.add(nodeId);
+  try {
+    const raw = await requestShortCompletion({
+      client,
+      request: {
+        model: labelModel,
+        messages: [
+          { role: 'system', content: NODE_LABEL_SYSTEM_PROMPT },
+          { role: 'user', content: buildNodeLabelPrompt(branch, nodeMessages.length) },
+        ],
+        temperature: 0.2,
+        max_tokens: 320,
+      },
+      reasoningParam: getReasoningParameter(labelModelInfo),
+    });
+    const { label, summary } = parseNodeLabelResponse(raw);
+    if (!label && !summary) return;
+
+    const latest = useStore.getState();
+    if (!latest.nodes.has(nodeId)) return;
+    latest.updateNode(nodeId, {
+      ...(label ? { autoLabel: label } : {}),
+      ...(summary ? { branchSummary: { content: summary, createdAt: Date.now() } } : {}),
+    });
+    void latest.persistConversation(node.conversationId);
+  } catch {
+    // Ignore auto-label errors
+  } finally {
+    autoLabelInFlight.delete(nodeId);
+  }
+}
+
 export async function regenerateConversationTitle(conversationId: ConversationId) {
   const state = useStore.getState();
   const conversation = state.conversations.get(conversationId);
@@ -1423,8 +1780,91 @@ function trimToTokenLimit(messages: ChatMessage[], maxInputTokens: number) {
 }
 
 function estimateTokens(messages: ChatMessage[]): number {
-  const totalChars = messages.reduce((sum, m) => sum + m.content.length, 0);
-  return Math.ceil(totalChars / 4);
+  return messages.reduce((sum, m) => sum + estimateChatMessageTokens(m), 0);
+}
+
+function toModelMessage(message: ChatMessage): ModelMessage {
+  if (message.role === 'user' && typeof message.content !== 'string') {
+    return { role: 'user', content: toModelContentParts(message.content) };
+  }
+  return { role: message.role, content: getChatMessageText(message) };
+}
+
+/**
+ * Keeps a copy of an image/PDF without a file handle, so it can be previewed and
+ * resent after the File object is gone. Only models that read it natively need one.
+ */
+async function storeInlineCopy(
+  attachment: PendingAttachment,
+  model: LLMModel | undefined,
+  conversationId: ConversationId,
+  sharedWork?: SharedSendWork
+): Promise<string | undefined> {
+  if (attachment.blobId) return attachment.blobId;
+  const file = attachment.file;
+  if (attachment.handleId || !file || !canSendInline(attachment, model)) return undefined;
+  try {
+    return await runShared(sharedWork, `inline-copy:${attachment.id}`, async () => {
+      const id = uuidv4();
+      await saveAttachmentBlob({
+        id,
+        conversationId,
+        mimeType: file.type || attachment.type,
+        data: file,
+        size: file.size,
+        createdAt: Date.now(),
+      });
+      return id;
+    });
+  } catch {
+    return undefined;
+  }
+}
+
+async function readInlineDataUrl(
+  attachment: FileAttachment,
+  pending: PendingAttachment | undefined,
+  state: ReturnType<typeof useStore.getState>
+) {
+  const stored = attachment.blobId ? await loadAttachmentBlob(attachment.blobId) : undefined;
+  const file = stored?.data ?? (await resolveAttachmentFile(pending ?? attachment, state));
+  if (!file) return undefined;
+  try {
+    return await readFileAsDataUrl(file, file.type || attachment.type);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Loads the image/PDF parts the model accepts for every user message in context
+ */
+async function resolveInlineAttachments(
+  messages: Message[],
+  pendingAttachments: PendingAttachment[],
+  model: LLMModel | undefined,
+  state: ReturnType<typeof useStore.getState>,
+  sharedWork?: SharedSendWork
+): Promise<Map<string, InlineAttachment[]>> {
+  const result = new Map<string, InlineAttachment[]>();
+  const pendingById = new Map(pendingAttachments.map((attachment) => [attachment.id, attachment]));
+
+  for (const message of messages) {
+    if (message.role !== 'user' || !message.attachments) continue;
+    const inline: InlineAttachment[] = [];
+    for (const attachment of message.attachments) {
+      if (!canSendInline(attachment, model)) continue;
+      const kind = getInlineAttachmentKind(attachment);
+      if (!kind) continue;
+      const dataUrl = await runShared(sharedWork, `data-url:${attachment.id}`, () =>
+        readInlineDataUrl(attachment, pendingById.get(attachment.id), state)
+      );
+      if (!dataUrl) continue;
+      inline.push({ kind, name: attachment.name, dataUrl });
+    }
+    if (inline.length > 0) result.set(message.id, inline);
+  }
+  return result;
 }
 
 async function summarizeMessages(
@@ -1438,7 +1878,8 @@ async function summarizeMessages(
       content:
         'Summarize the conversation so far. Preserve key facts, decisions, names, and open questions. Use concise bullet points.',
     },
-    ...messages,
+    // Attachments are not re-sent just to summarize them
+    ...messages.map((message) => ({ role: message.role, content: getChatMessageText(message) })),
   ];
 
   const summary = await client.chatCompletion({
@@ -1514,9 +1955,9 @@ async function buildAttachmentRetrievalContext(
       continue;
     }
 
-    if (!isTextLikeFile(file)) {
+    if (!isExtractableFile(file)) {
       blocks.push(
-        `${attachment.name} (${formatFileSize(attachment.size)}): binary file skipped.`
+        `${attachment.name} (${formatFileSize(attachment.size)}): ${describeSkippedFile(file)}`
       );
       continue;
     }
@@ -1540,17 +1981,28 @@ async function buildAttachmentRetrievalContext(
     }
 
     await deleteRagChunksForSource(scopeType, scopeId, sourceKey);
-    const created = await indexAttachmentChunks({
-      scopeType,
-      scopeId,
-      sourceKey,
-      attachment,
-      file,
-      settings,
-      embeddingModel,
-      client,
-      signal,
-    });
+    let created: RagChunk[];
+    try {
+      created = await indexAttachmentChunks({
+        scopeType,
+        scopeId,
+        sourceKey,
+        attachment,
+        file,
+        settings,
+        embeddingModel,
+        client,
+        signal,
+      });
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') throw error;
+      blocks.push(
+        `${attachment.name} (${formatFileSize(file.size)}): text extraction failed (${
+          (error as Error).message || 'unknown error'
+        }).`
+      );
+      continue;
+    }
     await saveRagChunks(created);
     if (created.length >= RETRIEVAL_MAX_CHUNKS_PER_FILE) {
       blocks.push(
@@ -1607,6 +2059,7 @@ async function buildAttachmentRetrievalContext(
       attachmentSize: 0,
       chunkIndex: chunk.chunkIndex,
       chunkText: chunk.chunkText,
+      location: chunk.location,
       score,
       order,
     };
@@ -1626,7 +2079,8 @@ async function buildAttachmentRetrievalContext(
     const scoreText = Number.isFinite(candidate.score)
       ? `hybrid=${candidate.score.toFixed(3)}`
       : 'hybrid=n/a';
-    return `[${candidate.attachmentName} · chunk ${candidate.chunkIndex + 1} · ${scoreText}]\n${preview}`;
+    const location = candidate.location ? ` · ${candidate.location}` : '';
+    return `[${candidate.attachmentName}${location} · chunk ${candidate.chunkIndex + 1} · ${scoreText}]\n${preview}`;
   });
 
   const queryText = userContent.trim() || '(empty user prompt)';
@@ -1677,20 +2131,26 @@ async function buildAttachmentSummaryContext(
       continue;
     }
 
-    if (!isTextLikeFile(file)) {
+    if (!isExtractableFile(file)) {
       blocks.push(
-        `${attachment.name} (${formatFileSize(file.size)}): binary file skipped.`
+        `${attachment.name} (${formatFileSize(file.size)}): ${describeSkippedFile(file)}`
       );
       continue;
     }
 
-    const { summary, truncated } = await summarizeFileHierarchical(
-      file,
-      settings,
-      model,
-      client,
-      signal
-    );
+    let summarized: Awaited<ReturnType<typeof summarizeFileHierarchical>>;
+    try {
+      summarized = await summarizeFileHierarchical(file, settings, model, client, signal);
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') throw error;
+      blocks.push(
+        `${attachment.name} (${formatFileSize(file.size)}): processing failed (${
+          (error as Error).message || 'unknown error'
+        }).`
+      );
+      continue;
+    }
+    const { summary, truncated } = summarized;
     const suffix = truncated ? '\n\n[Truncated after initial chunks]' : '';
     blocks.push(
       `${attachment.name} (${formatFileSize(file.size)}):\n${
@@ -1706,11 +2166,27 @@ async function buildAttachmentSummaryContext(
   return `Attachment context (summary):\nMode: summarize\n\n${blocks.join('\n\n')}`;
 }
 
+function describeSkippedFile(file: File) {
+  return isImageFile(file)
+    ? 'image skipped, the selected model does not accept image input.'
+    : 'binary file skipped.';
+}
+
 async function resolveAttachmentFile(
   attachment: PendingAttachment,
   state: ReturnType<typeof useStore.getState>
 ) {
   if (attachment.file) return attachment.file;
+  if (attachment.source === 'mcp' && attachment.mcpResource) {
+    const { serverId, uri } = attachment.mcpResource;
+    const server = state.toolSettings.mcp.servers.find((entry) => entry.id === serverId);
+    if (!server?.url.trim()) return null;
+    try {
+      return await readMcpResourceFile(server, { ...attachment, uri });
+    } catch {
+      return null;
+    }
+  }
   if (!attachment.handleId) return null;
   const handle = state.getFileHandle(attachment.handleId);
   if (!handle) return null;
@@ -1733,7 +2209,7 @@ async function summarizeFileHierarchical(
   let truncated = false;
   let firstChunkPreview = '';
 
-  for await (const chunk of streamFileOverlappingChunks(
+  for await (const { text: chunk, location } of streamAttachmentChunks(
     file,
     settings.chunkSize,
     settings.chunkOverlap,
@@ -1749,7 +2225,12 @@ async function summarizeFileHierarchical(
     if (!chunk.trim()) continue;
 
     chunkCount += 1;
-    const nextChunkSummary = await summarizeTextChunk(chunk, model, client, signal);
+    const nextChunkSummary = await summarizeTextChunk(
+      location ? `[${location}]\n${chunk}` : chunk,
+      model,
+      client,
+      signal
+    );
     if (nextChunkSummary) {
       chunkSummaries.push(nextChunkSummary);
     }
@@ -1892,10 +2373,12 @@ async function indexAttachmentChunks(params: {
     chunkIndex: number;
     chunkText: string;
     chunkTokenEstimate: number;
+    location?: string;
+    page?: number;
   }> = [];
 
   let chunkIndex = 0;
-  for await (const chunk of streamFileOverlappingChunks(
+  for await (const chunk of streamAttachmentChunks(
     file,
     settings.chunkSize,
     settings.chunkOverlap,
@@ -1908,7 +2391,7 @@ async function indexAttachmentChunks(params: {
       break;
     }
 
-    const chunkText = chunk.trim();
+    const chunkText = chunk.text.trim();
     if (!chunkText) {
       chunkIndex += 1;
       continue;
@@ -1919,6 +2402,8 @@ async function indexAttachmentChunks(params: {
       chunkIndex,
       chunkText,
       chunkTokenEstimate: Math.ceil(chunkText.length / 4),
+      location: chunk.location,
+      page: chunk.page,
     });
     chunkIndex += 1;
   }
@@ -1959,6 +2444,8 @@ async function indexAttachmentChunks(params: {
     chunkIndex: chunk.chunkIndex,
     chunkText: chunk.chunkText,
     chunkTokenEstimate: chunk.chunkTokenEstimate,
+    location: chunk.location,
+    page: chunk.page,
     embedding: embeddingsByChunkId.get(chunk.id),
     embeddingModel,
     createdAt: now,
@@ -1987,22 +2474,23 @@ async function safeEmbedQuery(
   }
 }
 
-function cosineSimilarity(a: number[], b: number[]) {
-  const length = Math.min(a.length, b.length);
-  if (length === 0) return 0;
-
-  let dot = 0;
-  let normA = 0;
-  let normB = 0;
-  for (let i = 0; i < length; i++) {
-    const av = a[i];
-    const bv = b[i];
-    dot += av * bv;
-    normA += av * av;
-    normB += bv * bv;
+/**
+ * Chunks an attachment; documents are extracted first so chunks keep their location
+ */
+async function* streamAttachmentChunks(
+  file: File,
+  chunkSize: number,
+  chunkOverlap: number,
+  signal: AbortSignal
+): AsyncGenerator<DocumentChunk> {
+  if (getDocumentKind(file)) {
+    const sections = await extractDocumentSections(file, signal);
+    yield* chunkDocumentSections(sections, chunkSize, chunkOverlap);
+    return;
+  }
+  for await (const text of streamFileOverlappingChunks(file, chunkSize, chunkOverlap, signal)) {
+    yield { text };
   }
-  if (normA === 0 || normB === 0) return 0;
-  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
 }
 
 async function* streamFileOverlappingChunks(
@@ -0,0 +1,54 @@
+import { describe, expect, it, beforeEach } from 'vitest';
+import { useStore } from './index';
+import type { ConversationNode } from '../types';
+
+const parent: ConversationNode = {
+  id: 'parent',
+  conversationId: 'c1',
+  messages: [],
+  position: { x: 500, y: 100 },
+  status: 'idle',
+  createdAt: 1,
+  updatedAt: 1,
+  isCollapsed: false,
+};
+
+describe('store fan-out', () => {
+  beforeEach(() => {
+    useStore.setState({
+      nodes: new Map([['parent', parent]]),
+      edges: new Map(),
+      adjacencyList: {},
+      reverseAdjacencyList: {},
+    });
+  });
+
+  it('creates one sibling per model under the parent', () => {
+    const nodeIds = useStore
+      .getState()
+      .createFanOutNodes('parent', ['a/one', 'b/two', 'a/one', 'c/three']);
+
+    const state = useStore.getState();
+    expect(nodeIds).toHaveLength(3);
+    expect(nodeIds.map((id) => state.nodes.get(id)?.model)).toEqual(['a/one', 'b/two', 'c/three']);
+    expect(state.adjacencyList.parent).toEqual(nodeIds);
+    for (const id of nodeIds) {
+      expect(state.nodes.get(id)?.parentNodeId).toBe('parent');
+      expect(state.reverseAdjacencyList[id]).toEqual(['parent']);
+    }
+  });
+
+  it('lays the siblings out side by side below the parent', () => {
+    const nodeIds = useStore.getState().createFanOutNodes('parent', ['a/one', 'b/two', 'c/three']);
+    const positions = nodeIds.map((id) => useStore.getState().nodes.get(id)?.position);
+    expect(positions).toEqual([
+      { x: 150, y: 350 },
+      { x: 500, y: 350 },
+      { x: 850, y: 350 },
+    ]);
+  });
+
+  it('ignores unknown parents', () => {
+    expect(useStore.getState().createFanOutNodes('missing', ['a/one'])).toEqual([]);
+  });
+});
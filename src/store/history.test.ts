@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it, beforeEach, vi } from 'vitest';
+import * as db from '../db';
+import { useStore } from './index';
+import type { Conversation, ConversationEdge, ConversationNode } from '../types';
+
+const conversation: Conversation = {
+  id: 'c1',
+  title: 'Chat',
+  rootNodeId: 'n1',
+  model: 'openai/gpt-4-turbo',
+  createdAt: 1,
+  updatedAt: 1,
+};
+
+const node: ConversationNode = {
+  id: 'n1',
+  conversationId: 'c1',
+  messages: [
+    { id: 'm1', nodeId: 'n1', role: 'user', content: 'Hello', createdAt: 1, isStreaming: false },
+    { id: 'm2', nodeId: 'n1', role: 'assistant', content: 'Hi', createdAt: 2, isStreaming: false },
+  ],
+  position: { x: 100, y: 100 },
+  status: 'idle',
+  createdAt: 1,
+  updatedAt: 1,
+  isCollapsed: false,
+};
+
+const messageIds = () => useStore.getState().nodes.get('n1')?.messages.map((m) => m.id);
+
+describe('store undo/redo', () => {
+  beforeEach(() => {
+    useStore.setState({
+      conversations: new Map([['c1', conversation]]),
+      nodes: new Map([['n1', node]]),
+      edges: new Map(),
+      adjacencyList: {},
+      reverseAdjacencyList: {},
+      activeConversationId: 'c1',
+      historyByConversation: {},
+      toasts: [],
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('undoes and redoes a deleted message', () => {
+    const state = useStore.getState();
+    state.deleteMessage('n1', 'm2');
+    expect(messageIds()).toEqual(['m1']);
+
+    expect(state.undo()).toBe(true);
+    expect(messageIds()).toEqual(['m1', 'm2']);
+
+    expect(state.redo()).toBe(true);
+    expect(messageIds()).toEqual(['m1']);
+    expect(state.redo()).toBe(false);
+  });
+
+  it('offers an Undo action on the delete toast', () => {
+    useStore.getState().deleteMessage('n1', 'm2');
+    const toast = useStore.getState().toasts.at(-1);
+    expect(toast?.action?.label).toBe('Undo');
+
+    toast?.action?.onClick();
+    expect(messageIds()).toEqual(['m1', 'm2']);
+  });
+
+  it('records moves and clears redo on a new action', () => {
+    const state = useStore.getState();
+    state.updateNodePosition('n1', { x: 300, y: 100 });
+    state.updateNodePosition('n1', { x: 300, y: 100 });
+    expect(useStore.getState().historyByConversation.c1.undo).toHaveLength(1);
+
+    state.undo();
+    expect(useStore.getState().nodes.get('n1')?.position).toEqual({ x: 100, y: 100 });
+    state.deleteMessage('n1', 'm1');
+    expect(useStore.getState().historyByConversation.c1.redo).toEqual([]);
+  });
+
+  it('clears history when a later change conflicts', () => {
+    const state = useStore.getState();
+    state.deleteMessage('n1', 'm2');
+    useStore.setState({
+      nodes: new Map([['n1', { ...node, messages: [], label: 'Changed elsewhere' }]]),
+    });
+
+    expect(state.undo()).toBe(false);
+    expect(useStore.getState().historyByConversation.c1).toEqual({ undo: [], redo: [] });
+    expect(useStore.getState().toasts.at(-1)?.type).toBe('error');
+  });
+
+  it('takes an undone node deletion back out of the trash', () => {
+    const save = vi.spyOn(db, 'saveTrashedNodes').mockResolvedValue(undefined);
+    const remove = vi.spyOn(db, 'deleteTrashedNodes').mockResolvedValue(undefined);
+    const child: ConversationNode = { ...node, id: 'n2', parentNodeId: 'n1', messages: [] };
+    useStore.setState({ nodes: new Map([['n1', node], ['n2', child]]) });
+
+    const state = useStore.getState();
+    state.deleteNode('n2');
+    const trashId = save.mock.calls[0][0].id;
+
+    expect(state.undo()).toBe(true);
+    expect(useStore.getState().nodes.has('n2')).toBe(true);
+    expect(remove).toHaveBeenCalledWith(trashId);
+
+    expect(state.redo()).toBe(true);
+    expect(save).toHaveBeenLastCalledWith(expect.objectContaining({ id: trashId }));
+  });
+
+  it('deletes and restores a node with its children as one trash entry', async () => {
+    const save = vi.spyOn(db, 'saveTrashedNodes').mockResolvedValue(undefined);
+    vi.spyOn(db, 'deleteTrashedNodes').mockResolvedValue(undefined);
+    vi.spyOn(useStore.getState(), 'persistConversation').mockResolvedValue(undefined);
+    const child: ConversationNode = { ...node, id: 'n2', parentNodeId: 'n1', messages: [] };
+    const grandchild: ConversationNode = { ...child, id: 'n3', parentNodeId: 'n2' };
+    const edges: ConversationEdge[] = [
+      { id: 'e1', source: 'n1', target: 'n2', conversationId: 'c1', createdAt: 1 },
+      { id: 'e2', source: 'n2', target: 'n3', conversationId: 'c1', createdAt: 1 },
+    ];
+    useStore.setState({
+      nodes: new Map([['n1', node], ['n2', child], ['n3', grandchild]]),
+      edges: new Map(edges.map((edge) => [edge.id, edge])),
+      adjacencyList: { n1: ['n2'], n2: ['n3'] },
+      reverseAdjacencyList: { n2: ['n1'], n3: ['n2'] },
+    });
+
+    useStore.getState().deleteNode('n2');
+    expect([...useStore.getState().nodes.keys()]).toEqual(['n1']);
+    expect(useStore.getState().edges.size).toBe(0);
+    expect(save).toHaveBeenCalledTimes(1);
+    const trashed = save.mock.calls[0][0];
+    expect(trashed.nodes.map((n) => n.id)).toEqual(['n2', 'n3']);
+    expect(trashed.edges.map((e) => e.id).sort()).toEqual(['e1', 'e2']);
+
+    vi.spyOn(db, 'getTrashedNodes').mockResolvedValue(trashed);
+    await useStore.getState().restoreFromTrash('nodes', trashed.id);
+    expect([...useStore.getState().nodes.keys()].sort()).toEqual(['n1', 'n2', 'n3']);
+    expect(useStore.getState().adjacencyList).toEqual({ n1: ['n2'], n2: ['n3'] });
+  });
+
+  it('reports a node deletion the trash could not store', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(db, 'saveTrashedNodes').mockRejectedValue(new Error('Quota exceeded'));
+    const child: ConversationNode = { ...node, id: 'n2', parentNodeId: 'n1', messages: [] };
+    useStore.setState({ nodes: new Map([['n1', node], ['n2', child]]) });
+
+    useStore.getState().deleteNode('n2');
+    await vi.waitFor(() =>
+      expect(useStore.getState().toasts.at(-1)?.title).toBe('Could not move the node to the trash')
+    );
+  });
+});
@@ -24,14 +24,48 @@ import type {
   NormalizedToolSettings,
   ToolSettings,
   ToolTraceEntry,
+  ToolApprovalDecision,
+  ToolApprovalRequest,
+  ToolApprovalRule,
   MemorySettings,
   NormalizedMemorySettings,
   MemoryRetrievalPreview,
+  MergeStrategy,
+  BundleScope,
+  GraphChatBundle,
+  BundleImportResult,
+  PromptTemplate,
+  PromptTemplateScopeType,
+  TrashItemType,
+  TrashedNodes,
+  MessageSearchResult,
 } from '../types';
 import { normalizeAttachmentProcessingSettings } from '../utils/attachments';
 import { isLikelyEmbeddingModel } from '../utils/models';
 import { normalizeToolSettings } from '../utils/tools';
 import { normalizeMemorySettings } from '../utils/memory';
+import {
+  countBundleToolPolicies,
+  createBundle,
+  parseBundle,
+  remapBundleIds,
+} from '../utils/bundle';
+import type { PromptTemplateDraft } from '../utils/promptTemplates';
+import {
+  applyHistoryEntry,
+  diffGraph,
+  MAX_HISTORY_ENTRIES,
+  type ConversationHistory,
+  type GraphMaps,
+  type HistoryDirection,
+} from '../utils/history';
+import { collectIndexChanges } from '../utils/searchIndex';
+import { describeSearchBranches, type BranchGraph } from '../utils/searchBranches';
+import {
+  getTrashCutoff,
+  mergeTrashedNodes,
+  normalizeTrashRetentionDays,
+} from '../utils/trash';
 import {
   computeAdjacencyLists,
   wouldCreateCycle,
@@ -39,6 +73,7 @@ import {
   getDescendants,
   getPathToNode,
   layoutNodes,
+  getSiblingRowPositions,
 } from '../utils/graph';
 import * as db from '../db';
 import {
@@ -59,6 +94,7 @@ const CUSTOM_PROFILE_KEY = 'graph_chat_custom_profile';
 const CUSTOM_RESPONSE_STYLE_KEY = 'graph_chat_custom_response_style';
 const AUTO_TITLE_ENABLED_KEY = 'graph_chat_auto_title_enabled';
 const AUTO_TITLE_MODEL_KEY = 'graph_chat_auto_title_model';
+const AUTO_LABEL_ENABLED_KEY = 'graph_chat_auto_label_enabled';
 const EMBEDDING_MODEL_KEY = 'graph_chat_embedding_model';
 const LAST_PROJECT_KEY = 'graph_chat_last_project';
 const THEME_KEY = 'graph_chat_theme';
@@ -66,6 +102,16 @@ const CHAT_DRAFTS_KEY = 'graph_chat_chat_drafts_v1';
 const REPLY_DRAFTS_KEY = 'graph_chat_reply_drafts_v1';
 const TOOL_SETTINGS_KEY = 'graph_chat_tool_settings_v1';
 const MEMORY_SETTINGS_KEY = 'graph_chat_memory_settings_v1';
+const TRASH_RETENTION_KEY = 'graph_chat_trash_retention_days';
+const SEMANTIC_SEARCH_KEY = 'graph_chat_semantic_search_enabled';
+
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Pending approval prompts resolve through these; kept out of state so it stays plain data
+const toolApprovalResolvers = new Map<string, (decision: ToolApprovalDecision) => void>();
+// Trash records written by node deletions, by history entry, so undo/redo can keep them in sync
+const trashByHistoryEntry = new Map<string, TrashedNodes>();
+let trashPurgeTimer: ReturnType<typeof setInterval> | null = null;
 
 function getLastBranchKey(conversationId: ConversationId) {
   return `${LAST_BRANCH_KEY_PREFIX}${conversationId}`;
@@ -108,7 +154,7 @@ function sanitizeDraftAttachments(
   attachments: PendingAttachment[]
 ): PendingAttachment[] {
   return attachments
-    .filter((attachment) => attachment.source === 'handle')
+    .filter((attachment) => attachment.source === 'handle' || attachment.source === 'mcp')
     .map((attachment) => ({
       id: attachment.id,
       name: attachment.name,
@@ -117,6 +163,7 @@ function sanitizeDraftAttachments(
       lastModified: attachment.lastModified,
       source: attachment.source,
       handleId: attachment.handleId,
+      mcpResource: attachment.mcpResource,
     }));
 }
 
@@ -190,6 +237,7 @@ interface GraphChatState {
   nodes: Map<NodeId, ConversationNode>;
   edges: Map<EdgeId, ConversationEdge>;
   projects: Map<ProjectId, Project>;
+  promptTemplates: Map<string, PromptTemplate>;
 
   // UI State
   activeConversationId: ConversationId | null;
@@ -197,6 +245,7 @@ interface GraphChatState {
   activeInputNodeId: NodeId | null;
   activeProjectId: ProjectId | null;
   viewMode: ViewMode;
+  compareNodeIds: NodeId[];
   selectedModel: string;
   apiKey: string;
   apiBaseUrl: string;
@@ -208,17 +257,24 @@ interface GraphChatState {
   customResponseStyle: string;
   autoTitleEnabled: boolean;
   autoTitleModel: string;
+  autoLabelEnabled: boolean;
   embeddingModel: string;
   toolSettings: NormalizedToolSettings;
   memorySettings: NormalizedMemorySettings;
   replyThreadFocusNodeId: NodeId | null;
+  graphFocusNodeId: NodeId | null;
   theme: 'light' | 'dark';
   highlightedMessageId: MessageId | null;
   highlightedQuery: string | null;
+  pendingEditMessageId: MessageId | null;
   chatDrafts: Record<string, { content: string; attachments: PendingAttachment[] }>;
   replyDrafts: Record<string, string>;
   toolTraceByConversation: Record<ConversationId, ToolTraceEntry[]>;
+  toolApprovalRequests: ToolApprovalRequest[];
   memoryRetrievalByConversation: Record<ConversationId, MemoryRetrievalPreview | null>;
+  historyByConversation: Record<ConversationId, ConversationHistory>;
+  trashRetentionDays: number;
+  semanticSearchEnabled: boolean;
 
   // Streaming State
   activeRequests: Map<NodeId, ActiveRequest>;
@@ -257,12 +313,29 @@ interface GraphChatState {
   deleteProject: (id: ProjectId) => Promise<void>;
   setActiveProject: (id: ProjectId | null) => void;
 
+  // Prompt templates
+  savePromptTemplate: (
+    template: Omit<PromptTemplate, 'id' | 'createdAt' | 'updatedAt'> & { id?: string }
+  ) => string;
+  deletePromptTemplate: (id: string) => void;
+  importPromptTemplates: (
+    drafts: PromptTemplateDraft[],
+    scopeType: PromptTemplateScopeType,
+    scopeId: string
+  ) => number;
+
   // Node CRUD
   createNode: (
     conversationId: ConversationId,
     parentNodeId?: NodeId,
     branchedFromMessageId?: MessageId
   ) => NodeId;
+  createMergeNode: (
+    conversationId: ConversationId,
+    parentNodeIds: NodeId[],
+    strategy?: MergeStrategy
+  ) => NodeId | null;
+  createFanOutNodes: (parentNodeId: NodeId, models: string[]) => NodeId[];
   updateNode: (nodeId: NodeId, updates: Partial<ConversationNode>) => void;
   deleteNode: (nodeId: NodeId) => void;
   setActiveNode: (nodeId: NodeId | null) => void;
@@ -279,6 +352,11 @@ interface GraphChatState {
   ) => MessageId;
   updateMessage: (nodeId: NodeId, messageId: MessageId, updates: Partial<Message>) => void;
   appendToStreamingMessage: (nodeId: NodeId, messageId: MessageId, content: string) => void;
+  appendReasoningToStreamingMessage: (
+    nodeId: NodeId,
+    messageId: MessageId,
+    reasoning: string
+  ) => void;
   deleteMessage: (nodeId: NodeId, messageId: MessageId) => void;
   editMessage: (
     nodeId: NodeId,
@@ -299,6 +377,7 @@ interface GraphChatState {
   getComputedContext: (nodeId: NodeId) => ComputedContext;
   canCreateEdge: (source: NodeId, target: NodeId) => boolean;
   getActivePath: () => NodeId[];
+  getSearchResultBranches: (results: MessageSearchResult[]) => Promise<MessageSearchResult[]>;
   getBranchesFromNode: (nodeId: NodeId) => NodeId[];
   getRepliesForNode: (nodeId: NodeId) => ConversationNode[];
 
@@ -307,6 +386,7 @@ interface GraphChatState {
 
   // UI actions
   setViewMode: (mode: ViewMode) => void;
+  compareNodes: (nodeIds: NodeId[]) => void;
   setSelectedModel: (model: string) => void;
   setApiKey: (key: string) => void;
   setApiBaseUrl: (url: string) => void;
@@ -323,11 +403,14 @@ interface GraphChatState {
   setCustomResponseStyle: (value: string) => void;
   setAutoTitleEnabled: (value: boolean) => void;
   setAutoTitleModel: (value: string) => void;
+  setAutoLabelEnabled: (value: boolean) => void;
   setEmbeddingModel: (value: string) => void;
   setToolSettings: (value: ToolSettings) => void;
   setMemorySettings: (value: MemorySettings) => void;
   setReplyThreadFocusNodeId: (value: NodeId | null) => void;
+  setGraphFocusNode: (nodeId: NodeId | null) => void;
   setHighlightedMessage: (messageId: MessageId | null, query?: string | null) => void;
+  setPendingEditMessage: (messageId: MessageId | null) => void;
   setTheme: (theme: 'light' | 'dark') => void;
   updateNodePosition: (nodeId: NodeId, position: { x: number; y: number }) => void;
   autoLayoutNodes: () => void;
@@ -350,13 +433,240 @@ interface GraphChatState {
     updates: Partial<ToolTraceEntry>
   ) => void;
   clearToolTrace: (conversationId: ConversationId) => void;
+  requestToolApproval: (
+    request: Omit<ToolApprovalRequest, 'id' | 'requestedAt'>
+  ) => Promise<ToolApprovalDecision>;
+  resolveToolApproval: (id: string, decision: ToolApprovalDecision) => void;
+  cancelToolApprovals: (nodeId: NodeId) => void;
+  addToolApprovalRule: (rule: Omit<ToolApprovalRule, 'id' | 'createdAt'>) => string;
   setMemoryRetrievalPreview: (
     conversationId: ConversationId,
     preview: MemoryRetrievalPreview | null
   ) => void;
 
+  // Trash; deleted chats, projects and nodes stay restorable until purged
+  restoreFromTrash: (type: TrashItemType, id: string) => Promise<void>;
+  deleteFromTrash: (type: TrashItemType, id: string) => Promise<void>;
+  emptyTrash: () => Promise<void>;
+  purgeExpiredTrash: () => Promise<void>;
+  setTrashRetentionDays: (days: number) => void;
+  setSemanticSearchEnabled: (enabled: boolean) => void;
+
+  // Undo / redo of graph and message edits; false when there was nothing to apply
+  undo: (conversationId?: ConversationId) => boolean;
+  redo: (conversationId?: ConversationId) => boolean;
+
   // Persistence
   persistConversation: (conversationId: ConversationId) => Promise<void>;
+
+  // Export / import
+  exportBundle: (
+    scope: BundleScope,
+    options?: { includeEmbeddings?: boolean }
+  ) => Promise<GraphChatBundle>;
+  importBundle: (raw: unknown) => Promise<BundleImportResult>;
+}
+
+type StoreGet = () => GraphChatState;
+type StoreSet = (partial: Partial<GraphChatState>) => void;
+
+function captureGraph(state: GraphChatState): GraphMaps {
+  return { conversations: state.conversations, nodes: state.nodes, edges: state.edges };
+}
+
+// Pushes an undo entry for whatever the action changed in one conversation
+function commitHistory(
+  get: StoreGet,
+  set: StoreSet,
+  before: GraphMaps,
+  conversationId: ConversationId,
+  label: string,
+  options: { undoToast?: boolean } = {}
+) {
+  const state = get();
+  const entry = diffGraph(before, captureGraph(state), conversationId, {
+    id: uuidv4(),
+    label,
+    createdAt: Date.now(),
+  });
+  if (!entry) return null;
+
+  const history = state.historyByConversation[conversationId];
+  set({
+    historyByConversation: {
+      ...state.historyByConversation,
+      [conversationId]: {
+        undo: [...(history?.undo ?? []), entry].slice(-MAX_HISTORY_ENTRIES),
+        redo: [],
+      },
+    },
+  });
+
+  if (options.undoToast) {
+    state.addToast({
+      type: 'info',
+      title: label,
+      action: { label: 'Undo', onClick: () => get().undo(conversationId) },
+    });
+  }
+  return entry;
+}
+
+// Writes a deleted node's trash record, telling the user when the trash can't hold it
+function saveNodeTrash(get: StoreGet, entry: TrashedNodes) {
+  db.saveTrashedNodes(entry).catch((error) => {
+    console.error('Failed to move node to trash:', error);
+    get().addToast({
+      type: 'error',
+      title: 'Could not move the node to the trash',
+      message: 'Undo still restores it, but it will not be listed in the trash.',
+    });
+  });
+}
+
+// Undoing a node deletion takes the node back out of the trash; redoing puts it back
+function syncNodeTrash(get: StoreGet, entryId: string, direction: HistoryDirection) {
+  const trashed = trashByHistoryEntry.get(entryId);
+  if (!trashed) return;
+  if (direction === 'undo') {
+    db.deleteTrashedNodes(trashed.id).catch((error) =>
+      console.warn('Failed to remove restored node from trash:', error)
+    );
+  } else {
+    saveNodeTrash(get, { ...trashed, deletedAt: Date.now() });
+  }
+}
+
+function stepHistory(
+  get: StoreGet,
+  set: StoreSet,
+  direction: HistoryDirection,
+  conversationId?: ConversationId
+) {
+  const state = get();
+  const id = conversationId ?? state.activeConversationId;
+  if (!id) return false;
+  const history = state.historyByConversation[id];
+  const stack = direction === 'undo' ? history?.undo : history?.redo;
+  const entry = stack?.[stack.length - 1];
+  if (!history || !entry) return false;
+
+  const applied = applyHistoryEntry(captureGraph(state), entry, direction);
+  if (!applied) {
+    // Later edits touched the same records; replaying older entries would clobber them.
+    set({
+      historyByConversation: { ...state.historyByConversation, [id]: { undo: [], redo: [] } },
+    });
+    state.addToast({
+      type: 'error',
+      title: `Cannot ${direction} "${entry.label}"`,
+      message: 'The chat changed since then, so its history was cleared.',
+    });
+    return false;
+  }
+
+  const { adjacencyList, reverseAdjacencyList } = computeAdjacencyLists(
+    Array.from(applied.edges.values())
+  );
+  set({
+    ...applied,
+    adjacencyList,
+    reverseAdjacencyList,
+    activeNodeId:
+      state.activeNodeId && applied.nodes.has(state.activeNodeId) ? state.activeNodeId : null,
+    activeInputNodeId:
+      state.activeInputNodeId && applied.nodes.has(state.activeInputNodeId)
+        ? state.activeInputNodeId
+        : null,
+    historyByConversation: {
+      ...state.historyByConversation,
+      [id]:
+        direction === 'undo'
+          ? { undo: history.undo.slice(0, -1), redo: [...history.redo, entry] }
+          : { undo: [...history.undo, entry], redo: history.redo.slice(0, -1) },
+    },
+  });
+  syncNodeTrash(get, entry.id, direction);
+  if (id !== state.activeConversationId) {
+    void get().persistConversation(id);
+  }
+  return true;
+}
+
+// Drops a conversation and its loaded graph from memory; the caller handles the DB
+function removeConversationFromState(get: StoreGet, set: StoreSet, id: ConversationId) {
+  const state = get();
+
+  // Cancel any active requests for this conversation
+  const nodesInConv = Array.from(state.nodes.values()).filter(
+    (n) => n.conversationId === id
+  );
+  for (const node of nodesInConv) {
+    state.cancelRequest(node.id);
+  }
+
+  // Remove from state
+  const newConversations = new Map(state.conversations);
+  newConversations.delete(id);
+
+  const newNodes = new Map(state.nodes);
+  const newEdges = new Map(state.edges);
+
+  for (const node of nodesInConv) {
+    newNodes.delete(node.id);
+  }
+
+  for (const [edgeId, edge] of state.edges) {
+    if (edge.conversationId === id) {
+      newEdges.delete(edgeId);
+    }
+  }
+
+  const removedNodeIds = new Set(nodesInConv.map((node) => node.id));
+  const nextChatDrafts = { ...state.chatDrafts };
+  const nextReplyDrafts = { ...state.replyDrafts };
+  const nextToolTraceByConversation = { ...state.toolTraceByConversation };
+  const nextHistoryByConversation = { ...state.historyByConversation };
+  delete nextToolTraceByConversation[id];
+  delete nextHistoryByConversation[id];
+  for (const removedId of removedNodeIds) {
+    delete nextChatDrafts[removedId];
+    delete nextReplyDrafts[removedId];
+  }
+
+  const isActive = state.activeConversationId === id;
+
+  set({
+    conversations: newConversations,
+    nodes: newNodes,
+    edges: newEdges,
+    chatDrafts: nextChatDrafts,
+    replyDrafts: nextReplyDrafts,
+    toolTraceByConversation: nextToolTraceByConversation,
+    historyByConversation: nextHistoryByConversation,
+    activeConversationId: isActive ? null : state.activeConversationId,
+    activeNodeId: isActive ? null : state.activeNodeId,
+    activeInputNodeId: isActive ? null : state.activeInputNodeId,
+  });
+
+  localStorage.removeItem(getLastBranchKey(id));
+  if (isActive) {
+    localStorage.removeItem(LAST_CONVERSATION_KEY);
+  }
+
+  // Update adjacency lists
+  get().autoLayoutNodes();
+}
+
+function removeProjectTemplatesFromState(get: StoreGet, set: StoreSet, projectIds: ProjectId[]) {
+  if (projectIds.length === 0) return;
+  const newPromptTemplates = new Map(get().promptTemplates);
+  for (const [templateId, template] of newPromptTemplates) {
+    if (template.scopeType === 'project' && projectIds.includes(template.scopeId)) {
+      newPromptTemplates.delete(templateId);
+    }
+  }
+  set({ promptTemplates: newPromptTemplates });
 }
 
 export const useStore = create<GraphChatState>()(
@@ -366,11 +676,13 @@ export const useStore = create<GraphChatState>()(
     nodes: new Map(),
     edges: new Map(),
     projects: new Map(),
+    promptTemplates: new Map(),
     activeConversationId: null,
     activeNodeId: null,
     activeInputNodeId: null,
     activeProjectId: localStorage.getItem(LAST_PROJECT_KEY),
     viewMode: 'chat',
+    compareNodeIds: [],
     selectedModel: 'openai/gpt-4-turbo',
     apiKey: localStorage.getItem('openrouter-api-key') || '',
     apiBaseUrl:
@@ -380,18 +692,25 @@ export const useStore = create<GraphChatState>()(
     autoTitleEnabled: localStorage.getItem(AUTO_TITLE_ENABLED_KEY) === 'true',
     autoTitleModel:
       localStorage.getItem(AUTO_TITLE_MODEL_KEY) || 'openai/gpt-4-turbo',
+    autoLabelEnabled: localStorage.getItem(AUTO_LABEL_ENABLED_KEY) === 'true',
     embeddingModel:
       localStorage.getItem(EMBEDDING_MODEL_KEY) || 'openai/text-embedding-3-small',
     toolSettings: loadToolSettingsFromStorage(),
     memorySettings: loadMemorySettingsFromStorage(),
     replyThreadFocusNodeId: null,
+    graphFocusNodeId: null,
     theme: getInitialTheme(),
     highlightedMessageId: null,
     highlightedQuery: null,
+    pendingEditMessageId: null,
     chatDrafts: loadChatDraftsFromStorage(),
     replyDrafts: loadReplyDraftsFromStorage(),
     toolTraceByConversation: {},
+    toolApprovalRequests: [],
     memoryRetrievalByConversation: {},
+    historyByConversation: {},
+    trashRetentionDays: normalizeTrashRetentionDays(localStorage.getItem(TRASH_RETENTION_KEY)),
+    semanticSearchEnabled: localStorage.getItem(SEMANTIC_SEARCH_KEY) === 'true',
     models: FALLBACK_MODELS,
     embeddingModels: FALLBACK_EMBEDDING_MODELS,
     modelsLoading: false,
@@ -426,6 +745,11 @@ export const useStore = create<GraphChatState>()(
           projectsMap.set(project.id, project);
         }
 
+        const promptTemplates = await db.loadAllPromptTemplates();
+        const promptTemplatesMap = new Map(
+          promptTemplates.map((template) => [template.id, template])
+        );
+
         let fileHandlesMap = new Map<string, FileSystemFileHandle>();
         try {
           const storedHandles = await db.loadAllFileHandles();
@@ -444,6 +768,7 @@ export const useStore = create<GraphChatState>()(
         set({
           conversations: conversationsMap,
           projects: projectsMap,
+          promptTemplates: promptTemplatesMap,
           fileHandles: fileHandlesMap,
           activeProjectId,
           isInitialized: true,
@@ -454,6 +779,16 @@ export const useStore = create<GraphChatState>()(
         if (lastConversationId && conversationsMap.has(lastConversationId)) {
           await get().setActiveConversation(lastConversationId);
         }
+
+        // Purge now and then hourly, so long-running tabs still honour the retention period
+        const purgeTrash = () =>
+          get()
+            .purgeExpiredTrash()
+            .catch((error) => console.warn('Failed to purge trash:', error));
+        void purgeTrash();
+        if (!trashPurgeTimer) {
+          trashPurgeTimer = setInterval(purgeTrash, TRASH_PURGE_INTERVAL_MS);
+        }
       } catch (error) {
         console.error('Failed to initialize:', error);
         set({ isLoading: false, isInitialized: true });
@@ -647,33 +982,27 @@ export const useStore = create<GraphChatState>()(
       void db.saveProject(updated);
     },
 
+    // Move a project and its chats to the trash
     deleteProject: async (id: ProjectId) => {
       const state = get();
       const newProjects = new Map(state.projects);
       newProjects.delete(id);
-
-      const newConversations = new Map(state.conversations);
-      for (const [convId, conv] of newConversations) {
-        if (conv.projectId === id) {
-          newConversations.set(convId, { ...conv, projectId: undefined });
-        }
-      }
-
-      const nextActiveProjectId =
-        state.activeProjectId === id ? null : state.activeProjectId;
-
       set({
         projects: newProjects,
-        conversations: newConversations,
-        activeProjectId: nextActiveProjectId,
+        activeProjectId: state.activeProjectId === id ? null : state.activeProjectId,
       });
 
       if (state.activeProjectId === id) {
         localStorage.removeItem(LAST_PROJECT_KEY);
       }
 
-      await db.deleteProject(id);
-      await db.deleteRagChunksForScope('project', id);
+      for (const conversation of state.conversations.values()) {
+        if (conversation.projectId === id) {
+          removeConversationFromState(get, set, conversation.id);
+        }
+      }
+
+      await db.trashProject(id, Date.now());
     },
 
     setActiveProject: (id: ProjectId | null) => {
@@ -706,70 +1035,72 @@ export const useStore = create<GraphChatState>()(
       });
     },
 
-    // Delete conversation
-    deleteConversation: async (id: ConversationId) => {
+    savePromptTemplate: (template) => {
       const state = get();
+      const now = Date.now();
+      const existing = template.id ? state.promptTemplates.get(template.id) : undefined;
+      const saved: PromptTemplate = {
+        ...template,
+        id: existing?.id ?? uuidv4(),
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
 
-      // Cancel any active requests for this conversation
-      const nodesInConv = Array.from(state.nodes.values()).filter(
-        (n) => n.conversationId === id
-      );
-      for (const node of nodesInConv) {
-        state.cancelRequest(node.id);
-      }
-
-      // Remove from state
-      const newConversations = new Map(state.conversations);
-      newConversations.delete(id);
-
-      const newNodes = new Map(state.nodes);
-      const newEdges = new Map(state.edges);
+      const newPromptTemplates = new Map(state.promptTemplates);
+      newPromptTemplates.set(saved.id, saved);
+      set({ promptTemplates: newPromptTemplates });
+      void db.savePromptTemplates([saved]);
+      return saved.id;
+    },
 
-      for (const node of nodesInConv) {
-        newNodes.delete(node.id);
-      }
+    deletePromptTemplate: (id) => {
+      const state = get();
+      if (!state.promptTemplates.has(id)) return;
+      const newPromptTemplates = new Map(state.promptTemplates);
+      newPromptTemplates.delete(id);
+      set({ promptTemplates: newPromptTemplates });
+      void db.deletePromptTemplate(id);
+    },
 
-      for (const [edgeId, edge] of state.edges) {
-        if (edge.conversationId === id) {
-          newEdges.delete(edgeId);
+    // Imported templates replace same-named ones in the target scope
+    importPromptTemplates: (drafts, scopeType, scopeId) => {
+      const state = get();
+      const now = Date.now();
+      const byName = new Map<string, PromptTemplate>();
+      for (const template of state.promptTemplates.values()) {
+        if (template.scopeType === scopeType && template.scopeId === scopeId) {
+          byName.set(template.name.toLowerCase(), template);
         }
       }
 
-      const removedNodeIds = new Set(nodesInConv.map((node) => node.id));
-      const nextChatDrafts = { ...state.chatDrafts };
-      const nextReplyDrafts = { ...state.replyDrafts };
-      const nextToolTraceByConversation = { ...state.toolTraceByConversation };
-      delete nextToolTraceByConversation[id];
-      for (const removedId of removedNodeIds) {
-        delete nextChatDrafts[removedId];
-        delete nextReplyDrafts[removedId];
-      }
-
-      const isActive = state.activeConversationId === id;
-
-      set({
-        conversations: newConversations,
-        nodes: newNodes,
-        edges: newEdges,
-        chatDrafts: nextChatDrafts,
-        replyDrafts: nextReplyDrafts,
-        toolTraceByConversation: nextToolTraceByConversation,
-        activeConversationId: isActive ? null : state.activeConversationId,
-        activeNodeId: isActive ? null : state.activeNodeId,
-        activeInputNodeId: isActive ? null : state.activeInputNodeId,
-      });
-
-      localStorage.removeItem(getLastBranchKey(id));
-      if (isActive) {
-        localStorage.removeItem(LAST_CONVERSATION_KEY);
+      const newPromptTemplates = new Map(state.promptTemplates);
+      const saved: PromptTemplate[] = [];
+      for (const draft of drafts) {
+        const existing = byName.get(draft.name.toLowerCase());
+        const template: PromptTemplate = {
+          id: existing?.id ?? uuidv4(),
+          scopeType,
+          scopeId,
+          name: draft.name,
+          description: draft.description,
+          content: draft.content,
+          createdAt: existing?.createdAt ?? now,
+          updatedAt: now,
+        };
+        byName.set(template.name.toLowerCase(), template);
+        newPromptTemplates.set(template.id, template);
+        saved.push(template);
       }
 
-      // Update adjacency lists
-      get().autoLayoutNodes();
+      set({ promptTemplates: newPromptTemplates });
+      void db.savePromptTemplates(saved);
+      return saved.length;
+    },
 
-      // Delete from DB
-      await db.deleteConversation(id);
-      await db.deleteRagChunksForScope('conversation', id);
+    // Move a conversation to the trash
+    deleteConversation: async (id: ConversationId) => {
+      removeConversationFromState(get, set, id);
+      await db.trashConversation(id, Date.now());
     },
 
     // Set active conversation
@@ -909,6 +1240,129 @@ export const useStore = create<GraphChatState>()(
       return nodeId;
     },
 
+    // Create one sibling child per model, laid out side by side under the parent
+    createFanOutNodes: (parentNodeId: NodeId, models: string[]) => {
+      const state = get();
+      const parent = state.nodes.get(parentNodeId);
+      const uniqueModels = Array.from(new Set(models.filter(Boolean)));
+      if (!parent || parent.isReply || uniqueModels.length === 0) return [];
+
+      const now = Date.now();
+      const positions = getSiblingRowPositions(parent.position, uniqueModels.length);
+      const newNodes = new Map(state.nodes);
+      const newEdges = new Map(state.edges);
+      const nodeIds: NodeId[] = [];
+
+      uniqueModels.forEach((model, index) => {
+        const nodeId = uuidv4();
+        newNodes.set(nodeId, {
+          id: nodeId,
+          conversationId: parent.conversationId,
+          messages: [],
+          position: positions[index],
+          status: 'idle',
+          createdAt: now,
+          updatedAt: now,
+          isCollapsed: false,
+          parentNodeId,
+          model,
+        });
+        const edgeId = uuidv4();
+        newEdges.set(edgeId, {
+          id: edgeId,
+          source: parentNodeId,
+          target: nodeId,
+          conversationId: parent.conversationId,
+          createdAt: now + index, // Keeps sibling order stable in the adjacency list
+        });
+        nodeIds.push(nodeId);
+      });
+
+      const { adjacencyList, reverseAdjacencyList } = computeAdjacencyLists(
+        Array.from(newEdges.values())
+      );
+
+      set({
+        nodes: newNodes,
+        edges: newEdges,
+        adjacencyList,
+        reverseAdjacencyList,
+      });
+
+      return nodeIds;
+    },
+
+    // Create a merge node whose context combines all given parents
+    createMergeNode: (
+      conversationId: ConversationId,
+      parentNodeIds: NodeId[],
+      strategy: MergeStrategy = 'interleave'
+    ) => {
+      const state = get();
+      const parents = Array.from(new Set(parentNodeIds)).filter((id) => {
+        const parent = state.nodes.get(id);
+        return parent?.conversationId === conversationId && !parent.isReply;
+      });
+      if (parents.length < 2) {
+        console.warn('Cannot create merge node: need at least two parents');
+        return null;
+      }
+
+      const nodeId = uuidv4();
+      const now = Date.now();
+      // One rank below the lowest parent, centred between them
+      const parentPositions = parents.map((id) => state.nodes.get(id)!.position);
+      const [position] = getSiblingRowPositions(
+        {
+          x: parentPositions.reduce((sum, point) => sum + point.x, 0) / parentPositions.length,
+          y: Math.max(...parentPositions.map((point) => point.y)),
+        },
+        1
+      );
+
+      const newNode: ConversationNode = {
+        id: nodeId,
+        conversationId,
+        messages: [],
+        position,
+        status: 'idle',
+        createdAt: now,
+        updatedAt: now,
+        isCollapsed: false,
+        parentNodeId: parents[0],
+        model: state.selectedModel,
+        isMerge: true,
+        mergeStrategy: strategy,
+      };
+
+      const newNodes = new Map(state.nodes);
+      newNodes.set(nodeId, newNode);
+
+      const newEdges = new Map(state.edges);
+      for (const parentId of parents) {
+        const edgeId = uuidv4();
+        newEdges.set(edgeId, {
+          id: edgeId,
+          source: parentId,
+          target: nodeId,
+          conversationId,
+          createdAt: now,
+        });
+      }
+
+      const allEdges = Array.from(newEdges.values());
+      const { adjacencyList, reverseAdjacencyList } = computeAdjacencyLists(allEdges);
+
+      set({
+        nodes: newNodes,
+        edges: newEdges,
+        adjacencyList,
+        reverseAdjacencyList,
+      });
+
+      return nodeId;
+    },
+
     // Update node
     updateNode: (nodeId: NodeId, updates: Partial<ConversationNode>) => {
       const state = get();
@@ -921,7 +1375,7 @@ export const useStore = create<GraphChatState>()(
       set({ nodes: newNodes });
     },
 
-    // Delete node
+    // Delete a node along with the branch below it, as one trash entry
     deleteNode: (nodeId: NodeId) => {
       const state = get();
       const node = state.nodes.get(nodeId);
@@ -934,16 +1388,23 @@ export const useStore = create<GraphChatState>()(
         return;
       }
 
-      state.cancelRequest(nodeId);
+      const deletedIds = [nodeId, ...getDescendants(nodeId, state.adjacencyList)].filter(
+        (id) => id !== conversation?.rootNodeId && state.nodes.has(id)
+      );
+      const deleted = new Set(deletedIds);
+      deletedIds.forEach((id) => state.cancelRequest(id));
+      const before = captureGraph(get());
 
       const newNodes = new Map(state.nodes);
-      newNodes.delete(nodeId);
+      deletedIds.forEach((id) => newNodes.delete(id));
 
       // Remove related edges
       const newEdges = new Map(state.edges);
+      const removedEdges: ConversationEdge[] = [];
       for (const [edgeId, edge] of state.edges) {
-        if (edge.source === nodeId || edge.target === nodeId) {
+        if (deleted.has(edge.source) || deleted.has(edge.target)) {
           newEdges.delete(edgeId);
+          removedEdges.push(edge);
         }
       }
 
@@ -952,8 +1413,10 @@ export const useStore = create<GraphChatState>()(
       const { adjacencyList, reverseAdjacencyList } = computeAdjacencyLists(allEdges);
       const nextChatDrafts = { ...state.chatDrafts };
       const nextReplyDrafts = { ...state.replyDrafts };
-      delete nextChatDrafts[nodeId];
-      delete nextReplyDrafts[nodeId];
+      for (const id of deletedIds) {
+        delete nextChatDrafts[id];
+        delete nextReplyDrafts[id];
+      }
 
       set({
         nodes: newNodes,
@@ -962,10 +1425,27 @@ export const useStore = create<GraphChatState>()(
         reverseAdjacencyList,
         chatDrafts: nextChatDrafts,
         replyDrafts: nextReplyDrafts,
-        activeNodeId: state.activeNodeId === nodeId ? null : state.activeNodeId,
+        activeNodeId:
+          state.activeNodeId && deleted.has(state.activeNodeId) ? null : state.activeNodeId,
         activeInputNodeId:
-          state.activeInputNodeId === nodeId ? null : state.activeInputNodeId,
+          state.activeInputNodeId && deleted.has(state.activeInputNodeId)
+            ? null
+            : state.activeInputNodeId,
       });
+      const label = deletedIds.length > 1 ? 'Branch deleted' : 'Node deleted';
+      const entry = commitHistory(get, set, before, node.conversationId, label, {
+        undoToast: true,
+      });
+      const trashed: TrashedNodes = {
+        id: uuidv4(),
+        conversationId: node.conversationId,
+        // The deleted node comes first; the trash lists the entry under it
+        nodes: deletedIds.map((id) => state.nodes.get(id)!),
+        edges: removedEdges,
+        deletedAt: Date.now(),
+      };
+      if (entry) trashByHistoryEntry.set(entry.id, trashed);
+      saveNodeTrash(get, trashed);
     },
 
     // Set active node
@@ -1037,6 +1517,8 @@ export const useStore = create<GraphChatState>()(
     // Delete edge
     deleteEdge: (edgeId: EdgeId) => {
       const state = get();
+      const edge = state.edges.get(edgeId);
+      const before = captureGraph(state);
       const newEdges = new Map(state.edges);
       newEdges.delete(edgeId);
 
@@ -1048,6 +1530,9 @@ export const useStore = create<GraphChatState>()(
         adjacencyList,
         reverseAdjacencyList,
       });
+      if (edge) {
+        commitHistory(get, set, before, edge.conversationId, 'Edge deleted', { undoToast: true });
+      }
     },
 
     // Add message
@@ -1113,6 +1598,7 @@ export const useStore = create<GraphChatState>()(
 
       const messageIndex = node.messages.findIndex((m) => m.id === messageId);
       if (messageIndex === -1) return;
+      const before = captureGraph(state);
 
       const updatedMessages = node.messages.map((m) =>
         m.id === messageId ? { ...m, content } : m
@@ -1132,6 +1618,7 @@ export const useStore = create<GraphChatState>()(
 
       if (mode === 'preserve') {
         set({ nodes: newNodes });
+        commitHistory(get, set, before, node.conversationId, 'Message edited');
         return;
       }
 
@@ -1177,6 +1664,9 @@ export const useStore = create<GraphChatState>()(
         activeNodeId,
         activeInputNodeId,
       });
+      commitHistory(get, set, before, node.conversationId, 'Message edited', {
+        undoToast: descendants.size > 0,
+      });
     },
 
     // Append to streaming message
@@ -1199,6 +1689,25 @@ export const useStore = create<GraphChatState>()(
       set({ nodes: newNodes });
     },
 
+    // Append to the reasoning trace of a streaming message
+    appendReasoningToStreamingMessage: (
+      nodeId: NodeId,
+      messageId: MessageId,
+      reasoning: string
+    ) => {
+      const state = get();
+      const node = state.nodes.get(nodeId);
+      if (!node) return;
+
+      const updatedMessages = node.messages.map((m) =>
+        m.id === messageId ? { ...m, reasoning: (m.reasoning ?? '') + reasoning } : m
+      );
+
+      const newNodes = new Map(state.nodes);
+      newNodes.set(nodeId, { ...node, messages: updatedMessages });
+      set({ nodes: newNodes });
+    },
+
     // Delete message
     deleteMessage: (nodeId: NodeId, messageId: MessageId) => {
       const state = get();
@@ -1210,6 +1719,7 @@ export const useStore = create<GraphChatState>()(
 
       const updatedMessages = node.messages.filter((m) => m.id !== messageId);
       if (updatedMessages.length === node.messages.length) return;
+      const before = captureGraph(state);
 
       const updatedNode: ConversationNode = {
         ...node,
@@ -1220,6 +1730,9 @@ export const useStore = create<GraphChatState>()(
       const newNodes = new Map(state.nodes);
       newNodes.set(nodeId, updatedNode);
       set({ nodes: newNodes });
+      commitHistory(get, set, before, node.conversationId, 'Message deleted', {
+        undoToast: true,
+      });
     },
 
     // Branch from message
@@ -1336,6 +1849,36 @@ export const useStore = create<GraphChatState>()(
       });
     },
 
+    // The open chat is read from memory since it may not be saved yet
+    getSearchResultBranches: async (results: MessageSearchResult[]) => {
+      const conversationIds = Array.from(new Set(results.map((result) => result.conversationId)));
+      const graphs: Map<ConversationId, BranchGraph> = await db.loadConversationGraphs(
+        conversationIds.filter((id) => id !== get().activeConversationId)
+      );
+      const state = get();
+      const active = state.activeConversationId
+        ? state.conversations.get(state.activeConversationId)
+        : undefined;
+      if (active && conversationIds.includes(active.id)) {
+        graphs.set(active.id, {
+          rootNodeId: active.rootNodeId,
+          nodes: state.nodes,
+          edges: Array.from(state.edges.values()).filter(
+            (edge) => edge.conversationId === active.id
+          ),
+        });
+      }
+      for (const [conversationId, graph] of graphs) {
+        graph.activeLeafId =
+          conversationId === active?.id
+            ? state.activeNodeId
+            : localStorage.getItem(getLastBranchKey(conversationId));
+      }
+
+      const branches = describeSearchBranches(results, graphs);
+      return results.map((result) => ({ ...result, branch: branches.get(result.messageId) }));
+    },
+
     // Get branches from a node
     getBranchesFromNode: (nodeId: NodeId) => {
       const state = get();
@@ -1419,6 +1962,11 @@ export const useStore = create<GraphChatState>()(
       set({ viewMode: mode });
     },
 
+    // Open the compare view for a set of leaf nodes
+    compareNodes: (nodeIds: NodeId[]) => {
+      set({ compareNodeIds: Array.from(new Set(nodeIds)), viewMode: 'compare' });
+    },
+
     setSelectedModel: (model: string) => {
       const state = get();
       const targetNodeId = state.activeInputNodeId ?? state.activeNodeId;
@@ -1543,6 +2091,7 @@ export const useStore = create<GraphChatState>()(
         return;
       }
 
+      const before = captureGraph(state);
       const newEdges = new Map(state.edges);
       const newNodes = new Map(state.nodes);
       for (const [edgeId, edge] of newEdges) {
@@ -1589,6 +2138,7 @@ export const useStore = create<GraphChatState>()(
         flowNodeIds: [],
         flowRootNodeId: undefined,
       });
+      commitHistory(get, set, before, conversationId, 'Flow nodes connected');
     },
 
     setChatDraft: (
@@ -1688,6 +2238,11 @@ export const useStore = create<GraphChatState>()(
       set({ autoTitleModel: value });
     },
 
+    setAutoLabelEnabled: (value: boolean) => {
+      localStorage.setItem(AUTO_LABEL_ENABLED_KEY, String(value));
+      set({ autoLabelEnabled: value });
+    },
+
     setEmbeddingModel: (value: string) => {
       const state = get();
       if (state.embeddingModel === value) return;
@@ -1724,6 +2279,11 @@ export const useStore = create<GraphChatState>()(
       set({ replyThreadFocusNodeId: value });
     },
 
+    // Asks the graph view to center on a node, e.g. from a search result
+    setGraphFocusNode: (nodeId: NodeId | null) => {
+      set({ graphFocusNodeId: nodeId });
+    },
+
     setHighlightedMessage: (messageId: MessageId | null, query?: string | null) => {
       set({
         highlightedMessageId: messageId,
@@ -1731,6 +2291,11 @@ export const useStore = create<GraphChatState>()(
       });
     },
 
+    // Asks the rendered message to open its editor, e.g. from the command palette
+    setPendingEditMessage: (messageId: MessageId | null) => {
+      set({ pendingEditMessageId: messageId });
+    },
+
     setTheme: (theme: 'light' | 'dark') => {
       localStorage.setItem(THEME_KEY, theme);
       set({ theme });
@@ -1740,11 +2305,14 @@ export const useStore = create<GraphChatState>()(
       const state = get();
       const node = state.nodes.get(nodeId);
       if (!node) return;
+      if (node.position.x === position.x && node.position.y === position.y) return;
 
+      const before = captureGraph(state);
       const updated = { ...node, position };
       const newNodes = new Map(state.nodes);
       newNodes.set(nodeId, updated);
       set({ nodes: newNodes });
+      commitHistory(get, set, before, node.conversationId, 'Node moved');
     },
 
     autoLayoutNodes: () => {
@@ -1759,6 +2327,7 @@ export const useStore = create<GraphChatState>()(
       );
 
       const layoutedNodes = layoutNodes(conversationNodes, conversationEdges);
+      const before = captureGraph(state);
 
       const newNodes = new Map(state.nodes);
       for (const node of layoutedNodes) {
@@ -1773,6 +2342,10 @@ export const useStore = create<GraphChatState>()(
         adjacencyList,
         reverseAdjacencyList,
       });
+      // The first layout of a fresh graph has nothing worth restoring.
+      if (conversationNodes.some((node) => node.position.x !== 0 || node.position.y !== 0)) {
+        commitHistory(get, set, before, state.activeConversationId, 'Auto-layout');
+      }
     },
 
     addToolTrace: (entry) => {
@@ -1823,6 +2396,44 @@ export const useStore = create<GraphChatState>()(
       set({ toolTraceByConversation: next });
     },
 
+    requestToolApproval: (request) => {
+      const id = uuidv4();
+      const pending: ToolApprovalRequest = { ...request, id, requestedAt: Date.now() };
+      set({ toolApprovalRequests: [...get().toolApprovalRequests, pending] });
+      return new Promise<ToolApprovalDecision>((resolve) => {
+        toolApprovalResolvers.set(id, resolve);
+      });
+    },
+
+    resolveToolApproval: (id, decision) => {
+      const resolve = toolApprovalResolvers.get(id);
+      toolApprovalResolvers.delete(id);
+      set({
+        toolApprovalRequests: get().toolApprovalRequests.filter((request) => request.id !== id),
+      });
+      resolve?.(decision);
+    },
+
+    // A stopped or finished generation denies whatever it was still waiting on
+    cancelToolApprovals: (nodeId) => {
+      for (const request of get().toolApprovalRequests) {
+        if (request.nodeId === nodeId) get().resolveToolApproval(request.id, 'deny-once');
+      }
+    },
+
+    addToolApprovalRule: (rule) => {
+      const id = uuidv4();
+      const toolSettings = get().toolSettings;
+      get().setToolSettings({
+        ...toolSettings,
+        permissions: {
+          ...toolSettings.permissions,
+          rules: [...toolSettings.permissions.rules, { ...rule, id, createdAt: Date.now() }],
+        },
+      });
+      return id;
+    },
+
     setMemoryRetrievalPreview: (conversationId, preview) => {
       const state = get();
       if (preview === null) {
@@ -1890,6 +2501,101 @@ export const useStore = create<GraphChatState>()(
       }
     },
 
+    restoreFromTrash: async (type, id) => {
+      if (type === 'conversation') {
+        const conversation = await db.restoreConversation(id);
+        if (!conversation) throw new Error('Chat not found in trash.');
+        db.invalidateSearchIndex();
+        const newConversations = new Map(get().conversations);
+        newConversations.set(conversation.id, {
+          ...conversation,
+          attachmentProcessing: normalizeAttachmentProcessingSettings(
+            conversation.attachmentProcessing
+          ),
+        });
+        set({ conversations: newConversations });
+        return;
+      }
+
+      if (type === 'project') {
+        const restored = await db.restoreProject(id);
+        if (!restored) throw new Error('Project not found in trash.');
+        db.invalidateSearchIndex();
+        const state = get();
+        const newProjects = new Map(state.projects);
+        newProjects.set(restored.project.id, restored.project);
+        const newConversations = new Map(state.conversations);
+        for (const conversation of restored.conversations) {
+          newConversations.set(conversation.id, {
+            ...conversation,
+            attachmentProcessing: normalizeAttachmentProcessingSettings(
+              conversation.attachmentProcessing
+            ),
+          });
+        }
+        set({ projects: newProjects, conversations: newConversations });
+        return;
+      }
+
+      const entry = await db.getTrashedNodes(id);
+      if (!entry) throw new Error('Node not found in trash.');
+      const state = get();
+      const conversation = state.conversations.get(entry.conversationId);
+      if (!conversation) throw new Error('Restore the chat this node belongs to first.');
+
+      // A conversation's graph stays in memory once opened; merge there so persisting keeps it
+      if (!state.nodes.has(conversation.rootNodeId)) {
+        await db.restoreTrashedNodes(entry);
+        db.invalidateSearchIndex();
+        return;
+      }
+      const merged = mergeTrashedNodes(state.nodes, state.edges, entry);
+      const { adjacencyList, reverseAdjacencyList } = computeAdjacencyLists(
+        Array.from(merged.edges.values())
+      );
+      set({ nodes: merged.nodes, edges: merged.edges, adjacencyList, reverseAdjacencyList });
+      await db.deleteTrashedNodes(id);
+      await get().persistConversation(entry.conversationId);
+    },
+
+    deleteFromTrash: async (type, id) => {
+      if (type === 'conversation') {
+        await db.purgeConversation(id);
+      } else if (type === 'project') {
+        await db.purgeProject(id);
+        removeProjectTemplatesFromState(get, set, [id]);
+      } else {
+        const entry = await db.getTrashedNodes(id);
+        if (entry) await db.purgeTrashedNodes([entry]);
+      }
+    },
+
+    emptyTrash: async () => {
+      const { projectIds } = await db.purgeTrash(Infinity);
+      removeProjectTemplatesFromState(get, set, projectIds);
+    },
+
+    purgeExpiredTrash: async () => {
+      const { projectIds } = await db.purgeTrash(getTrashCutoff(get().trashRetentionDays));
+      removeProjectTemplatesFromState(get, set, projectIds);
+    },
+
+    setTrashRetentionDays: (days: number) => {
+      const normalized = normalizeTrashRetentionDays(days);
+      localStorage.setItem(TRASH_RETENTION_KEY, String(normalized));
+      set({ trashRetentionDays: normalized });
+      void get().purgeExpiredTrash();
+    },
+
+    setSemanticSearchEnabled: (enabled: boolean) => {
+      localStorage.setItem(SEMANTIC_SEARCH_KEY, String(enabled));
+      set({ semanticSearchEnabled: enabled });
+    },
+
+    undo: (conversationId) => stepHistory(get, set, 'undo', conversationId),
+
+    redo: (conversationId) => stepHistory(get, set, 'redo', conversationId),
+
     // Persist conversation
     persistConversation: async (conversationId: ConversationId) => {
       const state = get();
@@ -1905,6 +2611,63 @@ export const useStore = create<GraphChatState>()(
 
       await db.saveConversation(conversation, nodes, edges);
     },
+
+    // Export a conversation, project, or the whole database as a bundle
+    exportBundle: async (scope: BundleScope, options = {}) => {
+      const state = get();
+      if (state.activeConversationId) {
+        await state.persistConversation(state.activeConversationId);
+      }
+
+      const records = await db.loadBundleRecords(scope);
+      return createBundle(scope, records, {
+        schemaVersion: db.DB_SCHEMA_VERSION,
+        includeEmbeddings: options.includeEmbeddings ?? false,
+        toolTraces: Object.values(state.toolTraceByConversation).flat(),
+      });
+    },
+
+    // Import a bundle under fresh IDs
+    importBundle: async (raw: unknown) => {
+      const parsed = parseBundle(raw, db.DB_SCHEMA_VERSION);
+      const bundle = remapBundleIds(parsed);
+      await db.saveBundleRecords(bundle);
+      db.invalidateSearchIndex();
+
+      const state = get();
+      const newConversations = new Map(state.conversations);
+      for (const conversation of bundle.conversations) {
+        newConversations.set(conversation.id, {
+          ...conversation,
+          attachmentProcessing: normalizeAttachmentProcessingSettings(
+            conversation.attachmentProcessing
+          ),
+        });
+      }
+      const newProjects = new Map(state.projects);
+      for (const project of bundle.projects) {
+        newProjects.set(project.id, project);
+      }
+      const nextToolTraceByConversation = { ...state.toolTraceByConversation };
+      for (const entry of bundle.toolTraces) {
+        const existing = nextToolTraceByConversation[entry.conversationId] || [];
+        nextToolTraceByConversation[entry.conversationId] = [...existing, entry].slice(-200);
+      }
+
+      set({
+        conversations: newConversations,
+        projects: newProjects,
+        toolTraceByConversation: nextToolTraceByConversation,
+      });
+
+      return {
+        conversationIds: bundle.conversations.map((conversation) => conversation.id),
+        projectIds: bundle.projects.map((project) => project.id),
+        nodeCount: bundle.nodes.length,
+        messageCount: bundle.nodes.reduce((sum, node) => sum + node.messages.length, 0),
+        toolPoliciesReset: countBundleToolPolicies(parsed),
+      };
+    },
   }))
 );
 
@@ -1924,6 +2687,17 @@ useStore.subscribe(
   }
 );
 
+// Keep the full-text index in step with message edits as they happen
+useStore.subscribe(
+  (state) => state.nodes,
+  (nodes, previousNodes) => {
+    const { upserts, removedIds } = collectIndexChanges(previousNodes, nodes);
+    if (upserts.length > 0 || removedIds.length > 0) {
+      db.updateSearchIndex(upserts, removedIds);
+    }
+  }
+);
+
 useStore.subscribe(
   (state) => [state.chatDrafts, state.replyDrafts],
   ([chatDrafts, replyDrafts]) => {
@@ -0,0 +1,36 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useStore } from './index';
+import type { ConversationNode } from '../types';
+
+const makeNode = (id: string, position: { x: number; y: number }): ConversationNode => ({
+  id,
+  conversationId: 'c1',
+  messages: [],
+  position,
+  status: 'idle',
+  createdAt: 1,
+  updatedAt: 1,
+  isCollapsed: false,
+});
+
+describe('store merge nodes', () => {
+  beforeEach(() => {
+    useStore.setState({
+      nodes: new Map([
+        ['left', makeNode('left', { x: 100, y: 400 })],
+        ['right', makeNode('right', { x: 700, y: 200 })],
+      ]),
+      edges: new Map(),
+      adjacencyList: {},
+      reverseAdjacencyList: {},
+    });
+  });
+
+  it('places the merge node below its parents, between them', () => {
+    const nodeId = useStore.getState().createMergeNode('c1', ['left', 'right']);
+
+    const state = useStore.getState();
+    expect(state.nodes.get(nodeId!)?.position).toEqual({ x: 400, y: 650 });
+    expect(state.reverseAdjacencyList[nodeId!]?.sort()).toEqual(['left', 'right']);
+  });
+});
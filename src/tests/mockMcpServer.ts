@@ -0,0 +1,307 @@
+/**
+ * In-process MCP server for tests. It speaks the streamable HTTP flavour of
+ * JSON-RPC that `McpHttpClient` uses: plain JSON replies, or event streams
+ * when the client accepts them, with session ids and progress notifications.
+ * `handle` takes a standard Request, so it works behind a stubbed `fetch` in
+ * Vitest and behind `page.route` in Playwright.
+ */
+
+export interface MockMcpToolContext {
+  sessionId: string | null;
+  /** Sends notifications/progress when the call asked for it with a progress token. */
+  progress: (progress: number, total?: number, message?: string) => void;
+}
+
+export interface MockMcpTool {
+  name: string;
+  description?: string;
+  inputSchema?: Record<string, unknown>;
+  // A string becomes one text part; objects are sent as the call result as-is
+  result?:
+    | string
+    | Record<string, unknown>
+    | ((
+        args: Record<string, unknown>,
+        context: MockMcpToolContext
+      ) => string | Record<string, unknown> | Promise<string | Record<string, unknown>>);
+  error?: { code: number; message: string }; // Answered as a JSON-RPC error
+  delayMs?: number;
+}
+
+export interface MockMcpServerOptions {
+  tools?: MockMcpTool[];
+  sessions?: boolean; // Hand out Mcp-Session-Id on initialize and require it afterwards
+  authToken?: string; // Answer 401 unless this bearer token is sent
+  eventStream?: boolean; // Serve the GET notification stream instead of 405
+}
+
+export interface MockMcpRequest {
+  method: string;
+  params: Record<string, unknown>;
+  sessionId: string | null;
+}
+
+interface JsonRpcPayload {
+  jsonrpc?: string;
+  id?: string | number | null;
+  method?: string;
+  params?: unknown;
+}
+
+const PROTOCOL_VERSION = '2025-11-25';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object';
+}
+
+function wait(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
+
+function encodeEvent(message: unknown) {
+  return new TextEncoder().encode(`data: ${JSON.stringify(message)}\n\n`);
+}
+
+function rpcError(id: JsonRpcPayload['id'], code: number, message: string) {
+  return { jsonrpc: '2.0', id: id ?? null, error: { code, message } };
+}
+
+export function createMockMcpServer(options: MockMcpServerOptions = {}) {
+  const useSessions = options.sessions !== false;
+  let tools = options.tools ?? [];
+  let nextSession = 1;
+  const sessions = new Set<string>();
+  const failures: number[] = [];
+  const pending: Array<{ method: string; params: Record<string, unknown> }> = [];
+  const streams = new Set<ReadableStreamDefaultController<Uint8Array>>();
+  const requests: MockMcpRequest[] = [];
+
+  const plain = (status: number, headers: Record<string, string> = {}) =>
+    new Response(null, { status, headers });
+
+  const json = (message: unknown, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(message), {
+      headers: { 'Content-Type': 'application/json', ...headers },
+    });
+
+  const takePending = () =>
+    pending.splice(0).map((notification) => ({ jsonrpc: '2.0', ...notification }));
+
+  async function callTool(
+    payload: JsonRpcPayload,
+    params: Record<string, unknown>,
+    context: MockMcpToolContext
+  ) {
+    const tool = tools.find((entry) => entry.name === params.name);
+    if (!tool) return rpcError(payload.id, -32602, `Unknown tool: ${String(params.name)}`);
+    if (tool.delayMs) await wait(tool.delayMs);
+    if (tool.error) return rpcError(payload.id, tool.error.code, tool.error.message);
+    const args = isRecord(params.arguments) ? params.arguments : {};
+    try {
+      const output =
+        typeof tool.result === 'function' ? await tool.result(args, context) : tool.result;
+      const result =
+        typeof output === 'string' || output === undefined
+          ? { content: [{ type: 'text', text: output ?? '' }] }
+          : output;
+      return { jsonrpc: '2.0', id: payload.id, result };
+    } catch (error) {
+      // Tool failures are results the model gets to see, not protocol errors
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        jsonrpc: '2.0',
+        id: payload.id,
+        result: { content: [{ type: 'text', text: message }], isError: true },
+      };
+    }
+  }
+
+  async function answer(
+    payload: JsonRpcPayload,
+    context: MockMcpToolContext
+  ): Promise<Record<string, unknown>> {
+    const params = isRecord(payload.params) ? payload.params : {};
+    switch (payload.method) {
+      case 'initialize':
+        return {
+          jsonrpc: '2.0',
+          id: payload.id,
+          result: {
+            protocolVersion: PROTOCOL_VERSION,
+            capabilities: { tools: { listChanged: true } },
+            serverInfo: { name: 'mock-mcp-server', version: '1.0.0' },
+          },
+        };
+      case 'ping':
+        return { jsonrpc: '2.0', id: payload.id, result: {} };
+      case 'tools/list':
+        return {
+          jsonrpc: '2.0',
+          id: payload.id,
+          result: {
+            tools: tools.map((tool) => ({
+              name: tool.name,
+              description: tool.description,
+              inputSchema: tool.inputSchema ?? { type: 'object', properties: {} },
+            })),
+          },
+        };
+      case 'tools/call':
+        return callTool(payload, params, context);
+      default:
+        return rpcError(payload.id, -32601, `Method not found: ${String(payload.method)}`);
+    }
+  }
+
+  /**
+   * Pushes a notification on open GET streams, or holds it for the next
+   * streamed POST response when none is open.
+   */
+  function notify(method: string, params: Record<string, unknown> = {}) {
+    if (streams.size === 0) {
+      pending.push({ method, params });
+      return;
+    }
+    const event = encodeEvent({ jsonrpc: '2.0', method, params });
+    streams.forEach((stream) => stream.enqueue(event));
+  }
+
+  function openEventStream(signal: AbortSignal) {
+    let stream: ReadableStreamDefaultController<Uint8Array> | null = null;
+    const close = () => {
+      if (!stream || !streams.delete(stream)) return;
+      stream.close();
+    };
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        stream = controller;
+        streams.add(controller);
+        takePending().forEach((message) => controller.enqueue(encodeEvent(message)));
+      },
+      cancel() {
+        if (stream) streams.delete(stream);
+      },
+    });
+    signal.addEventListener('abort', close);
+    return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+  }
+
+  // `signal` overrides request.signal, as jsdom's AbortSignal cannot go into a Request
+  async function handle(request: Request, signal = request.signal): Promise<Response> {
+    const failure = failures.shift();
+    if (failure !== undefined) return plain(failure);
+
+    const authorization = request.headers.get('Authorization');
+    if (options.authToken && authorization !== `Bearer ${options.authToken}`) {
+      return plain(401, { 'WWW-Authenticate': 'Bearer realm="mcp"' });
+    }
+
+    const sessionId = request.headers.get('Mcp-Session-Id');
+    if (request.method === 'DELETE') {
+      if (sessionId) sessions.delete(sessionId);
+      return plain(200);
+    }
+
+    const payload: JsonRpcPayload =
+      request.method === 'POST' ? await request.json().catch(() => ({})) : {};
+    const isInitialize = payload.method === 'initialize';
+    if (useSessions && !isInitialize) {
+      if (!sessionId) {
+        return new Response(JSON.stringify(rpcError(payload.id, -32000, 'Missing session id')), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+      if (!sessions.has(sessionId)) return plain(404);
+    }
+
+    if (request.method === 'GET') {
+      return options.eventStream ? openEventStream(signal) : plain(405);
+    }
+    if (request.method !== 'POST') return plain(405);
+
+    const params = isRecord(payload.params) ? payload.params : {};
+    requests.push({ method: String(payload.method), params, sessionId });
+
+    if (payload.id === undefined) return plain(202);
+    if (typeof payload.method !== 'string') {
+      return json(rpcError(payload.id, -32600, 'Invalid request'));
+    }
+
+    const headers: Record<string, string> = {};
+    if (useSessions && isInitialize) {
+      const id = `mock-session-${nextSession++}`;
+      sessions.add(id);
+      headers['Mcp-Session-Id'] = id;
+    }
+
+    const meta = isRecord(params._meta) ? params._meta : {};
+    const progressToken = meta.progressToken;
+    const accept = request.headers.get('Accept') ?? '';
+
+    if (!accept.includes('text/event-stream')) {
+      // Without a stream there is nowhere to send progress, so it is dropped
+      const context: MockMcpToolContext = { sessionId, progress: () => undefined };
+      return json(await answer(payload, context), headers);
+    }
+
+    // Stream notifications as they happen, then the result, then close
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        takePending().forEach((message) => controller.enqueue(encodeEvent(message)));
+        const context: MockMcpToolContext = {
+          sessionId,
+          progress: (progress, total, message) => {
+            if (progressToken === undefined) return;
+            controller.enqueue(
+              encodeEvent({
+                jsonrpc: '2.0',
+                method: 'notifications/progress',
+                params: { progressToken, progress, total, message },
+              })
+            );
+          },
+        };
+        const message = await answer(payload, context);
+        takePending().forEach((notification) => controller.enqueue(encodeEvent(notification)));
+        controller.enqueue(encodeEvent(message));
+        controller.close();
+      },
+    });
+    return new Response(body, { headers: { 'Content-Type': 'text/event-stream', ...headers } });
+  }
+
+  return {
+    handle,
+    /** Drop-in for `fetch`, e.g. `vi.stubGlobal('fetch', server.fetch)`. */
+    fetch: (input: RequestInfo | URL, init: RequestInit = {}) => {
+      const { signal, ...rest } = init;
+      return handle(new Request(input, rest), signal ?? undefined);
+    },
+    /** JSON-RPC requests received so far, notifications included. */
+    requests,
+    setTools(nextTools: MockMcpTool[], { announce = true } = {}) {
+      tools = nextTools;
+      if (announce) notify('notifications/tools/list_changed');
+    },
+    notify,
+    /** Answers the next `count` requests with an HTTP error status. */
+    failNext(status: number, count = 1) {
+      for (let index = 0; index < count; index += 1) failures.push(status);
+    },
+    /** Forgets every session, so clients get 404 and have to initialize again. */
+    expireSessions() {
+      sessions.clear();
+    },
+    /** Ends open GET streams. */
+    closeStreams() {
+      streams.forEach((stream) => stream.close());
+      streams.clear();
+    },
+    get sessionIds() {
+      return Array.from(sessions);
+    },
+  };
+}
+
+export type MockMcpServer = ReturnType<typeof createMockMcpServer>;
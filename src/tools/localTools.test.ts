@@ -35,7 +35,11 @@ function getToolExecute<TInput extends object, TOutput>(tool: unknown) {
   if (typeof candidate.execute !== 'function') {
     throw new Error('Tool execute function is unavailable in test.');
   }
-  return candidate.execute as (input: TInput) => Promise<TOutput>;
+  const execute = candidate.execute as (
+    input: TInput,
+    options: { toolCallId: string; messages: unknown[] }
+  ) => Promise<TOutput>;
+  return (input: TInput) => execute(input, { toolCallId: 'call-1', messages: [] });
 }
 
 function createTools(params?: {
@@ -9,7 +9,15 @@ import {
   tokenizeRetrievalText,
   type RetrievalChunkCandidate,
 } from '../utils/attachments';
-import { formatFileSize, isTextLikeFile, streamFileTextChunks } from '../utils/files';
+import { formatFileSize, streamFileTextChunks } from '../utils/files';
+import {
+  type DocumentSection,
+  extractDocumentSections,
+  formatDocumentSections,
+  getDocumentKind,
+  isExtractableFile,
+  selectSectionRange,
+} from '../utils/documentText';
 
 interface ToolAttachmentEntry {
   attachmentId: string;
@@ -50,7 +58,11 @@ interface LocalToolsOptions {
   };
   conversationId: string;
   projectId?: string;
-  confirmToolCall?: (toolName: string, args: Record<string, unknown>) => Promise<boolean>;
+  confirmToolCall?: (
+    toolName: string,
+    args: Record<string, unknown>,
+    toolCallId?: string
+  ) => Promise<boolean>;
 }
 
 interface IndexedAttachmentWindow {
@@ -121,6 +133,57 @@ async function readTextWindow(
   };
 }
 
+const MAX_CACHED_DOCUMENTS = 4;
+const documentSectionsCache = new Map<string, Promise<DocumentSection[]>>();
+
+/**
+ * Extracts a document once per attachment version, so paging through it with
+ * repeated reads doesn't parse the whole file again each time.
+ */
+function getDocumentSections(attachmentId: string, file: File) {
+  const key = `${attachmentId}:${file.size}:${file.lastModified}`;
+  let sections = documentSectionsCache.get(key);
+  if (sections) {
+    // Move to the back so the least recently read document is evicted first
+    documentSectionsCache.delete(key);
+  } else {
+    sections = extractDocumentSections(file);
+    sections.catch(() => documentSectionsCache.delete(key));
+  }
+  documentSectionsCache.set(key, sections);
+  while (documentSectionsCache.size > MAX_CACHED_DOCUMENTS) {
+    const oldest = documentSectionsCache.keys().next().value;
+    if (oldest === undefined) break;
+    documentSectionsCache.delete(oldest);
+  }
+  return sections;
+}
+
+/**
+ * Text window over an extracted document, limited to a page (or sheet/section) range
+ */
+async function readDocumentWindow(
+  attachmentId: string,
+  file: File,
+  offsetChars: number,
+  maxChars: number,
+  pageStart?: number,
+  pageEnd?: number
+) {
+  const sections = await getDocumentSections(attachmentId, file);
+  const selected = selectSectionRange(sections, pageStart, pageEnd);
+  const fullText = formatDocumentSections(selected);
+  const content = fullText.slice(offsetChars, offsetChars + maxChars);
+  return {
+    content,
+    returnedChars: content.length,
+    hasMore: offsetChars + content.length < fullText.length,
+    totalPages: sections.length,
+    pageStart: selected[0]?.page ?? null,
+    pageEnd: selected[selected.length - 1]?.page ?? null,
+  };
+}
+
 async function searchRagChunks(params: {
   query: string;
   maxResults: number;
@@ -140,6 +203,7 @@ async function searchRagChunks(params: {
         attachmentSize: 0,
         chunkIndex: row.chunkIndex,
         chunkText: row.chunkText,
+        location: row.location,
         score: lexical,
         order: row.updatedAt,
       });
@@ -154,6 +218,7 @@ async function searchRagChunks(params: {
   return top.map((chunk) => ({
     attachment: chunk.attachmentName,
     chunkIndex: chunk.chunkIndex,
+    location: chunk.location,
     lexicalScore: Number(chunk.score.toFixed(4)),
     snippet: buildSnippet(chunk.chunkText),
   }));
@@ -163,10 +228,12 @@ async function readIndexedAttachmentWindow(params: {
   entry: ToolAttachmentEntry;
   offsetChars: number;
   maxChars: number;
+  pageStart?: number;
+  pageEnd?: number;
   conversationId: string;
   projectId?: string;
 }): Promise<IndexedAttachmentWindow | null> {
-  const { entry, offsetChars, maxChars, conversationId, projectId } = params;
+  const { entry, offsetChars, maxChars, pageStart, pageEnd, conversationId, projectId } = params;
   const scopeLookups: Array<{ scopeType: RagScopeType; scopeId: string }> = [];
   if (entry.scope === 'conversation') {
     scopeLookups.push({ scopeType: 'conversation', scopeId: conversationId });
@@ -206,8 +273,19 @@ async function readIndexedAttachmentWindow(params: {
     if (!latestSource) continue;
 
     const [sourceKey, sourceGroup] = latestSource;
-    const ordered = [...sourceGroup.rows].sort((a, b) => a.chunkIndex - b.chunkIndex);
-    const fullText = ordered.map((row) => row.chunkText).join('\n\n');
+    const hasPageRange = pageStart !== undefined || pageEnd !== undefined;
+    const ordered = [...sourceGroup.rows]
+      .filter(
+        (row) =>
+          !hasPageRange ||
+          (row.page !== undefined &&
+            row.page >= (pageStart ?? 1) &&
+            row.page <= (pageEnd ?? Number.POSITIVE_INFINITY))
+      )
+      .sort((a, b) => a.chunkIndex - b.chunkIndex);
+    const fullText = ordered
+      .map((row) => (row.location ? `[${row.location}]\n${row.chunkText}` : row.chunkText))
+      .join('\n\n');
     if (!fullText) continue;
 
     const safeOffset = Math.max(0, Math.floor(offsetChars));
@@ -237,11 +315,11 @@ export function createLocalTools(options: LocalToolsOptions) {
       inputSchema: z.object({
         timezone: z.string().optional().describe('IANA timezone, e.g. Europe/Berlin'),
       }),
-      execute: async ({ timezone }) => {
+      execute: async ({ timezone }, { toolCallId }) => {
         if (options.confirmToolCall) {
           const allowed = await options.confirmToolCall('datetime_now', {
             timezone: timezone ?? null,
-          });
+          }, toolCallId);
           if (!allowed) {
             return { denied: true, message: 'Execution denied for datetime_now.' };
           }
@@ -271,9 +349,9 @@ export function createLocalTools(options: LocalToolsOptions) {
       inputSchema: z.object({
         expression: z.string().min(1).describe('Arithmetic expression, e.g. (2+3)*4'),
       }),
-      execute: async ({ expression }) => {
+      execute: async ({ expression }, { toolCallId }) => {
         if (options.confirmToolCall) {
-          const allowed = await options.confirmToolCall('calculator', { expression });
+          const allowed = await options.confirmToolCall('calculator', { expression }, toolCallId);
           if (!allowed) {
             return { denied: true, message: 'Execution denied for calculator.' };
           }
@@ -296,12 +374,12 @@ export function createLocalTools(options: LocalToolsOptions) {
         query: z.string().min(2).describe('Search query text'),
         maxResults: z.number().int().min(1).max(30).optional(),
       }),
-      execute: async ({ query, maxResults }) => {
+      execute: async ({ query, maxResults }, { toolCallId }) => {
         if (options.confirmToolCall) {
           const allowed = await options.confirmToolCall('search_messages', {
             query,
             maxResults: maxResults ?? null,
-          });
+          }, toolCallId);
           if (!allowed) {
             return { denied: true, message: 'Execution denied for search_messages.' };
           }
@@ -335,13 +413,13 @@ export function createLocalTools(options: LocalToolsOptions) {
         scope: z.enum(['auto', 'conversation', 'project']).optional(),
         maxResults: z.number().int().min(1).max(30).optional(),
       }),
-      execute: async ({ query, scope, maxResults }) => {
+      execute: async ({ query, scope, maxResults }, { toolCallId }) => {
         if (options.confirmToolCall) {
           const allowed = await options.confirmToolCall('search_context_chunks', {
             query,
             scope: scope ?? 'auto',
             maxResults: maxResults ?? null,
-          });
+          }, toolCallId);
           if (!allowed) {
             return {
               denied: true,
@@ -386,11 +464,11 @@ export function createLocalTools(options: LocalToolsOptions) {
       inputSchema: z.object({
         scope: z.enum(['auto', 'conversation', 'project']).optional(),
       }),
-      execute: async ({ scope }) => {
+      execute: async ({ scope }, { toolCallId }) => {
         if (options.confirmToolCall) {
           const allowed = await options.confirmToolCall('list_attached_files', {
             scope: scope ?? 'auto',
-          });
+          }, toolCallId);
           if (!allowed) {
             return { denied: true, message: 'Execution denied for list_attached_files.' };
           }
@@ -432,15 +510,30 @@ export function createLocalTools(options: LocalToolsOptions) {
 
     tools.read_attached_file = tool({
       description:
-        'Read text content from an attached conversation/project file by attachmentId or fileName.',
+        'Read text content from an attached conversation/project file by attachmentId or fileName. PDF, DOCX, XLSX, CSV and HTML files are converted to text with [page/sheet/section] markers.',
       inputSchema: z.object({
         attachmentId: z.string().optional(),
         fileName: z.string().optional(),
         scope: z.enum(['auto', 'conversation', 'project']).optional(),
         offsetChars: z.number().int().min(0).optional(),
         maxChars: z.number().int().min(1).max(50000).optional(),
+        pageStart: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe('First PDF page to read, or sheet/section number for other documents'),
+        pageEnd: z.number().int().min(1).optional().describe('Last page to read (inclusive)'),
       }),
-      execute: async ({ attachmentId, fileName, scope, offsetChars, maxChars }) => {
+      execute: async ({
+        attachmentId,
+        fileName,
+        scope,
+        offsetChars,
+        maxChars,
+        pageStart,
+        pageEnd,
+      }, { toolCallId }) => {
         if (options.confirmToolCall) {
           const allowed = await options.confirmToolCall('read_attached_file', {
             attachmentId: attachmentId ?? null,
@@ -448,7 +541,9 @@ export function createLocalTools(options: LocalToolsOptions) {
             scope: scope ?? 'auto',
             offsetChars: offsetChars ?? null,
             maxChars: maxChars ?? null,
-          });
+            pageStart: pageStart ?? null,
+            pageEnd: pageEnd ?? null,
+          }, toolCallId);
           if (!allowed) {
             return { denied: true, message: 'Execution denied for read_attached_file.' };
           }
@@ -499,7 +594,7 @@ export function createLocalTools(options: LocalToolsOptions) {
         if (entry.source === 'handle' && entry.handleId) {
           const file = await options.resolveAttachmentFile(entry.handleId);
           if (file) {
-            if (!isTextLikeFile(file)) {
+            if (!isExtractableFile(file)) {
               return {
                 error: 'Binary files are not supported by read_attached_file.',
                 attachmentId: entry.attachmentId,
@@ -511,6 +606,46 @@ export function createLocalTools(options: LocalToolsOptions) {
               };
             }
 
+            if (getDocumentKind(file)) {
+              let document: Awaited<ReturnType<typeof readDocumentWindow>>;
+              try {
+                document = await readDocumentWindow(
+                  entry.attachmentId,
+                  file,
+                  safeOffset,
+                  safeMaxChars,
+                  pageStart,
+                  pageEnd
+                );
+              } catch (error) {
+                return {
+                  error: `Text extraction failed: ${
+                    error instanceof Error ? error.message : 'unknown error'
+                  }`,
+                  attachmentId: entry.attachmentId,
+                  name: entry.name,
+                  scope: entry.scope,
+                };
+              }
+              return {
+                attachmentId: entry.attachmentId,
+                name: entry.name,
+                scope: entry.scope,
+                size: file.size,
+                formattedSize: formatFileSize(file.size),
+                type: file.type || 'unknown',
+                source: 'file-handle',
+                totalPages: document.totalPages,
+                pageStart: document.pageStart,
+                pageEnd: document.pageEnd,
+                offsetChars: safeOffset,
+                requestedMaxChars: safeMaxChars,
+                returnedChars: document.returnedChars,
+                hasMore: document.hasMore,
+                content: document.content,
+              };
+            }
+
             const window = await readTextWindow(file, safeOffset, safeMaxChars);
             return {
               attachmentId: entry.attachmentId,
@@ -533,6 +668,8 @@ export function createLocalTools(options: LocalToolsOptions) {
           entry,
           offsetChars: safeOffset,
           maxChars: safeMaxChars,
+          pageStart,
+          pageEnd,
           conversationId: options.conversationId,
           projectId: options.projectId,
         });
@@ -597,7 +734,7 @@ export function createLocalTools(options: LocalToolsOptions) {
         deleteCreatedSandbox,
         language,
         env,
-      }) => {
+      }, { toolCallId }) => {
         if (options.confirmToolCall) {
           const allowed = await options.confirmToolCall('daytona_exec', {
             command,
@@ -606,7 +743,7 @@ export function createLocalTools(options: LocalToolsOptions) {
             sandboxId: sandboxId ?? null,
             createSandbox: createSandbox ?? null,
             deleteCreatedSandbox: deleteCreatedSandbox ?? null,
-          });
+          }, toolCallId);
           if (!allowed) {
             return { denied: true, message: 'Execution denied for daytona_exec.' };
           }
@@ -4,15 +4,73 @@ export interface McpToolDescriptor {
   inputSchema?: Record<string, unknown>;
 }
 
+export interface McpResourceDescriptor {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+  size?: number;
+}
+
+export interface McpResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string; // base64
+}
+
+export interface McpPromptDescriptor {
+  name: string;
+  description?: string;
+  arguments: Array<{ name: string; description?: string; required: boolean }>;
+}
+
+export interface McpPromptMessage {
+  role: 'user' | 'assistant';
+  content: Record<string, unknown>;
+}
+
 export interface McpConnectionConfig {
   url: string;
   transport: 'http' | 'sse';
   authToken?: string;
+  // OAuth servers supply tokens on demand; a 401 asks once for a refreshed one
+  getAuthToken?: (options: { forceRefresh?: boolean }) => Promise<string | undefined>;
+}
+
+// Server-initiated message without an id, e.g. notifications/tools/list_changed
+export interface McpNotification {
+  method: string;
+  params: Record<string, unknown>;
+}
+
+export interface McpProgress {
+  progress: number;
+  total?: number;
+  message?: string;
 }
 
-interface JsonRpcResponse {
+/**
+ * Why a request failed without an answer from the server: it could not be
+ * reached or the transport broke ('network'), it rejected our credentials
+ * ('auth'), it forgot our session ('session'), or it refused the request
+ * over HTTP ('http'). JSON-RPC errors carry a numeric `code` instead.
+ */
+export type McpFailureKind = 'network' | 'auth' | 'session' | 'http';
+
+export interface McpRequestOptions {
+  signal?: AbortSignal;
+}
+
+interface McpClientOptions {
+  onNotification?: (notification: McpNotification) => void;
+}
+
+interface JsonRpcMessage {
   jsonrpc: '2.0';
   id?: string | number | null;
+  method?: string;
+  params?: unknown;
   result?: unknown;
   error?: {
     code?: number;
@@ -21,71 +79,218 @@ interface JsonRpcResponse {
   };
 }
 
-function parseSsePayload(text: string): JsonRpcResponse | null {
-  const lines = text.split('\n');
+const MAX_LIST_PAGES = 20;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object';
+}
+
+function mcpFailure(message: string, kind: McpFailureKind, status?: number) {
+  return Object.assign(new Error(message), { kind, status });
+}
+
+export function getMcpFailureKind(error: unknown): McpFailureKind | undefined {
+  const kind = isRecord(error) ? error.kind : undefined;
+  return kind === 'network' || kind === 'auth' || kind === 'session' || kind === 'http'
+    ? kind
+    : undefined;
+}
+
+export function isAbortError(error: unknown) {
+  return isRecord(error) && error.name === 'AbortError';
+}
+
+// Statuses that mean the server (or a proxy) is struggling, not that the request was wrong
+function isTransportStatus(status: number) {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function optionalString(value: unknown) {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function parseSseEvent(block: string): JsonRpcMessage | null {
   const dataParts: string[] = [];
-  for (const line of lines) {
+  for (const line of block.split('\n')) {
     if (line.startsWith('data:')) {
       dataParts.push(line.slice(5).trim());
     }
   }
-  if (dataParts.length === 0) return null;
   const merged = dataParts.join('\n');
   if (!merged || merged === '[DONE]') return null;
   try {
-    return JSON.parse(merged) as JsonRpcResponse;
+    return JSON.parse(merged) as JsonRpcMessage;
   } catch {
     return null;
   }
 }
 
+function parseSseMessages(text: string) {
+  return text
+    .replace(/\r\n/g, '\n')
+    .split(/\n\n+/)
+    .map(parseSseEvent)
+    .filter((message): message is JsonRpcMessage => Boolean(message));
+}
+
+/**
+ * Reads an event stream as it arrives. Stops early once `onMessage` returns
+ * true, so a POST response can resolve before the server closes the stream.
+ */
+async function readSseMessages(
+  body: ReadableStream<Uint8Array>,
+  onMessage: (message: JsonRpcMessage) => boolean
+) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+    buffer = buffer.replace(/\r\n/g, '\n');
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary >= 0) {
+      const message = parseSseEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (message && onMessage(message)) {
+        void reader.cancel().catch(() => undefined);
+        return;
+      }
+      boundary = buffer.indexOf('\n\n');
+    }
+    if (done) {
+      const message = parseSseEvent(buffer);
+      if (message) onMessage(message);
+      return;
+    }
+  }
+}
+
 export class McpHttpClient {
   private config: McpConnectionConfig;
   private nextId = 1;
   private initialized = false;
   private sessionId: string | null = null;
+  private nextProgressToken = 1;
+  private progressHandlers = new Map<string, (progress: McpProgress) => void>();
+  private onNotification?: (notification: McpNotification) => void;
 
-  constructor(config: McpConnectionConfig) {
+  constructor(config: McpConnectionConfig, options: McpClientOptions = {}) {
     this.config = config;
+    this.onNotification = options.onNotification;
   }
 
-  private async request(method: string, params?: unknown, isNotification = false) {
-    const payload = isNotification
-      ? {
-          jsonrpc: '2.0' as const,
-          method,
-          ...(params !== undefined ? { params } : {}),
-        }
-      : {
-          jsonrpc: '2.0' as const,
-          id: this.nextId++,
-          method,
-          ...(params !== undefined ? { params } : {}),
-        };
+  private async buildHeaders(accept: string, forceRefresh = false) {
+    const headers: Record<string, string> = { Accept: accept };
+    let authToken = this.config.authToken;
+    if (this.config.getAuthToken) {
+      try {
+        authToken = await this.config.getAuthToken({ forceRefresh });
+      } catch (error) {
+        // Keeps the token provider's own code, e.g. that the user has to authorize again
+        const failure = mcpFailure(error instanceof Error ? error.message : String(error), 'auth');
+        throw isRecord(error) && 'code' in error
+          ? Object.assign(failure, { code: error.code })
+          : failure;
+      }
+    }
+    if (authToken) {
+      headers.Authorization = `Bearer ${authToken}`;
+    }
+    if (this.sessionId) {
+      headers['Mcp-Session-Id'] = this.sessionId;
+    }
+    return headers;
+  }
 
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      Accept:
+  // Progress goes to the call that asked for it; everything else to onNotification
+  private dispatch(message: JsonRpcMessage) {
+    if (!message.method || message.id !== undefined) return;
+    const params = isRecord(message.params) ? message.params : {};
+    if (message.method === 'notifications/progress') {
+      const token = params.progressToken;
+      const handler =
+        typeof token === 'string' || typeof token === 'number'
+          ? this.progressHandlers.get(String(token))
+          : undefined;
+      if (handler && typeof params.progress === 'number') {
+        handler({
+          progress: params.progress,
+          total: typeof params.total === 'number' ? params.total : undefined,
+          message: optionalString(params.message),
+        });
+      }
+      return;
+    }
+    this.onNotification?.({ method: message.method, params });
+  }
+
+  // Sends a request and reads its answer; `retried` marks the one retry after a session expired
+  private async request(
+    method: string,
+    params?: unknown,
+    isNotification = false,
+    options: McpRequestOptions & { retried?: boolean } = {}
+  ): Promise<unknown> {
+    const id = isNotification ? undefined : this.nextId++;
+    const payload = {
+      jsonrpc: '2.0' as const,
+      ...(id !== undefined ? { id } : {}),
+      method,
+      ...(params !== undefined ? { params } : {}),
+    };
+
+    const send = async (forceRefresh = false) => {
+      const headers = await this.buildHeaders(
         this.config.transport === 'sse'
           ? 'text/event-stream, application/json'
           : 'application/json',
+        forceRefresh
+      );
+      try {
+        return await fetch(this.config.url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...headers },
+          body: JSON.stringify(payload),
+          signal: options.signal,
+        });
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        throw mcpFailure(
+          `MCP server unreachable: ${error instanceof Error ? error.message : String(error)}`,
+          'network'
+        );
+      }
     };
 
-    if (this.config.authToken) {
-      headers.Authorization = `Bearer ${this.config.authToken}`;
-    }
-    if (this.sessionId) {
-      headers['Mcp-Session-Id'] = this.sessionId;
+    let response = await send();
+    if (response.status === 401 && this.config.getAuthToken) {
+      response = await send(true);
     }
 
-    const response = await fetch(this.config.url, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(payload),
-    });
-
+    if (response.status === 404 && this.sessionId) {
+      // The server dropped our session; start a new one and try once more
+      this.sessionId = null;
+      this.initialized = false;
+      if (isNotification || method === 'initialize' || options.retried) {
+        throw mcpFailure('MCP session expired', 'session', 404);
+      }
+      await this.initialize();
+      return this.request(method, params, isNotification, { ...options, retried: true });
+    }
+    if (response.status === 401 || response.status === 403) {
+      throw mcpFailure(
+        `MCP server rejected the credentials: ${response.status} ${response.statusText}`,
+        'auth',
+        response.status
+      );
+    }
     if (!response.ok) {
-      throw new Error(`MCP request failed: ${response.status} ${response.statusText}`);
+      throw mcpFailure(
+        `MCP request failed: ${response.status} ${response.statusText}`,
+        isTransportStatus(response.status) ? 'network' : 'http',
+        response.status
+      );
     }
 
     const newSession =
@@ -96,23 +301,72 @@ export class McpHttpClient {
 
     if (isNotification) return null;
 
-    const text = await response.text();
-    let json: JsonRpcResponse | null = null;
+    const isResponse = (message: JsonRpcMessage) =>
+      message.id === id && (message.result !== undefined || message.error !== undefined);
+    let json: JsonRpcMessage | null = null;
+    const contentType = response.headers.get('Content-Type') ?? '';
     try {
-      json = JSON.parse(text) as JsonRpcResponse;
-    } catch {
-      json = parseSsePayload(text);
+      if (contentType.includes('text/event-stream') && response.body) {
+        await readSseMessages(response.body, (message) => {
+          if (isResponse(message)) {
+            json = message;
+            return true;
+          }
+          this.dispatch(message);
+          return false;
+        });
+      } else {
+        const text = await response.text();
+        try {
+          json = JSON.parse(text) as JsonRpcMessage;
+        } catch {
+          const messages = parseSseMessages(text);
+          messages.filter((message) => !isResponse(message)).forEach((message) => {
+            this.dispatch(message);
+          });
+          json = messages.find(isResponse) ?? messages[messages.length - 1] ?? null;
+        }
+      }
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw mcpFailure('MCP response was cut off', 'network');
     }
 
     if (!json) {
-      throw new Error('Invalid MCP response payload');
+      throw mcpFailure('Invalid MCP response payload', 'network');
     }
 
-    if (json.error) {
-      throw new Error(json.error.message || 'MCP request returned an error');
+    const { error, result } = json as JsonRpcMessage;
+    if (error) {
+      // The code marks this as an answer from the server rather than a broken connection
+      throw Object.assign(new Error(error.message || 'MCP request returned an error'), {
+        code: error.code,
+      });
     }
 
-    return json.result;
+    return result;
+  }
+
+  /**
+   * Listens on the server's GET event stream until it closes or `signal`
+   * aborts. Returns false when the server does not offer one.
+   */
+  async openEventStream(signal: AbortSignal) {
+    await this.initialize();
+    const response = await fetch(this.config.url, {
+      method: 'GET',
+      headers: await this.buildHeaders('text/event-stream'),
+      signal,
+    });
+    if (response.status === 405) return false;
+    if (!response.ok || !response.body) {
+      throw new Error(`MCP event stream failed: ${response.status} ${response.statusText}`);
+    }
+    await readSseMessages(response.body, (message) => {
+      this.dispatch(message);
+      return false;
+    });
+    return true;
   }
 
   async initialize() {
@@ -160,12 +414,116 @@ export class McpHttpClient {
       .filter((tool): tool is McpToolDescriptor => Boolean(tool));
   }
 
-  async callTool(name: string, args: Record<string, unknown>) {
+  // Follows nextCursor until the server stops paging
+  private async listPaged(method: string, key: string) {
     await this.initialize();
-    return this.request('tools/call', {
-      name,
-      arguments: args,
-    });
+    const items: Array<Record<string, unknown>> = [];
+    let cursor: string | undefined;
+    for (let page = 0; page < MAX_LIST_PAGES; page += 1) {
+      const result = (await this.request(method, cursor ? { cursor } : {})) as
+        | Record<string, unknown>
+        | undefined;
+      const entries = result?.[key];
+      if (Array.isArray(entries)) {
+        items.push(...entries.filter(isRecord));
+      }
+      cursor = optionalString(result?.nextCursor);
+      if (!cursor) break;
+    }
+    return items;
+  }
+
+  async listResources(): Promise<McpResourceDescriptor[]> {
+    const resources = await this.listPaged('resources/list', 'resources');
+    return resources
+      .map((resource): McpResourceDescriptor | null => {
+        const uri = optionalString(resource.uri);
+        if (!uri) return null;
+        return {
+          uri,
+          name: optionalString(resource.name) || uri,
+          description: optionalString(resource.description),
+          mimeType: optionalString(resource.mimeType),
+          size: typeof resource.size === 'number' ? resource.size : undefined,
+        };
+      })
+      .filter((resource): resource is McpResourceDescriptor => Boolean(resource));
+  }
+
+  async readResource(uri: string): Promise<McpResourceContents[]> {
+    await this.initialize();
+    const result = (await this.request('resources/read', { uri })) as
+      | { contents?: Array<Record<string, unknown>> }
+      | undefined;
+    const contents = Array.isArray(result?.contents) ? result.contents : [];
+    return contents.map((entry) => ({
+      uri: optionalString(entry.uri) || uri,
+      mimeType: optionalString(entry.mimeType),
+      text: optionalString(entry.text),
+      blob: optionalString(entry.blob),
+    }));
+  }
+
+  async listPrompts(): Promise<McpPromptDescriptor[]> {
+    const prompts = await this.listPaged('prompts/list', 'prompts');
+    return prompts
+      .map((prompt): McpPromptDescriptor | null => {
+        const name = optionalString(prompt.name);
+        if (!name) return null;
+        const args = Array.isArray(prompt.arguments) ? prompt.arguments : [];
+        return {
+          name,
+          description: optionalString(prompt.description),
+          arguments: args
+            .filter(isRecord)
+            .filter((arg) => typeof arg.name === 'string' && arg.name)
+            .map((arg) => ({
+              name: arg.name as string,
+              description: optionalString(arg.description),
+              required: arg.required === true,
+            })),
+        };
+      })
+      .filter((prompt): prompt is McpPromptDescriptor => Boolean(prompt));
+  }
+
+  async getPrompt(name: string, args: Record<string, string>): Promise<McpPromptMessage[]> {
+    await this.initialize();
+    const result = (await this.request('prompts/get', { name, arguments: args })) as
+      | { messages?: Array<Record<string, unknown>> }
+      | undefined;
+    const messages = Array.isArray(result?.messages) ? result.messages : [];
+    return messages.map((message) => ({
+      role: message.role === 'assistant' ? 'assistant' : 'user',
+      content:
+        message.content && typeof message.content === 'object'
+          ? (message.content as Record<string, unknown>)
+          : {},
+    }));
+  }
+
+  async callTool(
+    name: string,
+    args: Record<string, unknown>,
+    options: McpRequestOptions & { onProgress?: (progress: McpProgress) => void } = {}
+  ) {
+    await this.initialize();
+    const requestOptions = { signal: options.signal };
+    if (!options.onProgress) {
+      return this.request('tools/call', { name, arguments: args }, false, requestOptions);
+    }
+    const progressToken = `progress-${this.nextProgressToken++}`;
+    this.progressHandlers.set(progressToken, options.onProgress);
+    try {
+      return await this.request(
+        'tools/call',
+        { name, arguments: args, _meta: { progressToken } },
+        false,
+        requestOptions
+      );
+    } finally {
+      this.progressHandlers.delete(progressToken);
+    }
   }
 
   async close() {
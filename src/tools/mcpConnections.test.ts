@@ -0,0 +1,248 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import type { McpServerSettings } from '../types';
+import { createMockMcpServer } from '../tests/mockMcpServer';
+import { McpConnectionManager, getReconnectDelay } from './mcpConnections';
+import { MCP_OAUTH_REQUIRED } from './mcpOAuth';
+
+const server: McpServerSettings = {
+  id: 'srv',
+  name: 'Test server',
+  enabled: true,
+  url: 'https://mcp.example.com/mcp',
+  transport: 'http',
+  authType: 'token',
+  authToken: '',
+  enabledTools: [],
+};
+
+type Handler = (method: string, id: number) => Response | Promise<Response>;
+
+function jsonResponse(id: number, result: unknown) {
+  return new Response(JSON.stringify({ jsonrpc: '2.0', id, result }), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function sseResponse(messages: unknown[]) {
+  const body = messages.map((message) => `data: ${JSON.stringify(message)}\n\n`).join('');
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+function stubFetch(handler: Handler) {
+  const calls: string[] = [];
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async (_url: string, init: RequestInit) => {
+      const payload = JSON.parse(String(init.body)) as { id?: number; method: string };
+      calls.push(payload.method);
+      if (payload.id === undefined) return new Response(null, { status: 202 });
+      return handler(payload.method, payload.id);
+    })
+  );
+  return calls;
+}
+
+const tools = [{ name: 'search', description: 'Search', inputSchema: { type: 'object' } }];
+
+describe('McpConnectionManager', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  test('keeps one session and caches the tool list across turns', async () => {
+    const calls = stubFetch((method, id) =>
+      jsonResponse(id, method === 'tools/list' ? { tools } : {})
+    );
+    const manager = new McpConnectionManager();
+
+    await manager.listTools(server);
+    await manager.listTools(server);
+    await manager.callTool(server, 'search', { q: 'x' });
+
+    expect(calls.filter((method) => method === 'initialize')).toHaveLength(1);
+    expect(calls.filter((method) => method === 'tools/list')).toHaveLength(1);
+    expect(manager.getHealth().srv).toMatchObject({ status: 'connected', toolCount: 1 });
+  });
+
+  test('starts a new session when the server settings change', async () => {
+    const calls = stubFetch((method, id) =>
+      jsonResponse(id, method === 'tools/list' ? { tools } : {})
+    );
+    const manager = new McpConnectionManager();
+
+    await manager.listTools(server);
+    await manager.listTools({ ...server, authToken: 'new-token' });
+
+    expect(calls.filter((method) => method === 'initialize')).toHaveLength(2);
+  });
+
+  test('refetches tools after list_changed and reports progress', async () => {
+    let toolListCount = 0;
+    const calls = stubFetch((method, id) => {
+      if (method === 'tools/list') {
+        toolListCount += 1;
+        return jsonResponse(id, { tools: toolListCount === 1 ? tools : [...tools, tools[0]] });
+      }
+      if (method === 'tools/call') {
+        return sseResponse([
+          {
+            jsonrpc: '2.0',
+            method: 'notifications/progress',
+            params: { progressToken: 'progress-1', progress: 1, total: 2, message: 'Halfway' },
+          },
+          { jsonrpc: '2.0', method: 'notifications/tools/list_changed' },
+          { jsonrpc: '2.0', id, result: { content: [] } },
+        ]);
+      }
+      return jsonResponse(id, {});
+    });
+    const manager = new McpConnectionManager();
+    const onProgress = vi.fn();
+
+    await manager.listTools(server);
+    await manager.callTool(server, 'search', {}, { onProgress });
+
+    expect(onProgress).toHaveBeenCalledWith({ progress: 1, total: 2, message: 'Halfway' });
+    await vi.waitFor(() => expect(manager.getHealth().srv.toolCount).toBe(2));
+    expect(calls.filter((method) => method === 'tools/list')).toHaveLength(2);
+  });
+
+  test('records failures and reconnects with backoff', async () => {
+    vi.useFakeTimers();
+    let online = false;
+    stubFetch((method, id) => {
+      if (!online) return new Response(null, { status: 503, statusText: 'Unavailable' });
+      return jsonResponse(id, method === 'tools/list' ? { tools } : {});
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const manager = new McpConnectionManager();
+
+    await expect(manager.listTools(server)).rejects.toThrow('503');
+    expect(manager.getHealth().srv).toMatchObject({
+      status: 'error',
+      lastError: 'MCP request failed: 503 Unavailable',
+      reconnectAttempt: 1,
+    });
+
+    online = true;
+    await vi.advanceTimersByTimeAsync(getReconnectDelay(0));
+
+    expect(manager.getHealth().srv).toMatchObject({
+      status: 'connected',
+      reconnectAttempt: 0,
+      toolCount: 1,
+    });
+  });
+
+  test('refetches tools when the event stream announces a change', async () => {
+    const mock = createMockMcpServer({ tools: [{ name: 'search' }], eventStream: true });
+    vi.stubGlobal('fetch', vi.fn(mock.fetch));
+    const manager = new McpConnectionManager();
+    const sseServer = { ...server, transport: 'sse' as const };
+
+    await manager.listTools(sseServer);
+    mock.setTools([{ name: 'search' }, { name: 'fetch' }]);
+
+    await vi.waitFor(() => expect(manager.getHealth().srv.toolCount).toBe(2));
+    await expect(manager.listTools(sseServer)).resolves.toHaveLength(2);
+    manager.disconnect(server.id);
+  });
+
+  test('treats JSON-RPC errors as answers from a healthy server', async () => {
+    stubFetch((method, id) => {
+      if (method === 'tools/call') {
+        return new Response(
+          JSON.stringify({ jsonrpc: '2.0', id, error: { code: -32602, message: 'Bad args' } }),
+          { headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+      return jsonResponse(id, method === 'tools/list' ? { tools } : {});
+    });
+    const manager = new McpConnectionManager();
+
+    await expect(manager.callTool(server, 'search', {})).rejects.toThrow('Bad args');
+    expect(manager.getHealth().srv.status).toBe('connected');
+  });
+
+  test('waits for new credentials instead of reconnecting after a 401', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    stubFetch(() => new Response(null, { status: 401, statusText: 'Unauthorized' }));
+    const manager = new McpConnectionManager();
+
+    await expect(manager.listTools(server)).rejects.toThrow('rejected the credentials');
+    expect(manager.getHealth().srv).toMatchObject({
+      status: 'unauthorized',
+      reconnectAttempt: 0,
+      nextRetryAt: undefined,
+    });
+  });
+
+  test('keeps the OAuth code when the server was never authorized', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const calls = stubFetch((_method, id) => jsonResponse(id, {}));
+    const manager = new McpConnectionManager();
+
+    await expect(manager.listTools({ ...server, authType: 'oauth' })).rejects.toMatchObject({
+      kind: 'auth',
+      code: MCP_OAUTH_REQUIRED,
+    });
+    expect(calls).toEqual([]);
+    expect(manager.getHealth().srv.status).toBe('unauthorized');
+  });
+
+  test('marks the server unreachable only for network failures', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    let fail: 'network' | 'bad-request' = 'bad-request';
+    stubFetch((method, id) => {
+      if (method !== 'tools/call') return jsonResponse(id, {});
+      if (fail === 'network') throw new TypeError('Failed to fetch');
+      return new Response(null, { status: 400, statusText: 'Bad Request' });
+    });
+    const manager = new McpConnectionManager();
+
+    await expect(manager.callTool(server, 'search', {})).rejects.toThrow('400');
+    expect(manager.getHealth().srv.status).toBe('connected');
+
+    fail = 'network';
+    await expect(manager.callTool(server, 'search', {})).rejects.toThrow('unreachable');
+    expect(manager.getHealth().srv).toMatchObject({ status: 'error', reconnectAttempt: 1 });
+    manager.disconnect(server.id);
+  });
+
+  test('passes the abort signal to tool calls and keeps the session', async () => {
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      const payload = JSON.parse(String(init.body)) as { id?: number; method: string };
+      if (payload.id === undefined) return new Response(null, { status: 202 });
+      if (payload.method !== 'tools/call') return jsonResponse(payload.id, {});
+      return new Promise<Response>((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () =>
+          reject(new DOMException('The operation was aborted.', 'AbortError'))
+        );
+      });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    const manager = new McpConnectionManager();
+    const controller = new AbortController();
+
+    const call = manager.callTool(server, 'search', {}, { signal: controller.signal });
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(3));
+    controller.abort();
+
+    await expect(call).rejects.toMatchObject({ name: 'AbortError' });
+    expect(manager.getHealth().srv.status).toBe('connecting');
+  });
+
+  test('retain closes sessions of removed servers', async () => {
+    stubFetch((method, id) => jsonResponse(id, method === 'tools/list' ? { tools } : {}));
+    const manager = new McpConnectionManager();
+    const listener = vi.fn();
+    manager.subscribe(listener);
+
+    await manager.listTools(server);
+    manager.retain([]);
+
+    expect(manager.getHealth()).toEqual({});
+    expect(listener).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,334 @@
+import type { McpServerSettings } from '../types';
+import {
+  McpHttpClient,
+  getMcpFailureKind,
+  type McpConnectionConfig,
+  type McpNotification,
+  type McpProgress,
+  type McpRequestOptions,
+  type McpToolDescriptor,
+} from './mcpClient';
+import { getMcpAccessToken } from './mcpOAuth';
+
+export type McpConnectionStatus =
+  | 'idle'
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'unauthorized'
+  | 'error';
+
+export interface McpServerHealth {
+  status: McpConnectionStatus;
+  latencyMs?: number;
+  lastError?: string;
+  lastErrorAt?: number;
+  connectedAt?: number;
+  toolCount?: number;
+  reconnectAttempt: number;
+  nextRetryAt?: number;
+}
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30_000;
+const MAX_RECONNECT_ATTEMPTS = 6;
+
+type Listener = () => void;
+
+export function getReconnectDelay(attempt: number) {
+  return Math.min(RECONNECT_BASE_MS * 2 ** attempt, RECONNECT_MAX_MS);
+}
+
+export function getMcpConnectionConfig(server: McpServerSettings): McpConnectionConfig {
+  if (server.authType === 'oauth') {
+    return {
+      url: server.url.trim(),
+      transport: server.transport,
+      getAuthToken: (options) => getMcpAccessToken(server, options),
+    };
+  }
+  return {
+    url: server.url.trim(),
+    transport: server.transport,
+    authToken: server.authToken.trim() || undefined,
+  };
+}
+
+function getConfigKey(config: McpConnectionConfig) {
+  const auth = config.getAuthToken ? 'oauth' : (config.authToken ?? '');
+  return [config.url, config.transport, auth].join('\n');
+}
+
+// JSON-RPC errors carry a code: the server answered, so the session is fine
+function isServerAnswer(error: unknown) {
+  return error instanceof Error && typeof (error as { code?: unknown }).code === 'number';
+}
+
+/**
+ * One long-lived session with a server. A failed request drops the session,
+ * marks the server unhealthy and retries in the background with backoff.
+ */
+class McpConnection {
+  readonly key: string;
+  health: McpServerHealth = { status: 'idle', reconnectAttempt: 0 };
+  private config: McpConnectionConfig;
+  private onChange: Listener;
+  private client: McpHttpClient | null = null;
+  private tools: McpToolDescriptor[] | null = null;
+  private toolsRequest: Promise<McpToolDescriptor[]> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private streamAbort: AbortController | null = null;
+  private streamTimer: ReturnType<typeof setTimeout> | null = null;
+  private streamAttempt = 0;
+  private disposed = false;
+
+  constructor(config: McpConnectionConfig, key: string, onChange: Listener) {
+    this.config = config;
+    this.key = key;
+    this.onChange = onChange;
+  }
+
+  private setHealth(updates: Partial<McpServerHealth>) {
+    this.health = { ...this.health, ...updates };
+    this.onChange();
+  }
+
+  private getClient() {
+    if (!this.client) {
+      this.client = new McpHttpClient(this.config, {
+        onNotification: (notification) => this.handleNotification(notification),
+      });
+    }
+    return this.client;
+  }
+
+  /** Runs a request on the session; `timed` requests update the latency figure. */
+  async run<T>(operation: (client: McpHttpClient) => Promise<T>, timed = true): Promise<T> {
+    if (this.disposed) throw new Error('MCP connection was closed');
+    const client = this.getClient();
+    if (this.health.status !== 'connected') {
+      this.setHealth({ status: this.health.reconnectAttempt > 0 ? 'reconnecting' : 'connecting' });
+    }
+    const startedAt = Date.now();
+    try {
+      const result = await operation(client);
+      this.markConnected(timed ? Date.now() - startedAt : undefined);
+      return result;
+    } catch (error) {
+      const kind = getMcpFailureKind(error);
+      if (isServerAnswer(error) || kind === 'http') {
+        this.markConnected();
+      } else if (kind === 'network' || kind === 'session') {
+        this.markFailed(client, error);
+      } else if (kind === 'auth') {
+        this.markUnauthorized(error);
+      }
+      // An abort says nothing about the connection
+      throw error;
+    }
+  }
+
+  listTools(refresh = false): Promise<McpToolDescriptor[]> {
+    if (this.tools && !refresh) return Promise.resolve(this.tools);
+    if (!this.toolsRequest) {
+      this.toolsRequest = this.run((client) => client.listTools())
+        .then((tools) => {
+          this.tools = tools;
+          this.setHealth({ toolCount: tools.length });
+          return tools;
+        })
+        .finally(() => {
+          this.toolsRequest = null;
+        });
+    }
+    return this.toolsRequest;
+  }
+
+  private markConnected(latencyMs?: number) {
+    if (this.disposed) return;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.setHealth({
+      status: 'connected',
+      latencyMs: latencyMs ?? this.health.latencyMs,
+      connectedAt: this.health.status === 'connected' ? this.health.connectedAt : Date.now(),
+      reconnectAttempt: 0,
+      nextRetryAt: undefined,
+    });
+    this.startEventStream();
+  }
+
+  private markFailed(client: McpHttpClient, error: unknown) {
+    if (this.disposed) return;
+    // Start over with a fresh session on the next request
+    if (this.client === client) {
+      this.stopEventStream();
+      this.client = null;
+      this.tools = null;
+      void client.close();
+    }
+    this.setHealth({
+      status: 'error',
+      lastError: error instanceof Error ? error.message : String(error),
+      lastErrorAt: Date.now(),
+    });
+    this.scheduleReconnect();
+  }
+
+  // Retrying with the same credentials fails the same way, so wait for new ones
+  private markUnauthorized(error: unknown) {
+    if (this.disposed) return;
+    this.tools = null;
+    this.setHealth({
+      status: 'unauthorized',
+      lastError: error instanceof Error ? error.message : String(error),
+      lastErrorAt: Date.now(),
+      nextRetryAt: undefined,
+    });
+  }
+
+  private scheduleReconnect() {
+    const attempt = this.health.reconnectAttempt;
+    if (this.reconnectTimer || attempt >= MAX_RECONNECT_ATTEMPTS) return;
+    const delay = getReconnectDelay(attempt);
+    this.setHealth({ reconnectAttempt: attempt + 1, nextRetryAt: Date.now() + delay });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      // A failure here schedules the next attempt
+      void this.listTools(true).catch(() => undefined);
+    }, delay);
+  }
+
+  // Server-pushed notifications only arrive on the GET stream of SSE servers
+  private startEventStream() {
+    const client = this.client;
+    if (this.config.transport !== 'sse' || !client || this.streamAbort || this.streamTimer) {
+      return;
+    }
+    const controller = new AbortController();
+    this.streamAbort = controller;
+    const reopen = () => {
+      if (controller.signal.aborted || this.client !== client) return;
+      this.streamAbort = null;
+      this.streamTimer = setTimeout(() => {
+        this.streamTimer = null;
+        this.startEventStream();
+      }, getReconnectDelay(this.streamAttempt++));
+    };
+    // When unsupported, streamAbort stays set so this session does not ask again
+    client.openEventStream(controller.signal).then((supported) => {
+      if (supported) reopen();
+    }, reopen);
+  }
+
+  private stopEventStream() {
+    this.streamAbort?.abort();
+    this.streamAbort = null;
+    if (this.streamTimer) {
+      clearTimeout(this.streamTimer);
+      this.streamTimer = null;
+    }
+    this.streamAttempt = 0;
+  }
+
+  private handleNotification(notification: McpNotification) {
+    this.streamAttempt = 0;
+    if (notification.method === 'notifications/tools/list_changed') {
+      this.tools = null;
+      void this.listTools().catch(() => undefined);
+    }
+  }
+
+  dispose() {
+    this.disposed = true;
+    this.stopEventStream();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    void this.client?.close();
+    this.client = null;
+  }
+}
+
+/**
+ * Keeps MCP sessions and tool lists alive across turns, keyed by server id.
+ * Changing a server's URL, transport or token starts a new session.
+ */
+export class McpConnectionManager {
+  private connections = new Map<string, McpConnection>();
+  private listeners = new Set<Listener>();
+  private snapshot: Record<string, McpServerHealth> = {};
+
+  private emit = () => {
+    this.snapshot = Object.fromEntries(
+      Array.from(this.connections, ([serverId, connection]) => [serverId, connection.health])
+    );
+    for (const listener of this.listeners) listener();
+  };
+
+  private getConnection(server: McpServerSettings) {
+    const config = getMcpConnectionConfig(server);
+    const key = getConfigKey(config);
+    const existing = this.connections.get(server.id);
+    if (existing?.key === key) return existing;
+    existing?.dispose();
+    const connection = new McpConnection(config, key, this.emit);
+    this.connections.set(server.id, connection);
+    this.emit();
+    return connection;
+  }
+
+  listTools(server: McpServerSettings, options: { refresh?: boolean } = {}) {
+    return this.getConnection(server).listTools(options.refresh);
+  }
+
+  callTool(
+    server: McpServerSettings,
+    name: string,
+    args: Record<string, unknown>,
+    options: McpRequestOptions & { onProgress?: (progress: McpProgress) => void } = {}
+  ) {
+    // Tool runtime says nothing about the connection, so it is not timed
+    return this.getConnection(server).run((client) => client.callTool(name, args, options), false);
+  }
+
+  run<T>(server: McpServerSettings, operation: (client: McpHttpClient) => Promise<T>) {
+    return this.getConnection(server).run(operation);
+  }
+
+  /** Drops the current session and connects again right away. */
+  reconnect(server: McpServerSettings) {
+    this.disconnect(server.id);
+    return this.listTools(server);
+  }
+
+  disconnect(serverId: string) {
+    const connection = this.connections.get(serverId);
+    if (!connection) return;
+    connection.dispose();
+    this.connections.delete(serverId);
+    this.emit();
+  }
+
+  // Closes sessions of servers that were removed from settings
+  retain(serverIds: string[]) {
+    const keep = new Set(serverIds);
+    for (const serverId of Array.from(this.connections.keys())) {
+      if (!keep.has(serverId)) this.disconnect(serverId);
+    }
+  }
+
+  getHealth = (): Record<string, McpServerHealth> => this.snapshot;
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+}
+
+export const mcpConnections = new McpConnectionManager();
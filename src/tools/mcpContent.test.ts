@@ -0,0 +1,142 @@
+import { describe, expect, test, vi } from 'vitest';
+import type { StoredToolArtifact } from '../types';
+import {
+  MAX_CONVERSATION_ARTIFACT_BYTES,
+  MAX_TOOL_ARTIFACT_BYTES,
+  getBase64Size,
+  getSafeArtifactMimeType,
+  getToolOutputArtifacts,
+  storeMcpToolContent,
+} from './mcpContent';
+
+const PIXEL = btoa('fake-png-bytes');
+
+describe('storeMcpToolContent', () => {
+  test('keeps images as stored artifacts with a placeholder for the model', async () => {
+    const save = vi.fn(async (artifact: StoredToolArtifact) => {
+      void artifact;
+    });
+    const output = (await storeMcpToolContent(
+      {
+        content: [
+          { type: 'text', text: 'Rendered chart' },
+          { type: 'image', data: PIXEL, mimeType: 'image/png' },
+        ],
+      },
+      { conversationId: 'c1', save }
+    )) as Record<string, unknown>;
+
+    const artifacts = getToolOutputArtifacts(output);
+    expect(artifacts).toHaveLength(1);
+    expect(artifacts[0]).toMatchObject({ kind: 'image', mimeType: 'image/png', stored: true });
+    expect(save).toHaveBeenCalledTimes(1);
+    expect(save.mock.calls[0][0]).toMatchObject({
+      id: artifacts[0].id,
+      conversationId: 'c1',
+      mimeType: 'image/png',
+      size: 14,
+    });
+    expect(output.text).toContain('Rendered chart');
+    expect(output.text).toContain('[image (image/png, 14 B), shown to the user]');
+    expect(String(output.text)).not.toContain(PIXEL);
+  });
+
+  test('skips payloads over the size limit', async () => {
+    const save = vi.fn(async () => undefined);
+    const oversized = 'A'.repeat(Math.ceil(((MAX_TOOL_ARTIFACT_BYTES + 4) * 4) / 3));
+    const output = await storeMcpToolContent(
+      { content: [{ type: 'audio', data: oversized, mimeType: 'audio/wav' }] },
+      { conversationId: 'c1', save }
+    );
+
+    const [artifact] = getToolOutputArtifacts(output);
+    expect(artifact).toMatchObject({ kind: 'audio', stored: false });
+    expect(artifact.size).toBeGreaterThan(MAX_TOOL_ARTIFACT_BYTES);
+    expect(save).not.toHaveBeenCalled();
+  });
+
+  test('stores active content as octet-stream and skips malformed base64', async () => {
+    const save = vi.fn(async (artifact: StoredToolArtifact) => {
+      void artifact;
+    });
+    const output = await storeMcpToolContent(
+      {
+        content: [
+          { type: 'image', data: btoa('<svg onload="x()"/>'), mimeType: 'image/svg+xml' },
+          { type: 'resource', resource: { uri: 'page.html', text: '<p>', mimeType: 'text/html' } },
+          { type: 'image', data: '%%not base64%%', mimeType: 'image/png' },
+        ],
+      },
+      { conversationId: 'c1', save }
+    );
+
+    expect(getToolOutputArtifacts(output).map((artifact) => artifact.stored)).toEqual([
+      true,
+      true,
+      false,
+    ]);
+    expect(save.mock.calls.map(([artifact]) => [artifact.mimeType, artifact.data.type])).toEqual([
+      ['application/octet-stream', 'application/octet-stream'],
+      ['application/octet-stream', 'application/octet-stream'],
+    ]);
+  });
+
+  test('stops storing once the conversation is over its cap', async () => {
+    const save = vi.fn(async () => undefined);
+    const getStoredBytes = vi.fn(async () => MAX_CONVERSATION_ARTIFACT_BYTES - 10);
+    const output = await storeMcpToolContent(
+      {
+        content: [
+          { type: 'image', data: btoa('small'), mimeType: 'image/png' },
+          { type: 'image', data: PIXEL, mimeType: 'image/png' },
+        ],
+      },
+      { conversationId: 'c1', save, getStoredBytes }
+    );
+
+    expect(getStoredBytes).toHaveBeenCalledWith('c1');
+    expect(getToolOutputArtifacts(output).map((artifact) => artifact.stored)).toEqual([
+      true,
+      false,
+    ]);
+    expect(save).toHaveBeenCalledTimes(1);
+  });
+
+  test('passes resource links through and keeps embedded text readable', async () => {
+    const output = (await storeMcpToolContent({
+      content: [
+        { type: 'resource_link', uri: 'https://example.com/report', name: 'Report' },
+        { type: 'resource', resource: { uri: 'docs://notes', text: 'Meeting notes' } },
+      ],
+      isError: true,
+    })) as Record<string, unknown>;
+
+    expect(getToolOutputArtifacts(output)).toMatchObject([
+      { kind: 'resource_link', uri: 'https://example.com/report', name: 'Report' },
+      { kind: 'resource', uri: 'docs://notes', stored: false },
+    ]);
+    expect(output.text).toContain('Meeting notes');
+    expect(output.text).toContain('[resource link: Report]');
+    expect(output.isError).toBe(true);
+  });
+
+  test('leaves results without content parts untouched', async () => {
+    const raw = { value: 42 };
+    expect(await storeMcpToolContent(raw)).toBe(raw);
+    expect(getToolOutputArtifacts(raw)).toEqual([]);
+  });
+});
+
+test('getBase64Size accounts for padding', () => {
+  expect(getBase64Size(btoa('a'))).toBe(1);
+  expect(getBase64Size(btoa('ab'))).toBe(2);
+  expect(getBase64Size(btoa('abc'))).toBe(3);
+});
+
+test('getSafeArtifactMimeType keeps raster images and audio only', () => {
+  expect(getSafeArtifactMimeType('image/PNG')).toBe('image/png');
+  expect(getSafeArtifactMimeType('audio/mpeg; codecs=mp3')).toBe('audio/mpeg');
+  expect(getSafeArtifactMimeType('image/svg+xml')).toBe('application/octet-stream');
+  expect(getSafeArtifactMimeType('text/html')).toBe('application/octet-stream');
+  expect(getSafeArtifactMimeType(undefined)).toBe('application/octet-stream');
+});
@@ -0,0 +1,181 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { ConversationId, StoredToolArtifact, ToolResultArtifact } from '../types';
+import { decodeBase64, formatFileSize } from '../utils/files';
+
+// Larger payloads are described to the model but not kept
+export const MAX_TOOL_ARTIFACT_BYTES = 5 * 1024 * 1024;
+export const MAX_TOOL_RESULT_ARTIFACT_BYTES = 20 * 1024 * 1024;
+export const MAX_CONVERSATION_ARTIFACT_BYTES = 200 * 1024 * 1024;
+
+// Types a stored payload may keep; anything else could run as a page when opened
+const SAFE_IMAGE_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp']);
+
+interface PendingArtifact {
+  kind: ToolResultArtifact['kind'];
+  mimeType?: string;
+  name?: string;
+  uri?: string;
+  base64?: string;
+  text?: string;
+}
+
+export interface NormalizedMcpToolResult {
+  text: string;
+  structuredContent?: unknown;
+  artifacts?: ToolResultArtifact[];
+  isError?: boolean;
+}
+
+interface StoreMcpContentOptions {
+  conversationId?: ConversationId;
+  save?: (artifact: StoredToolArtifact) => Promise<void>;
+  // Bytes already kept for the conversation, counted against its cap
+  getStoredBytes?: (conversationId: ConversationId) => Promise<number>;
+}
+
+function optionalString(value: unknown) {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object';
+}
+
+export function getBase64Size(base64: string) {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.max(0, Math.floor((base64.length * 3) / 4) - padding);
+}
+
+/**
+ * The type a payload is stored under. Raster images and audio keep theirs;
+ * everything else is stored as application/octet-stream so it can only be
+ * downloaded, never rendered as HTML or SVG from the app's origin.
+ */
+export function getSafeArtifactMimeType(mimeType: string | undefined) {
+  const normalized = mimeType?.split(';')[0].trim().toLowerCase() ?? '';
+  if (SAFE_IMAGE_TYPES.has(normalized) || /^audio\/[a-z0-9.+-]+$/.test(normalized)) {
+    return normalized;
+  }
+  return 'application/octet-stream';
+}
+
+// Splits MCP content parts into text for the model and non-text parts to keep
+function splitContent(content: Array<Record<string, unknown>>) {
+  const textParts: string[] = [];
+  const pending: PendingArtifact[] = [];
+  for (const part of content) {
+    if (part.type === 'text' && typeof part.text === 'string') {
+      textParts.push(part.text);
+    } else if ((part.type === 'image' || part.type === 'audio') && typeof part.data === 'string') {
+      pending.push({ kind: part.type, mimeType: optionalString(part.mimeType), base64: part.data });
+    } else if (part.type === 'resource_link' && typeof part.uri === 'string') {
+      pending.push({
+        kind: 'resource_link',
+        uri: part.uri,
+        name: optionalString(part.name) ?? optionalString(part.title),
+        mimeType: optionalString(part.mimeType),
+      });
+    } else if (part.type === 'resource' && isRecord(part.resource)) {
+      const resource = part.resource;
+      const text = optionalString(resource.text);
+      // Embedded text stays readable for the model as well
+      if (text) textParts.push(text);
+      pending.push({
+        kind: 'resource',
+        uri: optionalString(resource.uri),
+        mimeType: optionalString(resource.mimeType),
+        base64: optionalString(resource.blob),
+        text,
+      });
+    }
+  }
+  return { textParts, pending };
+}
+
+function describeArtifact(artifact: ToolResultArtifact) {
+  const size = artifact.size !== undefined ? formatFileSize(artifact.size) : null;
+  const details = [artifact.mimeType, size].filter(Boolean).join(', ');
+  const label = artifact.name || artifact.uri;
+  const stored = artifact.stored ? 'shown to the user' : 'not saved';
+  if (artifact.kind === 'resource_link') return `[resource link: ${label}]`;
+  const heading = label ? `${artifact.kind}: ${label}` : artifact.kind;
+  return `[${heading}${details ? ` (${details})` : ''}, ${stored}]`;
+}
+
+/**
+ * Normalizes a tools/call result. Text parts are joined for the model; images,
+ * audio and embedded resources are saved as artifacts within the size limits
+ * (per part, per result and per conversation) and replaced by a short
+ * placeholder in the text.
+ */
+export async function storeMcpToolContent(
+  result: unknown,
+  options: StoreMcpContentOptions = {}
+): Promise<unknown> {
+  if (!isRecord(result) || !Array.isArray(result.content)) return result;
+  const { textParts, pending } = splitContent(result.content.filter(isRecord));
+
+  const artifacts: ToolResultArtifact[] = [];
+  let storedBytes = 0;
+  const { conversationId, save, getStoredBytes } = options;
+  const usedBytes =
+    save && conversationId && getStoredBytes && pending.length > 0
+      ? await getStoredBytes(conversationId)
+      : 0;
+  for (const entry of pending) {
+    const artifact: ToolResultArtifact = {
+      id: uuidv4(),
+      kind: entry.kind,
+      mimeType: entry.mimeType,
+      name: entry.name,
+      uri: entry.uri,
+      stored: false,
+    };
+    const encodedText = entry.text !== undefined ? new TextEncoder().encode(entry.text) : null;
+    const size = entry.base64 ? getBase64Size(entry.base64) : encodedText?.byteLength;
+    if (size !== undefined) {
+      artifact.size = size;
+      const fits =
+        size <= MAX_TOOL_ARTIFACT_BYTES &&
+        storedBytes + size <= MAX_TOOL_RESULT_ARTIFACT_BYTES &&
+        usedBytes + storedBytes + size <= MAX_CONVERSATION_ARTIFACT_BYTES;
+      // Oversized payloads are never decoded; malformed ones are skipped
+      let data: Uint8Array<ArrayBuffer> | null = null;
+      if (fits && save && conversationId) {
+        data = entry.base64 ? decodeBase64(entry.base64) : (encodedText ?? new Uint8Array());
+      }
+      if (data && save && conversationId) {
+        const mimeType = getSafeArtifactMimeType(entry.mimeType);
+        await save({
+          id: artifact.id,
+          conversationId,
+          mimeType,
+          data: new Blob([data], { type: mimeType }),
+          size: data.byteLength,
+          createdAt: Date.now(),
+        });
+        artifact.stored = true;
+        storedBytes += data.byteLength;
+      }
+    }
+    artifacts.push(artifact);
+  }
+
+  if (textParts.length === 0 && artifacts.length === 0) return result;
+  const normalized: NormalizedMcpToolResult = {
+    text: [...textParts, ...artifacts.map(describeArtifact)].join('\n'),
+    structuredContent: result.structuredContent,
+    ...(artifacts.length > 0 ? { artifacts } : {}),
+    ...(result.isError === true ? { isError: true } : {}),
+  };
+  return normalized;
+}
+
+// Artifacts listed in a tool output, as returned by storeMcpToolContent
+export function getToolOutputArtifacts(output: unknown): ToolResultArtifact[] {
+  if (!isRecord(output) || !Array.isArray(output.artifacts)) return [];
+  return output.artifacts.filter(
+    (artifact): artifact is ToolResultArtifact =>
+      isRecord(artifact) && typeof artifact.id === 'string' && typeof artifact.kind === 'string'
+  );
+}
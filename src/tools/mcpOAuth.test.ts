@@ -0,0 +1,220 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import type { McpServerSettings } from '../types';
+import {
+  MCP_OAUTH_REQUIRED,
+  authorizeMcpServer,
+  clearMcpOAuthSession,
+  createPkcePair,
+  discoverAuthorization,
+  getMcpAccessToken,
+  getMcpOAuthRedirectUri,
+  getWellKnownUrls,
+  loadMcpOAuthSession,
+  parseResourceMetadataUrl,
+} from './mcpOAuth';
+
+const server: McpServerSettings = {
+  id: 'oauth-server',
+  name: 'Remote',
+  enabled: true,
+  url: 'https://mcp.example.com/mcp',
+  transport: 'http',
+  authType: 'oauth',
+  authToken: '',
+  enabledTools: [],
+};
+
+function json(body: unknown, init: ResponseInit = {}) {
+  return new Response(JSON.stringify(body), {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init.headers },
+  });
+}
+
+describe('mcpOAuth', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    clearMcpOAuthSession(server.id);
+  });
+
+  test('builds well-known URLs with the path inserted first', () => {
+    const urls = getWellKnownUrls('https://auth.example.com/tenant/', 'oauth-authorization-server');
+    expect(urls).toEqual([
+      'https://auth.example.com/.well-known/oauth-authorization-server/tenant',
+      'https://auth.example.com/.well-known/oauth-authorization-server',
+    ]);
+    expect(getWellKnownUrls('https://auth.example.com', 'openid-configuration')).toEqual([
+      'https://auth.example.com/.well-known/openid-configuration',
+    ]);
+  });
+
+  test('reads resource_metadata from a WWW-Authenticate challenge', () => {
+    const metadataUrl = 'https://mcp.example.com/.well-known/oauth-protected-resource';
+    expect(
+      parseResourceMetadataUrl(`Bearer realm="mcp", resource_metadata="${metadataUrl}"`)
+    ).toBe(metadataUrl);
+    expect(parseResourceMetadataUrl(null)).toBeUndefined();
+  });
+
+  test('derives the PKCE challenge from the verifier with SHA-256', async () => {
+    const { verifier, challenge } = await createPkcePair();
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+    const expected = btoa(String.fromCharCode(...new Uint8Array(digest)))
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '');
+    expect(verifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(challenge).toBe(expected);
+  });
+
+  test('registers a client, runs the popup flow and stores the tokens', async () => {
+    const resourceMetadataUrl = 'https://mcp.example.com/.well-known/oauth-protected-resource/mcp';
+    const requests: Array<{ url: string; body?: string }> = [];
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string, init: RequestInit = {}) => {
+        requests.push({ url, body: init.body ? String(init.body) : undefined });
+        if (url === server.url) {
+          return new Response(null, {
+            status: 401,
+            headers: { 'WWW-Authenticate': `Bearer resource_metadata="${resourceMetadataUrl}"` },
+          });
+        }
+        if (url === resourceMetadataUrl) {
+          return json({
+            authorization_servers: ['https://auth.example.com'],
+            scopes_supported: ['mcp'],
+          });
+        }
+        if (url === 'https://auth.example.com/.well-known/oauth-authorization-server') {
+          return json({
+            issuer: 'https://auth.example.com',
+            authorization_endpoint: 'https://auth.example.com/authorize',
+            token_endpoint: 'https://auth.example.com/token',
+            registration_endpoint: 'https://auth.example.com/register',
+          });
+        }
+        if (url === 'https://auth.example.com/register') return json({ client_id: 'client-1' });
+        if (url === 'https://auth.example.com/token') {
+          return json({ access_token: 'access-1', refresh_token: 'refresh-1', expires_in: 3600 });
+        }
+        return new Response(null, { status: 404 });
+      })
+    );
+    let authorizeUrl: URL | null = null;
+    vi.spyOn(window, 'open').mockImplementation((url) => {
+      authorizeUrl = new URL(String(url));
+      const state = authorizeUrl.searchParams.get('state');
+      setTimeout(() => {
+        window.dispatchEvent(
+          new MessageEvent('message', {
+            origin: window.location.origin,
+            data: {
+              type: 'graph-chat-mcp-oauth',
+              url: `${getMcpOAuthRedirectUri()}?code=code-1&state=${state}`,
+            },
+          })
+        );
+      }, 0);
+      return { closed: false } as Window;
+    });
+
+    const session = await authorizeMcpServer(server);
+
+    const params = (authorizeUrl as URL | null)?.searchParams;
+    expect(params?.get('client_id')).toBe('client-1');
+    expect(params?.get('code_challenge_method')).toBe('S256');
+    expect(params?.get('resource')).toBe(server.url);
+    expect(params?.get('scope')).toBe('mcp');
+    const tokenBody = new URLSearchParams(
+      requests.find((request) => request.url.endsWith('/token'))?.body
+    );
+    expect(tokenBody.get('grant_type')).toBe('authorization_code');
+    expect(tokenBody.get('code')).toBe('code-1');
+    expect(tokenBody.get('code_verifier')).toBeTruthy();
+    expect(session).toMatchObject({ accessToken: 'access-1', clientId: 'client-1' });
+    expect(loadMcpOAuthSession(server)?.refreshToken).toBe('refresh-1');
+    expect(loadMcpOAuthSession({ ...server, url: 'https://other.example.com/mcp' })).toBeNull();
+  });
+
+  test('rejects authorization server metadata issued for another issuer', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        if (url === 'https://mcp.example.com/.well-known/oauth-authorization-server') {
+          return json({
+            issuer: 'https://evil.example.com',
+            authorization_endpoint: 'https://evil.example.com/authorize',
+            token_endpoint: 'https://evil.example.com/token',
+          });
+        }
+        return new Response(null, { status: 404 });
+      })
+    );
+
+    await expect(discoverAuthorization(server.url)).rejects.toThrow(
+      'The authorization server metadata does not belong to https://mcp.example.com'
+    );
+  });
+
+  test('waits for the callback message and times out instead of polling the popup', async () => {
+    vi.useFakeTimers();
+    try {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async (url: string) =>
+          url === 'https://mcp.example.com/register'
+            ? json({ client_id: 'client-1' })
+            : new Response(null, { status: 404 })
+        )
+      );
+      // Under COOP the opener sees the popup as closed as soon as it navigates away
+      vi.spyOn(window, 'open').mockReturnValue({ closed: true } as Window);
+
+      const authorization = authorizeMcpServer(server);
+      const outcome = authorization.catch((error: Error) => error.message);
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(window.open).toHaveBeenCalled();
+      await vi.advanceTimersByTimeAsync(5 * 60_000);
+      await expect(outcome).resolves.toBe('Authorization timed out. Try again.');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  test('refreshes expiring tokens and keeps the old refresh token', async () => {
+    localStorage.setItem(
+      'graph_chat_mcp_oauth_v1',
+      JSON.stringify({
+        [server.id]: {
+          resource: server.url,
+          issuer: 'https://auth.example.com',
+          tokenEndpoint: 'https://auth.example.com/token',
+          clientId: 'client-1',
+          accessToken: 'stale',
+          refreshToken: 'refresh-1',
+          expiresAt: Date.now() + 1000,
+          obtainedAt: Date.now(),
+        },
+      })
+    );
+    const fetchMock = vi.fn(async () => json({ access_token: 'fresh', expires_in: 3600 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(getMcpAccessToken(server)).resolves.toBe('fresh');
+    expect(loadMcpOAuthSession(server)).toMatchObject({
+      accessToken: 'fresh',
+      refreshToken: 'refresh-1',
+    });
+    await expect(getMcpAccessToken(server)).resolves.toBe('fresh');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('asks for authorization when no tokens are stored', async () => {
+    await expect(getMcpAccessToken(server)).rejects.toMatchObject({
+      message: expect.stringContaining('Remote needs authorization'),
+      code: MCP_OAUTH_REQUIRED,
+    });
+  });
+});
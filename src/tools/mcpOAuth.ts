@@ -0,0 +1,397 @@
+import type { McpServerSettings } from '../types';
+
+/** Tokens and client registration for one OAuth-protected MCP server. */
+export interface McpOAuthSession {
+  resource: string; // MCP server URL the tokens were issued for
+  issuer: string;
+  tokenEndpoint: string;
+  clientId: string;
+  clientSecret?: string;
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: number;
+  scope?: string;
+  obtainedAt: number;
+}
+
+interface AuthorizationServerMetadata {
+  issuer: string;
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  registrationEndpoint?: string;
+}
+
+const OAUTH_SESSIONS_KEY = 'graph_chat_mcp_oauth_v1';
+export const MCP_OAUTH_CALLBACK_PATH = '/oauth-callback.html';
+const CALLBACK_MESSAGE_TYPE = 'graph-chat-mcp-oauth';
+// Tokens this close to expiry are refreshed before use
+const REFRESH_MARGIN_MS = 60_000;
+// The popup cannot be watched once it leaves for another origin (COOP), so the flow times out
+const AUTHORIZATION_TIMEOUT_MS = 5 * 60_000;
+// Code of the errors thrown when the user has to authorize the server again
+export const MCP_OAUTH_REQUIRED = 'oauth_required';
+
+const refreshRequests = new Map<string, Promise<McpOAuthSession | null>>();
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object';
+}
+
+function optionalString(value: unknown) {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+// Issuer identifiers compare as strings (RFC 8414 §3.3), give or take a trailing slash
+function sameIssuer(left: string, right: string) {
+  return left.replace(/\/+$/, '') === right.replace(/\/+$/, '');
+}
+
+function loadSessions(): Record<string, McpOAuthSession> {
+  try {
+    const raw = localStorage.getItem(OAUTH_SESSIONS_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : {};
+    return isRecord(parsed) ? (parsed as Record<string, McpOAuthSession>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveSessions(sessions: Record<string, McpOAuthSession>) {
+  localStorage.setItem(OAUTH_SESSIONS_KEY, JSON.stringify(sessions));
+}
+
+// Sessions issued for another URL do not count once the server URL changes
+export function loadMcpOAuthSession(server: Pick<McpServerSettings, 'id' | 'url'>) {
+  const session = loadSessions()[server.id];
+  return session && session.resource === server.url.trim() ? session : null;
+}
+
+function saveMcpOAuthSession(serverId: string, session: McpOAuthSession) {
+  saveSessions({ ...loadSessions(), [serverId]: session });
+}
+
+export function clearMcpOAuthSession(serverId: string) {
+  const sessions = loadSessions();
+  delete sessions[serverId];
+  saveSessions(sessions);
+}
+
+export function getMcpOAuthRedirectUri() {
+  return `${window.location.origin}${MCP_OAUTH_CALLBACK_PATH}`;
+}
+
+function base64UrlEncode(bytes: Uint8Array) {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export async function createPkcePair() {
+  const verifier = base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return { verifier, challenge: base64UrlEncode(new Uint8Array(digest)) };
+}
+
+/**
+ * Well-known locations for a URL with a path, most specific first:
+ * https://host/.well-known/<name>/path, then https://host/.well-known/<name>.
+ */
+export function getWellKnownUrls(baseUrl: string, name: string) {
+  const url = new URL(baseUrl);
+  const path = url.pathname.replace(/\/+$/, '');
+  const urls = [`${url.origin}/.well-known/${name}${path}`];
+  if (path) urls.push(`${url.origin}/.well-known/${name}`);
+  return urls;
+}
+
+// resource_metadata from a Bearer WWW-Authenticate challenge
+export function parseResourceMetadataUrl(header: string | null) {
+  const match = header?.match(/resource_metadata="([^"]+)"/i);
+  return match ? match[1] : undefined;
+}
+
+async function fetchJson(url: string) {
+  try {
+    const response = await fetch(url, { headers: { Accept: 'application/json' } });
+    if (!response.ok) return null;
+    const json: unknown = await response.json();
+    return isRecord(json) ? json : null;
+  } catch {
+    return null;
+  }
+}
+
+async function fetchFirstJson(urls: string[]) {
+  for (const url of urls) {
+    const json = await fetchJson(url);
+    if (json) return json;
+  }
+  return null;
+}
+
+// An unauthenticated request may point at the resource metadata directly
+async function probeResourceMetadataUrl(mcpUrl: string) {
+  try {
+    const response = await fetch(mcpUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 0, method: 'ping' }),
+    });
+    return response.status === 401
+      ? parseResourceMetadataUrl(response.headers.get('WWW-Authenticate'))
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Finds the authorization server of an MCP server through its protected
+ * resource metadata, falling back to the MCP server's own origin. Metadata
+ * naming another issuer is rejected, so one server cannot stand in for another.
+ */
+export async function discoverAuthorization(mcpUrl: string) {
+  const metadataUrl = await probeResourceMetadataUrl(mcpUrl);
+  const resourceMetadata = await fetchFirstJson(
+    metadataUrl ? [metadataUrl] : getWellKnownUrls(mcpUrl, 'oauth-protected-resource')
+  );
+  const servers = Array.isArray(resourceMetadata?.authorization_servers)
+    ? resourceMetadata.authorization_servers.filter((entry) => typeof entry === 'string')
+    : [];
+  const issuer = servers[0] ?? new URL(mcpUrl).origin;
+  const scopes = Array.isArray(resourceMetadata?.scopes_supported)
+    ? resourceMetadata.scopes_supported.filter((entry) => typeof entry === 'string')
+    : [];
+
+  const metadata = await fetchFirstJson([
+    ...getWellKnownUrls(issuer, 'oauth-authorization-server'),
+    ...getWellKnownUrls(issuer, 'openid-configuration'),
+  ]);
+  if (metadata && !sameIssuer(optionalString(metadata.issuer) ?? '', issuer)) {
+    throw new Error(`The authorization server metadata does not belong to ${issuer}`);
+  }
+  const origin = new URL(issuer).origin;
+  const server: AuthorizationServerMetadata = {
+    issuer,
+    authorizationEndpoint:
+      optionalString(metadata?.authorization_endpoint) ?? `${origin}/authorize`,
+    tokenEndpoint: optionalString(metadata?.token_endpoint) ?? `${origin}/token`,
+    registrationEndpoint: metadata
+      ? optionalString(metadata.registration_endpoint)
+      : `${origin}/register`,
+  };
+  return { server, scope: scopes.length > 0 ? scopes.join(' ') : undefined };
+}
+
+async function registerClient(server: AuthorizationServerMetadata, redirectUri: string) {
+  if (!server.registrationEndpoint) {
+    throw new Error('The authorization server does not support dynamic client registration');
+  }
+  const response = await fetch(server.registrationEndpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+    body: JSON.stringify({
+      client_name: 'Graph LLM Chat',
+      redirect_uris: [redirectUri],
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      token_endpoint_auth_method: 'none',
+    }),
+  });
+  const json: unknown = await response.json().catch(() => null);
+  const record = isRecord(json) ? json : {};
+  const clientId = optionalString(record.client_id);
+  if (!response.ok || !clientId) {
+    throw new Error(`Client registration failed: ${response.status} ${response.statusText}`);
+  }
+  return { clientId, clientSecret: optionalString(record.client_secret) };
+}
+
+async function requestToken(
+  tokenEndpoint: string,
+  params: Record<string, string | undefined>
+) {
+  const body = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value) body.set(key, value);
+  }
+  const response = await fetch(tokenEndpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    },
+    body: body.toString(),
+  });
+  const json: unknown = await response.json().catch(() => null);
+  const record = isRecord(json) ? json : {};
+  const accessToken = optionalString(record.access_token);
+  if (!response.ok || !accessToken) {
+    const reason =
+      optionalString(record.error_description) ??
+      optionalString(record.error) ??
+      `${response.status} ${response.statusText}`;
+    throw new Error(`Token request failed: ${reason}`);
+  }
+  return {
+    accessToken,
+    refreshToken: optionalString(record.refresh_token),
+    expiresAt:
+      typeof record.expires_in === 'number' ? Date.now() + record.expires_in * 1000 : undefined,
+    scope: optionalString(record.scope),
+  };
+}
+
+/**
+ * Resolves with the code the callback page posts back from the popup. Only
+ * a message carrying our state counts; there is no reliable way to tell that
+ * the popup was closed, so the wait ends after a timeout instead.
+ */
+function waitForAuthorizationCode(authorizeUrl: string, state: string) {
+  const popup = window.open(authorizeUrl, 'mcp-oauth', 'width=520,height=720');
+  if (!popup) {
+    return Promise.reject(new Error('Allow pop-ups for this site to authorize the MCP server'));
+  }
+  return new Promise<string>((resolve, reject) => {
+    const cleanup = () => {
+      window.removeEventListener('message', handleMessage);
+      clearTimeout(timeout);
+    };
+    const handleMessage = (event: MessageEvent) => {
+      if (event.origin !== window.location.origin) return;
+      if (!isRecord(event.data) || event.data.type !== CALLBACK_MESSAGE_TYPE) return;
+      const params = new URL(String(event.data.url)).searchParams;
+      if (params.get('state') !== state) return;
+      cleanup();
+      const error = params.get('error');
+      const code = params.get('code');
+      if (error) {
+        reject(new Error(params.get('error_description') || `Authorization failed: ${error}`));
+      } else if (code) {
+        resolve(code);
+      } else {
+        reject(new Error('The authorization response did not include a code'));
+      }
+    };
+    const timeout = setTimeout(() => {
+      cleanup();
+      reject(new Error('Authorization timed out. Try again.'));
+    }, AUTHORIZATION_TIMEOUT_MS);
+    window.addEventListener('message', handleMessage);
+  });
+}
+
+/**
+ * Runs the OAuth 2.1 authorization code flow with PKCE in a popup and stores
+ * the tokens for the server. A client registered earlier with the same
+ * authorization server is reused.
+ */
+export async function authorizeMcpServer(server: McpServerSettings) {
+  const resource = server.url.trim();
+  if (!resource) throw new Error('Set the MCP URL first');
+  const redirectUri = getMcpOAuthRedirectUri();
+  const { server: authServer, scope } = await discoverAuthorization(resource);
+  const previous = loadSessions()[server.id];
+  const client =
+    previous?.issuer === authServer.issuer
+      ? { clientId: previous.clientId, clientSecret: previous.clientSecret }
+      : await registerClient(authServer, redirectUri);
+
+  const pkce = await createPkcePair();
+  const state = base64UrlEncode(crypto.getRandomValues(new Uint8Array(16)));
+  const authorizeUrl = new URL(authServer.authorizationEndpoint);
+  authorizeUrl.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: client.clientId,
+    redirect_uri: redirectUri,
+    code_challenge: pkce.challenge,
+    code_challenge_method: 'S256',
+    state,
+    resource,
+    ...(scope ? { scope } : {}),
+  }).toString();
+
+  const code = await waitForAuthorizationCode(authorizeUrl.toString(), state);
+  const token = await requestToken(authServer.tokenEndpoint, {
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri,
+    client_id: client.clientId,
+    client_secret: client.clientSecret,
+    code_verifier: pkce.verifier,
+    resource,
+  });
+  const session: McpOAuthSession = {
+    resource,
+    issuer: authServer.issuer,
+    tokenEndpoint: authServer.tokenEndpoint,
+    clientId: client.clientId,
+    clientSecret: client.clientSecret,
+    ...token,
+    scope: token.scope ?? scope,
+    obtainedAt: Date.now(),
+  };
+  saveMcpOAuthSession(server.id, session);
+  return session;
+}
+
+async function refreshSession(serverId: string, session: McpOAuthSession) {
+  if (!session.refreshToken) return null;
+  try {
+    const token = await requestToken(session.tokenEndpoint, {
+      grant_type: 'refresh_token',
+      refresh_token: session.refreshToken,
+      client_id: session.clientId,
+      client_secret: session.clientSecret,
+      resource: session.resource,
+    });
+    const next: McpOAuthSession = {
+      ...session,
+      ...token,
+      // Servers that do not rotate refresh tokens omit them from the response
+      refreshToken: token.refreshToken ?? session.refreshToken,
+      scope: token.scope ?? session.scope,
+      obtainedAt: Date.now(),
+    };
+    saveMcpOAuthSession(serverId, next);
+    return next;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Access token for an OAuth server, refreshed when it is about to expire or
+ * when `forceRefresh` is set after the server rejected it.
+ */
+export async function getMcpAccessToken(
+  server: McpServerSettings,
+  options: { forceRefresh?: boolean } = {}
+) {
+  const session = loadMcpOAuthSession(server);
+  if (!session) {
+    throw Object.assign(
+      new Error(`${server.name} needs authorization. Authorize it in Settings → Tools.`),
+      { code: MCP_OAUTH_REQUIRED }
+    );
+  }
+  const expiring =
+    session.expiresAt !== undefined && session.expiresAt - REFRESH_MARGIN_MS <= Date.now();
+  if (!options.forceRefresh && !expiring) return session.accessToken;
+
+  let request = refreshRequests.get(server.id);
+  if (!request) {
+    request = refreshSession(server.id, session).finally(() => {
+      refreshRequests.delete(server.id);
+    });
+    refreshRequests.set(server.id, request);
+  }
+  const refreshed = await request;
+  if (!refreshed) {
+    throw Object.assign(
+      new Error(`${server.name} authorization expired. Re-authorize it in Settings → Tools.`),
+      { code: MCP_OAUTH_REQUIRED }
+    );
+  }
+  return refreshed.accessToken;
+}
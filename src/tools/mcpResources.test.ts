@@ -0,0 +1,73 @@
+import { describe, expect, test } from 'vitest';
+import { readFileAsArrayBuffer } from '../utils/files';
+import {
+  mcpPromptToTemplate,
+  promptMessagesToText,
+  resourceContentsToFile,
+} from './mcpResources';
+
+async function readText(file: File) {
+  return new TextDecoder().decode(await readFileAsArrayBuffer(file));
+}
+
+describe('resourceContentsToFile', () => {
+  test('joins text parts into a text/plain file', async () => {
+    const file = resourceContentsToFile(
+      [
+        { uri: 'docs://a', text: 'First part' },
+        { uri: 'docs://a#2', text: 'Second part' },
+      ],
+      { name: 'Readme', lastModified: 42 }
+    );
+
+    expect(file.type).toBe('text/plain');
+    expect(file.lastModified).toBe(42);
+    expect(await readText(file)).toBe('First part\n\nSecond part');
+  });
+
+  test('decodes base64 blobs and keeps their mime type', async () => {
+    const file = resourceContentsToFile(
+      [{ uri: 'img://logo', mimeType: 'image/png', blob: btoa('png-bytes') }],
+      { name: 'logo.png', lastModified: 1 }
+    );
+
+    expect(file.type).toBe('image/png');
+    expect(await readText(file)).toBe('png-bytes');
+  });
+});
+
+describe('mcpPromptToTemplate', () => {
+  test('turns prompt arguments into template variables', () => {
+    const template = mcpPromptToTemplate(
+      { id: 'docs', name: 'Docs' },
+      {
+        name: 'summarize',
+        description: 'Summarize a page',
+        arguments: [
+          { name: 'url', required: true },
+          { name: 'bad name', required: false },
+        ],
+      }
+    );
+
+    expect(template.id).toBe('mcp:docs:summarize');
+    expect(template.content).toBe('{{url}}');
+    expect(template.description).toBe('Docs · Summarize a page');
+    expect(template.mcpPrompt).toEqual({ serverId: 'docs', name: 'summarize' });
+  });
+});
+
+describe('promptMessagesToText', () => {
+  test('keeps text and embedded resource text in order', () => {
+    expect(
+      promptMessagesToText([
+        { role: 'user', content: { type: 'text', text: 'Review this:' } },
+        { role: 'user', content: { type: 'image', data: 'abc', mimeType: 'image/png' } },
+        {
+          role: 'user',
+          content: { type: 'resource', resource: { uri: 'file://a', text: 'const a = 1;' } },
+        },
+      ])
+    ).toBe('Review this:\n\nconst a = 1;');
+  });
+});
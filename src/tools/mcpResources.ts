@@ -0,0 +1,143 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { McpServerSettings, PendingAttachment, PromptTemplate } from '../types';
+import type {
+  McpHttpClient,
+  McpPromptDescriptor,
+  McpPromptMessage,
+  McpResourceContents,
+  McpResourceDescriptor,
+} from './mcpClient';
+import { mcpConnections } from './mcpConnections';
+import { decodeBase64 } from '../utils/files';
+
+function withMcpClient<T>(
+  server: McpServerSettings,
+  run: (client: McpHttpClient) => Promise<T>
+): Promise<T> {
+  return mcpConnections.run(server, run);
+}
+
+/**
+ * Turns the parts returned by resources/read into one file. Text-only
+ * resources default to text/plain so the attachment pipeline extracts them.
+ * Parts with malformed base64 are left out.
+ */
+export function resourceContentsToFile(
+  contents: McpResourceContents[],
+  options: { name: string; mimeType?: string; lastModified: number }
+): File {
+  const isTextOnly = contents.every((entry) => entry.blob === undefined);
+  const parts = contents.flatMap((entry): BlobPart[] => {
+    if (entry.blob === undefined) return [entry.text ?? ''];
+    const bytes = decodeBase64(entry.blob);
+    return bytes ? [bytes] : [];
+  });
+  const type =
+    options.mimeType ||
+    contents.find((entry) => entry.mimeType)?.mimeType ||
+    (isTextOnly ? 'text/plain' : 'application/octet-stream');
+  const body = isTextOnly ? [parts.join('\n\n')] : parts;
+  return new File(body, options.name, { type, lastModified: options.lastModified });
+}
+
+export function createMcpResourceAttachment(
+  serverId: string,
+  resource: McpResourceDescriptor
+): PendingAttachment {
+  return {
+    id: uuidv4(),
+    name: resource.name,
+    size: resource.size ?? 0,
+    type: resource.mimeType || '',
+    lastModified: Date.now(),
+    source: 'mcp',
+    mcpResource: { serverId, uri: resource.uri },
+  };
+}
+
+export function listMcpResources(server: McpServerSettings) {
+  return withMcpClient(server, (client) => client.listResources());
+}
+
+export async function readMcpResourceFile(
+  server: McpServerSettings,
+  attachment: Pick<PendingAttachment, 'name' | 'type' | 'lastModified'> & { uri: string }
+) {
+  const contents = await withMcpClient(server, (client) => client.readResource(attachment.uri));
+  if (contents.length === 0) {
+    throw new Error(`MCP resource ${attachment.uri} is empty`);
+  }
+  return resourceContentsToFile(contents, {
+    name: attachment.name,
+    mimeType: attachment.type,
+    lastModified: attachment.lastModified,
+  });
+}
+
+/**
+ * MCP prompts shown in the slash picker. Arguments become {{variables}} so
+ * the usual variable form collects them before prompts/get is called.
+ */
+export function mcpPromptToTemplate(
+  server: Pick<McpServerSettings, 'id' | 'name'>,
+  prompt: McpPromptDescriptor
+): PromptTemplate {
+  const variables = prompt.arguments
+    .map((arg) => arg.name)
+    .filter((name) => /^[A-Za-z0-9_.-]+$/.test(name));
+  return {
+    id: `mcp:${server.id}:${prompt.name}`,
+    scopeType: 'user',
+    scopeId: `mcp:${server.id}`,
+    name: prompt.name,
+    description: [server.name, prompt.description].filter(Boolean).join(' · '),
+    content: variables.map((name) => `{{${name}}}`).join('\n'),
+    createdAt: 0,
+    updatedAt: 0,
+    mcpPrompt: { serverId: server.id, name: prompt.name },
+  };
+}
+
+export async function listMcpPromptTemplates(servers: McpServerSettings[]) {
+  const lists = await Promise.all(
+    servers.map(async (server) => {
+      try {
+        const prompts = await withMcpClient(server, (client) => client.listPrompts());
+        return prompts.map((prompt) => mcpPromptToTemplate(server, prompt));
+      } catch {
+        // Servers without prompt support just contribute nothing
+        return [];
+      }
+    })
+  );
+  return lists.flat();
+}
+
+// The text of every message the prompt expands to, in order
+export function promptMessagesToText(messages: McpPromptMessage[]) {
+  return messages
+    .map((message) => {
+      const { content } = message;
+      if (content.type === 'text' && typeof content.text === 'string') return content.text;
+      const resource = content.resource as Record<string, unknown> | undefined;
+      if (content.type === 'resource' && typeof resource?.text === 'string') {
+        return resource.text;
+      }
+      return '';
+    })
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+export async function getMcpPromptText(
+  server: McpServerSettings,
+  name: string,
+  values: Record<string, string>
+) {
+  // Optional arguments left empty in the form are not sent
+  const args = Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value.trim().length > 0)
+  );
+  const messages = await withMcpClient(server, (client) => client.getPrompt(name, args));
+  return promptMessagesToText(messages);
+}
@@ -0,0 +1,201 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import type { McpServerSettings } from '../types';
+import * as db from '../db';
+import { createMockMcpServer, type MockMcpServer } from '../tests/mockMcpServer';
+import { McpConnectionManager, mcpConnections } from './mcpConnections';
+import { createMcpTools, discoverMcpToolNames } from './mcpTools';
+
+const server: McpServerSettings = {
+  id: 'mock',
+  name: 'Mock',
+  enabled: true,
+  url: 'https://mcp.test/mcp',
+  transport: 'http',
+  authType: 'token',
+  authToken: '',
+  enabledTools: [],
+};
+
+const PIXEL = btoa('fake-png-bytes');
+
+function getToolExecute(tool: unknown) {
+  const candidate = tool as { execute?: unknown };
+  if (typeof candidate.execute !== 'function') {
+    throw new Error('Tool execute function is unavailable in test.');
+  }
+  const execute = candidate.execute as (
+    input: Record<string, unknown>,
+    options: { toolCallId: string; messages: unknown[] }
+  ) => Promise<Record<string, unknown>>;
+  return (input: Record<string, unknown>, toolCallId = 'call-1') =>
+    execute(input, { toolCallId, messages: [] });
+}
+
+function createServer() {
+  return createMockMcpServer({
+    tools: [
+      {
+        name: 'search-docs',
+        description: 'Search the docs',
+        inputSchema: { type: 'object', properties: { query: { type: 'string' } } },
+        result: (args) => `Results for ${String(args.query)}`,
+      },
+      {
+        name: 'render_chart',
+        result: {
+          content: [
+            { type: 'text', text: 'Rendered chart' },
+            { type: 'image', data: PIXEL, mimeType: 'image/png' },
+          ],
+        },
+      },
+      {
+        name: 'explode',
+        result: () => {
+          throw new Error('Disk full');
+        },
+      },
+      { name: 'strict', error: { code: -32602, message: 'Invalid arguments' } },
+      {
+        name: 'slow_import',
+        delayMs: 20,
+        result: (_args, context) => {
+          context.progress(1, 2, 'Halfway');
+          context.progress(2, 2);
+          return 'Imported';
+        },
+      },
+    ],
+  });
+}
+
+describe('mcpTools with a mock server', () => {
+  let mock: MockMcpServer;
+  let connections: McpConnectionManager;
+
+  beforeEach(() => {
+    mock = createServer();
+    connections = new McpConnectionManager();
+    vi.stubGlobal('fetch', vi.fn(mock.fetch));
+  });
+
+  afterEach(() => {
+    connections.disconnect(server.id);
+    mcpConnections.disconnect(server.id);
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  test('discovers tool names and refreshes the cached list', async () => {
+    await expect(discoverMcpToolNames(server)).resolves.toEqual([
+      'search-docs',
+      'render_chart',
+      'explode',
+      'strict',
+      'slow_import',
+    ]);
+
+    mock.setTools([{ name: 'only_tool' }], { announce: false });
+
+    await expect(discoverMcpToolNames(server)).resolves.toEqual(['only_tool']);
+    const methods = mock.requests.map((request) => request.method);
+    expect(methods.filter((method) => method === 'initialize')).toHaveLength(1);
+    expect(methods.filter((method) => method === 'tools/list')).toHaveLength(2);
+  });
+
+  test('aliases tools with safe names and filters by enabled tools', async () => {
+    const plain = await createMcpTools({ server, connections });
+    expect(Object.keys(plain.tools)).toContain('mcp_search_docs');
+    expect(plain.aliases.mcp_search_docs).toEqual({
+      originalName: 'search-docs',
+      displayName: 'search-docs',
+    });
+
+    const prefixed = await createMcpTools({
+      server: { ...server, enabledTools: ['search-docs', 'strict'] },
+      connections,
+      aliasPrefix: 'Docs Server',
+      displayNamePrefix: 'Docs',
+    });
+    expect(Object.keys(prefixed.tools).sort()).toEqual([
+      'mcp_Docs_Server_search_docs',
+      'mcp_Docs_Server_strict',
+    ]);
+    expect(prefixed.aliases.mcp_Docs_Server_strict.displayName).toBe('Docs:strict');
+  });
+
+  test('asks for confirmation before calling the server', async () => {
+    const confirmToolCall = vi.fn(async () => false);
+    const { tools } = await createMcpTools({ server, connections, confirmToolCall });
+    const execute = getToolExecute(tools.mcp_search_docs);
+
+    await expect(execute({ query: 'graphs' }, 'call-9')).resolves.toEqual({
+      denied: true,
+      message: 'Execution denied for MCP tool "search-docs".',
+    });
+    expect(confirmToolCall).toHaveBeenCalledWith('search-docs', { query: 'graphs' }, 'call-9');
+    expect(mock.requests.some((request) => request.method === 'tools/call')).toBe(false);
+
+    confirmToolCall.mockResolvedValue(true);
+    const output = await execute({ query: 'graphs' });
+    expect(output.text).toBe('Results for graphs');
+    expect(mock.requests.find((request) => request.method === 'tools/call')?.params).toEqual({
+      name: 'search-docs',
+      arguments: { query: 'graphs' },
+    });
+  });
+
+  test('stores images as artifacts and keeps tool failures readable', async () => {
+    const save = vi.spyOn(db, 'saveToolArtifact').mockResolvedValue(undefined);
+    vi.spyOn(db, 'getToolArtifactBytes').mockResolvedValue(0);
+    const { tools } = await createMcpTools({ server, connections, conversationId: 'c1' });
+
+    const chart = await getToolExecute(tools.mcp_render_chart)({});
+    expect(chart.text).toContain('Rendered chart');
+    expect(chart.text).toContain('[image (image/png, 14 B), shown to the user]');
+    expect(chart.artifacts).toMatchObject([{ kind: 'image', stored: true }]);
+    expect(save).toHaveBeenCalledWith(
+      expect.objectContaining({ conversationId: 'c1', mimeType: 'image/png', size: 14 })
+    );
+
+    const failed = await getToolExecute(tools.mcp_explode)({});
+    expect(failed).toMatchObject({ text: 'Disk full', isError: true });
+
+    await expect(getToolExecute(tools.mcp_strict)({})).rejects.toThrow('Invalid arguments');
+    expect(connections.getHealth().mock.status).toBe('connected');
+  });
+
+  test('streams progress from slow tools over SSE', async () => {
+    const onProgress = vi.fn();
+    const { tools } = await createMcpTools({
+      server: { ...server, transport: 'sse' },
+      connections,
+      onProgress,
+    });
+
+    const output = await getToolExecute(tools.mcp_slow_import)({}, 'call-2');
+
+    expect(output.text).toBe('Imported');
+    expect(onProgress).toHaveBeenNthCalledWith(1, 'call-2', {
+      progress: 1,
+      total: 2,
+      message: 'Halfway',
+    });
+    expect(onProgress).toHaveBeenNthCalledWith(2, 'call-2', { progress: 2, total: 2 });
+  });
+
+  test('starts a new session and retries after the server forgets the old one', async () => {
+    const { tools } = await createMcpTools({ server, connections });
+    const execute = getToolExecute(tools.mcp_search_docs);
+    const [firstSession] = mock.sessionIds;
+
+    mock.expireSessions();
+
+    await expect(execute({ query: 'a' })).resolves.toMatchObject({ text: 'Results for a' });
+    expect(mock.sessionIds).toHaveLength(1);
+    expect(mock.sessionIds[0]).not.toBe(firstSession);
+    const methods = mock.requests.map((request) => request.method);
+    expect(methods.filter((method) => method === 'initialize')).toHaveLength(2);
+    expect(connections.getHealth().mock.status).toBe('connected');
+  });
+});
@@ -1,36 +1,14 @@
 import { jsonSchema, type ToolSet, tool } from 'ai';
-import { McpHttpClient, type McpConnectionConfig, type McpToolDescriptor } from './mcpClient';
+import type { ConversationId, McpServerSettings } from '../types';
+import { getToolArtifactBytes, saveToolArtifact } from '../db';
+import { storeMcpToolContent } from './mcpContent';
+import type { McpProgress, McpToolDescriptor } from './mcpClient';
+import { mcpConnections, type McpConnectionManager } from './mcpConnections';
 
 function toAlias(name: string) {
   return `mcp_${name.replace(/[^a-zA-Z0-9_]/g, '_')}`;
 }
 
-function normalizeToolResult(result: unknown) {
-  if (!result || typeof result !== 'object') return result;
-  const record = result as Record<string, unknown>;
-
-  if (
-    Array.isArray(record.content) &&
-    record.content.every((part) => part && typeof part === 'object')
-  ) {
-    const textParts = (record.content as Array<Record<string, unknown>>)
-      .map((part) => {
-        if (part.type === 'text' && typeof part.text === 'string') return part.text;
-        return '';
-      })
-      .filter(Boolean);
-
-    if (textParts.length > 0) {
-      return {
-        text: textParts.join('\n'),
-        structuredContent: record.structuredContent,
-      };
-    }
-  }
-
-  return result;
-}
-
 export interface McpToolsBundle {
   tools: ToolSet;
   aliases: Record<
@@ -40,15 +18,20 @@ export interface McpToolsBundle {
       displayName: string;
     }
   >;
-  close: () => Promise<void>;
 }
 
 interface CreateMcpToolsParams {
-  config: McpConnectionConfig;
-  enabledTools: string[];
+  server: McpServerSettings;
+  conversationId?: ConversationId; // Where images and other binary results are kept
   aliasPrefix?: string;
   displayNamePrefix?: string;
-  confirmToolCall?: (toolName: string, args: Record<string, unknown>) => Promise<boolean>;
+  confirmToolCall?: (
+    toolName: string,
+    args: Record<string, unknown>,
+    toolCallId?: string
+  ) => Promise<boolean>;
+  onProgress?: (toolCallId: string, progress: McpProgress) => void;
+  connections?: McpConnectionManager;
 }
 
 function shouldEnableTool(toolName: string, enabledTools: string[]) {
@@ -69,8 +52,8 @@ function buildInputSchema(descriptor: McpToolDescriptor) {
 }
 
 export async function createMcpTools(params: CreateMcpToolsParams): Promise<McpToolsBundle> {
-  const client = new McpHttpClient(params.config);
-  const descriptors = await client.listTools();
+  const connections = params.connections ?? mcpConnections;
+  const descriptors = await connections.listTools(params.server);
 
   const tools: ToolSet = {};
   const aliases: Record<
@@ -84,7 +67,7 @@ export async function createMcpTools(params: CreateMcpToolsParams): Promise<McpT
   const displayPrefix = params.displayNamePrefix?.trim();
 
   for (const descriptor of descriptors) {
-    if (!shouldEnableTool(descriptor.name, params.enabledTools)) {
+    if (!shouldEnableTool(descriptor.name, params.server.enabledTools)) {
       continue;
     }
     const alias = aliasPrefix
@@ -97,11 +80,11 @@ export async function createMcpTools(params: CreateMcpToolsParams): Promise<McpT
     tools[alias] = tool({
       description: descriptor.description || `MCP tool ${descriptor.name}`,
       inputSchema: buildInputSchema(descriptor),
-      execute: async (args: unknown) => {
+      execute: async (args: unknown, { toolCallId, abortSignal }) => {
         const inputArgs =
           args && typeof args === 'object' ? (args as Record<string, unknown>) : {};
         if (params.confirmToolCall) {
-          const allowed = await params.confirmToolCall(descriptor.name, inputArgs);
+          const allowed = await params.confirmToolCall(descriptor.name, inputArgs, toolCallId);
           if (!allowed) {
             return {
               denied: true,
@@ -109,8 +92,16 @@ export async function createMcpTools(params: CreateMcpToolsParams): Promise<McpT
             };
           }
         }
-        const result = await client.callTool(descriptor.name, inputArgs);
-        return normalizeToolResult(result);
+        const onProgress = params.onProgress;
+        const result = await connections.callTool(params.server, descriptor.name, inputArgs, {
+          onProgress: onProgress ? (progress) => onProgress(toolCallId, progress) : undefined,
+          signal: abortSignal,
+        });
+        return storeMcpToolContent(result, {
+          conversationId: params.conversationId,
+          save: saveToolArtifact,
+          getStoredBytes: getToolArtifactBytes,
+        });
       },
     });
   }
@@ -118,16 +109,11 @@ export async function createMcpTools(params: CreateMcpToolsParams): Promise<McpT
   return {
     tools,
     aliases,
-    close: () => client.close(),
   };
 }
 
-export async function discoverMcpToolNames(config: McpConnectionConfig): Promise<string[]> {
-  const client = new McpHttpClient(config);
-  try {
-    const tools = await client.listTools();
-    return tools.map((tool) => tool.name);
-  } finally {
-    await client.close();
-  }
+// Always asks the server, refreshing the cached list on the way
+export async function discoverMcpToolNames(server: McpServerSettings): Promise<string[]> {
+  const tools = await mcpConnections.listTools(server, { refresh: true });
+  return tools.map((tool) => tool.name);
 }
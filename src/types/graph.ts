@@ -6,11 +6,18 @@ export type ConversationId = string;
 export type ProjectId = string;
 export type RagScopeType = 'conversation' | 'project';
 export type MemoryScopeType = 'conversation' | 'project' | 'user';
+export type PromptTemplateScopeType = 'project' | 'user';
 
 // Message role - standard LLM convention
 export type MessageRole = 'user' | 'assistant' | 'system';
 
-export type AttachmentSource = 'handle' | 'memory';
+export type AttachmentSource = 'handle' | 'memory' | 'mcp';
+
+// Resource on a configured MCP server, re-read whenever the attachment is processed
+export interface McpResourceRef {
+  serverId: string;
+  uri: string;
+}
 
 export interface FileAttachment {
   id: string;
@@ -20,6 +27,8 @@ export interface FileAttachment {
   lastModified: number;
   source: AttachmentSource;
   handleId?: string;
+  mcpResource?: McpResourceRef; // set when source is 'mcp'
+  blobId?: string; // Stored copy of an image/PDF without a file handle (attachmentBlobs)
 }
 
 export interface PendingAttachment extends FileAttachment {
@@ -32,16 +41,43 @@ export interface Message {
   nodeId: NodeId;
   role: MessageRole;
   content: string;
+  reasoning?: string; // Reasoning trace streamed by thinking models, kept apart from content
   createdAt: number;
   isStreaming: boolean;
   model?: string;
   tokenCount?: number;
   finishReason?: string;
+  latencyMs?: number; // Time from request to final token for assistant replies
+  usage?: MessageUsage;
   attachments?: FileAttachment[];
   isAttachmentContext?: boolean;
   isCustomInstruction?: boolean;
   isProjectInstruction?: boolean;
   isProjectAttachmentContext?: boolean;
+  isMergeSummary?: boolean;
+  sourceParentId?: NodeId; // Merge parent this message was pulled in through
+  toolArtifacts?: ToolResultArtifact[]; // Images and resources returned by tools in this reply
+}
+
+// Token usage and cost reported for an assistant reply
+export interface MessageUsage {
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens?: number;
+  cachedTokens?: number;
+  totalTokens: number;
+  costUsd?: number;
+  costSource?: 'provider' | 'estimate'; // Provider-reported or derived from model pricing
+  generationId?: string;
+}
+
+// How a merge node combines the branches of its parents
+export type MergeStrategy = 'interleave' | 'concatenate' | 'summarize';
+
+export interface MergeBranchSummary {
+  content: string;
+  createdAt: number;
+  sourceSignature: string;
 }
 
 // Status of a conversation node
@@ -58,7 +94,13 @@ export interface ConversationNode {
   createdAt: number;
   updatedAt: number;
   isCollapsed: boolean;
-  label?: string;
+  label?: string; // Set by the user; wins over autoLabel
+  autoLabel?: string; // Generated after the node finishes streaming
+  branchSummary?: {
+    content: string; // One paragraph about the branch from the root to this node
+    createdAt: number;
+  };
+  tags?: string[]; // Normalized, see utils/tags
   branchedFromMessageId?: MessageId;
   isReply?: boolean; // True if this node is a reply/comment thread
   parentNodeId?: NodeId; // Canonical parent in the active thread path
@@ -67,6 +109,9 @@ export interface ConversationNode {
     content: string;
     createdAt: number;
   };
+  isMerge?: boolean; // True if context is combined from all parents
+  mergeStrategy?: MergeStrategy;
+  mergeSummaries?: Record<NodeId, MergeBranchSummary>; // Keyed by parent node id
 }
 
 // Edge connecting two nodes (parent -> child)
@@ -99,6 +144,9 @@ export interface Conversation {
   flowMode?: boolean;
   flowRootNodeId?: NodeId;
   flowNodeIds?: NodeId[];
+  tags?: string[];
+  toolPolicy?: ToolPolicy; // overrides the project policy and global tool settings
+  deletedAt?: number; // set while the chat is in the trash
 }
 
 // Model information from OpenRouter
@@ -112,6 +160,7 @@ export interface LLMModel {
   };
   supportedParameters?: string[];
   supportsReasoning?: boolean;
+  inputModalities?: string[]; // e.g. text, image, file; undefined when the endpoint does not say
 }
 
 export interface ContextSettings {
@@ -121,6 +170,7 @@ export interface ContextSettings {
   includeProjectInstructions?: boolean;
   includeAttachmentContext?: boolean;
   includeProjectAttachmentContext?: boolean;
+  includeReasoning?: boolean;
 }
 
 export type MemoryCategory = 'fact' | 'preference' | 'constraint' | 'context';
@@ -201,6 +251,7 @@ export interface ToolSettings {
   permissions?: {
     requireConfirmation?: boolean;
     sensitiveTools?: string[];
+    rules?: Array<Partial<ToolApprovalRule>>;
   };
   datetimeNow?: {
     enabled?: boolean;
@@ -240,6 +291,7 @@ export interface ToolSettings {
     enabled?: boolean;
     url?: string;
     transport?: 'http' | 'sse';
+    authType?: 'token' | 'oauth';
     authToken?: string;
     enabledTools?: string[];
   }>;
@@ -255,18 +307,38 @@ export interface ToolSettings {
       enabled?: boolean;
       url?: string;
       transport?: 'http' | 'sse';
+      authType?: 'token' | 'oauth';
       authToken?: string;
       enabledTools?: string[];
     }>;
   };
 }
 
+export type LocalToolKey =
+  | 'datetimeNow'
+  | 'calculator'
+  | 'searchMessages'
+  | 'searchContextChunks'
+  | 'attachmentReader'
+  | 'daytona';
+
+// Project or chat overrides on top of the global tool settings; unset fields inherit
+export interface ToolPolicy {
+  enabled?: boolean;
+  maxSteps?: number;
+  requireConfirmation?: boolean;
+  sensitiveTools?: string[];
+  localTools?: Partial<Record<LocalToolKey, boolean>>;
+  mcpServers?: Partial<Record<string, boolean>>; // keyed by MCP server id
+}
+
 export interface McpServerSettings {
   id: string;
   name: string;
   enabled: boolean;
   url: string;
   transport: 'http' | 'sse';
+  authType: 'token' | 'oauth'; // oauth tokens are kept apart from settings, see tools/mcpOAuth
   authToken: string;
   enabledTools: string[];
 }
@@ -278,6 +350,7 @@ export interface NormalizedToolSettings {
   permissions: {
     requireConfirmation: boolean;
     sensitiveTools: string[];
+    rules: ToolApprovalRule[];
   };
   datetimeNow: {
     enabled: boolean;
@@ -319,6 +392,43 @@ export interface NormalizedToolSettings {
 
 export type ToolTraceStatus = 'started' | 'succeeded' | 'failed' | 'denied';
 
+// Non-text part of an MCP tool result; binary data sits in the toolArtifacts table
+export interface ToolResultArtifact {
+  id: string;
+  kind: 'image' | 'audio' | 'resource' | 'resource_link';
+  mimeType?: string;
+  name?: string;
+  uri?: string;
+  size?: number;
+  stored: boolean; // false when over the size limit or there was nothing to store
+}
+
+export interface StoredToolArtifact {
+  id: string;
+  conversationId: ConversationId;
+  mimeType: string;
+  data: Blob;
+  size: number;
+  createdAt: number;
+}
+
+// Copy of an attached image or PDF kept for resending to models that read it natively
+export interface StoredAttachmentBlob {
+  id: string;
+  conversationId: ConversationId;
+  mimeType: string;
+  data: Blob;
+  size: number;
+  createdAt: number;
+}
+
+// Latest progress notification of a running MCP tool call
+export interface ToolTraceProgress {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
 export interface ToolTraceEntry {
   id: string;
   conversationId: ConversationId;
@@ -333,6 +443,46 @@ export interface ToolTraceEntry {
   startedAt: number;
   finishedAt?: number;
   durationMs?: number;
+  approval?: ToolApprovalRecord;
+  progress?: ToolTraceProgress;
+  artifacts?: ToolResultArtifact[];
+}
+
+// Answers offered when a sensitive tool asks for approval
+export type ToolApprovalDecision =
+  | 'allow-once'
+  | 'allow-conversation'
+  | 'allow-always'
+  | 'deny-once'
+  | 'deny-always';
+
+// Saved approval answer; limited to one chat when conversationId is set
+export interface ToolApprovalRule {
+  id: string;
+  toolName: string; // exact name or trailing * pattern, e.g. mcp:*
+  action: 'allow' | 'deny';
+  conversationId?: ConversationId;
+  createdAt: number;
+}
+
+// How a tool call was let through or blocked, kept on its trace for auditing
+export interface ToolApprovalRecord {
+  allowed: boolean;
+  decidedBy: 'user' | 'rule' | 'auto';
+  decision?: ToolApprovalDecision; // the user's answer when decidedBy is 'user'
+  ruleId?: string;
+  decidedAt: number;
+}
+
+export interface ToolApprovalRequest {
+  id: string;
+  conversationId: ConversationId;
+  nodeId: NodeId;
+  toolName: string;
+  source: 'local' | 'mcp';
+  serverName?: string; // MCP server label, shown next to the tool name
+  args: Record<string, unknown>;
+  requestedAt: number;
 }
 
 export interface Project {
@@ -342,8 +492,34 @@ export interface Project {
   customProfile?: string;
   customResponseStyle?: string;
   attachments?: FileAttachment[];
+  toolPolicy?: ToolPolicy; // overrides global tool settings for the project's chats
   createdAt: number;
   updatedAt: number;
+  deletedAt?: number; // set while the project and its chats are in the trash
+}
+
+export type TrashItemType = 'conversation' | 'project' | 'nodes';
+
+// Nodes removed from a graph, kept with their messages and edges until restored or purged
+export interface TrashedNodes {
+  id: string;
+  conversationId: ConversationId;
+  nodes: ConversationNode[];
+  edges: ConversationEdge[];
+  deletedAt: number;
+}
+
+// Reusable prompt with {{variable}} placeholders; user templates use scopeId 'global'
+export interface PromptTemplate {
+  id: string;
+  scopeType: PromptTemplateScopeType;
+  scopeId: string;
+  name: string;
+  description?: string;
+  content: string;
+  createdAt: number;
+  updatedAt: number;
+  mcpPrompt?: { serverId: string; name: string }; // listed live from an MCP server, never saved
 }
 
 export interface MessageSearchResult {
@@ -358,6 +534,37 @@ export interface MessageSearchResult {
   projectName?: string;
   isReply?: boolean;
   parentNodeId?: NodeId;
+  conversationTags?: string[];
+  nodeTags?: string[];
+  score?: number;
+  snippet?: SearchSnippet;
+  branch?: SearchResultBranch;
+}
+
+// Where a search hit sits in its conversation graph
+export interface SearchResultBranch {
+  branchNodeId: NodeId; // The hit's node, or for replies the node they hang off
+  path: Array<{ nodeId: NodeId; label: string }>; // Root first
+  isOnActiveBranch: boolean;
+}
+
+// Excerpt of a message with [start, end) character ranges of the matched terms
+export interface SearchSnippet {
+  text: string;
+  ranges: Array<[number, number]>;
+}
+
+// One assistant reply with usage, joined with where it lives
+export interface UsageRecord {
+  messageId: MessageId;
+  nodeId: NodeId;
+  conversationId: ConversationId;
+  conversationTitle: string;
+  projectId?: ProjectId;
+  projectName?: string;
+  model: string;
+  createdAt: number;
+  usage: MessageUsage;
 }
 
 // API request tracking for parallel requests
@@ -391,7 +598,7 @@ export interface CycleCheckResult {
 }
 
 // View mode
-export type ViewMode = 'chat' | 'graph' | 'context';
+export type ViewMode = 'chat' | 'graph' | 'context' | 'compare';
 
 export interface StoredFileHandle {
   id: string;
@@ -410,6 +617,7 @@ export interface Toast {
   type: ToastType;
   title: string;
   message?: string;
+  action?: { label: string; onClick: () => void };
   createdAt: number;
 }
 
@@ -430,14 +638,71 @@ export interface RagChunk {
   chunkIndex: number;
   chunkText: string;
   chunkTokenEstimate: number;
+  location?: string; // Page, sheet or section anchor for extracted documents
+  page?: number;
   embedding?: number[];
   embeddingModel?: string;
   createdAt: number;
   updatedAt: number;
 }
 
+// Embedding of one message for semantic search; contentHash marks it stale after edits
+export interface MessageEmbedding {
+  messageId: MessageId;
+  conversationId: ConversationId;
+  embeddingModel: string;
+  contentHash: string;
+  embedding: number[];
+  updatedAt: number;
+}
+
 export interface RagScopeStats {
   chunkCount: number;
   sourceCount: number;
   latestUpdatedAt: number | null;
 }
+
+export type BundleScope =
+  | { type: 'conversation'; id: ConversationId }
+  | { type: 'project'; id: ProjectId }
+  | { type: 'database' };
+
+// Stored attachment copy in a bundle, with its contents as a data URL
+export interface BundleAttachmentBlob {
+  id: string;
+  conversationId: ConversationId;
+  mimeType: string;
+  dataUrl: string;
+  size: number;
+  createdAt: number;
+}
+
+/**
+ * Portable JSON export of conversations, projects and their knowledge data.
+ * Trashed records, prompt templates, tool artifacts and message embeddings are
+ * not included; search embeddings are rebuilt on the importing device.
+ */
+export interface GraphChatBundle {
+  format: 'graph-llm-chat-bundle';
+  version: number;
+  schemaVersion: number;
+  exportedAt: number;
+  scope: BundleScope;
+  includesEmbeddings: boolean;
+  conversations: Conversation[];
+  nodes: ConversationNode[]; // Messages are embedded in their nodes
+  edges: ConversationEdge[];
+  projects: Project[];
+  ragChunks: RagChunk[];
+  memories: MemoryItem[];
+  toolTraces: ToolTraceEntry[];
+  attachmentBlobs: BundleAttachmentBlob[]; // Copies referenced by message attachments
+}
+
+export interface BundleImportResult {
+  conversationIds: ConversationId[];
+  projectIds: ProjectId[];
+  nodeCount: number;
+  messageCount: number;
+  toolPoliciesReset: number; // Chats/projects whose bundled tool policy was dropped
+}
@@ -82,6 +82,7 @@ export interface RetrievalChunkCandidate {
   attachmentSize: number;
   chunkIndex: number;
   chunkText: string;
+  location?: string;
   score: number;
   order: number;
 }
@@ -0,0 +1,115 @@
+import { describe, expect, test } from 'vitest';
+import { buildBranchMarkdown, collectBranchExport, getBranchExportFileName } from './branchExport';
+import type { Conversation, ConversationNode, Message, ToolTraceEntry } from '../types';
+
+const makeMessage = (id: string, nodeId: string, role: Message['role'], content: string): Message => ({
+  id,
+  nodeId,
+  role,
+  content,
+  createdAt: 1,
+  isStreaming: false,
+});
+
+const makeNode = (
+  id: string,
+  messages: Message[],
+  overrides: Partial<ConversationNode> = {}
+): ConversationNode => ({
+  id,
+  conversationId: 'c1',
+  messages,
+  position: { x: 0, y: 0 },
+  status: 'idle',
+  createdAt: 1,
+  updatedAt: 1,
+  isCollapsed: false,
+  ...overrides,
+});
+
+const conversation: Conversation = {
+  id: 'c1',
+  title: 'Euler & friends',
+  rootNodeId: 'root',
+  model: 'test/model',
+  createdAt: 1,
+  updatedAt: 1,
+  systemPrompt: 'Be concise.',
+};
+
+const root = makeNode('root', [
+  makeMessage('m1', 'root', 'user', 'What is $e^{i\\pi}$?'),
+  { ...makeMessage('m2', 'root', 'assistant', 'It equals $-1$.'), model: 'test/model' },
+]);
+const child = makeNode('child', [makeMessage('m3', 'child', 'user', 'Show code')], {
+  parentNodeId: 'root',
+});
+const reply = makeNode(
+  'reply',
+  [
+    makeMessage('m4', 'reply', 'user', 'Why?'),
+    makeMessage('m5', 'reply', 'assistant', "Euler's identity.\nSee any textbook."),
+  ],
+  { parentNodeId: 'root', isReply: true }
+);
+const trace: ToolTraceEntry = {
+  id: 't1',
+  conversationId: 'c1',
+  nodeId: 'child',
+  toolName: 'calculator',
+  source: 'local',
+  status: 'succeeded',
+  inputPreview: '{"expression":"1+1"}',
+  outputPreview: '2',
+  startedAt: 1,
+  durationMs: 12,
+};
+
+function collect(includeReplies: boolean, includeToolTraces: boolean) {
+  return collectBranchExport({
+    conversation,
+    pathNodeIds: ['root', 'child'],
+    nodes: new Map([
+      ['root', root],
+      ['child', child],
+      ['reply', reply],
+    ]),
+    getReplies: (nodeId) => (nodeId === 'root' ? [reply] : []),
+    toolTraces: [trace],
+    options: { includeReplies, includeToolTraces },
+    exportedAt: Date.UTC(2025, 0, 2, 3, 4),
+  });
+}
+
+describe('branch export', () => {
+  test('renders the path as Markdown without optional sections', () => {
+    const markdown = buildBranchMarkdown(collect(false, false));
+    expect(markdown).toContain('# Euler & friends');
+    expect(markdown).toContain('_Exported 2025-01-02 03:04_');
+    expect(markdown).toContain('> **System prompt:** Be concise.');
+    expect(markdown).toContain('## User\n\nWhat is $e^{i\\pi}$?');
+    expect(markdown).toContain('## Assistant (test/model)\n\nIt equals $-1$.');
+    expect(markdown.indexOf('Show code')).toBeGreaterThan(markdown.indexOf('It equals'));
+    expect(markdown).not.toContain('[^');
+    expect(markdown).not.toContain('<details>');
+  });
+
+  test('adds reply threads as footnotes on the last message of a node', () => {
+    const markdown = buildBranchMarkdown(collect(true, false));
+    expect(markdown).toContain('It equals $-1$. [^reply-1]');
+    expect(markdown).toContain(
+      "[^reply-1]: **User:** Why?\n    \n    **Assistant:** Euler's identity.\n    See any textbook."
+    );
+  });
+
+  test('adds tool traces as collapsible sections', () => {
+    const markdown = buildBranchMarkdown(collect(false, true));
+    expect(markdown).toContain('<summary>Tool: calculator (local, succeeded, 12 ms)</summary>');
+    expect(markdown).toContain('```\n{"expression":"1+1"}\n```');
+    expect(markdown.indexOf('<details>')).toBeGreaterThan(markdown.indexOf('Show code'));
+  });
+
+  test('builds a slugged file name', () => {
+    expect(getBranchExportFileName(collect(false, false), 'html')).toBe('euler-friends.html');
+  });
+});
@@ -0,0 +1,174 @@
+import type {
+  Conversation,
+  ConversationNode,
+  Message,
+  NodeId,
+  ToolTraceEntry,
+} from '../types';
+
+export interface BranchExportOptions {
+  includeReplies: boolean;
+  includeToolTraces: boolean;
+}
+
+export interface BranchExportNode {
+  node: ConversationNode;
+  messages: Message[];
+  replies: ConversationNode[];
+  toolTraces: ToolTraceEntry[];
+}
+
+export interface BranchExportData {
+  title: string;
+  systemPrompt?: string;
+  exportedAt: number;
+  nodes: BranchExportNode[];
+}
+
+/**
+ * Collects the root -> leaf path with optional reply threads and tool traces
+ */
+export function collectBranchExport(params: {
+  conversation: Conversation;
+  pathNodeIds: NodeId[];
+  nodes: Map<NodeId, ConversationNode>;
+  getReplies: (nodeId: NodeId) => ConversationNode[];
+  toolTraces: ToolTraceEntry[];
+  options: BranchExportOptions;
+  exportedAt?: number;
+}): BranchExportData {
+  const { conversation, pathNodeIds, nodes, getReplies, toolTraces, options } = params;
+  const tracesByNode = new Map<NodeId, ToolTraceEntry[]>();
+  if (options.includeToolTraces) {
+    for (const entry of toolTraces) {
+      const existing = tracesByNode.get(entry.nodeId) || [];
+      existing.push(entry);
+      tracesByNode.set(entry.nodeId, existing);
+    }
+  }
+
+  const exportNodes: BranchExportNode[] = [];
+  for (const nodeId of pathNodeIds) {
+    const node = nodes.get(nodeId);
+    if (!node || node.isReply) continue;
+    exportNodes.push({
+      node,
+      messages: node.messages.filter((message) => message.role !== 'system'),
+      replies: options.includeReplies ? getReplies(nodeId) : [],
+      toolTraces: (tracesByNode.get(nodeId) || []).sort((a, b) => a.startedAt - b.startedAt),
+    });
+  }
+
+  return {
+    title: conversation.title,
+    systemPrompt: conversation.systemPrompt,
+    exportedAt: params.exportedAt ?? Date.now(),
+    nodes: exportNodes,
+  };
+}
+
+export function buildBranchMarkdown(data: BranchExportData): string {
+  const lines: string[] = [
+    `# ${data.title}`,
+    '',
+    `_Exported ${formatTimestamp(data.exportedAt)}_`,
+    '',
+  ];
+  const footnotes: string[] = [];
+
+  if (data.systemPrompt?.trim()) {
+    lines.push(`> **System prompt:** ${data.systemPrompt.trim().replace(/\n/g, '\n> ')}`, '');
+  }
+
+  for (const entry of data.nodes) {
+    entry.messages.forEach((message, index) => {
+      lines.push(`## ${formatRole(message)}`, '');
+      let content = message.content.trim() || '_(empty)_';
+      const isLast = index === entry.messages.length - 1;
+      if (isLast && entry.replies.length > 0) {
+        const refs = entry.replies.map((reply) => {
+          const label = `reply-${footnotes.length + 1}`;
+          footnotes.push(buildReplyFootnote(label, reply));
+          return `[^${label}]`;
+        });
+        content = `${content} ${refs.join(' ')}`;
+      }
+      lines.push(content, '');
+      if (message.attachments && message.attachments.length > 0) {
+        lines.push(
+          `_Attachments: ${message.attachments.map((attachment) => attachment.name).join(', ')}_`,
+          ''
+        );
+      }
+    });
+
+    for (const trace of entry.toolTraces) {
+      lines.push(...buildToolTraceSection(trace), '');
+    }
+  }
+
+  if (footnotes.length > 0) {
+    lines.push('---', '', ...footnotes.flatMap((footnote) => [footnote, '']));
+  }
+
+  return `${lines.join('\n').trimEnd()}\n`;
+}
+
+function buildReplyFootnote(label: string, reply: ConversationNode): string {
+  const parts = reply.messages
+    .filter((message) => message.role !== 'system' && message.content.trim())
+    .map((message) => {
+      const role = message.role === 'user' ? 'User' : 'Assistant';
+      return `**${role}:** ${message.content.trim()}`;
+    });
+  const body = parts.length > 0 ? parts.join('\n\n') : '_(empty reply thread)_';
+  // Continuation lines must be indented to stay inside the footnote.
+  return `[^${label}]: ${body.replace(/\n/g, '\n    ')}`;
+}
+
+function buildToolTraceSection(trace: ToolTraceEntry): string[] {
+  const meta: string[] = [trace.source, trace.status];
+  if (typeof trace.durationMs === 'number') meta.push(`${trace.durationMs} ms`);
+  const lines = [
+    '<details>',
+    `<summary>Tool: ${escapeHtml(trace.toolName)} (${meta.join(', ')})</summary>`,
+    '',
+  ];
+  if (trace.inputPreview) lines.push('**Input**', '', fence(trace.inputPreview), '');
+  if (trace.outputPreview) lines.push('**Output**', '', fence(trace.outputPreview), '');
+  if (trace.error) lines.push(`**Error:** ${trace.error}`, '');
+  lines.push('</details>');
+  return lines;
+}
+
+function formatRole(message: Message): string {
+  if (message.role === 'user') return 'User';
+  return message.model ? `Assistant (${message.model})` : 'Assistant';
+}
+
+function fence(value: string): string {
+  const longestRun = Math.max(2, ...(value.match(/`+/g) || []).map((run) => run.length));
+  const ticks = '`'.repeat(longestRun + 1);
+  return `${ticks}\n${value}\n${ticks}`;
+}
+
+function formatTimestamp(value: number): string {
+  return new Date(value).toISOString().replace('T', ' ').slice(0, 16);
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function getBranchExportFileName(data: BranchExportData, extension: 'md' | 'html') {
+  const slug = data.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 48);
+  return `${slug || 'branch'}.${extension}`;
+}
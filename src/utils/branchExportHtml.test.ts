@@ -0,0 +1,31 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { renderBranchHtml } from './branchExportHtml';
+
+describe('renderBranchHtml', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test('renders a standalone document with embedded KaTeX fonts', async () => {
+    const fetchMock = vi.fn(
+      async () => new Response(new Blob(['font-bytes'], { type: 'font/woff2' }))
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const html = await renderBranchHtml(
+      '# Notes\n\nEuler: $e^{i\\pi} + 1 = 0$\n\n| a | b |\n| - | - |\n| 1 | 2 |',
+      'Branch <draft>',
+      'dark'
+    );
+
+    expect(html).toContain('<title>Branch &lt;draft&gt;</title>');
+    expect(html).toContain('<body class="dark">');
+    expect(html).toContain('<h1>Notes</h1>');
+    expect(html).toContain('class="katex"');
+    expect(html).toContain('<td>2</td>');
+    expect(html).not.toMatch(/<link\b|<script\b|url\(https?:/);
+    expect(html).toContain('src:url(data:font/woff2;base64,');
+    expect(html).not.toMatch(/\.woff2?\)|\.ttf\)/);
+    expect(fetchMock).toHaveBeenCalled();
+  });
+});
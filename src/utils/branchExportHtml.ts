@@ -0,0 +1,111 @@
+import { createElement } from 'react';
+import katexCss from 'katex/dist/katex.min.css?inline';
+import { MarkdownRenderer } from '../components/shared/MarkdownRenderer';
+import { escapeHtml } from './branchExport';
+
+const BASE_STYLES = `
+  body { margin: 0; font-family: ui-sans-serif, system-ui, -apple-system, 'Segoe UI', sans-serif; line-height: 1.6; }
+  body.light { background: #ffffff; color: #1f2937; }
+  body.dark { background: #111827; color: #e5e7eb; }
+  main { max-width: 48rem; margin: 0 auto; padding: 2rem 1.5rem 4rem; }
+  h1, h2, h3 { line-height: 1.25; }
+  h2 { margin-top: 2rem; padding-top: 1rem; border-top: 1px solid rgba(148, 163, 184, 0.3); font-size: 1.1rem; }
+  a { color: #2563eb; }
+  blockquote { margin: 1rem 0; padding-left: 1rem; border-left: 3px solid #94a3b8; color: inherit; opacity: 0.85; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid rgba(148, 163, 184, 0.5); padding: 0.25rem 0.5rem; }
+  code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; }
+  details { margin: 1rem 0; padding: 0.5rem 0.75rem; border: 1px solid rgba(148, 163, 184, 0.4); border-radius: 0.5rem; }
+  summary { cursor: pointer; font-weight: 600; }
+  .footnotes { font-size: 0.9rem; }
+`;
+
+const FONT_SOURCES_PATTERN = /src:([^;}]*)/g;
+const WOFF2_SOURCE_PATTERN = /url\(["']?([^"')]+)["']?\)\s*format\(["']?woff2["']?\)/;
+
+let katexStylesRequest: Promise<string> | null = null;
+
+/**
+ * KaTeX CSS with its woff2 fonts embedded as data URLs, so formulas render
+ * without network access. A font that cannot be loaded keeps its URL and the
+ * browser falls back to a system font.
+ */
+export function getStandaloneKatexStyles(): Promise<string> {
+  if (!katexStylesRequest) {
+    katexStylesRequest = inlineFontSources(katexCss).catch((error) => {
+      katexStylesRequest = null;
+      throw error;
+    });
+  }
+  return katexStylesRequest;
+}
+
+function encodeBase64(bytes: Uint8Array) {
+  let binary = '';
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return btoa(binary);
+}
+
+async function inlineFontSources(css: string) {
+  const fontUrls = new Set<string>();
+  // Every browser that opens the export reads woff2, so the other formats are dropped
+  const woff2Only = css.replace(FONT_SOURCES_PATTERN, (declaration, sources: string) => {
+    const match = sources.match(WOFF2_SOURCE_PATTERN);
+    if (!match) return declaration;
+    if (!match[1].startsWith('data:')) fontUrls.add(match[1]);
+    return `src:url(${match[1]}) format("woff2")`;
+  });
+
+  const dataUrls = new Map<string, string>();
+  await Promise.all(
+    Array.from(fontUrls, async (url) => {
+      try {
+        const response = await fetch(new URL(url, document.baseURI));
+        if (!response.ok) return;
+        const bytes = new Uint8Array(await response.arrayBuffer());
+        dataUrls.set(url, `data:font/woff2;base64,${encodeBase64(bytes)}`);
+      } catch {
+        // Keep the URL
+      }
+    })
+  );
+  return woff2Only.replace(/url\(([^)]+)\)/g, (match, url: string) => {
+    const dataUrl = dataUrls.get(url);
+    return dataUrl ? `url(${dataUrl})` : match;
+  });
+}
+
+/**
+ * Renders branch Markdown to a standalone HTML document using the same
+ * pipeline as the in-app MarkdownRenderer (GFM, KaTeX, highlighted code).
+ */
+export async function renderBranchHtml(
+  markdown: string,
+  title: string,
+  theme: 'light' | 'dark'
+): Promise<string> {
+  const [{ renderToStaticMarkup }, katexStyles] = await Promise.all([
+    import('react-dom/server'),
+    getStandaloneKatexStyles(),
+  ]);
+  const body = renderToStaticMarkup(createElement(MarkdownRenderer, { content: markdown }));
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(title)}</title>
+<style>${katexStyles}</style>
+<style>${BASE_STYLES}</style>
+</head>
+<body class="${theme}">
+<main>
+${body}
+</main>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,272 @@
+import { describe, expect, test } from 'vitest';
+import {
+  countBundleToolPolicies,
+  createBundle,
+  fromBundleAttachmentBlob,
+  parseBundle,
+  remapBundleIds,
+  toBundleAttachmentBlob,
+} from './bundle';
+import type { ConversationNode, GraphChatBundle } from '../types';
+
+const makeNode = (id: string, overrides: Partial<ConversationNode> = {}): ConversationNode => ({
+  id,
+  conversationId: 'c1',
+  messages: [
+    {
+      id: `m-${id}`,
+      nodeId: id,
+      role: 'user',
+      content: `message ${id}`,
+      createdAt: 1,
+      isStreaming: false,
+    },
+  ],
+  position: { x: 10, y: 20 },
+  status: 'idle',
+  createdAt: 1,
+  updatedAt: 1,
+  isCollapsed: false,
+  ...overrides,
+});
+
+function buildBundle(): GraphChatBundle {
+  return createBundle(
+    { type: 'project', id: 'p1' },
+    {
+      conversations: [
+        {
+          id: 'c1',
+          title: 'Exploration',
+          rootNodeId: 'root',
+          model: 'test/model',
+          createdAt: 1,
+          updatedAt: 1,
+          projectId: 'p1',
+          flowMode: true,
+          flowRootNodeId: 'root',
+          flowNodeIds: ['root', 'child'],
+          contextSettings: { excludedNodeIds: ['child'] },
+        },
+      ],
+      nodes: [
+        makeNode('root'),
+        makeNode('child', { parentNodeId: 'root', branchedFromMessageId: 'm-root' }),
+        makeNode('reply', { parentNodeId: 'child', isReply: true }),
+      ],
+      edges: [
+        { id: 'e1', source: 'root', target: 'child', conversationId: 'c1', createdAt: 1 },
+        { id: 'e2', source: 'child', target: 'reply', conversationId: 'c1', createdAt: 2 },
+      ],
+      projects: [
+        {
+          id: 'p1',
+          name: 'Research',
+          createdAt: 1,
+          updatedAt: 1,
+        },
+      ],
+      ragChunks: [
+        {
+          id: 'chunk-1',
+          scopeType: 'conversation',
+          scopeId: 'c1',
+          sourceKey: 'source',
+          attachmentId: 'a1',
+          attachmentName: 'notes.txt',
+          chunkIndex: 0,
+          chunkText: 'hello',
+          chunkTokenEstimate: 2,
+          embedding: [0.1, 0.2],
+          embeddingModel: 'embed/model',
+          createdAt: 1,
+          updatedAt: 1,
+        },
+      ],
+      memories: [],
+      attachmentBlobs: [],
+    },
+    {
+      schemaVersion: 5,
+      includeEmbeddings: false,
+      toolTraces: [
+        {
+          id: 't1',
+          conversationId: 'c1',
+          nodeId: 'child',
+          toolName: 'calculator',
+          source: 'local',
+          status: 'succeeded',
+          startedAt: 1,
+        },
+        {
+          id: 't2',
+          conversationId: 'other',
+          nodeId: 'x',
+          toolName: 'calculator',
+          source: 'local',
+          status: 'succeeded',
+          startedAt: 1,
+        },
+      ],
+    }
+  );
+}
+
+describe('conversation bundles', () => {
+  test('strips embeddings and unrelated tool traces on export', () => {
+    const bundle = buildBundle();
+    expect(bundle.ragChunks[0].embedding).toBeUndefined();
+    expect(bundle.ragChunks[0].embeddingModel).toBeUndefined();
+    expect(bundle.toolTraces.map((entry) => entry.id)).toEqual(['t1']);
+  });
+
+  test('round-trips through JSON validation', () => {
+    const bundle = buildBundle();
+    const parsed = parseBundle(JSON.stringify(bundle), 5);
+    expect(parsed).toEqual(bundle);
+  });
+
+  test('rejects bundles from a newer schema version', () => {
+    const bundle = { ...buildBundle(), schemaVersion: 99 };
+    expect(() => parseBundle(bundle, 5)).toThrow(/schema v99/);
+  });
+
+  test('rejects malformed bundles', () => {
+    expect(() => parseBundle('not json', 5)).toThrow('Bundle is not valid JSON.');
+    expect(() => parseBundle({ format: 'other' }, 5)).toThrow(/not a Graph LLM Chat bundle/);
+    const bundle = buildBundle();
+    bundle.edges.push({
+      id: 'e3',
+      source: 'root',
+      target: 'missing',
+      conversationId: 'c1',
+      createdAt: 3,
+    });
+    expect(() => parseBundle(bundle, 5)).toThrow(/unknown nodes/);
+  });
+
+  test('rejects malformed knowledge chunks and memories', () => {
+    const withChunk = buildBundle();
+    withChunk.ragChunks.push({ ...withChunk.ragChunks[0], scopeType: 'global' as 'project' });
+    expect(() => parseBundle(withChunk, 5)).toThrow('Bundle contains an invalid knowledge chunk.');
+
+    const withMemory = buildBundle();
+    withMemory.memories.push({ id: 'mem-1', scopeType: 'user', scopeId: 'default' } as never);
+    expect(() => parseBundle(withMemory, 5)).toThrow('Bundle contains an invalid memory record.');
+
+    const withEmbedding = buildBundle();
+    withEmbedding.ragChunks[0].embedding = ['x' as unknown as number];
+    expect(() => parseBundle(withEmbedding, 5)).toThrow(/invalid knowledge chunk/);
+  });
+
+  test('remaps every id and keeps references consistent', () => {
+    let counter = 0;
+    const remapped = remapBundleIds(buildBundle(), () => `new-${++counter}`);
+    const [conversation] = remapped.conversations;
+    const nodesByOldMessage = new Map(
+      remapped.nodes.map((node) => [node.messages[0].content, node])
+    );
+    const root = nodesByOldMessage.get('message root')!;
+    const child = nodesByOldMessage.get('message child')!;
+    const reply = nodesByOldMessage.get('message reply')!;
+
+    expect(conversation.id).not.toBe('c1');
+    expect(conversation.projectId).toBe(remapped.projects[0].id);
+    expect(conversation.rootNodeId).toBe(root.id);
+    expect(conversation.flowRootNodeId).toBe(root.id);
+    expect(conversation.flowNodeIds).toEqual([root.id, child.id]);
+    expect(conversation.contextSettings?.excludedNodeIds).toEqual([child.id]);
+
+    expect(child.parentNodeId).toBe(root.id);
+    expect(child.branchedFromMessageId).toBe(root.messages[0].id);
+    expect(child.messages[0].nodeId).toBe(child.id);
+    expect(reply.isReply).toBe(true);
+    expect(reply.position).toEqual({ x: 10, y: 20 });
+
+    expect(remapped.edges.map((edge) => [edge.source, edge.target])).toEqual([
+      [root.id, child.id],
+      [child.id, reply.id],
+    ]);
+    expect(remapped.edges.every((edge) => edge.conversationId === conversation.id)).toBe(true);
+    expect(remapped.ragChunks[0].scopeId).toBe(conversation.id);
+    expect(remapped.toolTraces[0]).toMatchObject({
+      conversationId: conversation.id,
+      nodeId: child.id,
+    });
+  });
+
+  test('drops bundled tool policies so imports inherit local tool settings', () => {
+    const bundle = buildBundle();
+    const toolPolicy = { requireConfirmation: false, localTools: { daytona: true } };
+    bundle.conversations[0] = { ...bundle.conversations[0], toolPolicy };
+    bundle.projects[0] = { ...bundle.projects[0], toolPolicy };
+
+    expect(countBundleToolPolicies(bundle)).toBe(2);
+    const remapped = remapBundleIds(bundle);
+    expect(remapped.conversations[0]).not.toHaveProperty('toolPolicy');
+    expect(remapped.projects[0]).not.toHaveProperty('toolPolicy');
+    expect(countBundleToolPolicies(remapped)).toBe(0);
+  });
+
+  test('carries inline attachment copies through export and import', async () => {
+    const bundle = buildBundle();
+    const image = new Blob([new Uint8Array([137, 80, 78, 71])], { type: 'image/png' });
+    bundle.attachmentBlobs.push(
+      await toBundleAttachmentBlob({
+        id: 'blob-1',
+        conversationId: 'c1',
+        mimeType: 'image/png',
+        data: image,
+        size: image.size,
+        createdAt: 1,
+      })
+    );
+    bundle.nodes[0].messages[0].attachments = [
+      {
+        id: 'a1',
+        name: 'chart.png',
+        size: image.size,
+        type: 'image/png',
+        lastModified: 1,
+        source: 'memory',
+        blobId: 'blob-1',
+      },
+      {
+        id: 'a2',
+        name: 'gone.pdf',
+        size: 10,
+        type: 'application/pdf',
+        lastModified: 1,
+        source: 'memory',
+        blobId: 'not-exported',
+      },
+    ];
+
+    const imported = remapBundleIds(parseBundle(JSON.stringify(bundle), 5));
+    const [copy] = imported.attachmentBlobs;
+    const [attachment, missing] = imported.nodes[0].messages[0].attachments!;
+    expect(copy.id).not.toBe('blob-1');
+    expect(copy.conversationId).toBe(imported.conversations[0].id);
+    expect(attachment.blobId).toBe(copy.id);
+    expect(missing.blobId).toBeUndefined();
+
+    const stored = fromBundleAttachmentBlob(copy);
+    expect(stored).toMatchObject({ id: copy.id, mimeType: 'image/png', size: 4 });
+    expect(stored?.data.type).toBe('image/png');
+    expect(fromBundleAttachmentBlob({ ...copy, dataUrl: 'data:image/png;base64,%%' })).toBeNull();
+  });
+
+  test('rejects attachment copies for conversations outside the bundle', () => {
+    const bundle = buildBundle();
+    bundle.attachmentBlobs.push({
+      id: 'blob-1',
+      conversationId: 'other',
+      mimeType: 'image/png',
+      dataUrl: 'data:image/png;base64,AA==',
+      size: 1,
+      createdAt: 1,
+    });
+    expect(() => parseBundle(bundle, 5)).toThrow('Bundle contains an invalid attachment copy.');
+  });
+});
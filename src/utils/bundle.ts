@@ -0,0 +1,461 @@
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  BundleAttachmentBlob,
+  BundleScope,
+  Conversation,
+  ConversationEdge,
+  ConversationNode,
+  GraphChatBundle,
+  MemoryItem,
+  Project,
+  RagChunk,
+  StoredAttachmentBlob,
+  ToolTraceEntry,
+} from '../types';
+import { dataUrlToBlob, readFileAsDataUrl } from './files';
+
+export const BUNDLE_FORMAT = 'graph-llm-chat-bundle';
+export const BUNDLE_VERSION = 1;
+
+const RAG_SCOPE_TYPES = new Set<unknown>(['conversation', 'project']);
+const MEMORY_SCOPE_TYPES = new Set<unknown>(['conversation', 'project', 'user']);
+
+export interface BundleRecords {
+  conversations: Conversation[];
+  nodes: ConversationNode[];
+  edges: ConversationEdge[];
+  projects: Project[];
+  ragChunks: RagChunk[];
+  memories: MemoryItem[];
+  attachmentBlobs: BundleAttachmentBlob[];
+}
+
+export async function toBundleAttachmentBlob(
+  blob: StoredAttachmentBlob
+): Promise<BundleAttachmentBlob> {
+  const { data, ...rest } = blob;
+  return { ...rest, dataUrl: await readFileAsDataUrl(data, blob.mimeType) };
+}
+
+// Null when the bundled data URL cannot be decoded
+export function fromBundleAttachmentBlob(
+  record: BundleAttachmentBlob
+): StoredAttachmentBlob | null {
+  const data = dataUrlToBlob(record.dataUrl);
+  if (!data) return null;
+  return {
+    id: record.id,
+    conversationId: record.conversationId,
+    mimeType: record.mimeType,
+    data,
+    size: data.size,
+    createdAt: record.createdAt,
+  };
+}
+
+export function createBundle(
+  scope: BundleScope,
+  records: BundleRecords,
+  options: {
+    schemaVersion: number;
+    includeEmbeddings: boolean;
+    toolTraces?: ToolTraceEntry[];
+    exportedAt?: number;
+  }
+): GraphChatBundle {
+  const conversationIds = new Set(records.conversations.map((conversation) => conversation.id));
+  const stripEmbedding = <T extends { embedding?: number[]; embeddingModel?: string }>(
+    record: T
+  ): T => {
+    if (options.includeEmbeddings) return record;
+    const next = { ...record };
+    delete next.embedding;
+    delete next.embeddingModel;
+    return next;
+  };
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    schemaVersion: options.schemaVersion,
+    exportedAt: options.exportedAt ?? Date.now(),
+    scope,
+    includesEmbeddings: options.includeEmbeddings,
+    conversations: records.conversations,
+    nodes: records.nodes,
+    edges: records.edges,
+    projects: records.projects,
+    ragChunks: records.ragChunks.map(stripEmbedding),
+    memories: records.memories.map(stripEmbedding),
+    toolTraces: (options.toolTraces ?? []).filter((entry) =>
+      conversationIds.has(entry.conversationId)
+    ),
+    attachmentBlobs: records.attachmentBlobs.filter((blob) =>
+      conversationIds.has(blob.conversationId)
+    ),
+  };
+}
+
+export function getBundleFileName(bundle: GraphChatBundle): string {
+  const date = new Date(bundle.exportedAt).toISOString().slice(0, 10);
+  if (bundle.scope.type === 'database') {
+    return `graph-chat-backup-${date}.json`;
+  }
+  const title =
+    bundle.scope.type === 'conversation'
+      ? bundle.conversations[0]?.title
+      : bundle.projects[0]?.name;
+  const slug = (title || bundle.scope.type)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 48);
+  return `${slug || bundle.scope.type}-${date}.json`;
+}
+
+/**
+ * Parses and validates an untrusted bundle against the current schema version.
+ * Throws with a readable message when the bundle cannot be imported.
+ */
+export function parseBundle(raw: unknown, currentSchemaVersion: number): GraphChatBundle {
+  const value = typeof raw === 'string' ? parseJson(raw) : raw;
+  if (!isRecord(value)) {
+    throw new Error('Bundle must be a JSON object.');
+  }
+  if (value.format !== BUNDLE_FORMAT) {
+    throw new Error('File is not a Graph LLM Chat bundle.');
+  }
+  if (typeof value.version !== 'number' || value.version > BUNDLE_VERSION) {
+    throw new Error(`Unsupported bundle version: ${String(value.version)}.`);
+  }
+  if (typeof value.schemaVersion !== 'number') {
+    throw new Error('Bundle is missing its schema version.');
+  }
+  if (value.schemaVersion > currentSchemaVersion) {
+    throw new Error(
+      `Bundle uses schema v${value.schemaVersion}, but this app supports up to v${currentSchemaVersion}. Update the app and try again.`
+    );
+  }
+
+  const conversations = readArray<Conversation>(value, 'conversations');
+  const nodes = readArray<ConversationNode>(value, 'nodes');
+  const edges = readArray<ConversationEdge>(value, 'edges');
+  const projects = readArray<Project>(value, 'projects');
+  const ragChunks = readArray<RagChunk>(value, 'ragChunks');
+  const memories = readArray<MemoryItem>(value, 'memories');
+  const toolTraces = readArray<ToolTraceEntry>(value, 'toolTraces');
+  const attachmentBlobs = readArray<BundleAttachmentBlob>(value, 'attachmentBlobs');
+
+  const conversationIds = new Set<string>();
+  for (const conversation of conversations) {
+    if (
+      !isRecord(conversation) ||
+      !isString(conversation.id) ||
+      !isString(conversation.rootNodeId)
+    ) {
+      throw new Error('Bundle contains an invalid conversation record.');
+    }
+    conversationIds.add(conversation.id);
+  }
+
+  const nodeIds = new Set<string>();
+  for (const node of nodes) {
+    if (
+      !isRecord(node) ||
+      !isString(node.id) ||
+      !isString(node.conversationId) ||
+      !Array.isArray(node.messages)
+    ) {
+      throw new Error('Bundle contains an invalid node record.');
+    }
+    if (!conversationIds.has(node.conversationId)) {
+      throw new Error(`Node ${node.id} references a conversation missing from the bundle.`);
+    }
+    for (const message of node.messages) {
+      if (!isRecord(message) || !isString(message.id) || typeof message.content !== 'string') {
+        throw new Error(`Node ${node.id} contains an invalid message.`);
+      }
+    }
+    nodeIds.add(node.id);
+  }
+
+  for (const conversation of conversations) {
+    if (!nodeIds.has(conversation.rootNodeId)) {
+      throw new Error(`Conversation "${conversation.title}" is missing its root node.`);
+    }
+  }
+
+  for (const edge of edges) {
+    if (!isRecord(edge) || !nodeIds.has(edge.source) || !nodeIds.has(edge.target)) {
+      throw new Error('Bundle contains an edge between unknown nodes.');
+    }
+  }
+
+  for (const project of projects) {
+    if (!isRecord(project) || !isString(project.id)) {
+      throw new Error('Bundle contains an invalid project record.');
+    }
+  }
+
+  for (const chunk of ragChunks) {
+    if (
+      !isRecord(chunk) ||
+      !isString(chunk.id) ||
+      !RAG_SCOPE_TYPES.has(chunk.scopeType) ||
+      !isString(chunk.scopeId) ||
+      typeof chunk.chunkText !== 'string' ||
+      !isOptionalEmbedding(chunk.embedding)
+    ) {
+      throw new Error('Bundle contains an invalid knowledge chunk.');
+    }
+  }
+
+  for (const memory of memories) {
+    if (
+      !isRecord(memory) ||
+      !isString(memory.id) ||
+      !MEMORY_SCOPE_TYPES.has(memory.scopeType) ||
+      !isString(memory.scopeId) ||
+      typeof memory.text !== 'string' ||
+      !isOptionalEmbedding(memory.embedding)
+    ) {
+      throw new Error('Bundle contains an invalid memory record.');
+    }
+  }
+
+  for (const blob of attachmentBlobs) {
+    if (
+      !isRecord(blob) ||
+      !isString(blob.id) ||
+      !conversationIds.has(blob.conversationId) ||
+      typeof blob.dataUrl !== 'string'
+    ) {
+      throw new Error('Bundle contains an invalid attachment copy.');
+    }
+  }
+
+  const scope: BundleScope = isRecord(value.scope)
+    ? (value.scope as BundleScope)
+    : { type: 'database' };
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: value.version,
+    schemaVersion: value.schemaVersion,
+    exportedAt: typeof value.exportedAt === 'number' ? value.exportedAt : Date.now(),
+    scope,
+    includesEmbeddings: Boolean(value.includesEmbeddings),
+    conversations,
+    nodes,
+    edges,
+    projects,
+    ragChunks,
+    memories,
+    toolTraces,
+    attachmentBlobs,
+  };
+}
+
+/**
+ * Assigns fresh IDs to every record so an import never collides with existing data.
+ * References to records outside the bundle are dropped, and so are tool policies:
+ * a shared file must not be able to grant its chats tools without asking.
+ */
+export function remapBundleIds(
+  bundle: GraphChatBundle,
+  createId: () => string = uuidv4
+): GraphChatBundle {
+  const conversationIds = new Map<string, string>();
+  const nodeIds = new Map<string, string>();
+  const messageIds = new Map<string, string>();
+  const projectIds = new Map<string, string>();
+  const blobIds = new Map<string, string>();
+
+  for (const conversation of bundle.conversations) {
+    conversationIds.set(conversation.id, createId());
+  }
+  for (const node of bundle.nodes) {
+    nodeIds.set(node.id, createId());
+    for (const message of node.messages) {
+      messageIds.set(message.id, createId());
+    }
+  }
+  for (const project of bundle.projects) {
+    projectIds.set(project.id, createId());
+  }
+  for (const blob of bundle.attachmentBlobs) {
+    blobIds.set(blob.id, createId());
+  }
+
+  const mapRef = (map: Map<string, string>, id?: string) => (id ? map.get(id) : undefined);
+  const mapScopeId = (scopeType: string, scopeId: string) => {
+    if (scopeType === 'conversation') return conversationIds.get(scopeId);
+    if (scopeType === 'project') return projectIds.get(scopeId);
+    return scopeId;
+  };
+
+  const conversations = bundle.conversations.map((conversation): Conversation => ({
+    ...withoutToolPolicy(conversation),
+    id: conversationIds.get(conversation.id)!,
+    rootNodeId: nodeIds.get(conversation.rootNodeId)!,
+    projectId: mapRef(projectIds, conversation.projectId),
+    flowRootNodeId: mapRef(nodeIds, conversation.flowRootNodeId),
+    flowNodeIds: conversation.flowNodeIds
+      ?.map((id) => nodeIds.get(id))
+      .filter((id): id is string => Boolean(id)),
+    contextSettings: conversation.contextSettings
+      ? {
+          ...conversation.contextSettings,
+          excludedNodeIds: conversation.contextSettings.excludedNodeIds
+            ?.map((id) => nodeIds.get(id))
+            .filter((id): id is string => Boolean(id)),
+        }
+      : undefined,
+  }));
+
+  const nodes = bundle.nodes.map((node): ConversationNode => {
+    const id = nodeIds.get(node.id)!;
+    const mergeSummaries = node.mergeSummaries
+      ? Object.fromEntries(
+          Object.entries(node.mergeSummaries)
+            .filter(([parentId]) => nodeIds.has(parentId))
+            .map(([parentId, summary]) => [nodeIds.get(parentId)!, summary])
+        )
+      : undefined;
+    return {
+      ...node,
+      id,
+      conversationId: conversationIds.get(node.conversationId)!,
+      parentNodeId: mapRef(nodeIds, node.parentNodeId),
+      branchedFromMessageId: mapRef(messageIds, node.branchedFromMessageId),
+      mergeSummaries,
+      messages: node.messages.map((message) => ({
+        ...message,
+        id: messageIds.get(message.id)!,
+        nodeId: id,
+        sourceParentId: mapRef(nodeIds, message.sourceParentId),
+        ...(message.attachments
+          ? {
+              // Copies missing from the bundle would point at the source device's rows
+              attachments: message.attachments.map((attachment) => ({
+                ...attachment,
+                blobId: mapRef(blobIds, attachment.blobId),
+              })),
+            }
+          : {}),
+      })),
+    };
+  });
+
+  const nodeConversationIds = new Map(nodes.map((node) => [node.id, node.conversationId]));
+  const edges = bundle.edges.map((edge): ConversationEdge => {
+    const source = nodeIds.get(edge.source)!;
+    return {
+      ...edge,
+      id: createId(),
+      source,
+      target: nodeIds.get(edge.target)!,
+      conversationId: nodeConversationIds.get(source)!,
+    };
+  });
+
+  const projects = bundle.projects.map((project): Project => ({
+    ...withoutToolPolicy(project),
+    id: projectIds.get(project.id)!,
+  }));
+
+  const ragChunks = bundle.ragChunks.flatMap((chunk): RagChunk[] => {
+    const scopeId = mapScopeId(chunk.scopeType, chunk.scopeId);
+    if (!scopeId) return [];
+    return [{ ...chunk, id: createId(), scopeId }];
+  });
+
+  const memories = bundle.memories.flatMap((memory): MemoryItem[] => {
+    const scopeId = mapScopeId(memory.scopeType, memory.scopeId);
+    if (!scopeId) return [];
+    return [
+      {
+        ...memory,
+        id: createId(),
+        scopeId,
+        sourceConversationId: mapRef(conversationIds, memory.sourceConversationId),
+        sourceNodeId: mapRef(nodeIds, memory.sourceNodeId),
+        sourceMessageId: mapRef(messageIds, memory.sourceMessageId),
+      },
+    ];
+  });
+
+  const toolTraces = bundle.toolTraces.flatMap((entry): ToolTraceEntry[] => {
+    const conversationId = conversationIds.get(entry.conversationId);
+    if (!conversationId) return [];
+    return [
+      {
+        ...entry,
+        id: createId(),
+        conversationId,
+        nodeId: nodeIds.get(entry.nodeId) ?? entry.nodeId,
+      },
+    ];
+  });
+
+  const attachmentBlobs = bundle.attachmentBlobs.map(
+    (blob): BundleAttachmentBlob => ({
+      ...blob,
+      id: blobIds.get(blob.id)!,
+      conversationId: conversationIds.get(blob.conversationId)!,
+    })
+  );
+
+  return {
+    ...bundle,
+    conversations,
+    nodes,
+    edges,
+    projects,
+    ragChunks,
+    memories,
+    toolTraces,
+    attachmentBlobs,
+  };
+}
+
+/** Conversations and projects whose tool policy an import will reset to inherit. */
+export function countBundleToolPolicies(bundle: GraphChatBundle) {
+  const records = [...bundle.conversations, ...bundle.projects];
+  return records.filter((record) => record.toolPolicy).length;
+}
+
+function withoutToolPolicy<T extends { toolPolicy?: unknown }>(record: T): T {
+  const copy = { ...record };
+  delete copy.toolPolicy;
+  return copy;
+}
+
+function parseJson(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new Error('Bundle is not valid JSON.');
+  }
+}
+
+function readArray<T>(value: Record<string, unknown>, key: string): T[] {
+  const entry = value[key];
+  if (entry === undefined) return [];
+  if (!Array.isArray(entry)) {
+    throw new Error(`Bundle field "${key}" must be an array.`);
+  }
+  return entry as T[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isOptionalEmbedding(value: unknown) {
+  return value === undefined || (Array.isArray(value) && value.every(Number.isFinite));
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
@@ -0,0 +1,80 @@
+export interface PaletteCommand {
+  id: string;
+  title: string;
+  group: string;
+  subtitle?: string;
+  // Extra text matched by search but not shown, e.g. message content
+  keywords?: string;
+  run: () => void | Promise<void>;
+}
+
+type Listener = () => void;
+
+const registrations = new Map<symbol, PaletteCommand[]>();
+const listeners = new Set<Listener>();
+let snapshot: PaletteCommand[] = [];
+
+function emit() {
+  snapshot = Array.from(registrations.values()).flat();
+  for (const listener of listeners) listener();
+}
+
+/**
+ * Adds commands to the palette until the returned function is called.
+ * Later registrations win when two commands share an id.
+ */
+export function registerCommands(commands: PaletteCommand[]): () => void {
+  const key = Symbol('commands');
+  registrations.set(key, commands);
+  emit();
+  return () => {
+    registrations.delete(key);
+    emit();
+  };
+}
+
+export function getRegisteredCommands(): PaletteCommand[] {
+  return snapshot;
+}
+
+export function subscribeToCommands(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Filters commands to those matching every query word and orders them by
+ * where the words match: title prefix, then title, then subtitle or keywords.
+ */
+export function rankCommands(commands: PaletteCommand[], query: string): PaletteCommand[] {
+  const byId = new Map<string, PaletteCommand>();
+  for (const command of commands) {
+    // Re-insert so a later registration also takes the later position
+    byId.delete(command.id);
+    byId.set(command.id, command);
+  }
+  const unique = Array.from(byId.values());
+
+  const words = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return unique;
+
+  const scored: Array<{ command: PaletteCommand; score: number; index: number }> = [];
+  unique.forEach((command, index) => {
+    const title = command.title.toLowerCase();
+    const detail = `${command.group} ${command.subtitle ?? ''} ${command.keywords ?? ''}`.toLowerCase();
+    let score = 0;
+    for (const word of words) {
+      if (title.startsWith(word)) score += 3;
+      else if (title.includes(word)) score += 2;
+      else if (detail.includes(word)) score += 1;
+      else return;
+    }
+    scored.push({ command, score, index });
+  });
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map((entry) => entry.command);
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import {
+  chunkDocumentSections,
+  extractDocxSections,
+  extractHtmlSections,
+  extractXlsxSections,
+  getDocumentKind,
+  selectSectionRange,
+  splitCsvSections,
+} from './documentText';
+import { buildZip } from '../tests/zipFixtures';
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+describe('document text extraction', () => {
+  it('detects document kinds by name and type', () => {
+    expect(getDocumentKind({ name: 'spec.PDF', type: '' })).toBe('pdf');
+    expect(getDocumentKind({ name: 'spec.docx', type: '' })).toBe('docx');
+    expect(getDocumentKind({ name: 'plan.xlsx', type: '' })).toBe('xlsx');
+    expect(getDocumentKind({ name: 'page', type: 'text/html' })).toBe('html');
+    expect(getDocumentKind({ name: 'notes.txt', type: 'text/plain' })).toBeNull();
+  });
+
+  it('splits DOCX text into heading sections', async () => {
+    const documentXml = `<?xml version="1.0"?>
+      <w:document ${W}><w:body>
+        <w:p><w:r><w:t>Preamble</w:t></w:r></w:p>
+        <w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Scope</w:t></w:r></w:p>
+        <w:p><w:r><w:t>Covers</w:t></w:r><w:r><w:tab/><w:t>everything</w:t></w:r></w:p>
+      </w:body></w:document>`;
+    const zip = await buildZip({ 'word/document.xml': documentXml }, true);
+
+    const sections = await extractDocxSections(zip);
+
+    expect(sections).toEqual([
+      { page: 1, location: 'Start', text: 'Preamble' },
+      { page: 2, location: '§ Scope', text: 'Scope\nCovers\teverything' },
+    ]);
+  });
+
+  it('reads XLSX sheets with shared strings', async () => {
+    const zip = await buildZip({
+      'xl/workbook.xml': `<workbook xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Budget" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+      'xl/_rels/workbook.xml.rels': `<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>`,
+      'xl/sharedStrings.xml': `<sst><si><t>Item</t></si><si><t>Cost</t></si><si><t>Rent</t></si></sst>`,
+      'xl/worksheets/sheet1.xml': `<worksheet><sheetData>
+        <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>
+        <row r="2"><c r="A2" t="s"><v>2</v></c><c r="C2"><v>1200</v></c></row>
+      </sheetData></worksheet>`,
+    });
+
+    const sections = await extractXlsxSections(zip);
+
+    expect(sections).toEqual([
+      { page: 1, location: 'Sheet: Budget', text: 'Item\tCost\nRent\t\t1200' },
+    ]);
+  });
+
+  it('splits HTML at headings and drops scripts', () => {
+    const sections = extractHtmlSections(
+      '<html><body><p>Intro text</p><script>var x = 1;</script><h2>Usage</h2><p>Run it.</p></body></html>'
+    );
+
+    expect(sections.map((section) => section.location)).toEqual(['Start', '§ Usage']);
+    expect(sections[1].text).toBe('Usage\n\nRun it.');
+    expect(sections.some((section) => section.text.includes('var x'))).toBe(false);
+  });
+
+  it('anchors CSV rows and keeps chunks within one section', () => {
+    const rows = Array.from({ length: 250 }, (_, index) => `row-${index + 1},value`);
+    const sections = splitCsvSections(rows.join('\n'));
+    expect(sections.map((section) => section.location)).toEqual(['rows 1-200', 'rows 201-250']);
+
+    const chunks = Array.from(chunkDocumentSections(sections, 1000, 100));
+    expect(chunks.every((chunk) => chunk.location)).toBe(true);
+    expect(chunks[chunks.length - 1]).toMatchObject({ location: 'rows 201-250', page: 2 });
+    expect(selectSectionRange(sections, 2)).toEqual([sections[1]]);
+  });
+});
@@ -0,0 +1,370 @@
+import { isPdfFile, isTextLikeFile, readFileAsArrayBuffer } from './files';
+import { readZipEntries } from './zip';
+
+export type DocumentKind = 'pdf' | 'docx' | 'xlsx' | 'csv' | 'html';
+
+export interface DocumentSection {
+  page: number; // 1-based PDF page, or sheet/section number for other formats
+  location: string; // Readable anchor, e.g. "p. 3", "Sheet: Budget", "§ Scope"
+  text: string;
+}
+
+export interface DocumentChunk {
+  text: string;
+  location?: string;
+  page?: number;
+}
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const CSV_ROWS_PER_SECTION = 200;
+const HTML_BLOCK_TAG =
+  /^(address|article|aside|blockquote|dd|div|dl|dt|figcaption|figure|footer|header|li|main|nav|ol|p|pre|section|table|tr|ul)$/;
+
+export function getDocumentKind(file: { name: string; type: string }): DocumentKind | null {
+  const name = file.name.toLowerCase();
+  if (isPdfFile(file)) return 'pdf';
+  if (name.endsWith('.docx') || file.type === DOCX_MIME) return 'docx';
+  if (name.endsWith('.xlsx') || file.type === XLSX_MIME) return 'xlsx';
+  if (name.endsWith('.csv') || file.type === 'text/csv') return 'csv';
+  if (
+    name.endsWith('.html') ||
+    name.endsWith('.htm') ||
+    file.type === 'text/html' ||
+    file.type === 'application/xhtml+xml'
+  ) {
+    return 'html';
+  }
+  return null;
+}
+
+/**
+ * Whether attachment processing can turn the file into text
+ */
+export function isExtractableFile(file: File) {
+  return getDocumentKind(file) !== null || isTextLikeFile(file);
+}
+
+/**
+ * Extracts text from PDF, DOCX, XLSX, CSV and HTML files, split into
+ * sections that carry a page, sheet or heading anchor.
+ */
+export async function extractDocumentSections(
+  file: File,
+  signal?: AbortSignal
+): Promise<DocumentSection[]> {
+  const kind = getDocumentKind(file);
+  if (!kind) {
+    throw new Error(`Unsupported document type: ${file.name}`);
+  }
+  const data = await readFileAsArrayBuffer(file);
+  throwIfAborted(signal);
+  switch (kind) {
+    case 'pdf':
+      return extractPdfSections(data, signal);
+    case 'docx':
+      return extractDocxSections(data);
+    case 'xlsx':
+      return extractXlsxSections(data);
+    case 'csv':
+      return splitCsvSections(new TextDecoder().decode(data));
+    case 'html':
+      return extractHtmlSections(new TextDecoder().decode(data));
+  }
+}
+
+async function extractPdfSections(
+  data: ArrayBuffer,
+  signal?: AbortSignal
+): Promise<DocumentSection[]> {
+  const [pdfjs, worker] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+
+  try {
+    const sections: DocumentSection[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      throwIfAborted(signal);
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      let text = '';
+      for (const item of content.items) {
+        if (!('str' in item)) continue;
+        text += item.str;
+        if (item.hasEOL) text += '\n';
+      }
+      page.cleanup();
+      sections.push({ page: pageNumber, location: `p. ${pageNumber}`, text: normalizeText(text) });
+    }
+    return sections;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Splits a DOCX body into sections at Heading/Title paragraphs
+ */
+export async function extractDocxSections(data: ArrayBuffer): Promise<DocumentSection[]> {
+  const entries = await readZipEntries(data, (name) => name === 'word/document.xml');
+  const documentXml = entries.get('word/document.xml');
+  if (!documentXml) {
+    throw new Error('DOCX file has no document body');
+  }
+
+  const doc = parseXml(documentXml);
+  const sections: DocumentSection[] = [];
+  let heading = '';
+  let lines: string[] = [];
+  const flush = () => {
+    const text = normalizeText(lines.join('\n'));
+    if (text) {
+      sections.push({
+        page: sections.length + 1,
+        location: heading ? `§ ${heading}` : 'Start',
+        text,
+      });
+    }
+    lines = [];
+  };
+
+  for (const paragraph of Array.from(doc.getElementsByTagNameNS('*', 'p'))) {
+    let text = '';
+    for (const node of Array.from(paragraph.getElementsByTagNameNS('*', '*'))) {
+      if (node.localName === 't') text += node.textContent ?? '';
+      else if (node.localName === 'tab') text += '\t';
+      else if (node.localName === 'br' || node.localName === 'cr') text += '\n';
+    }
+    const styleElement = paragraph.getElementsByTagNameNS('*', 'pStyle')[0];
+    const style = styleElement ? getLocalAttribute(styleElement, 'val') ?? '' : '';
+    if (/^(heading|title)/i.test(style) && text.trim()) {
+      flush();
+      heading = text.trim();
+    }
+    lines.push(text);
+  }
+  flush();
+  return sections;
+}
+
+/**
+ * One section per worksheet, rows as tab-separated lines
+ */
+export async function extractXlsxSections(data: ArrayBuffer): Promise<DocumentSection[]> {
+  const entries = await readZipEntries(
+    data,
+    (name) => name.startsWith('xl/') && (name.endsWith('.xml') || name.endsWith('.rels'))
+  );
+  const workbookXml = entries.get('xl/workbook.xml');
+  if (!workbookXml) {
+    throw new Error('XLSX file has no workbook');
+  }
+
+  const targets = new Map<string, string>();
+  const relsXml = entries.get('xl/_rels/workbook.xml.rels');
+  if (relsXml) {
+    for (const rel of Array.from(parseXml(relsXml).getElementsByTagNameNS('*', 'Relationship'))) {
+      const id = rel.getAttribute('Id');
+      const target = rel.getAttribute('Target');
+      if (!id || !target) continue;
+      targets.set(id, target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+    }
+  }
+
+  const sharedStrings: string[] = [];
+  const sharedXml = entries.get('xl/sharedStrings.xml');
+  if (sharedXml) {
+    for (const item of Array.from(parseXml(sharedXml).getElementsByTagNameNS('*', 'si'))) {
+      sharedStrings.push(
+        Array.from(item.getElementsByTagNameNS('*', 't'))
+          .map((node) => node.textContent ?? '')
+          .join('')
+      );
+    }
+  }
+
+  const sheets = Array.from(parseXml(workbookXml).getElementsByTagNameNS('*', 'sheet'));
+  return sheets.map((sheet, index) => {
+    const name = sheet.getAttribute('name') || `Sheet${index + 1}`;
+    const relationId = getLocalAttribute(sheet, 'id');
+    const path =
+      (relationId && targets.get(relationId)) || `xl/worksheets/sheet${index + 1}.xml`;
+    const sheetXml = entries.get(path);
+    const rows = sheetXml ? readSheetRows(parseXml(sheetXml), sharedStrings) : [];
+    return { page: index + 1, location: `Sheet: ${name}`, text: rows.join('\n') };
+  });
+}
+
+function readSheetRows(doc: Document, sharedStrings: string[]) {
+  const rows: string[] = [];
+  for (const row of Array.from(doc.getElementsByTagNameNS('*', 'row'))) {
+    const cells: string[] = [];
+    for (const cell of Array.from(row.getElementsByTagNameNS('*', 'c'))) {
+      const column = columnIndex(cell.getAttribute('r')) ?? cells.length;
+      const type = cell.getAttribute('t');
+      const raw = cell.getElementsByTagNameNS('*', 'v')[0]?.textContent ?? '';
+      let value = raw;
+      if (type === 's') value = sharedStrings[Number(raw)] ?? '';
+      else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+      else if (type === 'inlineStr') {
+        value = Array.from(cell.getElementsByTagNameNS('*', 't'))
+          .map((node) => node.textContent ?? '')
+          .join('');
+      }
+      while (cells.length < column) cells.push('');
+      cells[column] = value;
+    }
+    const line = cells.join('\t').trimEnd();
+    if (line) rows.push(line);
+  }
+  return rows;
+}
+
+// "C12" -> 2
+function columnIndex(reference: string | null) {
+  const letters = reference?.match(/^[A-Z]+/i)?.[0];
+  if (!letters) return null;
+  let index = 0;
+  for (const letter of letters.toUpperCase()) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * Splits CSV into row ranges so chunks can point back at their rows
+ */
+export function splitCsvSections(text: string): DocumentSection[] {
+  const rows = text.split(/\r?\n/);
+  while (rows.length > 0 && !rows[rows.length - 1].trim()) rows.pop();
+  const sections: DocumentSection[] = [];
+  for (let start = 0; start < rows.length; start += CSV_ROWS_PER_SECTION) {
+    const slice = rows.slice(start, start + CSV_ROWS_PER_SECTION);
+    sections.push({
+      page: sections.length + 1,
+      location: `rows ${start + 1}-${start + slice.length}`,
+      text: slice.join('\n'),
+    });
+  }
+  return sections;
+}
+
+/**
+ * Visible HTML text split into sections at h1-h6 headings
+ */
+export function extractHtmlSections(html: string): DocumentSection[] {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('script, style, noscript, template').forEach((node) => node.remove());
+
+  const sections: DocumentSection[] = [];
+  let heading = doc.title.trim();
+  let buffer = '';
+  const flush = () => {
+    const text = normalizeText(buffer);
+    if (text) {
+      sections.push({
+        page: sections.length + 1,
+        location: heading ? `§ ${heading}` : 'Start',
+        text,
+      });
+    }
+    buffer = '';
+  };
+
+  const walk = (parent: Node) => {
+    for (const child of Array.from(parent.childNodes)) {
+      if (child.nodeType === Node.TEXT_NODE) {
+        buffer += (child.textContent ?? '').replace(/\s+/g, ' ');
+        continue;
+      }
+      if (child.nodeType !== Node.ELEMENT_NODE) continue;
+      const element = child as Element;
+      const tag = element.tagName.toLowerCase();
+      if (/^h[1-6]$/.test(tag)) {
+        flush();
+        heading = (element.textContent ?? '').replace(/\s+/g, ' ').trim();
+        buffer += `${heading}\n`;
+        continue;
+      }
+      if (tag === 'br') {
+        buffer += '\n';
+        continue;
+      }
+      const isBlock = HTML_BLOCK_TAG.test(tag);
+      if (isBlock) buffer += '\n';
+      if (tag === 'td' || tag === 'th') buffer += '\t';
+      walk(element);
+      if (isBlock) buffer += '\n';
+    }
+  };
+
+  if (doc.body) walk(doc.body);
+  flush();
+  return sections;
+}
+
+/**
+ * Chunks sections with overlap; chunks never span two sections so each keeps one anchor
+ */
+export function* chunkDocumentSections(
+  sections: DocumentSection[],
+  chunkSize: number,
+  chunkOverlap: number
+): Generator<DocumentChunk> {
+  const size = Math.max(1, chunkSize);
+  const overlap = Math.max(0, Math.min(size - 1, chunkOverlap));
+  const step = Math.max(1, size - overlap);
+  for (const section of sections) {
+    if (!section.text.trim()) continue;
+    for (let start = 0; start < section.text.length; start += step) {
+      yield {
+        text: section.text.slice(start, start + size),
+        location: section.location,
+        page: section.page,
+      };
+      if (start + size >= section.text.length) break;
+    }
+  }
+}
+
+/**
+ * Keeps sections whose page (or sheet/section number) is within the range
+ */
+export function selectSectionRange(
+  sections: DocumentSection[],
+  pageStart?: number,
+  pageEnd?: number
+) {
+  const start = pageStart ?? 1;
+  const end = pageEnd ?? Number.POSITIVE_INFINITY;
+  return sections.filter((section) => section.page >= start && section.page <= end);
+}
+
+export function formatDocumentSections(sections: DocumentSection[]) {
+  return sections.map((section) => `[${section.location}]\n${section.text}`).join('\n\n');
+}
+
+function parseXml(bytes: Uint8Array) {
+  return new DOMParser().parseFromString(new TextDecoder().decode(bytes), 'application/xml');
+}
+
+function getLocalAttribute(element: Element, localName: string) {
+  for (const attribute of Array.from(element.attributes)) {
+    if (attribute.localName === localName) return attribute.value;
+  }
+  return null;
+}
+
+function normalizeText(text: string) {
+  return text
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw signal.reason ?? new DOMException('Aborted', 'AbortError');
+}
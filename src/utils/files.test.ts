@@ -1,5 +1,10 @@
 import { describe, expect, it } from 'vitest';
-import { formatFileSize, isTextLikeFile, streamFileTextChunks } from './files';
+import {
+  dataUrlToBlob,
+  formatFileSize,
+  isTextLikeFile,
+  streamFileTextChunks,
+} from './files';
 
 describe('files utils', () => {
   it('formats file sizes', () => {
@@ -9,6 +14,14 @@ describe('files utils', () => {
     expect(formatFileSize(5 * 1024 * 1024)).toBe('5.0 MB');
   });
 
+  it('decodes base64 data URLs into blobs', async () => {
+    const blob = dataUrlToBlob(`data:image/png;base64,${btoa('png-bytes')}`);
+    expect(blob?.type).toBe('image/png');
+    expect(blob?.size).toBe('png-bytes'.length);
+    expect(dataUrlToBlob('data:image/png;base64,%%%')).toBeNull();
+    expect(dataUrlToBlob('https://example.com/a.png')).toBeNull();
+  });
+
   it('detects text-like files', () => {
     const textFile = new File(['hello'], 'note.txt', { type: 'text/plain' });
     const jsonFile = new File(['{}'], 'data.json', { type: 'application/json' });
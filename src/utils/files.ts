@@ -32,6 +32,18 @@ export function isTextLikeFile(file: File) {
   );
 }
 
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.webp'];
+
+export function isImageFile(file: { type: string; name: string }) {
+  if (file.type.startsWith('image/')) return file.type !== 'image/svg+xml';
+  const name = file.name.toLowerCase();
+  return IMAGE_EXTENSIONS.some((extension) => name.endsWith(extension));
+}
+
+export function isPdfFile(file: { type: string; name: string }) {
+  return file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+}
+
 export function formatFileSize(size: number) {
   if (!Number.isFinite(size)) return '—';
   if (size < 1024) return `${size} B`;
@@ -86,6 +98,69 @@ export async function* streamFileTextChunks(
   }
 }
 
+export function downloadTextFile(fileName: string, content: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName;
+  document.body.appendChild(anchor);
+  anchor.click();
+  document.body.removeChild(anchor);
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function readFileAsDataUrl(file: Blob, mimeType = file.type): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read file'));
+    reader.onload = () => {
+      const dataUrl = String(reader.result ?? '');
+      // Some files come without a type; use the attachment's declared one instead.
+      resolve(mimeType ? dataUrl.replace(/^data:[^;,]*/, `data:${mimeType}`) : dataUrl);
+    };
+    reader.readAsDataURL(file);
+  });
+}
+
+export function readFileAsArrayBuffer(file: Blob): Promise<ArrayBuffer> {
+  if (typeof file.arrayBuffer === 'function') return file.arrayBuffer();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read file'));
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.readAsArrayBuffer(file);
+  });
+}
+
+export function parseDataUrl(dataUrl: string): { mediaType: string; base64: string } | null {
+  const match = /^data:([^;,]+)?(?:;[^,]*)?;base64,(.*)$/s.exec(dataUrl);
+  if (!match) return null;
+  return { mediaType: match[1] || 'application/octet-stream', base64: match[2] };
+}
+
+// Null when the input is not valid base64
+export function decodeBase64(value: string): Uint8Array<ArrayBuffer> | null {
+  let binary: string;
+  try {
+    binary = atob(value);
+  } catch {
+    return null;
+  }
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+}
+
+// Null when the data URL is malformed
+export function dataUrlToBlob(dataUrl: string): Blob | null {
+  const parsed = parseDataUrl(dataUrl);
+  const bytes = parsed ? decodeBase64(parsed.base64) : null;
+  return parsed && bytes ? new Blob([bytes], { type: parsed.mediaType }) : null;
+}
+
 function readFileAsText(file: Blob): Promise<string> {
   return new Promise((resolve, reject) => {
     if (typeof FileReader === 'undefined') {
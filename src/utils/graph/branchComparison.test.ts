@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { alignBranches } from './branchComparison';
+import { computeAdjacencyLists } from './adjacency';
+
+const edge = (source: string, target: string) => ({
+  id: `${source}-${target}`,
+  source,
+  target,
+  conversationId: 'c1',
+  createdAt: 1,
+});
+
+describe('alignBranches', () => {
+  const { reverseAdjacencyList } = computeAdjacencyLists([
+    edge('root', 'a'),
+    edge('a', 'b1'),
+    edge('a', 'b2'),
+    edge('b2', 'c2'),
+  ]);
+
+  it('finds the deepest common ancestor and the diverging paths', () => {
+    const alignment = alignBranches(['b1', 'c2'], 'root', reverseAdjacencyList);
+    expect(alignment.commonAncestorId).toBe('a');
+    expect(alignment.sharedPath).toEqual(['root', 'a']);
+    expect(alignment.branches.map((branch) => branch.divergentPath)).toEqual([
+      ['b1'],
+      ['b2', 'c2'],
+    ]);
+  });
+
+  it('treats an ancestor leaf as having no divergent nodes', () => {
+    const alignment = alignBranches(['a', 'c2'], 'root', reverseAdjacencyList);
+    expect(alignment.commonAncestorId).toBe('a');
+    expect(alignment.branches[0].divergentPath).toEqual([]);
+    expect(alignment.branches[1].divergentPath).toEqual(['b2', 'c2']);
+  });
+});
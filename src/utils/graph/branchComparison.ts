@@ -0,0 +1,51 @@
+import type { ConversationNode, NodeId, ReverseAdjacencyList } from '../../types';
+import { getPathToNode } from './contextComputation';
+
+export interface AlignedBranch {
+  leafId: NodeId;
+  path: NodeId[]; // Full root -> leaf path
+  divergentPath: NodeId[]; // Nodes after the common ancestor
+}
+
+export interface BranchAlignment {
+  commonAncestorId: NodeId | null;
+  sharedPath: NodeId[];
+  branches: AlignedBranch[];
+}
+
+/**
+ * Aligns the paths to several leaves on their deepest common ancestor.
+ * Paths follow the reverse adjacency list the same way the chat view does.
+ */
+export function alignBranches(
+  leafIds: NodeId[],
+  rootNodeId: NodeId,
+  reverseAdjacencyList: ReverseAdjacencyList,
+  nodesMap?: Map<NodeId, ConversationNode>
+): BranchAlignment {
+  const paths = leafIds.map((leafId) =>
+    getPathToNode(leafId, rootNodeId, reverseAdjacencyList, nodesMap)
+  );
+
+  let sharedLength = 0;
+  if (paths.length > 0) {
+    const shortest = Math.min(...paths.map((path) => path.length));
+    while (
+      sharedLength < shortest &&
+      paths.every((path) => path[sharedLength] === paths[0][sharedLength])
+    ) {
+      sharedLength++;
+    }
+  }
+
+  const sharedPath = paths[0]?.slice(0, sharedLength) ?? [];
+  return {
+    commonAncestorId: sharedPath[sharedPath.length - 1] ?? null,
+    sharedPath,
+    branches: leafIds.map((leafId, index) => ({
+      leafId,
+      path: paths[index],
+      divergentPath: paths[index].slice(sharedLength),
+    })),
+  };
+}
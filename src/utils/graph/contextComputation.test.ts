@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
-import { computeContext } from './contextComputation';
-import type { ConversationNode, Message } from '../../types';
+import { computeContext, getMergeBranchSignature } from './contextComputation';
+import type { ConversationNode, Message, MergeStrategy } from '../../types';
 
 const baseMessage = (overrides: Partial<Message>): Message => ({
   id: 'm1',
@@ -247,4 +247,168 @@ describe('computeContext', () => {
     expect(contents).toContain('older-parent');
     expect(contents).not.toContain('newer-parent');
   });
+
+  it('leaves reasoning traces out of the context unless included', () => {
+    const node: ConversationNode = {
+      id: 'n1',
+      conversationId: 'c1',
+      messages: [
+        baseMessage({ id: 'm1', role: 'user', content: 'question' }),
+        baseMessage({
+          id: 'm2',
+          role: 'assistant',
+          content: 'answer',
+          reasoning: 'step by step',
+          createdAt: 2,
+        }),
+      ],
+      position: { x: 0, y: 0 },
+      status: 'idle',
+      createdAt: 1,
+      updatedAt: 1,
+      isCollapsed: false,
+    };
+    const nodes = new Map<string, ConversationNode>([['n1', node]]);
+
+    const excluded = computeContext('n1', nodes, {}, {}, undefined);
+    const reply = excluded.messages.find((m) => m.id === 'm2');
+    expect(reply?.content).toBe('answer');
+    expect(reply?.reasoning).toBeUndefined();
+
+    const included = computeContext('n1', nodes, {}, {}, undefined, undefined, {
+      includeReasoning: true,
+    });
+    const foldedReply = included.messages.find((m) => m.id === 'm2');
+    expect(foldedReply?.content).toContain('step by step');
+    expect(foldedReply?.content.endsWith('answer')).toBe(true);
+    expect(included.tokenEstimate).toBeGreaterThan(excluded.tokenEstimate);
+  });
+});
+
+describe('computeContext merge nodes', () => {
+  const makeNode = (
+    id: string,
+    createdAt: number,
+    messages: Message[],
+    overrides: Partial<ConversationNode> = {}
+  ): ConversationNode => ({
+    id,
+    conversationId: 'c1',
+    messages,
+    position: { x: 0, y: 0 },
+    status: 'idle',
+    createdAt,
+    updatedAt: createdAt,
+    isCollapsed: false,
+    ...overrides,
+  });
+
+  const buildGraph = (mergeOverrides: Partial<ConversationNode>) => {
+    const nodes = new Map<string, ConversationNode>([
+      ['root', makeNode('root', 1, [baseMessage({ id: 'm-root', nodeId: 'root', content: 'root', createdAt: 1 })])],
+      [
+        'a',
+        makeNode(
+          'a',
+          2,
+          [
+            baseMessage({ id: 'm-a1', nodeId: 'a', content: 'a-question', createdAt: 2 }),
+            baseMessage({ id: 'm-a2', nodeId: 'a', role: 'assistant', content: 'a-answer', createdAt: 5 }),
+          ],
+          { parentNodeId: 'root' }
+        ),
+      ],
+      [
+        'b',
+        makeNode(
+          'b',
+          3,
+          [
+            baseMessage({ id: 'm-b1', nodeId: 'b', content: 'b-question', createdAt: 3 }),
+            baseMessage({ id: 'm-b2', nodeId: 'b', role: 'assistant', content: 'b-answer', createdAt: 6 }),
+          ],
+          { parentNodeId: 'root', label: 'Approach B' }
+        ),
+      ],
+      [
+        'merge',
+        makeNode(
+          'merge',
+          7,
+          [baseMessage({ id: 'm-merge', nodeId: 'merge', content: 'reconcile', createdAt: 7 })],
+          { parentNodeId: 'a', isMerge: true, ...mergeOverrides }
+        ),
+      ],
+    ]);
+    const adjacency = { root: ['a', 'b'], a: ['merge'], b: ['merge'] };
+    const reverse = { a: ['root'], b: ['root'], merge: ['a', 'b'] };
+    return { nodes, adjacency, reverse };
+  };
+
+  const contentsFor = (strategy: MergeStrategy) => {
+    const { nodes, adjacency, reverse } = buildGraph({ mergeStrategy: strategy });
+    const context = computeContext('merge', nodes, reverse, adjacency, undefined, undefined, undefined, 'root');
+    return context.messages.map((message) => message.content);
+  };
+
+  it('interleaves parent branches by time after shared ancestors', () => {
+    expect(contentsFor('interleave')).toEqual([
+      'root',
+      'a-question',
+      'b-question',
+      'a-answer',
+      'b-answer',
+      'reconcile',
+    ]);
+  });
+
+  it('concatenates parent branches one after another', () => {
+    expect(contentsFor('concatenate')).toEqual([
+      'root',
+      'a-question',
+      'a-answer',
+      'b-question',
+      'b-answer',
+      'reconcile',
+    ]);
+  });
+
+  it('tags branch messages with their source parent', () => {
+    const { nodes, adjacency, reverse } = buildGraph({ mergeStrategy: 'interleave' });
+    const context = computeContext('merge', nodes, reverse, adjacency, undefined, undefined, undefined, 'root');
+    const byContent = new Map(context.messages.map((message) => [message.content, message]));
+
+    expect(byContent.get('root')?.sourceParentId).toBeUndefined();
+    expect(byContent.get('a-answer')?.sourceParentId).toBe('a');
+    expect(byContent.get('b-answer')?.sourceParentId).toBe('b');
+    expect(byContent.get('reconcile')?.sourceParentId).toBeUndefined();
+    expect(context.nodes.map((node) => node.id)).toEqual(['root', 'a', 'b', 'merge']);
+  });
+
+  it('uses up-to-date branch summaries and falls back to raw messages when stale', () => {
+    const branchB = [
+      baseMessage({ id: 'm-b1', nodeId: 'b', content: 'b-question', createdAt: 3, sourceParentId: 'b' }),
+      baseMessage({ id: 'm-b2', nodeId: 'b', role: 'assistant', content: 'b-answer', createdAt: 6, sourceParentId: 'b' }),
+    ];
+    const { nodes, adjacency, reverse } = buildGraph({
+      mergeStrategy: 'summarize',
+      mergeSummaries: {
+        a: { content: 'stale summary', createdAt: 8, sourceSignature: 'outdated' },
+        b: { content: 'b summary', createdAt: 8, sourceSignature: getMergeBranchSignature(branchB) },
+      },
+    });
+
+    const context = computeContext('merge', nodes, reverse, adjacency, undefined, undefined, undefined, 'root');
+    const contents = context.messages.map((message) => message.content);
+
+    expect(contents).toEqual([
+      'root',
+      'a-question',
+      'a-answer',
+      'Summary of branch "Approach B":\nb summary',
+      'reconcile',
+    ]);
+    expect(context.messages[3].isMergeSummary).toBe(true);
+    expect(context.messages[3].sourceParentId).toBe('b');
+  });
 });
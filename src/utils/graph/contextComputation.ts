@@ -5,7 +5,9 @@ import type {
   AdjacencyList,
   ReverseAdjacencyList,
   ComputedContext,
+  ContextSettings,
 } from '../../types';
+import { getNodeLabel } from '../nodeLabels';
 
 /**
  * Computes the full context for a node by following the active linear thread path
@@ -16,6 +18,9 @@ import type {
  * 1. Nodes on the active thread path
  * 2. Messages from those nodes in chronological order
  * 3. System/custom/project instructions prepended
+ *
+ * Merge nodes on the path pull in the branches of all their parents, combined
+ * according to the node's merge strategy.
  */
 export function computeContext(
   nodeId: NodeId,
@@ -36,30 +41,27 @@ export function computeContext(
     includeProjectInstructions?: boolean;
     includeAttachmentContext?: boolean;
     includeProjectAttachmentContext?: boolean;
+    includeReasoning?: boolean;
   },
   rootNodeId?: NodeId
 ): ComputedContext {
-  const excludeNodes = new Set(contextSettings?.excludedNodeIds || []);
   const includeSystemPrompt = contextSettings?.includeSystemPrompt ?? true;
   const includeCustomInstructions = contextSettings?.includeCustomInstructions ?? true;
   const includeProjectInstructions = contextSettings?.includeProjectInstructions ?? true;
-  const includeAttachmentContext = contextSettings?.includeAttachmentContext ?? true;
-  const includeProjectAttachmentContext =
-    contextSettings?.includeProjectAttachmentContext ?? true;
 
-  // Step 1: Build the active linear path from root to target.
-  // This avoids context contamination from side branches in merged graphs.
+  // Step 1-2: Collect the active thread from root to target.
+  // Side branches are only followed through explicit merge nodes.
   const canonicalRootNodeId = rootNodeId || nodeId;
-  const pathNodeIds = getPathToNode(
+  const thread = collectThread(
     nodeId,
     canonicalRootNodeId,
     reverseAdjacencyList,
-    nodesMap
+    nodesMap,
+    createMessageSelector(contextSettings),
+    new Set()
   );
-
-  // Step 2: Get nodes in path order
   const contextNodes: ConversationNode[] = [];
-  for (const id of pathNodeIds) {
+  for (const id of thread.nodeIds) {
     const node = nodesMap.get(id);
     if (node) {
       contextNodes.push(node);
@@ -134,34 +136,247 @@ export function computeContext(
     });
   }
 
-  // Add messages from each node in topological order
-  for (const node of contextNodes) {
-    if (excludeNodes.has(node.id)) continue;
+  // Add thread messages in order
+  messages.push(...thread.messages);
+
+  // Step 4: Estimate token count
+  const tokenEstimate = estimateTokens(messages);
+
+  return {
+    nodes: contextNodes,
+    messages,
+    tokenEstimate,
+  };
+}
+
+interface ThreadCollection {
+  nodeIds: NodeId[];
+  messages: Message[];
+}
+
+export interface MergeBranch {
+  parentId: NodeId;
+  nodeIds: NodeId[];
+  messages: Message[];
+}
+
+type MessageSelector = (node: ConversationNode) => Message[];
+
+/**
+ * Returns the visible messages of a node in chronological order
+ */
+function createMessageSelector(contextSettings?: ContextSettings): MessageSelector {
+  const excludeNodes = new Set(contextSettings?.excludedNodeIds || []);
+  const includeAttachmentContext = contextSettings?.includeAttachmentContext ?? true;
+  const includeProjectAttachmentContext =
+    contextSettings?.includeProjectAttachmentContext ?? true;
+  const includeReasoning = contextSettings?.includeReasoning ?? false;
+
+  return (node) => {
+    if (excludeNodes.has(node.id)) return [];
     // Sort messages within node by creation time
     const nodeMessages = [...node.messages].sort(
       (a, b) => a.createdAt - b.createdAt
     );
     // Filter out system messages from nodes (they come from conversation level),
     // but keep attachment context messages.
-    const visibleMessages = nodeMessages.filter((m) => {
-      if (m.role !== 'system') return true;
-      if (!m.isAttachmentContext) return false;
-      if (m.isProjectAttachmentContext) {
-        return includeProjectAttachmentContext;
+    return nodeMessages
+      .filter((m) => {
+        if (m.role !== 'system') return true;
+        if (!m.isAttachmentContext) return false;
+        if (m.isProjectAttachmentContext) {
+          return includeProjectAttachmentContext;
+        }
+        return includeAttachmentContext;
+      })
+      .map((m) => applyReasoningSetting(m, includeReasoning));
+  };
+}
+
+/**
+ * Reasoning traces stay out of the outgoing context unless explicitly included,
+ * in which case they are folded into the message content.
+ */
+function applyReasoningSetting(message: Message, includeReasoning: boolean): Message {
+  if (message.reasoning === undefined) return message;
+  const { reasoning, ...rest } = message;
+  if (!includeReasoning || !reasoning.trim()) return rest;
+  return {
+    ...rest,
+    content: `<thinking>\n${reasoning.trim()}\n</thinking>\n\n${message.content}`,
+  };
+}
+
+function collectThread(
+  nodeId: NodeId,
+  rootNodeId: NodeId,
+  reverseAdjacencyList: ReverseAdjacencyList,
+  nodesMap: Map<NodeId, ConversationNode>,
+  selectMessages: MessageSelector,
+  expandingMerges: Set<NodeId>
+): ThreadCollection {
+  const path = walkPrimaryPath(
+    nodeId,
+    rootNodeId,
+    reverseAdjacencyList,
+    nodesMap,
+    (id) => Boolean(nodesMap.get(id)?.isMerge) && !expandingMerges.has(id)
+  );
+  const nodeIds: NodeId[] = [];
+  const messages: Message[] = [];
+
+  const head = nodesMap.get(path[0]);
+  if (head?.isMerge && head.id !== rootNodeId && !expandingMerges.has(head.id)) {
+    const merge = collectMergeBranches(
+      head,
+      rootNodeId,
+      reverseAdjacencyList,
+      nodesMap,
+      selectMessages,
+      expandingMerges
+    );
+    nodeIds.push(...merge.sharedNodeIds);
+    for (const branch of merge.branches) {
+      nodeIds.push(...branch.nodeIds);
+    }
+    messages.push(
+      ...merge.sharedMessages,
+      ...combineMergeBranches(head, merge.branches, nodesMap)
+    );
+  }
+
+  for (const id of path) {
+    const node = nodesMap.get(id);
+    if (!node) continue;
+    nodeIds.push(id);
+    messages.push(...selectMessages(node));
+  }
+
+  return { nodeIds, messages };
+}
+
+function collectMergeBranches(
+  mergeNode: ConversationNode,
+  rootNodeId: NodeId,
+  reverseAdjacencyList: ReverseAdjacencyList,
+  nodesMap: Map<NodeId, ConversationNode>,
+  selectMessages: MessageSelector,
+  expandingMerges: Set<NodeId>
+): { sharedNodeIds: NodeId[]; sharedMessages: Message[]; branches: MergeBranch[] } {
+  const nextExpanding = new Set(expandingMerges).add(mergeNode.id);
+  const parentIds = rankParents(reverseAdjacencyList[mergeNode.id] || [], nodesMap).filter(
+    (id) => nodesMap.has(id)
+  );
+  const threads = parentIds.map((parentId) => ({
+    parentId,
+    ...collectThread(
+      parentId,
+      rootNodeId,
+      reverseAdjacencyList,
+      nodesMap,
+      selectMessages,
+      nextExpanding
+    ),
+  }));
+  if (threads.length === 0) {
+    return { sharedNodeIds: [], sharedMessages: [], branches: [] };
+  }
+
+  // Ancestors common to every parent are included once, ahead of the branches.
+  const shared = new Set(
+    threads[0].nodeIds.filter((id) => threads.every((thread) => thread.nodeIds.includes(id)))
+  );
+  const sharedNodeIds = threads[0].nodeIds.filter((id) => shared.has(id));
+  const sharedMessages = threads[0].messages.filter((m) => shared.has(m.nodeId));
+
+  const seen = new Set(shared);
+  const branches = threads.map((thread): MergeBranch => {
+    const nodeIds = thread.nodeIds.filter((id) => !seen.has(id));
+    const owned = new Set(nodeIds);
+    for (const id of nodeIds) seen.add(id);
+    return {
+      parentId: thread.parentId,
+      nodeIds,
+      messages: thread.messages
+        .filter((m) => owned.has(m.nodeId))
+        .map((m) => ({ ...m, sourceParentId: thread.parentId })),
+    };
+  });
+
+  return { sharedNodeIds, sharedMessages, branches };
+}
+
+function combineMergeBranches(
+  mergeNode: ConversationNode,
+  branches: MergeBranch[],
+  nodesMap: Map<NodeId, ConversationNode>
+): Message[] {
+  const strategy = mergeNode.mergeStrategy ?? 'interleave';
+
+  if (strategy === 'concatenate') {
+    return branches.flatMap((branch) => branch.messages);
+  }
+
+  if (strategy === 'summarize') {
+    return branches.flatMap((branch): Message[] => {
+      if (branch.messages.length === 0) return [];
+      const summary = mergeNode.mergeSummaries?.[branch.parentId];
+      // Fall back to the raw branch until an up-to-date summary exists.
+      if (!summary || summary.sourceSignature !== getMergeBranchSignature(branch.messages)) {
+        return branch.messages;
       }
-      return includeAttachmentContext;
+      const parent = nodesMap.get(branch.parentId);
+      const label = parent ? getNodeLabel(parent) : `Node ${branch.parentId.slice(0, 6)}`;
+      return [
+        {
+          id: `merge-summary-${branch.parentId}`,
+          nodeId: mergeNode.id,
+          role: 'system',
+          content: `Summary of branch "${label}":\n${summary.content}`,
+          createdAt: summary.createdAt,
+          isStreaming: false,
+          isMergeSummary: true,
+          sourceParentId: branch.parentId,
+        },
+      ];
     });
-    messages.push(...visibleMessages);
   }
 
-  // Step 4: Estimate token count
-  const tokenEstimate = estimateTokens(messages);
+  // Stable sort keeps per-branch order for equal timestamps.
+  return branches
+    .flatMap((branch) => branch.messages)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
 
-  return {
-    nodes: contextNodes,
-    messages,
-    tokenEstimate,
-  };
+/**
+ * Get the branch-specific messages each parent contributes to a merge node
+ */
+export function getMergeBranches(
+  mergeNodeId: NodeId,
+  nodesMap: Map<NodeId, ConversationNode>,
+  reverseAdjacencyList: ReverseAdjacencyList,
+  rootNodeId: NodeId,
+  contextSettings?: ContextSettings
+): MergeBranch[] {
+  const mergeNode = nodesMap.get(mergeNodeId);
+  if (!mergeNode?.isMerge) return [];
+  return collectMergeBranches(
+    mergeNode,
+    rootNodeId,
+    reverseAdjacencyList,
+    nodesMap,
+    createMessageSelector(contextSettings),
+    new Set()
+  ).branches;
+}
+
+/**
+ * Fingerprint of branch messages, used to detect stale merge summaries
+ */
+export function getMergeBranchSignature(messages: Message[]): string {
+  const totalChars = messages.reduce((sum, m) => sum + m.content.length, 0);
+  const lastId = messages[messages.length - 1]?.id ?? '';
+  return `${messages.length}:${totalChars}:${lastId}`;
 }
 
 /**
@@ -231,6 +446,16 @@ export function getPathToNode(
   rootNodeId: NodeId,
   reverseAdjacencyList: ReverseAdjacencyList,
   nodesMap?: Map<NodeId, ConversationNode>
+): NodeId[] {
+  return walkPrimaryPath(nodeId, rootNodeId, reverseAdjacencyList, nodesMap);
+}
+
+function walkPrimaryPath(
+  nodeId: NodeId,
+  rootNodeId: NodeId,
+  reverseAdjacencyList: ReverseAdjacencyList,
+  nodesMap?: Map<NodeId, ConversationNode>,
+  stopAfter?: (nodeId: NodeId) => boolean
 ): NodeId[] {
   const path: NodeId[] = [];
   const visited = new Set<NodeId>();
@@ -241,6 +466,7 @@ export function getPathToNode(
     visited.add(current);
     path.unshift(current);
     if (current === rootNodeId) break;
+    if (stopAfter?.(current)) break;
 
     current = selectPrimaryParent(current, reverseAdjacencyList, nodesMap);
   }
@@ -265,7 +491,14 @@ function selectPrimaryParent(
     return explicitParentId;
   }
 
-  const rankedParents = [...parentList].sort((left, right) => {
+  return rankParents(parentList, nodesMap)[0] || null;
+}
+
+function rankParents(
+  parentList: NodeId[],
+  nodesMap?: Map<NodeId, ConversationNode>
+): NodeId[] {
+  return [...parentList].sort((left, right) => {
     const leftNode = nodesMap?.get(left);
     const rightNode = nodesMap?.get(right);
     const leftCreatedAt = leftNode?.createdAt ?? 0;
@@ -273,6 +506,4 @@ function selectPrimaryParent(
     if (leftCreatedAt !== rightCreatedAt) return leftCreatedAt - rightCreatedAt;
     return left.localeCompare(right);
   });
-
-  return rankedParents[0] || null;
 }
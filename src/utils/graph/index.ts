@@ -6,5 +6,10 @@ export {
   getDescendants,
   getAncestors,
   getPathToNode,
+  getMergeBranches,
+  getMergeBranchSignature,
 } from './contextComputation';
-export { applyDagreLayout, layoutNodes } from './layout';
+export type { MergeBranch } from './contextComputation';
+export { alignBranches } from './branchComparison';
+export type { AlignedBranch, BranchAlignment } from './branchComparison';
+export { applyDagreLayout, layoutNodes, getSiblingRowPositions } from './layout';
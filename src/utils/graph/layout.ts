@@ -84,3 +84,18 @@ export function layoutNodes(
       : node;
   });
 }
+
+/**
+ * Positions for sibling nodes placed side by side one rank below a parent
+ */
+export function getSiblingRowPositions(
+  parentPosition: { x: number; y: number },
+  count: number,
+  options: Partial<LayoutOptions> = {}
+): Array<{ x: number; y: number }> {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const step = opts.nodeWidth + opts.nodeSpacing;
+  const startX = parentPosition.x - ((count - 1) * step) / 2;
+  const y = parentPosition.y + opts.nodeHeight + opts.rankSpacing;
+  return Array.from({ length: count }, (_, index) => ({ x: startX + index * step, y }));
+}
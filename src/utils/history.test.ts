@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import type { Conversation, ConversationEdge, ConversationNode } from '../types';
+import { applyHistoryEntry, diffGraph, type GraphMaps } from './history';
+
+const meta = { id: 'h1', label: 'Test', createdAt: 1 };
+
+function makeNode(id: string, conversationId = 'c1'): ConversationNode {
+  return {
+    id,
+    conversationId,
+    messages: [],
+    position: { x: 0, y: 0 },
+    status: 'idle',
+    createdAt: 1,
+    updatedAt: 1,
+    isCollapsed: false,
+  };
+}
+
+function makeGraph(nodes: ConversationNode[], edges: ConversationEdge[] = []): GraphMaps {
+  const conversation: Conversation = {
+    id: 'c1',
+    title: 'Chat',
+    rootNodeId: 'a',
+    model: 'openai/gpt-4-turbo',
+    createdAt: 1,
+    updatedAt: 1,
+  };
+  return {
+    conversations: new Map([['c1', conversation]]),
+    nodes: new Map(nodes.map((node) => [node.id, node])),
+    edges: new Map(edges.map((edge) => [edge.id, edge])),
+  };
+}
+
+const edge: ConversationEdge = {
+  id: 'e1',
+  conversationId: 'c1',
+  source: 'a',
+  target: 'b',
+  createdAt: 1,
+};
+
+describe('diffGraph', () => {
+  it('records removed, added and replaced records of one conversation only', () => {
+    const a = makeNode('a');
+    const other = makeNode('x', 'c2');
+    const before = makeGraph([a, makeNode('b'), other], [edge]);
+    const after = makeGraph([{ ...a, label: 'Renamed' }, makeNode('c'), makeNode('y', 'c2')]);
+    after.conversations = before.conversations;
+
+    const entry = diffGraph(before, after, 'c1', meta);
+
+    expect(entry?.nodes.map((change) => [change.id, !!change.before, !!change.after])).toEqual([
+      ['a', true, true],
+      ['b', true, false],
+      ['c', false, true],
+    ]);
+    expect(entry?.edges).toEqual([{ id: 'e1', before: edge, after: undefined }]);
+    expect(entry?.conversation).toBeUndefined();
+  });
+
+  it('returns null when nothing changed', () => {
+    const graph = makeGraph([makeNode('a')]);
+    expect(diffGraph(graph, { ...graph }, 'c1', meta)).toBeNull();
+  });
+});
+
+describe('applyHistoryEntry', () => {
+  it('undoes and redoes an entry', () => {
+    const before = makeGraph([makeNode('a'), makeNode('b')], [edge]);
+    const after = makeGraph([makeNode('a')]);
+    after.nodes.set('a', before.nodes.get('a')!);
+    after.conversations = before.conversations;
+    const entry = diffGraph(before, after, 'c1', meta)!;
+
+    const undone = applyHistoryEntry(after, entry, 'undo');
+    expect(Array.from(undone!.nodes.keys())).toEqual(['a', 'b']);
+    expect(undone!.edges.get('e1')).toBe(edge);
+
+    const redone = applyHistoryEntry(undone!, entry, 'redo');
+    expect(Array.from(redone!.nodes.keys())).toEqual(['a']);
+    expect(redone!.edges.size).toBe(0);
+  });
+
+  it('accepts records that were reloaded with equal content', () => {
+    const before = makeGraph([makeNode('a')]);
+    const after = makeGraph([{ ...makeNode('a'), label: 'Renamed' }]);
+    after.conversations = before.conversations;
+    const entry = diffGraph(before, after, 'c1', meta)!;
+
+    const reloaded = makeGraph([{ ...makeNode('a'), label: 'Renamed' }]);
+    expect(applyHistoryEntry(reloaded, entry, 'undo')?.nodes.get('a')?.label).toBeUndefined();
+  });
+
+  it('refuses to apply when a record changed since', () => {
+    const before = makeGraph([makeNode('a')]);
+    const after = makeGraph([{ ...makeNode('a'), label: 'Renamed' }]);
+    after.conversations = before.conversations;
+    const entry = diffGraph(before, after, 'c1', meta)!;
+
+    const edited = makeGraph([{ ...makeNode('a'), label: 'Edited again' }]);
+    expect(applyHistoryEntry(edited, entry, 'undo')).toBeNull();
+  });
+
+  it('ignores and keeps labels and summaries written after the entry', () => {
+    const before = makeGraph([makeNode('a')]);
+    const after = makeGraph([{ ...makeNode('a'), label: 'Renamed' }]);
+    after.conversations = before.conversations;
+    const entry = diffGraph(before, after, 'c1', meta)!;
+
+    const labeled = makeGraph([
+      {
+        ...makeNode('a'),
+        label: 'Renamed',
+        autoLabel: 'Generated',
+        branchSummary: { content: 'Summary', createdAt: 2 },
+        updatedAt: 2,
+      },
+    ]);
+    const undone = applyHistoryEntry(labeled, entry, 'undo');
+    expect(undone?.nodes.get('a')).toMatchObject({
+      autoLabel: 'Generated',
+      branchSummary: { content: 'Summary', createdAt: 2 },
+    });
+    expect(undone?.nodes.get('a')?.label).toBeUndefined();
+
+    const redone = applyHistoryEntry(undone!, entry, 'redo');
+    expect(redone?.nodes.get('a')).toMatchObject({ label: 'Renamed', autoLabel: 'Generated' });
+  });
+});
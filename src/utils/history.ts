@@ -0,0 +1,157 @@
+import type {
+  Conversation,
+  ConversationEdge,
+  ConversationId,
+  ConversationNode,
+  EdgeId,
+  NodeId,
+} from '../types';
+
+export const MAX_HISTORY_ENTRIES = 100;
+
+// Node fields written in the background (labels, summaries); undo neither checks nor reverts them
+const DERIVED_NODE_FIELDS = ['autoLabel', 'branchSummary', 'mergeSummaries', 'updatedAt'];
+
+export interface GraphMaps {
+  conversations: Map<ConversationId, Conversation>;
+  nodes: Map<NodeId, ConversationNode>;
+  edges: Map<EdgeId, ConversationEdge>;
+}
+
+// A record before and after an action; undefined means it did not exist
+export interface RecordChange<T> {
+  id: string;
+  before?: T;
+  after?: T;
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  conversationId: ConversationId;
+  createdAt: number;
+  nodes: RecordChange<ConversationNode>[];
+  edges: RecordChange<ConversationEdge>[];
+  conversation?: RecordChange<Conversation>;
+}
+
+export interface ConversationHistory {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+export type HistoryDirection = 'undo' | 'redo';
+
+/**
+ * Records which nodes, edges and conversation fields of one conversation an
+ * action replaced. Store updates are immutable, so reference checks suffice.
+ * Returns null when nothing changed.
+ */
+export function diffGraph(
+  before: GraphMaps,
+  after: GraphMaps,
+  conversationId: ConversationId,
+  meta: { id: string; label: string; createdAt: number }
+): HistoryEntry | null {
+  const nodes = diffRecords(before.nodes, after.nodes, conversationId);
+  const edges = diffRecords(before.edges, after.edges, conversationId);
+  const conversationBefore = before.conversations.get(conversationId);
+  const conversationAfter = after.conversations.get(conversationId);
+  const conversation =
+    conversationBefore !== conversationAfter
+      ? { id: conversationId, before: conversationBefore, after: conversationAfter }
+      : undefined;
+
+  if (nodes.length === 0 && edges.length === 0 && !conversation) return null;
+  return { ...meta, conversationId, nodes, edges, conversation };
+}
+
+function diffRecords<T extends { id: string; conversationId: ConversationId }>(
+  before: Map<string, T>,
+  after: Map<string, T>,
+  conversationId: ConversationId
+): RecordChange<T>[] {
+  const changes: RecordChange<T>[] = [];
+  for (const [id, record] of before) {
+    if (record.conversationId !== conversationId) continue;
+    const next = after.get(id);
+    if (next !== record) changes.push({ id, before: record, after: next });
+  }
+  for (const [id, record] of after) {
+    if (record.conversationId !== conversationId || before.has(id)) continue;
+    changes.push({ id, after: record });
+  }
+  return changes;
+}
+
+/**
+ * Applies an entry in either direction. Returns null when a record no longer
+ * matches what the entry expects, i.e. something else changed it since.
+ * Derived node fields are left as they are now.
+ */
+export function applyHistoryEntry(
+  maps: GraphMaps,
+  entry: HistoryEntry,
+  direction: HistoryDirection
+): GraphMaps | null {
+  const nodes = applyRecordChanges(maps.nodes, entry.nodes, direction, DERIVED_NODE_FIELDS);
+  const edges = applyRecordChanges(maps.edges, entry.edges, direction);
+  if (!nodes || !edges) return null;
+
+  let conversations = maps.conversations;
+  if (entry.conversation) {
+    const next = applyRecordChanges(maps.conversations, [entry.conversation], direction);
+    if (!next) return null;
+    conversations = next;
+  }
+  return { conversations, nodes, edges };
+}
+
+function applyRecordChanges<T>(
+  current: Map<string, T>,
+  changes: RecordChange<T>[],
+  direction: HistoryDirection,
+  derivedFields: string[] = []
+): Map<string, T> | null {
+  if (changes.length === 0) return current;
+  const next = new Map(current);
+  for (const change of changes) {
+    const expected = direction === 'undo' ? change.after : change.before;
+    const target = direction === 'undo' ? change.before : change.after;
+    const record = current.get(change.id);
+    if (!isSameRecord(record, expected, derivedFields)) return null;
+    if (target) next.set(change.id, record ? withFields(target, record, derivedFields) : target);
+    else next.delete(change.id);
+  }
+  return next;
+}
+
+// Records reloaded from IndexedDB are new objects, so fall back to comparing content
+function isSameRecord<T>(a: T | undefined, b: T | undefined, ignoredFields: string[] = []) {
+  if (a === b) return true;
+  if (!a || !b) return false;
+  return (
+    JSON.stringify(withoutFields(a, ignoredFields)) ===
+    JSON.stringify(withoutFields(b, ignoredFields))
+  );
+}
+
+function withoutFields<T>(record: T, fields: string[]) {
+  if (fields.length === 0) return record;
+  const copy = { ...record } as Record<string, unknown>;
+  for (const field of fields) delete copy[field];
+  return copy;
+}
+
+// `target` with the given fields taken from `source`, present or not
+function withFields<T>(target: T, source: T, fields: string[]): T {
+  const from = source as Record<string, unknown>;
+  const to = target as Record<string, unknown>;
+  if (fields.every((field) => from[field] === to[field])) return target;
+  const copy = { ...to };
+  for (const field of fields) {
+    if (field in from) copy[field] = from[field];
+    else delete copy[field];
+  }
+  return copy as T;
+}
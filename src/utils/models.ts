@@ -35,6 +35,14 @@ export function isReasoningModel(model?: LLMModel | null): boolean {
   return getReasoningParameter(model) !== null;
 }
 
+/**
+ * Whether the model accepts the given input modality (e.g. 'image', 'file').
+ * Models without modality metadata are treated as text-only.
+ */
+export function supportsInputModality(model: LLMModel | null | undefined, modality: string) {
+  return model?.inputModalities?.includes(modality) ?? false;
+}
+
 export function isLikelyEmbeddingModel(model?: LLMModel | null): boolean {
   if (!model) return false;
   const supported = normalizeSupportedParameters(model);
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import type { LLMModel } from '../types';
+import { readFileAsDataUrl } from './files';
+import {
+  buildContentParts,
+  canSendInline,
+  estimateChatMessageTokens,
+  getChatMessageText,
+  toModelContentParts,
+} from './multimodal';
+
+const visionModel: LLMModel = {
+  id: 'test/vision',
+  name: 'Vision',
+  contextLength: 8192,
+  pricing: { prompt: 0, completion: 0 },
+  inputModalities: ['text', 'image'],
+};
+
+describe('multimodal utils', () => {
+  it('sends images inline only to models that accept them', () => {
+    const image = { name: 'photo.png', type: 'image/png', size: 1024 };
+    const pdf = { name: 'paper.pdf', type: 'application/pdf', size: 1024 };
+
+    expect(canSendInline(image, visionModel)).toBe(true);
+    expect(canSendInline(pdf, visionModel)).toBe(false);
+    expect(canSendInline(image, { ...visionModel, inputModalities: undefined })).toBe(false);
+    expect(canSendInline({ ...image, size: 50 * 1024 * 1024 }, visionModel)).toBe(false);
+  });
+
+  it('builds OpenAI-style parts and keeps text readable', async () => {
+    const file = new File([new Uint8Array([1, 2, 3])], 'dot.png', { type: 'image/png' });
+    const dataUrl = await readFileAsDataUrl(file);
+    expect(dataUrl).toBe('data:image/png;base64,AQID');
+
+    const parts = buildContentParts('What is this?', [{ kind: 'image', name: 'dot.png', dataUrl }]);
+    expect(parts).toEqual([
+      { type: 'text', text: 'What is this?' },
+      { type: 'image_url', image_url: { url: dataUrl } },
+    ]);
+
+    const message = { role: 'user' as const, content: parts };
+    expect(getChatMessageText(message)).toBe('What is this?');
+    expect(estimateChatMessageTokens(message)).toBeGreaterThan(
+      estimateChatMessageTokens({ role: 'user', content: 'What is this?' })
+    );
+  });
+
+  it('converts parts for the AI SDK', () => {
+    const parts = toModelContentParts([
+      { type: 'text', text: 'Summarize' },
+      { type: 'file', file: { filename: 'a.pdf', file_data: 'data:application/pdf;base64,JVBE' } },
+    ]);
+    expect(parts).toEqual([
+      { type: 'text', text: 'Summarize' },
+      { type: 'file', data: 'JVBE', mediaType: 'application/pdf', filename: 'a.pdf' },
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+import type { FilePart, TextPart } from 'ai';
+import type { ChatContentPart, ChatMessage } from '../api/openrouter';
+import type { FileAttachment, LLMModel } from '../types';
+import { isImageFile, isPdfFile, parseDataUrl } from './files';
+import { supportsInputModality } from './models';
+
+// Files above this size are not inlined; they fall back to attachment processing.
+export const MAX_INLINE_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+// Rough provider cost of one image; real counts depend on resolution and model.
+const IMAGE_PART_TOKENS = 800;
+const PDF_PART_TOKENS = 1500;
+
+export type InlineAttachmentKind = 'image' | 'pdf';
+
+export interface InlineAttachment {
+  kind: InlineAttachmentKind;
+  name: string;
+  dataUrl: string;
+}
+
+export function getInlineAttachmentKind(
+  attachment: Pick<FileAttachment, 'type' | 'name'>
+): InlineAttachmentKind | null {
+  if (isImageFile(attachment)) return 'image';
+  if (isPdfFile(attachment)) return 'pdf';
+  return null;
+}
+
+/**
+ * Whether the model can take this attachment as a content part instead of
+ * going through text extraction.
+ */
+export function canSendInline(
+  attachment: Pick<FileAttachment, 'type' | 'name' | 'size'>,
+  model: LLMModel | null | undefined
+) {
+  if (attachment.size > MAX_INLINE_ATTACHMENT_BYTES) return false;
+  const kind = getInlineAttachmentKind(attachment);
+  if (kind === 'image') return supportsInputModality(model, 'image');
+  if (kind === 'pdf') return supportsInputModality(model, 'file');
+  return false;
+}
+
+export function buildContentParts(text: string, inline: InlineAttachment[]): ChatContentPart[] {
+  const parts: ChatContentPart[] = [];
+  if (text.trim()) parts.push({ type: 'text', text });
+  for (const attachment of inline) {
+    parts.push(
+      attachment.kind === 'image'
+        ? { type: 'image_url', image_url: { url: attachment.dataUrl } }
+        : { type: 'file', file: { filename: attachment.name, file_data: attachment.dataUrl } }
+    );
+  }
+  return parts;
+}
+
+/**
+ * Text of a chat message, ignoring image and file parts
+ */
+export function getChatMessageText(message: ChatMessage): string {
+  if (typeof message.content === 'string') return message.content;
+  return message.content
+    .map((part) => (part.type === 'text' ? part.text : ''))
+    .filter(Boolean)
+    .join('\n');
+}
+
+export function hasNonTextParts(message: ChatMessage) {
+  return typeof message.content !== 'string' && message.content.some((part) => part.type !== 'text');
+}
+
+export function estimateChatMessageTokens(message: ChatMessage): number {
+  const textTokens = Math.ceil(getChatMessageText(message).length / 4);
+  if (typeof message.content === 'string') return textTokens;
+  return message.content.reduce(
+    (sum, part) =>
+      sum +
+      (part.type === 'image_url' ? IMAGE_PART_TOKENS : part.type === 'file' ? PDF_PART_TOKENS : 0),
+    textTokens
+  );
+}
+
+/**
+ * Converts multipart content to AI SDK user content parts
+ */
+export function toModelContentParts(parts: ChatContentPart[]): Array<TextPart | FilePart> {
+  return parts.flatMap((part): Array<TextPart | FilePart> => {
+    if (part.type === 'text') return [{ type: 'text', text: part.text }];
+    const dataUrl = part.type === 'image_url' ? part.image_url.url : part.file.file_data;
+    const parsed = parseDataUrl(dataUrl);
+    if (!parsed) return [];
+    return [
+      {
+        type: 'file',
+        data: parsed.base64,
+        mediaType: parsed.mediaType,
+        ...(part.type === 'file' ? { filename: part.file.filename } : {}),
+      },
+    ];
+  });
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildNodeLabelPrompt,
+  getNodeLabel,
+  MAX_NODE_LABEL_LENGTH,
+  parseNodeLabelResponse,
+} from './nodeLabels';
+
+describe('getNodeLabel', () => {
+  it('prefers the manual label, then the generated one', () => {
+    expect(getNodeLabel({ id: 'abcdef123', label: 'Mine', autoLabel: 'Generated' })).toBe('Mine');
+    expect(getNodeLabel({ id: 'abcdef123', autoLabel: 'Generated' })).toBe('Generated');
+    expect(getNodeLabel({ id: 'abcdef123' })).toBe('Node abcdef');
+  });
+});
+
+describe('buildNodeLabelPrompt', () => {
+  it('separates the latest exchange from the branch before it', () => {
+    const prompt = buildNodeLabelPrompt(
+      [
+        { role: 'system', text: 'Be brief' },
+        { role: 'user', text: 'Plan a trip' },
+        { role: 'assistant', text: 'Where to?' },
+        { role: 'user', text: 'Lisbon in   May' },
+        { role: 'assistant', text: 'Here is a plan' },
+      ],
+      2
+    );
+    expect(prompt).toBe(
+      'Branch so far:\nUser: Plan a trip\nAssistant: Where to?\n\n' +
+        'Latest exchange:\nUser: Lisbon in May\nAssistant: Here is a plan'
+    );
+  });
+
+  it('keeps only the most recent earlier messages', () => {
+    const branch = Array.from({ length: 20 }, (_, index) => ({
+      role: 'user' as const,
+      text: `message ${index}`,
+    }));
+    const prompt = buildNodeLabelPrompt(branch, 2);
+    expect(prompt).not.toContain('message 7\n');
+    expect(prompt).toContain('User: message 8\n');
+    expect(prompt).toContain('User: message 19');
+  });
+});
+
+describe('parseNodeLabelResponse', () => {
+  it('reads both lines and cleans them up', () => {
+    expect(
+      parseNodeLabelResponse(
+        '**Label:** "Lisbon itinerary."\nSummary: Planning a May trip.\nThe user picked Lisbon.'
+      )
+    ).toEqual({
+      label: 'Lisbon itinerary',
+      summary: 'Planning a May trip. The user picked Lisbon.',
+    });
+  });
+
+  it('returns empty fields when the format is missing', () => {
+    expect(parseNodeLabelResponse('Sure! Here you go.')).toEqual({ label: '', summary: '' });
+  });
+
+  it('caps the label length', () => {
+    const { label } = parseNodeLabelResponse(`Label: ${'x'.repeat(100)}`);
+    expect(label).toHaveLength(MAX_NODE_LABEL_LENGTH);
+  });
+});
@@ -0,0 +1,79 @@
+import type { ConversationNode, MessageRole } from '../types';
+
+export const MAX_NODE_LABEL_LENGTH = 48;
+export const MAX_BRANCH_SUMMARY_LENGTH = 600;
+const MAX_TRANSCRIPT_MESSAGES = 12;
+const MAX_TRANSCRIPT_MESSAGE_LENGTH = 600;
+
+export const NODE_LABEL_SYSTEM_PROMPT = [
+  'You label steps of a branching chat. Reply with exactly two lines:',
+  'Label: a 2-5 word label for the latest exchange',
+  'Summary: one short paragraph (at most 3 sentences) summarizing the whole branch so far',
+].join('\n');
+
+// A label typed by the user always wins over a generated one
+export function getNodeLabel(node: Pick<ConversationNode, 'id' | 'label' | 'autoLabel'>) {
+  return node.label || node.autoLabel || `Node ${node.id.slice(0, 6)}`;
+}
+
+/**
+ * The branch transcript sent for labeling. Older messages are dropped and
+ * long ones clipped; the last `latestCount` messages are the node's own.
+ */
+export function buildNodeLabelPrompt(
+  branch: Array<{ role: MessageRole; text: string }>,
+  latestCount: number
+) {
+  const visible = branch.filter((message) => message.role !== 'system' && message.text.trim());
+  const format = (message: { role: MessageRole; text: string }) => {
+    const role = message.role === 'assistant' ? 'Assistant' : 'User';
+    const text = message.text.replace(/\s+/g, ' ').trim();
+    const clipped =
+      text.length > MAX_TRANSCRIPT_MESSAGE_LENGTH
+        ? `${text.slice(0, MAX_TRANSCRIPT_MESSAGE_LENGTH)}...`
+        : text;
+    return `${role}: ${clipped}`;
+  };
+
+  const splitAt = Math.max(0, visible.length - latestCount);
+  const earlierCount = Math.max(0, MAX_TRANSCRIPT_MESSAGES - latestCount);
+  const earlier = visible.slice(Math.max(0, splitAt - earlierCount), splitAt);
+  const latest = visible.slice(splitAt);
+  const sections = [];
+  if (earlier.length > 0) sections.push(`Branch so far:\n${earlier.map(format).join('\n')}`);
+  sections.push(`Latest exchange:\n${latest.map(format).join('\n')}`);
+  return sections.join('\n\n');
+}
+
+export function parseNodeLabelResponse(raw: string) {
+  let label = '';
+  const summaryLines: string[] = [];
+  let inSummary = false;
+
+  for (const line of raw.split(/\r?\n/)) {
+    const trimmed = line.replace(/^[-*#\s]+/, '').replace(/\*\*/g, '').trim();
+    const labelMatch = /^label\s*:\s*(.*)$/i.exec(trimmed);
+    const summaryMatch = /^summary\s*:\s*(.*)$/i.exec(trimmed);
+    if (labelMatch) {
+      label = labelMatch[1];
+      inSummary = false;
+    } else if (summaryMatch) {
+      summaryLines.push(summaryMatch[1]);
+      inSummary = true;
+    } else if (inSummary && trimmed) {
+      summaryLines.push(trimmed);
+    }
+  }
+
+  return {
+    label: label
+      .replace(/^["'`]+|["'`.]+$/g, '')
+      .trim()
+      .slice(0, MAX_NODE_LABEL_LENGTH),
+    summary: summaryLines
+      .join(' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .slice(0, MAX_BRANCH_SUMMARY_LENGTH),
+  };
+}
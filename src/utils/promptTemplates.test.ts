@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import type { PromptTemplate } from '../types';
+import {
+  createTemplateExport,
+  extractTemplateVariables,
+  fillTemplate,
+  filterTemplatesByCommand,
+  getAvailableTemplates,
+  getSlashQuery,
+  parseTemplateExport,
+} from './promptTemplates';
+
+function template(overrides: Partial<PromptTemplate>): PromptTemplate {
+  return {
+    id: overrides.name ?? 'id',
+    scopeType: 'user',
+    scopeId: 'global',
+    name: 'Template',
+    content: '',
+    createdAt: 1,
+    updatedAt: 1,
+    ...overrides,
+  };
+}
+
+describe('prompt templates', () => {
+  it('extracts and fills variables', () => {
+    const content = 'Review {{ language }} code:\n{{code}}\nFocus on {{language}} idioms.';
+
+    expect(extractTemplateVariables(content)).toEqual(['language', 'code']);
+    expect(fillTemplate(content, { language: 'Rust', code: 'fn main() {}' })).toBe(
+      'Review Rust code:\nfn main() {}\nFocus on Rust idioms.'
+    );
+    expect(fillTemplate('Hi {{name}}', {})).toBe('Hi ');
+  });
+
+  it('lists project templates before user templates and hides other projects', () => {
+    const templates = [
+      template({ name: 'Summarize' }),
+      template({ name: 'Release notes', scopeType: 'project', scopeId: 'p1' }),
+      template({ name: 'Other', scopeType: 'project', scopeId: 'p2' }),
+    ];
+
+    expect(getAvailableTemplates(templates, 'p1').map((entry) => entry.name)).toEqual([
+      'Release notes',
+      'Summarize',
+    ]);
+    expect(getAvailableTemplates(templates, null).map((entry) => entry.name)).toEqual([
+      'Summarize',
+    ]);
+  });
+
+  it('matches slash commands by prefix first', () => {
+    const templates = [template({ name: 'Bug report' }), template({ name: 'Code review' })];
+
+    expect(getSlashQuery('/Rev')).toBe('rev');
+    expect(getSlashQuery('/review this')).toBeNull();
+    expect(getSlashQuery('no slash')).toBeNull();
+    expect(filterTemplatesByCommand(templates, 'code').map((entry) => entry.name)).toEqual([
+      'Code review',
+    ]);
+    expect(filterTemplatesByCommand(templates, 're').map((entry) => entry.name)).toEqual([
+      'Bug report',
+      'Code review',
+    ]);
+  });
+
+  it('round-trips exports and rejects malformed files', () => {
+    const exported = createTemplateExport(
+      [template({ name: 'Standup', description: 'Daily update', content: 'Yesterday: {{done}}' })],
+      0
+    );
+
+    expect(parseTemplateExport(JSON.stringify(exported))).toEqual([
+      { name: 'Standup', description: 'Daily update', content: 'Yesterday: {{done}}' },
+    ]);
+    expect(() => parseTemplateExport('{')).toThrow('not valid JSON');
+    expect(() => parseTemplateExport({ format: 'other' })).toThrow('not a prompt template export');
+    expect(() =>
+      parseTemplateExport({ ...exported, templates: [{ name: '', content: 'x' }] })
+    ).toThrow('Template 1 needs a name and content.');
+  });
+});
@@ -0,0 +1,150 @@
+import type { ProjectId, PromptTemplate } from '../types';
+
+export const PROMPT_TEMPLATE_FORMAT = 'graph-llm-chat-prompt-templates';
+export const PROMPT_TEMPLATE_VERSION = 1;
+export const USER_TEMPLATE_SCOPE_ID = 'global';
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z0-9_.-]+)\s*\}\}/g;
+
+export type PromptTemplateDraft = Pick<PromptTemplate, 'name' | 'description' | 'content'>;
+
+export interface PromptTemplateExport {
+  format: typeof PROMPT_TEMPLATE_FORMAT;
+  version: number;
+  exportedAt: number;
+  templates: PromptTemplateDraft[];
+}
+
+/**
+ * Variable names in order of first appearance
+ */
+export function extractTemplateVariables(content: string): string[] {
+  const names: string[] = [];
+  for (const match of content.matchAll(VARIABLE_PATTERN)) {
+    if (!names.includes(match[1])) names.push(match[1]);
+  }
+  return names;
+}
+
+export function fillTemplate(content: string, values: Record<string, string>): string {
+  return content.replace(VARIABLE_PATTERN, (_, name: string) => values[name] ?? '');
+}
+
+export function getTemplateCommand(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'template'
+  );
+}
+
+/**
+ * Templates usable in a conversation: the project's own first, then user templates
+ */
+export function getAvailableTemplates(
+  templates: Iterable<PromptTemplate>,
+  projectId: ProjectId | null | undefined
+): PromptTemplate[] {
+  return Array.from(templates)
+    .filter(
+      (template) =>
+        template.scopeType === 'user' ||
+        (projectId != null && template.scopeId === projectId)
+    )
+    .sort((a, b) => {
+      if (a.scopeType !== b.scopeType) return a.scopeType === 'project' ? -1 : 1;
+      return a.name.localeCompare(b.name);
+    });
+}
+
+/**
+ * Slash-command query when the input is just "/word", otherwise null
+ */
+export function getSlashQuery(input: string): string | null {
+  const match = /^\/([^\s/]*)$/.exec(input);
+  return match ? match[1].toLowerCase() : null;
+}
+
+export function filterTemplatesByCommand(
+  templates: PromptTemplate[],
+  query: string
+): PromptTemplate[] {
+  if (!query) return templates;
+  const prefix: PromptTemplate[] = [];
+  const partial: PromptTemplate[] = [];
+  for (const template of templates) {
+    const command = getTemplateCommand(template.name);
+    if (command.startsWith(query)) prefix.push(template);
+    else if (command.includes(query)) partial.push(template);
+  }
+  return [...prefix, ...partial];
+}
+
+export function createTemplateExport(
+  templates: PromptTemplate[],
+  exportedAt = Date.now()
+): PromptTemplateExport {
+  return {
+    format: PROMPT_TEMPLATE_FORMAT,
+    version: PROMPT_TEMPLATE_VERSION,
+    exportedAt,
+    templates: templates.map((template) => ({
+      name: template.name,
+      ...(template.description ? { description: template.description } : {}),
+      content: template.content,
+    })),
+  };
+}
+
+/**
+ * Parses an untrusted template export. Throws with a readable message when invalid.
+ */
+export function parseTemplateExport(raw: unknown): PromptTemplateDraft[] {
+  let value = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      throw new Error('Template file is not valid JSON.');
+    }
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('Template file must be a JSON object.');
+  }
+  const record = value as Record<string, unknown>;
+  if (record.format !== PROMPT_TEMPLATE_FORMAT) {
+    throw new Error('File is not a prompt template export.');
+  }
+  if (typeof record.version !== 'number' || record.version > PROMPT_TEMPLATE_VERSION) {
+    throw new Error(`Unsupported template export version: ${String(record.version)}.`);
+  }
+  if (!Array.isArray(record.templates)) {
+    throw new Error('Template export is missing its templates.');
+  }
+
+  return record.templates.map((entry, index) => {
+    const template = entry as Partial<PromptTemplateDraft> | null;
+    if (
+      !template ||
+      typeof template.name !== 'string' ||
+      !template.name.trim() ||
+      typeof template.content !== 'string'
+    ) {
+      throw new Error(`Template ${index + 1} needs a name and content.`);
+    }
+    return {
+      name: template.name.trim(),
+      description:
+        typeof template.description === 'string' && template.description.trim()
+          ? template.description.trim()
+          : undefined,
+      content: template.content,
+    };
+  });
+}
+
+export function getTemplateExportFileName(scopeName: string, exportedAt = Date.now()) {
+  const date = new Date(exportedAt).toISOString().slice(0, 10);
+  return `${getTemplateCommand(scopeName)}-templates-${date}.json`;
+}
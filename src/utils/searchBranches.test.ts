@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import type { ConversationEdge, ConversationNode, MessageSearchResult } from '../types';
+import {
+  describeSearchBranches,
+  formatBranchPath,
+  groupSearchResults,
+  type BranchGraph,
+} from './searchBranches';
+
+function makeNode(id: string, overrides: Partial<ConversationNode> = {}): ConversationNode {
+  return {
+    id,
+    conversationId: 'c1',
+    messages: [],
+    position: { x: 0, y: 0 },
+    status: 'idle',
+    createdAt: 1,
+    updatedAt: 1,
+    isCollapsed: false,
+    label: id.toUpperCase(),
+    ...overrides,
+  };
+}
+
+function makeEdge(source: string, target: string): ConversationEdge {
+  return { id: `${source}-${target}`, source, target, conversationId: 'c1', createdAt: 1 };
+}
+
+function makeResult(
+  messageId: string,
+  nodeId: string,
+  overrides: Partial<MessageSearchResult> = {}
+): MessageSearchResult {
+  return {
+    messageId,
+    nodeId,
+    conversationId: 'c1',
+    role: 'user',
+    content: messageId,
+    createdAt: 1,
+    conversationTitle: 'Chat',
+    ...overrides,
+  };
+}
+
+// root -> a -> b, root -> c, with reply r hanging off a
+function buildGraph(activeLeafId: string): BranchGraph {
+  const nodes = [
+    makeNode('root'),
+    makeNode('a'),
+    makeNode('b'),
+    makeNode('c'),
+    makeNode('r', { isReply: true, parentNodeId: 'a' }),
+  ];
+  return {
+    rootNodeId: 'root',
+    nodes: new Map(nodes.map((node) => [node.id, node])),
+    edges: [makeEdge('root', 'a'), makeEdge('a', 'b'), makeEdge('root', 'c'), makeEdge('a', 'r')],
+    activeLeafId,
+  };
+}
+
+describe('describeSearchBranches', () => {
+  it('gives the path to each hit and whether it is on the active branch', () => {
+    const branches = describeSearchBranches(
+      [makeResult('m1', 'a'), makeResult('m2', 'c'), makeResult('m3', 'r', { isReply: true })],
+      new Map([['c1', buildGraph('b')]])
+    );
+
+    expect(branches.get('m1')).toEqual({
+      branchNodeId: 'a',
+      path: [
+        { nodeId: 'root', label: 'ROOT' },
+        { nodeId: 'a', label: 'A' },
+      ],
+      isOnActiveBranch: true,
+    });
+    expect(branches.get('m2')?.isOnActiveBranch).toBe(false);
+    expect(branches.get('m3')?.branchNodeId).toBe('a');
+    expect(branches.get('m3')?.isOnActiveBranch).toBe(true);
+  });
+
+  it('skips hits whose conversation graph is missing', () => {
+    const branches = describeSearchBranches(
+      [makeResult('m1', 'a', { conversationId: 'other' })],
+      new Map([['c1', buildGraph('b')]])
+    );
+    expect(branches.size).toBe(0);
+  });
+});
+
+describe('groupSearchResults', () => {
+  it('groups by conversation and branch node in rank order', () => {
+    const groups = groupSearchResults([
+      makeResult('m1', 'b', { conversationId: 'c2', conversationTitle: 'Second' }),
+      makeResult('m2', 'a'),
+      makeResult('m3', 'r', {
+        branch: { branchNodeId: 'a', path: [], isOnActiveBranch: false },
+      }),
+      makeResult('m4', 'b', { conversationId: 'c2', conversationTitle: 'Second' }),
+    ]);
+
+    expect(groups.map((group) => group.conversationTitle)).toEqual(['Second', 'Chat']);
+    expect(groups[0].branches.map((branch) => branch.results.length)).toEqual([2]);
+    expect(groups[1].branches.map((branch) => branch.branchNodeId)).toEqual(['a']);
+    expect(groups[1].branches[0].results.map((result) => result.messageId)).toEqual([
+      'm2',
+      'm3',
+    ]);
+  });
+});
+
+describe('formatBranchPath', () => {
+  it('collapses the middle of long paths', () => {
+    const path = ['Root', 'One', 'Two', 'Three', 'Four'].map((label) => ({
+      nodeId: label,
+      label,
+    }));
+    expect(formatBranchPath(path.slice(0, 3))).toBe('Root → One → Two');
+    expect(formatBranchPath(path)).toBe('Root → … → Three → Four');
+  });
+});
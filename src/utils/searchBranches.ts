@@ -0,0 +1,127 @@
+import type {
+  ConversationEdge,
+  ConversationId,
+  ConversationNode,
+  MessageId,
+  MessageSearchResult,
+  NodeId,
+  ReverseAdjacencyList,
+  SearchResultBranch,
+} from '../types';
+import { computeAdjacencyLists, getPathToNode } from './graph';
+import { getNodeLabel } from './nodeLabels';
+
+export interface BranchGraph {
+  rootNodeId: NodeId;
+  nodes: Map<NodeId, ConversationNode>;
+  edges: ConversationEdge[];
+  activeLeafId?: NodeId | null; // End of the branch chat view shows for this conversation
+}
+
+export interface SearchResultGroup {
+  conversationId: ConversationId;
+  conversationTitle: string;
+  projectName?: string;
+  branches: Array<{
+    branchNodeId: NodeId;
+    branch?: SearchResultBranch;
+    results: MessageSearchResult[];
+  }>;
+}
+
+// Replies live off the graph; their thread belongs to the node they hang off
+function getBranchNodeId(nodeId: NodeId, nodes: Map<NodeId, ConversationNode>) {
+  let current = nodes.get(nodeId);
+  const visited = new Set<NodeId>();
+  while (current?.isReply && current.parentNodeId && !visited.has(current.id)) {
+    visited.add(current.id);
+    current = nodes.get(current.parentNodeId);
+  }
+  return current && !current.isReply ? current.id : null;
+}
+
+function getMainPath(
+  nodeId: NodeId,
+  graph: BranchGraph,
+  reverseAdjacencyList: ReverseAdjacencyList
+) {
+  return getPathToNode(nodeId, graph.rootNodeId, reverseAdjacencyList, graph.nodes).filter(
+    (id) => !graph.nodes.get(id)?.isReply
+  );
+}
+
+/**
+ * Path from the root to each hit and whether it lies on the branch that is
+ * active in its conversation. Hits whose graph is unknown are left out.
+ */
+export function describeSearchBranches(
+  results: MessageSearchResult[],
+  graphs: Map<ConversationId, BranchGraph>
+): Map<MessageId, SearchResultBranch> {
+  const branches = new Map<MessageId, SearchResultBranch>();
+  const conversationIds = new Set(results.map((result) => result.conversationId));
+
+  for (const conversationId of conversationIds) {
+    const graph = graphs.get(conversationId);
+    if (!graph) continue;
+    const { reverseAdjacencyList } = computeAdjacencyLists(graph.edges);
+    const activeLeafId = graph.activeLeafId
+      ? getBranchNodeId(graph.activeLeafId, graph.nodes)
+      : null;
+    const activePath = new Set(
+      activeLeafId ? getMainPath(activeLeafId, graph, reverseAdjacencyList) : []
+    );
+
+    for (const result of results) {
+      if (result.conversationId !== conversationId) continue;
+      const branchNodeId = getBranchNodeId(result.nodeId, graph.nodes);
+      if (!branchNodeId) continue;
+      const path = getMainPath(branchNodeId, graph, reverseAdjacencyList).map((nodeId) => ({
+        nodeId,
+        label: getNodeLabel(graph.nodes.get(nodeId) ?? { id: nodeId }),
+      }));
+      branches.set(result.messageId, {
+        branchNodeId,
+        path,
+        isOnActiveBranch: activePath.has(branchNodeId),
+      });
+    }
+  }
+
+  return branches;
+}
+
+/**
+ * Groups ranked hits by conversation, then by the node they sit on. Groups
+ * keep the rank of their best hit.
+ */
+export function groupSearchResults(results: MessageSearchResult[]): SearchResultGroup[] {
+  const groups = new Map<ConversationId, SearchResultGroup>();
+  for (const result of results) {
+    let group = groups.get(result.conversationId);
+    if (!group) {
+      group = {
+        conversationId: result.conversationId,
+        conversationTitle: result.conversationTitle,
+        projectName: result.projectName,
+        branches: [],
+      };
+      groups.set(result.conversationId, group);
+    }
+    const branchNodeId = result.branch?.branchNodeId ?? result.nodeId;
+    const branch = group.branches.find((entry) => entry.branchNodeId === branchNodeId);
+    if (branch) {
+      branch.results.push(result);
+    } else {
+      group.branches.push({ branchNodeId, branch: result.branch, results: [result] });
+    }
+  }
+  return Array.from(groups.values());
+}
+
+// "Root → … → Parent → Node", keeping the ends when the path is long
+export function formatBranchPath(path: SearchResultBranch['path'], maxSteps = 4) {
+  const labels = path.map((step) => step.label);
+  if (labels.length <= maxSteps) return labels.join(' → ');
+  return [labels[0], '…', ...labels.slice(-(maxSteps - 2))].join(' → ');
+}
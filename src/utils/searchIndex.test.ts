@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import type { ConversationNode } from '../types';
+import {
+  buildHighlightedSnippet,
+  collectIndexChanges,
+  getEditDistance,
+  parseSearchQuery,
+  SearchIndex,
+  type SearchDocument,
+} from './searchIndex';
+
+function makeDoc(id: string, content: string, overrides: Partial<SearchDocument> = {}) {
+  return {
+    id,
+    nodeId: 'n1',
+    conversationId: 'c1',
+    role: 'user',
+    content,
+    createdAt: Number(id.replace(/\D/g, '')) || 1,
+    ...overrides,
+  } satisfies SearchDocument;
+}
+
+function search(index: SearchIndex, query: string) {
+  return index.search(parseSearchQuery(query)).map((hit) => hit.doc.id);
+}
+
+function buildIndex() {
+  const index = new SearchIndex();
+  index.upsert(makeDoc('m1', 'Deploy the staging server before Friday'));
+  index.upsert(makeDoc('m2', 'The server crashed again; server logs attached'));
+  index.upsert(makeDoc('m3', 'Staging deployment notes for the new server'));
+  index.upsert(makeDoc('m4', 'Lunch plans'));
+  return index;
+}
+
+describe('parseSearchQuery', () => {
+  it('separates phrases, prefixes, terms and filters', () => {
+    const query =
+      '"staging server" deploy* Logs role:assistant project:"Side project" after:2024-05-01';
+    expect(parseSearchQuery(query)).toEqual({
+      clauses: [
+        { type: 'phrase', terms: ['staging', 'server'] },
+        { type: 'prefix', term: 'deploy' },
+        { type: 'term', term: 'logs' },
+      ],
+      filters: {
+        role: 'assistant',
+        project: 'side project',
+        after: Date.parse('2024-05-01'),
+      },
+    });
+  });
+
+  it('treats unknown keys as text', () => {
+    expect(parseSearchQuery('todo:now').clauses).toEqual([
+      { type: 'term', term: 'todo' },
+      { type: 'term', term: 'now' },
+    ]);
+  });
+});
+
+describe('SearchIndex', () => {
+  it('ranks by BM25 and requires every term', () => {
+    const index = buildIndex();
+    expect(search(index, 'server')).toEqual(['m2', 'm1', 'm3']);
+    expect(search(index, 'staging server')).toEqual(['m1', 'm3']);
+  });
+
+  it('matches phrases only in order', () => {
+    expect(search(buildIndex(), '"staging server"')).toEqual(['m1']);
+  });
+
+  it('expands prefixes and misspellings', () => {
+    const index = buildIndex();
+    expect(search(index, 'deploy*').sort()).toEqual(['m1', 'm3']);
+    expect(search(index, 'sevrer')).toEqual([]);
+    expect(search(index, 'servr')).toEqual(['m2', 'm1', 'm3']);
+  });
+
+  it('updates and removes documents incrementally', () => {
+    const index = buildIndex();
+    index.upsert(makeDoc('m4', 'Lunch near the server room'));
+    index.remove('m2');
+    expect(search(index, 'server')).toEqual(['m4', 'm1', 'm3']);
+    expect(search(index, 'crashed')).toEqual([]);
+    expect(index.size).toBe(3);
+  });
+
+  it('applies filters and lists filter-only queries newest first', () => {
+    const index = buildIndex();
+    const hits = index.search(parseSearchQuery(''), { filter: (doc) => doc.id !== 'm4' });
+    expect(hits.map((hit) => hit.doc.id)).toEqual(['m3', 'm2', 'm1']);
+  });
+});
+
+describe('helpers', () => {
+  it('computes bounded edit distance', () => {
+    expect(getEditDistance('server', 'servr')).toBe(1);
+    expect(getEditDistance('kitten', 'sitting')).toBe(3);
+    expect(getEditDistance('abcdef', 'uvwxyz', 1)).toBeGreaterThan(1);
+  });
+
+  it('highlights matched terms inside the snippet window', () => {
+    const content = `${'x '.repeat(100)}the Server is down`;
+    const snippet = buildHighlightedSnippet(content, ['server'], 60);
+    expect(snippet.text.startsWith('...')).toBe(true);
+    const [[start, end]] = snippet.ranges;
+    expect(snippet.text.slice(start, end)).toBe('Server');
+  });
+
+  it('collects changed, added and removed messages by reference', () => {
+    const message = (id: string, content: string, isStreaming = false) => ({
+      id,
+      nodeId: 'n1',
+      role: 'user' as const,
+      content,
+      createdAt: 1,
+      isStreaming,
+    });
+    const kept = message('m1', 'Kept');
+    const node: ConversationNode = {
+      id: 'n1',
+      conversationId: 'c1',
+      messages: [kept, message('m2', 'Old')],
+      position: { x: 0, y: 0 },
+      status: 'idle',
+      createdAt: 1,
+      updatedAt: 1,
+      isCollapsed: false,
+    };
+    const next = {
+      ...node,
+      messages: [kept, message('m3', 'New'), message('m4', 'Partial', true)],
+    };
+
+    const changes = collectIndexChanges(new Map([['n1', node]]), new Map([['n1', next]]));
+    expect(changes.upserts.map((doc) => doc.id)).toEqual(['m3']);
+    expect(changes.removedIds).toEqual(['m2']);
+
+    const tagged = collectIndexChanges(
+      new Map([['n1', next]]),
+      new Map([['n1', { ...next, tags: ['bug'] }]])
+    );
+    expect(tagged.upserts.map((doc) => doc.nodeTags)).toEqual([['bug'], ['bug']]);
+    expect(collectIndexChanges(new Map([['n1', next]]), new Map()).removedIds).toEqual([
+      'm1',
+      'm3',
+      'm4',
+    ]);
+  });
+});
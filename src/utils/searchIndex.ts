@@ -0,0 +1,410 @@
+import type {
+  ConversationId,
+  ConversationNode,
+  MessageId,
+  MessageRole,
+  NodeId,
+  SearchSnippet,
+} from '../types';
+
+// BM25 tuning; the usual defaults
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const MAX_PREFIX_EXPANSIONS = 50;
+const MAX_FUZZY_EXPANSIONS = 20;
+const FUZZY_WEIGHT = 0.5;
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+const FILTER_KEYS = ['role', 'model', 'project', 'after', 'before'] as const;
+
+export interface SearchDocument {
+  id: MessageId;
+  nodeId: NodeId;
+  conversationId: ConversationId;
+  role: MessageRole;
+  content: string;
+  createdAt: number;
+  model?: string;
+  isReply?: boolean;
+  parentNodeId?: NodeId;
+  nodeTags?: string[];
+}
+
+export interface SearchFilters {
+  role?: MessageRole;
+  model?: string; // Substring of the model id
+  project?: string; // Substring of the project name
+  after?: number;
+  before?: number;
+}
+
+export type SearchClause =
+  | { type: 'term'; term: string }
+  | { type: 'prefix'; term: string }
+  | { type: 'phrase'; terms: string[] };
+
+export interface ParsedSearchQuery {
+  clauses: SearchClause[];
+  filters: SearchFilters;
+}
+
+export interface SearchHit {
+  doc: SearchDocument;
+  score: number;
+  matchedTerms: string[];
+}
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+interface IndexedDocument {
+  doc: SearchDocument;
+  length: number;
+  terms: string[];
+}
+
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const start = match.index ?? 0;
+    tokens.push({ term: match[0].toLowerCase(), start, end: start + match[0].length });
+  }
+  return tokens;
+}
+
+/**
+ * Splits a query into clauses and filters. Supports "quoted phrases",
+ * prefix* terms and role:, model:, project:, after: and before: filters
+ * (dates as YYYY-MM-DD; values may be quoted).
+ */
+export function parseSearchQuery(raw: string): ParsedSearchQuery {
+  const clauses: SearchClause[] = [];
+  const filters: SearchFilters = {};
+  const pattern = /(\w+):(?:"([^"]*)"|(\S+))|"([^"]*)"?|(\S+)/g;
+
+  for (const match of raw.matchAll(pattern)) {
+    const [, key, quotedValue, plainValue, phrase, word] = match;
+    const filterKey = key?.toLowerCase() as (typeof FILTER_KEYS)[number] | undefined;
+    if (filterKey && FILTER_KEYS.includes(filterKey)) {
+      applyFilter(filters, filterKey, (quotedValue ?? plainValue ?? '').trim());
+      continue;
+    }
+
+    const text = phrase ?? word ?? match[0];
+    const terms = tokenize(text).map((token) => token.term);
+    if (terms.length === 0) continue;
+    if (phrase !== undefined && terms.length > 1) {
+      clauses.push({ type: 'phrase', terms });
+    } else if (phrase === undefined && terms.length === 1 && text.endsWith('*')) {
+      clauses.push({ type: 'prefix', term: terms[0] });
+    } else {
+      for (const term of terms) clauses.push({ type: 'term', term });
+    }
+  }
+
+  return { clauses, filters };
+}
+
+function applyFilter(
+  filters: SearchFilters,
+  key: (typeof FILTER_KEYS)[number],
+  value: string
+) {
+  if (!value) return;
+  if (key === 'role') {
+    const role = value.toLowerCase();
+    if (role === 'user' || role === 'assistant' || role === 'system') filters.role = role;
+  } else if (key === 'model' || key === 'project') {
+    filters[key] = value.toLowerCase();
+  } else {
+    const date = Date.parse(value);
+    if (Number.isNaN(date)) return;
+    // before: excludes the given day, after: includes it
+    filters[key] = date;
+  }
+}
+
+export class SearchIndex {
+  private documents = new Map<MessageId, IndexedDocument>();
+  private postings = new Map<string, Map<MessageId, number[]>>();
+  private totalLength = 0;
+
+  get size() {
+    return this.documents.size;
+  }
+
+  get(id: MessageId) {
+    return this.documents.get(id)?.doc;
+  }
+
+  *docs() {
+    for (const entry of this.documents.values()) yield entry.doc;
+  }
+
+  upsert(doc: SearchDocument) {
+    const existing = this.documents.get(doc.id);
+    if (existing && existing.doc.content === doc.content) {
+      existing.doc = doc;
+      return;
+    }
+    if (existing) this.remove(doc.id);
+
+    const positionsByTerm = new Map<string, number[]>();
+    const tokens = tokenize(doc.content);
+    tokens.forEach((token, position) => {
+      const positions = positionsByTerm.get(token.term) ?? [];
+      positions.push(position);
+      positionsByTerm.set(token.term, positions);
+    });
+
+    for (const [term, positions] of positionsByTerm) {
+      const posting = this.postings.get(term) ?? new Map<MessageId, number[]>();
+      posting.set(doc.id, positions);
+      this.postings.set(term, posting);
+    }
+    this.documents.set(doc.id, {
+      doc,
+      length: tokens.length,
+      terms: Array.from(positionsByTerm.keys()),
+    });
+    this.totalLength += tokens.length;
+  }
+
+  remove(id: MessageId) {
+    const existing = this.documents.get(id);
+    if (!existing) return;
+    for (const term of existing.terms) {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting?.size === 0) this.postings.delete(term);
+    }
+    this.documents.delete(id);
+    this.totalLength -= existing.length;
+  }
+
+  /**
+   * Every clause must match. Terms with no exact match fall back to close
+   * spellings at a lower weight. Without clauses, filtered documents come back newest first.
+   */
+  search(
+    query: ParsedSearchQuery,
+    options: { limit?: number; filter?: (doc: SearchDocument) => boolean } = {}
+  ): SearchHit[] {
+    const { limit = 100, filter } = options;
+
+    if (query.clauses.length === 0) {
+      const docs = Array.from(this.documents.values(), (entry) => entry.doc).filter(
+        (doc) => !filter || filter(doc)
+      );
+      docs.sort((a, b) => b.createdAt - a.createdAt);
+      return docs.slice(0, limit).map((doc) => ({ doc, score: 0, matchedTerms: [] }));
+    }
+
+    let combined: Map<MessageId, { score: number; terms: Set<string> }> | null = null;
+    for (const clause of query.clauses) {
+      const matches = this.matchClause(clause);
+      const next = new Map<MessageId, { score: number; terms: Set<string> }>();
+      for (const [id, match] of matches) {
+        const previous: { score: number; terms: Set<string> } | undefined = combined?.get(id);
+        if (combined && !previous) continue;
+        next.set(id, {
+          score: (previous?.score ?? 0) + match.score,
+          terms: new Set([...(previous?.terms ?? []), ...match.terms]),
+        });
+      }
+      combined = next;
+      if (combined.size === 0) return [];
+    }
+
+    const hits: SearchHit[] = [];
+    for (const [id, match] of combined ?? []) {
+      const doc = this.documents.get(id)?.doc;
+      if (!doc || (filter && !filter(doc))) continue;
+      hits.push({ doc, score: match.score, matchedTerms: Array.from(match.terms) });
+    }
+    hits.sort((a, b) => b.score - a.score || b.doc.createdAt - a.doc.createdAt);
+    return hits.slice(0, limit);
+  }
+
+  private matchClause(clause: SearchClause) {
+    const matches = new Map<MessageId, { score: number; terms: string[] }>();
+
+    if (clause.type === 'phrase') {
+      const postings = clause.terms.map((term) => this.postings.get(term));
+      const [first, ...rest] = postings;
+      if (!first || rest.some((posting) => !posting)) return matches;
+      for (const [id, positions] of first) {
+        const followers = rest.map((posting) => posting!.get(id));
+        if (followers.some((value) => !value)) continue;
+        const isPhrase = positions.some((position) =>
+          followers.every((followerPositions, index) =>
+            followerPositions!.includes(position + index + 1)
+          )
+        );
+        if (!isPhrase) continue;
+        const score = clause.terms.reduce((sum, term) => sum + this.scoreTerm(term, id), 0);
+        matches.set(id, { score, terms: clause.terms });
+      }
+      return matches;
+    }
+
+    for (const { term, weight } of this.expandTerm(clause)) {
+      for (const id of this.postings.get(term)?.keys() ?? []) {
+        const score = weight * this.scoreTerm(term, id);
+        const existing = matches.get(id);
+        // Best expansion wins so a prefix matching many words does not pile up score
+        if (!existing || score > existing.score) {
+          matches.set(id, { score, terms: [...(existing?.terms ?? []), term] });
+        } else {
+          existing.terms.push(term);
+        }
+      }
+    }
+    return matches;
+  }
+
+  private expandTerm(clause: Extract<SearchClause, { type: 'term' | 'prefix' }>) {
+    if (clause.type === 'prefix') {
+      const expansions: Array<{ term: string; weight: number }> = [];
+      for (const term of this.postings.keys()) {
+        if (!term.startsWith(clause.term)) continue;
+        expansions.push({ term, weight: 1 });
+        if (expansions.length >= MAX_PREFIX_EXPANSIONS) break;
+      }
+      return expansions;
+    }
+
+    if (this.postings.has(clause.term)) return [{ term: clause.term, weight: 1 }];
+    const maxDistance = clause.term.length >= 8 ? 2 : clause.term.length >= 4 ? 1 : 0;
+    if (maxDistance === 0) return [];
+
+    const expansions: Array<{ term: string; weight: number }> = [];
+    for (const term of this.postings.keys()) {
+      if (Math.abs(term.length - clause.term.length) > maxDistance) continue;
+      const distance = getEditDistance(clause.term, term, maxDistance);
+      if (distance > maxDistance) continue;
+      expansions.push({ term, weight: FUZZY_WEIGHT / distance });
+      if (expansions.length >= MAX_FUZZY_EXPANSIONS) break;
+    }
+    return expansions;
+  }
+
+  private scoreTerm(term: string, id: MessageId) {
+    const posting = this.postings.get(term);
+    const entry = this.documents.get(id);
+    const frequency = posting?.get(id)?.length ?? 0;
+    if (!posting || !entry || frequency === 0) return 0;
+
+    const documentCount = this.documents.size;
+    const idf = Math.log(1 + (documentCount - posting.size + 0.5) / (posting.size + 0.5));
+    const averageLength = this.totalLength / documentCount || 1;
+    const norm = BM25_K1 * (1 - BM25_B + (BM25_B * entry.length) / averageLength);
+    return (idf * frequency * (BM25_K1 + 1)) / (frequency + norm);
+  }
+}
+
+// Levenshtein distance, giving up once it exceeds maxDistance
+export function getEditDistance(a: string, b: string, maxDistance = Infinity) {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return rowMin;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * A window of the content around the first matched term, with character
+ * ranges of every matched term inside it.
+ */
+export function buildHighlightedSnippet(
+  content: string,
+  matchedTerms: string[],
+  maxLength = 160
+): SearchSnippet {
+  const terms = new Set(matchedTerms);
+  const matches = tokenize(content).filter((token) => terms.has(token.term));
+  const firstMatch = matches[0];
+
+  let start = 0;
+  if (firstMatch && content.length > maxLength) {
+    start = Math.max(0, Math.min(firstMatch.start - 40, content.length - maxLength));
+  }
+  const end = Math.min(content.length, start + maxLength);
+  const prefix = start > 0 ? '...' : '';
+  const suffix = end < content.length ? '...' : '';
+
+  const ranges: Array<[number, number]> = [];
+  for (const match of matches) {
+    if (match.start < start || match.end > end) continue;
+    const offset = prefix.length - start;
+    ranges.push([match.start + offset, match.end + offset]);
+  }
+  return { text: `${prefix}${content.slice(start, end)}${suffix}`, ranges };
+}
+
+export function toSearchDocument(
+  message: ConversationNode['messages'][number],
+  node: Pick<ConversationNode, 'conversationId' | 'isReply' | 'parentNodeId' | 'tags'>
+): SearchDocument {
+  return {
+    id: message.id,
+    nodeId: message.nodeId,
+    conversationId: node.conversationId,
+    role: message.role,
+    content: message.content,
+    createdAt: message.createdAt,
+    model: message.model,
+    isReply: node.isReply,
+    parentNodeId: node.parentNodeId,
+    nodeTags: node.tags,
+  };
+}
+
+/**
+ * Messages to re-index after a store update, found by reference like the
+ * rest of the store diffing. Streaming messages wait until they finish.
+ */
+export function collectIndexChanges(
+  previous: Map<NodeId, ConversationNode>,
+  next: Map<NodeId, ConversationNode>
+) {
+  const upserts: SearchDocument[] = [];
+  const removedIds: MessageId[] = [];
+
+  for (const [nodeId, node] of next) {
+    const before = previous.get(nodeId);
+    if (before === node) continue;
+    const nodeChanged =
+      !before ||
+      before.isReply !== node.isReply ||
+      before.parentNodeId !== node.parentNodeId ||
+      before.tags !== node.tags;
+    const previousMessages = new Map(before?.messages.map((message) => [message.id, message]));
+
+    for (const message of node.messages) {
+      const previousMessage = previousMessages.get(message.id);
+      previousMessages.delete(message.id);
+      if (message.isStreaming || (!nodeChanged && previousMessage === message)) continue;
+      upserts.push(toSearchDocument(message, node));
+    }
+    removedIds.push(...previousMessages.keys());
+  }
+
+  for (const [nodeId, node] of previous) {
+    if (next.has(nodeId)) continue;
+    removedIds.push(...node.messages.map((message) => message.id));
+  }
+
+  return { upserts, removedIds };
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { parseSearchQuery, type SearchDocument } from './searchIndex';
+import {
+  cosineSimilarity,
+  getSemanticQueryText,
+  hashText,
+  MIN_SEMANTIC_SIMILARITY,
+  rankHybridHits,
+  selectMessagesToEmbed,
+  SEMANTIC_WEIGHT,
+} from './semanticSearch';
+
+function makeDoc(id: string, content: string, createdAt = 1) {
+  return {
+    id,
+    nodeId: 'n1',
+    conversationId: 'c1',
+    role: 'user',
+    content,
+    createdAt,
+  } satisfies SearchDocument;
+}
+
+describe('cosineSimilarity', () => {
+  it('compares direction, not length', () => {
+    expect(cosineSimilarity([1, 0], [3, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 2])).toBeCloseTo(0);
+    expect(cosineSimilarity([1, 0], [0, 0])).toBe(0);
+  });
+});
+
+describe('getSemanticQueryText', () => {
+  it('keeps the words and drops filters', () => {
+    const query = parseSearchQuery('"staging server" deploy* role:assistant after:2024-05-01');
+    expect(getSemanticQueryText(query)).toBe('staging server deploy');
+  });
+});
+
+describe('selectMessagesToEmbed', () => {
+  it('picks new and edited messages oldest first and reports orphans', () => {
+    const docs = [
+      makeDoc('m3', 'Newest question', 3),
+      makeDoc('m1', 'Already embedded', 1),
+      makeDoc('m2', 'Edited since embedding', 2),
+      makeDoc('m4', '   ', 4),
+    ];
+    const hashes = new Map([
+      ['m1', hashText('Already embedded')],
+      ['m2', hashText('Original text')],
+      ['gone', hashText('Deleted message')],
+    ]);
+
+    const { pending, orphanIds } = selectMessagesToEmbed(docs, hashes);
+    expect(pending.map((doc) => doc.id)).toEqual(['m2', 'm3']);
+    expect(orphanIds).toEqual(['gone']);
+  });
+
+  it('limits the batch', () => {
+    const docs = [makeDoc('m1', 'one', 1), makeDoc('m2', 'two', 2)];
+    expect(selectMessagesToEmbed(docs, new Map(), 1).pending.map((doc) => doc.id)).toEqual([
+      'm1',
+    ]);
+  });
+
+  it('skips turned-down messages without treating their embeddings as orphans', () => {
+    const docs = [makeDoc('m1', 'in the trash'), makeDoc('m2', 'still here')];
+    const hashes = new Map([['m1', hashText('older text')]]);
+    const { pending, orphanIds } = selectMessagesToEmbed(
+      docs,
+      hashes,
+      10,
+      (doc) => doc.id !== 'm1'
+    );
+    expect(pending.map((doc) => doc.id)).toEqual(['m2']);
+    expect(orphanIds).toEqual([]);
+  });
+});
+
+describe('rankHybridHits', () => {
+  it('adds semantic similarity to keyword scores and keeps close semantic-only matches', () => {
+    const keyword = makeDoc('m1', 'deploy checklist');
+    const related = makeDoc('m2', 'release runbook');
+    const unrelated = makeDoc('m3', 'lunch plans');
+
+    const hits = rankHybridHits(
+      [{ doc: keyword, score: 1.5, matchedTerms: ['deploy'] }],
+      [
+        { doc: keyword, similarity: 0.5 },
+        { doc: related, similarity: 0.8 },
+        { doc: unrelated, similarity: MIN_SEMANTIC_SIMILARITY - 0.1 },
+      ]
+    );
+
+    expect(hits.map((hit) => hit.doc.id)).toEqual(['m1', 'm2']);
+    expect(hits[0].score).toBeCloseTo(1.5 + 0.5 * SEMANTIC_WEIGHT);
+    expect(hits[0].matchedTerms).toEqual(['deploy']);
+    expect(hits[1].matchedTerms).toEqual([]);
+  });
+});
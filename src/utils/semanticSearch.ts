@@ -0,0 +1,101 @@
+import type { MessageId } from '../types';
+import type { ParsedSearchQuery, SearchDocument, SearchHit } from './searchIndex';
+
+// Same weighting as memory retrieval: cosine similarity counts four times a lexical point
+export const SEMANTIC_WEIGHT = 4;
+// Below this, a message with no matching words is not worth showing
+export const MIN_SEMANTIC_SIMILARITY = 0.3;
+export const EMBEDDING_BATCH_SIZE = 32;
+// Long messages are cut before embedding to stay inside model input limits
+export const MAX_EMBEDDING_TEXT_LENGTH = 8000;
+
+export interface SemanticMatch {
+  doc: SearchDocument;
+  similarity: number;
+}
+
+export function cosineSimilarity(a: number[], b: number[]) {
+  const length = Math.min(a.length, b.length);
+  if (length === 0) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < length; i++) {
+    const av = a[i];
+    const bv = b[i];
+    dot += av * bv;
+    normA += av * av;
+    normB += bv * bv;
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// FNV-1a; only used to notice that a message changed since it was embedded
+export function hashText(text: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+export function getEmbeddingText(content: string) {
+  return content.trim().slice(0, MAX_EMBEDDING_TEXT_LENGTH);
+}
+
+// The words of a query without its filters, which is what gets embedded
+export function getSemanticQueryText(query: ParsedSearchQuery) {
+  return query.clauses
+    .map((clause) => (clause.type === 'phrase' ? clause.terms.join(' ') : clause.term))
+    .join(' ');
+}
+
+/**
+ * Messages whose embedding is missing or older than their content, oldest
+ * first, and embeddings whose message is gone. Messages `shouldEmbed` turns
+ * down keep their embedding but get no new one.
+ */
+export function selectMessagesToEmbed(
+  docs: Iterable<SearchDocument>,
+  embeddedHashes: Map<MessageId, string>,
+  limit = EMBEDDING_BATCH_SIZE,
+  shouldEmbed: (doc: SearchDocument) => boolean = () => true
+) {
+  const pending: SearchDocument[] = [];
+  const liveIds = new Set<MessageId>();
+  for (const doc of docs) {
+    liveIds.add(doc.id);
+    if (!getEmbeddingText(doc.content) || !shouldEmbed(doc)) continue;
+    if (embeddedHashes.get(doc.id) !== hashText(doc.content)) pending.push(doc);
+  }
+  pending.sort((a, b) => a.createdAt - b.createdAt);
+  const orphanIds = Array.from(embeddedHashes.keys()).filter((id) => !liveIds.has(id));
+  return { pending: pending.slice(0, limit), orphanIds };
+}
+
+/**
+ * Merges keyword hits with embedding matches. Messages found both ways add
+ * up; semantic-only matches need a minimum similarity.
+ */
+export function rankHybridHits(
+  lexicalHits: SearchHit[],
+  semanticMatches: SemanticMatch[],
+  limit = 100
+): SearchHit[] {
+  const merged = new Map<MessageId, SearchHit>();
+  for (const hit of lexicalHits) merged.set(hit.doc.id, { ...hit });
+  for (const { doc, similarity } of semanticMatches) {
+    const existing = merged.get(doc.id);
+    if (existing) {
+      existing.score += Math.max(0, similarity) * SEMANTIC_WEIGHT;
+    } else if (similarity >= MIN_SEMANTIC_SIMILARITY) {
+      merged.set(doc.id, { doc, score: similarity * SEMANTIC_WEIGHT, matchedTerms: [] });
+    }
+  }
+  return Array.from(merged.values())
+    .sort((a, b) => b.score - a.score || b.doc.createdAt - a.doc.createdAt)
+    .slice(0, limit);
+}
@@ -0,0 +1,67 @@
+import { describe, expect, test, vi } from 'vitest';
+import type { LLMModel } from '../types';
+import { canSendInline } from './multimodal';
+import { createSharedSendWork, getAttachmentContextKey, runShared } from './sharedSendWork';
+
+const makeModel = (id: string, inputModalities: string[]): LLMModel => ({
+  id,
+  name: id,
+  contextLength: 8000,
+  pricing: { prompt: 0, completion: 0 },
+  inputModalities,
+});
+
+const attachments = [
+  { id: 'chart', name: 'chart.png', type: 'image/png', size: 100 },
+  { id: 'notes', name: 'notes.txt', type: 'text/plain', size: 100 },
+];
+
+describe('shared send work', () => {
+  test('runs each key once and aborts after every send left', async () => {
+    const shared = createSharedSendWork(2);
+    const run = vi.fn(async () => 'done');
+
+    await expect(runShared(shared, 'key', run)).resolves.toBe('done');
+    await expect(runShared(shared, 'key', run)).resolves.toBe('done');
+    expect(run).toHaveBeenCalledTimes(1);
+
+    shared.leave();
+    expect(shared.signal.aborted).toBe(false);
+    shared.leave();
+    expect(shared.signal.aborted).toBe(true);
+  });
+
+  test.each(['retrieval', 'summarize'] as const)(
+    'gives models in a mixed fan-out their own attachment context (%s)',
+    async (mode) => {
+      const shared = createSharedSendWork(3);
+      const models = [
+        makeModel('vision-a', ['text', 'image']),
+        makeModel('text-only', ['text']),
+        makeModel('vision-b', ['text', 'image']),
+      ];
+      const build = vi.fn(async (processed: Array<{ id: string }>, model: string) =>
+        `${model}: ${processed.map((attachment) => attachment.id).join(', ')}`
+      );
+
+      const contexts = await Promise.all(
+        models.map((model) => {
+          const processed = attachments.filter((attachment) => !canSendInline(attachment, model));
+          const key = getAttachmentContextKey('conversation', processed, { mode }, model.id);
+          return runShared(shared, key, () => build(processed, model.id));
+        })
+      );
+
+      expect(contexts[0]).toMatch(/: notes$/);
+      expect(contexts[1]).toBe('text-only: chart, notes');
+      if (mode === 'retrieval') {
+        // Vision models process the same files, so the work is shared between them
+        expect(contexts[2]).toBe(contexts[0]);
+        expect(build).toHaveBeenCalledTimes(2);
+      } else {
+        expect(contexts[2]).toBe('vision-b: notes');
+        expect(build).toHaveBeenCalledTimes(3);
+      }
+    }
+  );
+});
@@ -0,0 +1,54 @@
+import type { AttachmentProcessingSettings } from '../types';
+
+/**
+ * Work shared by the sends of one fan-out, so attachments are read and
+ * processed once. Its signal aborts only after every send was cancelled.
+ */
+export interface SharedSendWork {
+  results: Map<string, Promise<unknown>>;
+  signal: AbortSignal;
+  leave: () => void;
+}
+
+export function createSharedSendWork(participants: number): SharedSendWork {
+  const controller = new AbortController();
+  let remaining = participants;
+  return {
+    results: new Map(),
+    signal: controller.signal,
+    leave: () => {
+      remaining -= 1;
+      if (remaining === 0) controller.abort();
+    },
+  };
+}
+
+export function runShared<T>(
+  shared: SharedSendWork | undefined,
+  key: string,
+  run: (signal?: AbortSignal) => Promise<T>
+): Promise<T> {
+  if (!shared) return run();
+  let result = shared.results.get(key) as Promise<T> | undefined;
+  if (!result) {
+    result = run(shared.signal);
+    shared.results.set(key, result);
+  }
+  return result;
+}
+
+/**
+ * Key of an attachment context in a fan-out. Models that read images or PDFs
+ * natively leave them out, so the attachment set is part of the key; summaries
+ * are written by the model itself, so summarize mode adds the model too.
+ */
+export function getAttachmentContextKey(
+  scope: 'conversation' | 'project',
+  attachments: Array<{ id: string }>,
+  settings: Pick<AttachmentProcessingSettings, 'mode'>,
+  model: string
+) {
+  const ids = attachments.map((attachment) => attachment.id).join(',');
+  const writer = settings.mode === 'summarize' ? `:${model}` : '';
+  return `${scope}-attachments${writer}:${ids}`;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import type { MessageSearchResult } from '../types';
+import {
+  addTags,
+  countTags,
+  getSearchResultTags,
+  hasAllTags,
+  normalizeTag,
+  parseTags,
+  removeTag,
+} from './tags';
+
+describe('tags', () => {
+  it('normalizes case, hashes and whitespace', () => {
+    expect(normalizeTag('  #Open  Question ')).toBe('open-question');
+    expect(normalizeTag('#')).toBe('');
+  });
+
+  it('parses comma-separated input without duplicates', () => {
+    expect(parseTags('bug, Decision,, #bug , to do')).toEqual(['bug', 'decision', 'to-do']);
+  });
+
+  it('adds and removes tags', () => {
+    expect(addTags(['bug'], ['Bug', 'todo'])).toEqual(['bug', 'todo']);
+    expect(removeTag(['bug', 'todo'], 'bug')).toEqual(['todo']);
+    expect(removeTag(undefined, 'bug')).toEqual([]);
+  });
+
+  it('requires every selected tag to match', () => {
+    expect(hasAllTags(['bug', 'todo'], ['bug'])).toBe(true);
+    expect(hasAllTags(['bug'], ['bug', 'todo'])).toBe(false);
+    expect(hasAllTags([], [])).toBe(true);
+  });
+
+  it('counts each tag once per item, most used first', () => {
+    expect(countTags([['bug', 'bug', 'todo'], ['todo'], ['decision', 'todo']])).toEqual([
+      { tag: 'todo', count: 3 },
+      { tag: 'bug', count: 1 },
+      { tag: 'decision', count: 1 },
+    ]);
+  });
+
+  it('merges conversation and node tags of a search result', () => {
+    const result = {
+      conversationTags: ['project-x', 'bug'],
+      nodeTags: ['bug', 'decision'],
+    } as MessageSearchResult;
+    expect(getSearchResultTags(result)).toEqual(['project-x', 'bug', 'decision']);
+  });
+});
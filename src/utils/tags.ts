@@ -0,0 +1,59 @@
+import type { MessageSearchResult } from '../types';
+
+export const MAX_TAG_LENGTH = 32;
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// Tags are lowercase with dashes for spaces, so "#Open Question" and "open-question" match
+export function normalizeTag(raw: string) {
+  return raw
+    .trim()
+    .replace(/^#+/, '')
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+// Comma-separated input; duplicates and blanks are dropped
+export function parseTags(input: string) {
+  return addTags([], input.split(','));
+}
+
+export function addTags(tags: string[] | undefined, additions: string[]) {
+  const next = [...(tags ?? [])];
+  for (const raw of additions) {
+    const tag = normalizeTag(raw);
+    if (tag && !next.includes(tag)) next.push(tag);
+  }
+  return next;
+}
+
+export function removeTag(tags: string[] | undefined, tag: string) {
+  return (tags ?? []).filter((item) => item !== tag);
+}
+
+export function hasAllTags(tags: Iterable<string>, selected: string[]) {
+  if (selected.length === 0) return true;
+  const available = new Set(tags);
+  return selected.every((tag) => available.has(tag));
+}
+
+// How many of the given items carry each tag, most used first
+export function countTags(tagLists: Iterable<Iterable<string>>): TagCount[] {
+  const counts = new Map<string, number>();
+  for (const tags of tagLists) {
+    for (const tag of new Set(tags)) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts, ([tag, count]) => ({ tag, count })).sort(
+    (a, b) => b.count - a.count || a.tag.localeCompare(b.tag)
+  );
+}
+
+export function getSearchResultTags(result: MessageSearchResult) {
+  return addTags(result.conversationTags, result.nodeTags ?? []);
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { diffWords, tokenizeWords } from './textDiff';
+
+describe('diffWords', () => {
+  it('keeps whitespace when tokenizing', () => {
+    expect(tokenizeWords('a  b\nc')).toEqual(['a', '  ', 'b', '\n', 'c']);
+    expect(tokenizeWords('')).toEqual([]);
+  });
+
+  it('marks changed words and keeps shared text equal', () => {
+    expect(diffWords('the quick brown fox', 'the slow brown fox jumps')).toEqual([
+      { op: 'equal', value: 'the ' },
+      { op: 'removed', value: 'quick' },
+      { op: 'added', value: 'slow' },
+      { op: 'equal', value: ' brown fox' },
+      { op: 'added', value: ' jumps' },
+    ]);
+  });
+
+  it('returns a single equal segment for identical text', () => {
+    expect(diffWords('same text', 'same text')).toEqual([{ op: 'equal', value: 'same text' }]);
+  });
+
+  it('reassembles both sides from the segments', () => {
+    const before = 'Paris is the capital of France.\nIt has about 2 million people.';
+    const after = 'Paris is the capital and largest city of France.\nIt has 2.1 million people.';
+    const segments = diffWords(before, after);
+    const join = (skip: string) =>
+      segments
+        .filter((segment) => segment.op !== skip)
+        .map((segment) => segment.value)
+        .join('');
+    expect(join('added')).toBe(before);
+    expect(join('removed')).toBe(after);
+  });
+});
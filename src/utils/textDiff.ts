@@ -0,0 +1,94 @@
+export type DiffOp = 'equal' | 'added' | 'removed';
+
+export interface DiffSegment {
+  op: DiffOp;
+  value: string;
+}
+
+// Above this many token pairs the LCS table gets too large to build in the UI thread.
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Splits text into words and the whitespace between them so a diff can be
+ * rendered back without losing formatting.
+ */
+export function tokenizeWords(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+/**
+ * Word-level diff of `after` against `before` using a longest common subsequence.
+ * Very large inputs fall back to a whole-text replacement.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenizeWords(before);
+  const b = tokenizeWords(after);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (op: DiffOp, value: string) => {
+    if (!value) return;
+    const last = segments[segments.length - 1];
+    if (last && last.op === op) {
+      last.value += value;
+    } else {
+      segments.push({ op, value });
+    }
+  };
+
+  push('equal', a.slice(0, prefix).join(''));
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  if ((midA.length + 1) * (midB.length + 1) > MAX_DIFF_CELLS) {
+    push('removed', midA.join(''));
+    push('added', midB.join(''));
+  } else {
+    for (const segment of diffTokens(midA, midB)) push(segment.op, segment.value);
+  }
+
+  push('equal', a.slice(a.length - suffix).join(''));
+  return segments;
+}
+
+function diffTokens(a: string[], b: string[]): DiffSegment[] {
+  const width = b.length + 1;
+  // lengths[i * width + j] = LCS length of a[i..] and b[j..]
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      segments.push({ op: 'equal', value: a[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      segments.push({ op: 'removed', value: a[i++] });
+    } else {
+      segments.push({ op: 'added', value: b[j++] });
+    }
+  }
+  while (i < a.length) segments.push({ op: 'removed', value: a[i++] });
+  while (j < b.length) segments.push({ op: 'added', value: b[j++] });
+  return segments;
+}
@@ -2,10 +2,12 @@ import type {
   NormalizedMemorySettings,
   NormalizedToolSettings,
   MemoryRetrievalPreview,
+  Message,
 } from '../types';
 import {
   estimateContextExtraTokens,
   estimateMemoryContextTokens,
+  estimateReasoningTokens,
   estimateToolContextTokens,
   estimateTokensFromText,
 } from './tokenBudget';
@@ -68,6 +70,7 @@ describe('token budget utils', () => {
             enabled: true,
             url: 'https://mcp.example.com',
             transport: 'http',
+            authType: 'token',
             authToken: '',
             enabledTools: ['a', 'b'],
           },
@@ -118,4 +121,27 @@ describe('token budget utils', () => {
     expect(estimate.total).toBe(estimate.tools.total + estimate.memory.total);
     expect(estimate.total).toBeGreaterThan(0);
   });
+
+  it('counts reasoning tokens, preferring reported usage', () => {
+    const message = (overrides: Partial<Message>): Message => ({
+      id: 'm1',
+      nodeId: 'n1',
+      role: 'assistant',
+      content: 'answer',
+      createdAt: 1,
+      isStreaming: false,
+      ...overrides,
+    });
+    expect(
+      estimateReasoningTokens([
+        message({ reasoning: 'abcdefgh' }),
+        message({
+          id: 'm2',
+          reasoning: 'short',
+          usage: { promptTokens: 10, completionTokens: 60, reasoningTokens: 50, totalTokens: 70 },
+        }),
+        message({ id: 'm3' }),
+      ])
+    ).toBe(52);
+  });
 });
@@ -2,6 +2,7 @@ import type {
   NormalizedMemorySettings,
   NormalizedToolSettings,
   MemoryRetrievalPreview,
+  Message,
   PendingAttachment,
 } from '../types';
 
@@ -48,6 +49,16 @@ export function estimateTokensFromText(text: string) {
   return Math.ceil(text.length / 4);
 }
 
+/**
+ * Reasoning tokens of the given messages, preferring provider-reported counts
+ */
+export function estimateReasoningTokens(messages: Message[]) {
+  return messages.reduce((sum, message) => {
+    if (!message.reasoning) return sum;
+    return sum + (message.usage?.reasoningTokens ?? estimateTokensFromText(message.reasoning));
+  }, 0);
+}
+
 export function estimateAttachmentTokens(attachments: PendingAttachment[]) {
   if (attachments.length === 0) return 0;
   return attachments.reduce((sum, attachment) => {
@@ -1,5 +1,14 @@
 import { describe, expect, test } from 'vitest';
-import { getDefaultToolSettings, normalizeToolSettings } from './tools';
+import type { ToolApprovalRule } from '../types';
+import {
+  findToolApprovalRule,
+  findToolCallApprovalRule,
+  getDefaultToolSettings,
+  getMcpToolApprovalNames,
+  getRuleForApprovalDecision,
+  normalizeToolSettings,
+  resolveToolSettings,
+} from './tools';
 
 describe('tool settings normalization', () => {
   test('returns defaults for empty input', () => {
@@ -61,3 +70,123 @@ describe('tool settings normalization', () => {
     expect(settings.mcp.servers[0].enabledTools).toEqual(['web_search']);
   });
 });
+
+describe('tool policy resolution', () => {
+  const global = normalizeToolSettings({
+    enabled: true,
+    maxSteps: 4,
+    daytona: { enabled: false },
+    mcp: {
+      enabled: false,
+      servers: [
+        { id: 'docs', name: 'Docs', enabled: true, url: 'https://docs.example.com' },
+        { id: 'web', name: 'Web', enabled: true, url: 'https://web.example.com' },
+      ],
+    },
+  });
+
+  test('returns the global settings without policies', () => {
+    expect(resolveToolSettings(global, undefined, null)).toEqual(global);
+  });
+
+  test('lets the chat policy override the project policy', () => {
+    const settings = resolveToolSettings(
+      global,
+      { localTools: { daytona: true, calculator: false }, maxSteps: 8 },
+      { localTools: { calculator: true }, maxSteps: 99, requireConfirmation: false }
+    );
+
+    expect(settings.daytona.enabled).toBe(true);
+    expect(settings.calculator.enabled).toBe(true);
+    expect(settings.maxSteps).toBe(12);
+    expect(settings.permissions.requireConfirmation).toBe(false);
+    expect(settings.permissions.sensitiveTools).toEqual(global.permissions.sensitiveTools);
+    expect(global.daytona.enabled).toBe(false);
+  });
+
+  test('enables only the MCP servers a policy turns on', () => {
+    const settings = resolveToolSettings(global, { mcpServers: { web: true } });
+
+    expect(settings.mcp.enabled).toBe(true);
+    expect(settings.mcp.servers.map((server) => server.enabled)).toEqual([false, true]);
+  });
+
+  test('replaces the sensitive tool list when a policy sets one', () => {
+    const settings = resolveToolSettings(global, { sensitiveTools: [' daytona_exec ', ''] });
+    expect(settings.permissions.sensitiveTools).toEqual(['daytona_exec']);
+  });
+});
+
+describe('tool approval rules', () => {
+  const rules: ToolApprovalRule[] = [
+    { id: 'r1', toolName: 'mcp:*', action: 'allow', createdAt: 1 },
+    { id: 'r2', toolName: 'mcp:delete_file', action: 'deny', createdAt: 2 },
+    { id: 'r3', toolName: 'daytona_exec', action: 'allow', conversationId: 'c1', createdAt: 3 },
+  ];
+
+  test('prefers deny rules over broader allow rules', () => {
+    expect(findToolApprovalRule(rules, 'mcp:delete_file', 'c1')?.id).toBe('r2');
+    expect(findToolApprovalRule(rules, 'mcp:search', 'c1')?.id).toBe('r1');
+  });
+
+  test('applies chat rules only in their chat', () => {
+    expect(findToolApprovalRule(rules, 'daytona_exec', 'c1')?.id).toBe('r3');
+    expect(findToolApprovalRule(rules, 'daytona_exec', 'c2')).toBeNull();
+  });
+
+  test('keeps MCP answers separate for servers sharing a tool name', () => {
+    const docs = getMcpToolApprovalNames('docs', 'search');
+    const web = getMcpToolApprovalNames('web', 'search');
+    const rule = getRuleForApprovalDecision('allow-always', docs.key, 'c1');
+    const saved: ToolApprovalRule[] = [{ id: 'a1', ...rule!, createdAt: 1 }];
+
+    expect(rule?.toolName).toBe('mcp:docs:search');
+    expect(findToolCallApprovalRule(saved, docs, 'c1')?.id).toBe('a1');
+    expect(findToolCallApprovalRule(saved, web, 'c1')).toBeNull();
+  });
+
+  test('lets older unscoped rules deny MCP calls but not allow them', () => {
+    const call = getMcpToolApprovalNames('files', 'delete_file');
+    expect(findToolCallApprovalRule(rules, call, 'c1')?.id).toBe('r2');
+
+    const legacyAllow: ToolApprovalRule[] = [
+      { id: 'old', toolName: 'mcp:search', action: 'allow', createdAt: 1 },
+    ];
+    const search = getMcpToolApprovalNames('web', 'search');
+    expect(findToolCallApprovalRule(legacyAllow, search, 'c1')).toBeNull();
+    expect(findToolCallApprovalRule(rules, search, 'c1')?.id).toBe('r1');
+  });
+
+  test('saves rules only for lasting answers', () => {
+    expect(getRuleForApprovalDecision('allow-once', 'calculator', 'c1')).toBeNull();
+    expect(getRuleForApprovalDecision('allow-conversation', 'calculator', 'c1')).toEqual({
+      toolName: 'calculator',
+      action: 'allow',
+      conversationId: 'c1',
+    });
+    expect(getRuleForApprovalDecision('deny-always', 'calculator', 'c1')).toEqual({
+      toolName: 'calculator',
+      action: 'deny',
+    });
+  });
+
+  test('drops rules without a tool name when normalizing', () => {
+    const settings = normalizeToolSettings({
+      permissions: {
+        rules: [
+          { id: 'keep', toolName: ' calculator ', action: 'deny' },
+          { id: 'drop', toolName: '  ' },
+        ],
+      },
+    });
+    expect(settings.permissions.rules).toEqual([
+      {
+        id: 'keep',
+        toolName: 'calculator',
+        action: 'deny',
+        conversationId: undefined,
+        createdAt: 0,
+      },
+    ]);
+  });
+});
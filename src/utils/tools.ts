@@ -1,9 +1,23 @@
 import type {
+  ConversationId,
+  LocalToolKey,
   McpServerSettings,
   NormalizedToolSettings,
+  ToolApprovalDecision,
+  ToolApprovalRule,
+  ToolPolicy,
   ToolSettings,
 } from '../types';
 
+export const LOCAL_TOOL_LABELS: Record<LocalToolKey, string> = {
+  datetimeNow: 'datetime_now',
+  calculator: 'calculator',
+  searchMessages: 'search_messages',
+  searchContextChunks: 'search_context_chunks',
+  attachmentReader: 'attachment_reader',
+  daytona: 'daytona_exec',
+};
+
 function defaultMcpServer(index = 1): McpServerSettings {
   return {
     id: `mcp-server-${index}`,
@@ -11,6 +25,7 @@ function defaultMcpServer(index = 1): McpServerSettings {
     enabled: true,
     url: '',
     transport: 'http',
+    authType: 'token',
     authToken: '',
     enabledTools: [],
   };
@@ -30,6 +45,7 @@ const DEFAULT_TOOL_SETTINGS: NormalizedToolSettings = {
       'daytona_exec',
       'mcp:*',
     ],
+    rules: [],
   },
   datetimeNow: {
     enabled: true,
@@ -77,6 +93,7 @@ export function getDefaultToolSettings(): NormalizedToolSettings {
     permissions: {
       ...DEFAULT_TOOL_SETTINGS.permissions,
       sensitiveTools: [...DEFAULT_TOOL_SETTINGS.permissions.sensitiveTools],
+      rules: [],
     },
     datetimeNow: { ...DEFAULT_TOOL_SETTINGS.datetimeNow },
     calculator: { ...DEFAULT_TOOL_SETTINGS.calculator },
@@ -115,6 +132,33 @@ function normalizeStringList(value: unknown): string[] {
     .filter(Boolean);
 }
 
+function normalizeApprovalRules(value: unknown): ToolApprovalRule[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry, index) => {
+    const candidate = (entry && typeof entry === 'object' ? entry : {}) as Record<
+      string,
+      unknown
+    >;
+    const toolName = typeof candidate.toolName === 'string' ? candidate.toolName.trim() : '';
+    if (!toolName) return [];
+    return [
+      {
+        id:
+          typeof candidate.id === 'string' && candidate.id
+            ? candidate.id
+            : `tool-rule-${index + 1}`,
+        toolName,
+        action: candidate.action === 'deny' ? ('deny' as const) : ('allow' as const),
+        conversationId:
+          typeof candidate.conversationId === 'string' && candidate.conversationId
+            ? candidate.conversationId
+            : undefined,
+        createdAt: typeof candidate.createdAt === 'number' ? candidate.createdAt : 0,
+      },
+    ];
+  });
+}
+
 function normalizeMcpServer(
   value: unknown,
   fallback: McpServerSettings,
@@ -137,6 +181,7 @@ function normalizeMcpServer(
       typeof candidate.enabled === 'boolean' ? candidate.enabled : fallback.enabled,
     url: String(candidate.url ?? fallback.url).trim(),
     transport: candidate.transport === 'sse' ? 'sse' : 'http',
+    authType: candidate.authType === 'oauth' ? 'oauth' : 'token',
     authToken: String(candidate.authToken ?? fallback.authToken).trim(),
     enabledTools: normalizeStringList(candidate.enabledTools),
   };
@@ -207,6 +252,7 @@ export function normalizeToolSettings(
         normalizeStringList(candidate.permissions?.sensitiveTools).length > 0
           ? normalizeStringList(candidate.permissions?.sensitiveTools)
           : defaults.permissions.sensitiveTools,
+      rules: normalizeApprovalRules(candidate.permissions?.rules),
     },
     datetimeNow: {
       enabled: candidate.datetimeNow?.enabled ?? defaults.datetimeNow.enabled,
@@ -293,6 +339,68 @@ export function normalizeToolSettings(
   };
 }
 
+/**
+ * Applies project and chat policies on top of the global settings, in that
+ * order. Fields a policy leaves unset keep the value from the level below.
+ */
+export function resolveToolSettings(
+  settings: NormalizedToolSettings,
+  ...policies: Array<ToolPolicy | null | undefined>
+): NormalizedToolSettings {
+  let resolved: NormalizedToolSettings = {
+    ...settings,
+    permissions: { ...settings.permissions },
+    mcp: { ...settings.mcp, servers: [...settings.mcp.servers] },
+  };
+
+  for (const policy of policies) {
+    if (!policy) continue;
+    const sensitiveTools = normalizeStringList(policy.sensitiveTools);
+    resolved = {
+      ...resolved,
+      enabled: policy.enabled ?? resolved.enabled,
+      maxSteps:
+        policy.maxSteps === undefined
+          ? resolved.maxSteps
+          : normalizeNumber(policy.maxSteps, resolved.maxSteps, 1, 12),
+      permissions: {
+        ...resolved.permissions,
+        requireConfirmation:
+          policy.requireConfirmation ?? resolved.permissions.requireConfirmation,
+        sensitiveTools:
+          sensitiveTools.length > 0 ? sensitiveTools : resolved.permissions.sensitiveTools,
+      },
+    };
+
+    for (const [key, enabled] of Object.entries(policy.localTools ?? {})) {
+      const toolKey = key as LocalToolKey;
+      if (typeof enabled !== 'boolean' || !(toolKey in LOCAL_TOOL_LABELS)) continue;
+      resolved = { ...resolved, [toolKey]: { ...resolved[toolKey], enabled } };
+    }
+
+    const serverOverrides = policy.mcpServers ?? {};
+    if (Object.keys(serverOverrides).length > 0) {
+      // A server switched on here works even when MCP is off globally; the
+      // other servers then stay off
+      const mcpWasEnabled = resolved.mcp.enabled;
+      const enablesServer = resolved.mcp.servers.some(
+        (server) => serverOverrides[server.id] === true
+      );
+      const servers = resolved.mcp.servers.map((server) => {
+        const override = serverOverrides[server.id];
+        if (typeof override === 'boolean') return { ...server, enabled: override };
+        return mcpWasEnabled ? server : { ...server, enabled: false };
+      });
+      resolved = {
+        ...resolved,
+        mcp: { enabled: mcpWasEnabled || enablesServer, servers },
+      };
+    }
+  }
+
+  return resolved;
+}
+
 export function isSensitiveToolName(
   toolName: string,
   sensitivePatterns: string[]
@@ -309,3 +417,72 @@ export function isSensitiveToolName(
     return normalizedPattern === normalizedTool;
   });
 }
+
+/**
+ * The saved rule that decides a call to `toolName` in this chat, if any.
+ * Deny rules win over allow rules; chat rules only apply in their own chat.
+ */
+export function findToolApprovalRule(
+  rules: ToolApprovalRule[],
+  toolName: string,
+  conversationId: ConversationId
+): ToolApprovalRule | null {
+  const matching = rules.filter(
+    (rule) =>
+      (!rule.conversationId || rule.conversationId === conversationId) &&
+      isSensitiveToolName(toolName, [rule.toolName])
+  );
+  return (
+    matching.find((rule) => rule.action === 'deny') ??
+    matching.find((rule) => rule.action === 'allow') ??
+    null
+  );
+}
+
+export interface ToolApprovalNames {
+  key: string; // What rules are saved under and the approval dialog shows
+  fallbacks: string[]; // Older names, still matched by sensitive patterns and deny rules
+}
+
+/**
+ * Approval names for an MCP tool. Rules are keyed by server, so two servers
+ * exposing a tool with the same name never share an "always allow" answer.
+ */
+export function getMcpToolApprovalNames(serverId: string, toolName: string): ToolApprovalNames {
+  return { key: `mcp:${serverId}:${toolName}`, fallbacks: [`mcp:${toolName}`, toolName] };
+}
+
+/**
+ * The saved rule that decides a tool call. Only rules on the key can allow it;
+ * a deny rule on any of the names blocks it.
+ */
+export function findToolCallApprovalRule(
+  rules: ToolApprovalRule[],
+  names: ToolApprovalNames,
+  conversationId: ConversationId
+): ToolApprovalRule | null {
+  const rule = findToolApprovalRule(rules, names.key, conversationId);
+  if (rule?.action === 'deny') return rule;
+  const denied = names.fallbacks
+    .map((name) => findToolApprovalRule(rules, name, conversationId))
+    .find((candidate) => candidate?.action === 'deny');
+  return denied ?? rule;
+}
+
+// The rule an approval answer should save; one-off answers save nothing
+export function getRuleForApprovalDecision(
+  decision: ToolApprovalDecision,
+  toolName: string,
+  conversationId: ConversationId
+): Omit<ToolApprovalRule, 'id' | 'createdAt'> | null {
+  switch (decision) {
+    case 'allow-conversation':
+      return { toolName, action: 'allow', conversationId };
+    case 'allow-always':
+      return { toolName, action: 'allow' };
+    case 'deny-always':
+      return { toolName, action: 'deny' };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import type { ConversationEdge, ConversationNode, TrashedNodes } from '../types';
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  getDaysUntilPurge,
+  getTrashCutoff,
+  getTrashedNodesTitle,
+  mergeTrashedNodes,
+  normalizeTrashRetentionDays,
+} from './trash';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function makeNode(id: string, content = ''): ConversationNode {
+  return {
+    id,
+    conversationId: 'c1',
+    messages: content
+      ? [{ id: `${id}-m`, nodeId: id, role: 'user', content, createdAt: 1, isStreaming: false }]
+      : [],
+    position: { x: 0, y: 0 },
+    status: 'idle',
+    createdAt: 1,
+    updatedAt: 1,
+    isCollapsed: false,
+  };
+}
+
+function makeEdge(id: string, source: string, target: string): ConversationEdge {
+  return { id, conversationId: 'c1', source, target, createdAt: 1 };
+}
+
+function makeEntry(nodes: ConversationNode[], edges: ConversationEdge[] = []): TrashedNodes {
+  return { id: 't1', conversationId: 'c1', nodes, edges, deletedAt: 1 };
+}
+
+describe('trash retention', () => {
+  it('falls back to the default for invalid values', () => {
+    expect(normalizeTrashRetentionDays('90')).toBe(90);
+    expect(normalizeTrashRetentionDays(null)).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    expect(normalizeTrashRetentionDays(0)).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+  });
+
+  it('computes the purge cutoff and remaining days', () => {
+    const now = 100 * DAY;
+    expect(getTrashCutoff(30, now)).toBe(70 * DAY);
+    expect(getDaysUntilPurge(now - 10 * DAY, 30, now)).toBe(20);
+    expect(getDaysUntilPurge(now - 40 * DAY, 30, now)).toBe(0);
+  });
+});
+
+describe('mergeTrashedNodes', () => {
+  it('restores nodes and edges whose endpoints exist', () => {
+    const entry = makeEntry(
+      [makeNode('b')],
+      [makeEdge('e1', 'a', 'b'), makeEdge('e2', 'b', 'gone')]
+    );
+    const merged = mergeTrashedNodes(new Map([['a', makeNode('a')]]), new Map(), entry);
+
+    expect(merged.restoredCount).toBe(1);
+    expect(Array.from(merged.nodes.keys())).toEqual(['a', 'b']);
+    expect(Array.from(merged.edges.keys())).toEqual(['e1']);
+  });
+
+  it('skips nodes that are already back', () => {
+    const existing = makeNode('b', 'Already here');
+    const merged = mergeTrashedNodes(
+      new Map([['b', existing]]),
+      new Map(),
+      makeEntry([makeNode('b', 'Old copy')])
+    );
+    expect(merged.restoredCount).toBe(0);
+    expect(merged.nodes.get('b')).toBe(existing);
+  });
+});
+
+describe('getTrashedNodesTitle', () => {
+  it('prefers the label, then the first message', () => {
+    expect(getTrashedNodesTitle(makeEntry([{ ...makeNode('a', 'Hi'), label: 'Idea' }]))).toBe(
+      'Idea'
+    );
+    expect(getTrashedNodesTitle(makeEntry([makeNode('a', '  Plan the trip ')]))).toBe(
+      'Plan the trip'
+    );
+    expect(getTrashedNodesTitle(makeEntry([makeNode('abcdef123')]))).toBe('Node abcdef');
+  });
+});
@@ -0,0 +1,56 @@
+import type { ConversationEdge, ConversationNode, EdgeId, NodeId, TrashedNodes } from '../types';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90, 365];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function normalizeTrashRetentionDays(value: unknown) {
+  const days = typeof value === 'string' ? Number(value) : value;
+  if (typeof days !== 'number' || !Number.isFinite(days) || days < 1) {
+    return DEFAULT_TRASH_RETENTION_DAYS;
+  }
+  return Math.round(days);
+}
+
+export function getTrashCutoff(retentionDays: number, now = Date.now()) {
+  return now - retentionDays * DAY_MS;
+}
+
+export function getDaysUntilPurge(deletedAt: number, retentionDays: number, now = Date.now()) {
+  return Math.max(0, Math.ceil((deletedAt + retentionDays * DAY_MS - now) / DAY_MS));
+}
+
+export function getTrashedNodesTitle(entry: TrashedNodes) {
+  const [node] = entry.nodes;
+  if (!node) return 'Empty node';
+  if (node.label) return node.label;
+  const text = node.messages.find((message) => message.role !== 'system')?.content.trim();
+  return text ? text.slice(0, 80) : `Node ${node.id.slice(0, 6)}`;
+}
+
+/**
+ * Adds trashed nodes back into a loaded graph. Nodes that already exist (e.g.
+ * brought back by undo) are skipped, as are edges to nodes that are gone.
+ */
+export function mergeTrashedNodes(
+  nodes: Map<NodeId, ConversationNode>,
+  edges: Map<EdgeId, ConversationEdge>,
+  entry: TrashedNodes
+) {
+  const nextNodes = new Map(nodes);
+  let restoredCount = 0;
+  for (const node of entry.nodes) {
+    if (nextNodes.has(node.id)) continue;
+    nextNodes.set(node.id, node);
+    restoredCount += 1;
+  }
+
+  const nextEdges = new Map(edges);
+  for (const edge of entry.edges) {
+    if (nextEdges.has(edge.id)) continue;
+    if (!nextNodes.has(edge.source) || !nextNodes.has(edge.target)) continue;
+    nextEdges.set(edge.id, edge);
+  }
+  return { nodes: nextNodes, edges: nextEdges, restoredCount };
+}
@@ -0,0 +1,101 @@
+import { describe, expect, test } from 'vitest';
+import { buildMessageUsage, buildUsageReport, summarizeMessageUsage } from './usage';
+import type { LLMModel, Message, UsageRecord } from '../types';
+
+const model: LLMModel = {
+  id: 'test/model',
+  name: 'Test',
+  contextLength: 1000,
+  pricing: { prompt: 0.000001, completion: 0.000002 },
+};
+
+const record = (overrides: Partial<UsageRecord>): UsageRecord => ({
+  messageId: 'm1',
+  nodeId: 'n1',
+  conversationId: 'c1',
+  conversationTitle: 'First chat',
+  model: 'test/model',
+  createdAt: new Date(2025, 0, 1, 12).getTime(),
+  usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150, costUsd: 0.01 },
+  ...overrides,
+});
+
+describe('usage accounting', () => {
+  test('prefers provider cost and keeps token details', () => {
+    const usage = buildMessageUsage(
+      {
+        prompt_tokens: 1000,
+        completion_tokens: 200,
+        total_tokens: 1200,
+        cost: 0.5,
+        prompt_tokens_details: { cached_tokens: 400 },
+        completion_tokens_details: { reasoning_tokens: 80 },
+      },
+      model,
+      'gen-1'
+    );
+    expect(usage).toEqual({
+      promptTokens: 1000,
+      completionTokens: 200,
+      reasoningTokens: 80,
+      cachedTokens: 400,
+      totalTokens: 1200,
+      costUsd: 0.5,
+      costSource: 'provider',
+      generationId: 'gen-1',
+    });
+  });
+
+  test('estimates cost from model pricing when the provider omits it', () => {
+    const usage = buildMessageUsage({ prompt_tokens: 1000, completion_tokens: 500 }, model);
+    expect(usage?.totalTokens).toBe(1500);
+    expect(usage?.costSource).toBe('estimate');
+    expect(usage?.costUsd).toBeCloseTo(0.002);
+    expect(buildMessageUsage({ prompt_tokens: 10 }, null)?.costUsd).toBeUndefined();
+    expect(buildMessageUsage({}, model)).toBeUndefined();
+  });
+
+  test('sums usage over node messages', () => {
+    const messages = [
+      { id: 'a', usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15, costUsd: 0.1 } },
+      { id: 'b' },
+      { id: 'c', usage: { promptTokens: 20, completionTokens: 5, totalTokens: 25, costUsd: 0.2 } },
+    ] as Message[];
+    const totals = summarizeMessageUsage(messages);
+    expect(totals.replyCount).toBe(2);
+    expect(totals.totalTokens).toBe(40);
+    expect(totals.costUsd).toBeCloseTo(0.3);
+  });
+
+  test('groups records by day, model, conversation and project', () => {
+    const report = buildUsageReport([
+      record({}),
+      record({
+        messageId: 'm2',
+        model: 'other/model',
+        createdAt: new Date(2025, 0, 2, 9).getTime(),
+        usage: { promptTokens: 10, completionTokens: 10, totalTokens: 20, costUsd: 0.05 },
+      }),
+      record({
+        messageId: 'm3',
+        conversationId: 'c2',
+        conversationTitle: 'Second chat',
+        projectId: 'p1',
+        projectName: 'Research',
+      }),
+    ]);
+
+    expect(report.total.replyCount).toBe(3);
+    expect(report.total.costUsd).toBeCloseTo(0.07);
+    expect(report.byDay.map((day) => [day.key, day.replyCount])).toEqual([
+      ['2025-01-01', 2],
+      ['2025-01-02', 1],
+    ]);
+    expect(report.byModel.map((group) => group.key)).toEqual(['other/model', 'test/model']);
+    expect(report.byConversation.map((group) => group.label)).toEqual([
+      'First chat',
+      'Second chat',
+    ]);
+    expect(report.byProject.map((group) => group.label)).toEqual(['No project', 'Research']);
+  });
+});
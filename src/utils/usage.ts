@@ -0,0 +1,187 @@
+import type { ChatCompletionUsage } from '../api/openrouter';
+import type { LLMModel, Message, MessageUsage, UsageRecord } from '../types';
+
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+  cachedTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  replyCount: number;
+}
+
+export interface UsageGroup extends UsageTotals {
+  key: string;
+  label: string;
+}
+
+export interface UsageReport {
+  total: UsageTotals;
+  byDay: UsageGroup[];
+  byModel: UsageGroup[];
+  byConversation: UsageGroup[];
+  byProject: UsageGroup[];
+}
+
+/**
+ * Normalizes an OpenAI-compatible usage payload. Cost comes from the provider when
+ * reported (OpenRouter), otherwise it is estimated from the model's per-token pricing.
+ */
+export function buildMessageUsage(
+  usage: ChatCompletionUsage | undefined,
+  model: LLMModel | null | undefined,
+  generationId?: string
+): MessageUsage | undefined {
+  if (!usage) return undefined;
+  if (
+    usage.prompt_tokens === undefined &&
+    usage.completion_tokens === undefined &&
+    usage.total_tokens === undefined
+  ) {
+    return undefined;
+  }
+  const promptTokens = toCount(usage.prompt_tokens);
+  const completionTokens = toCount(usage.completion_tokens);
+  return withCost(
+    {
+      promptTokens,
+      completionTokens,
+      reasoningTokens: optionalCount(usage.completion_tokens_details?.reasoning_tokens),
+      cachedTokens: optionalCount(usage.prompt_tokens_details?.cached_tokens),
+      totalTokens: toCount(usage.total_tokens) || promptTokens + completionTokens,
+      generationId,
+    },
+    model,
+    typeof usage.cost === 'number' && Number.isFinite(usage.cost) ? usage.cost : undefined
+  );
+}
+
+/**
+ * Attaches a cost to usage, preferring a provider-reported amount over an estimate.
+ */
+export function withCost(
+  usage: MessageUsage,
+  model: LLMModel | null | undefined,
+  providerCost?: number
+): MessageUsage {
+  if (providerCost !== undefined) {
+    return { ...usage, costUsd: providerCost, costSource: 'provider' };
+  }
+  const estimate = estimateUsageCost(usage, model);
+  return estimate === undefined ? usage : { ...usage, costUsd: estimate, costSource: 'estimate' };
+}
+
+export function estimateUsageCost(
+  usage: Pick<MessageUsage, 'promptTokens' | 'completionTokens'>,
+  model: LLMModel | null | undefined
+): number | undefined {
+  const promptRate = Number(model?.pricing?.prompt);
+  const completionRate = Number(model?.pricing?.completion);
+  if (!Number.isFinite(promptRate) || !Number.isFinite(completionRate)) return undefined;
+  return usage.promptTokens * promptRate + usage.completionTokens * completionRate;
+}
+
+export function emptyUsageTotals(): UsageTotals {
+  return {
+    promptTokens: 0,
+    completionTokens: 0,
+    reasoningTokens: 0,
+    cachedTokens: 0,
+    totalTokens: 0,
+    costUsd: 0,
+    replyCount: 0,
+  };
+}
+
+export function addUsage(totals: UsageTotals, usage: MessageUsage): UsageTotals {
+  totals.promptTokens += usage.promptTokens;
+  totals.completionTokens += usage.completionTokens;
+  totals.reasoningTokens += usage.reasoningTokens ?? 0;
+  totals.cachedTokens += usage.cachedTokens ?? 0;
+  totals.totalTokens += usage.totalTokens;
+  totals.costUsd += usage.costUsd ?? 0;
+  totals.replyCount += 1;
+  return totals;
+}
+
+/**
+ * Sums usage over the messages of a node (or any message list)
+ */
+export function summarizeMessageUsage(messages: Message[]): UsageTotals {
+  const totals = emptyUsageTotals();
+  for (const message of messages) {
+    if (message.usage) addUsage(totals, message.usage);
+  }
+  return totals;
+}
+
+export function buildUsageReport(records: UsageRecord[]): UsageReport {
+  const total = emptyUsageTotals();
+  const byDay = new Map<string, UsageGroup>();
+  const byModel = new Map<string, UsageGroup>();
+  const byConversation = new Map<string, UsageGroup>();
+  const byProject = new Map<string, UsageGroup>();
+
+  const addTo = (
+    groups: Map<string, UsageGroup>,
+    key: string,
+    label: string,
+    usage: MessageUsage
+  ) => {
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, label, ...emptyUsageTotals() };
+      groups.set(key, group);
+    }
+    addUsage(group, usage);
+  };
+
+  for (const record of records) {
+    addUsage(total, record.usage);
+    const day = toDayKey(record.createdAt);
+    addTo(byDay, day, day, record.usage);
+    addTo(byModel, record.model, record.model, record.usage);
+    addTo(byConversation, record.conversationId, record.conversationTitle, record.usage);
+    addTo(
+      byProject,
+      record.projectId ?? '',
+      record.projectId ? record.projectName || 'Untitled project' : 'No project',
+      record.usage
+    );
+  }
+
+  const byCost = (a: UsageGroup, b: UsageGroup) =>
+    b.costUsd - a.costUsd || b.totalTokens - a.totalTokens;
+
+  return {
+    total,
+    byDay: Array.from(byDay.values()).sort((a, b) => a.key.localeCompare(b.key)),
+    byModel: Array.from(byModel.values()).sort(byCost),
+    byConversation: Array.from(byConversation.values()).sort(byCost),
+    byProject: Array.from(byProject.values()).sort(byCost),
+  };
+}
+
+export function formatUsd(value: number) {
+  if (!Number.isFinite(value) || value <= 0) return '—';
+  if (value >= 1) return `$${value.toFixed(2)}`;
+  if (value >= 0.01) return `$${value.toFixed(3)}`;
+  return `$${value.toFixed(5)}`;
+}
+
+// Local calendar day, so spend lines up with the user's own days
+function toDayKey(timestamp: number) {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function toCount(value: unknown) {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+function optionalCount(value: unknown) {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
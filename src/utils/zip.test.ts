@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { buildZip } from '../tests/zipFixtures';
+import { MAX_ZIP_ENTRY_BYTES, readZipEntries } from './zip';
+
+const decode = (bytes: Uint8Array | undefined) => new TextDecoder().decode(bytes);
+
+function endOfCentralDirectory(zip: ArrayBuffer) {
+  return new DataView(zip, zip.byteLength - 22);
+}
+
+describe('readZipEntries', () => {
+  it('reads stored and deflated entries and skips excluded ones', async () => {
+    const stored = await buildZip({ 'a.txt': 'alpha', 'b.txt': 'beta' });
+    const entries = await readZipEntries(stored, (name) => name !== 'b.txt');
+    expect(Array.from(entries.keys())).toEqual(['a.txt']);
+    expect(decode(entries.get('a.txt'))).toBe('alpha');
+
+    const deflated = await buildZip({ 'doc.xml': '<w>'.repeat(200) }, true);
+    expect(decode((await readZipEntries(deflated)).get('doc.xml'))).toBe('<w>'.repeat(200));
+  });
+
+  it('rejects data that is not a ZIP archive', async () => {
+    await expect(readZipEntries(new TextEncoder().encode('plain text').buffer)).rejects.toThrow(
+      'Not a ZIP archive'
+    );
+  });
+
+  it('rejects offsets and sizes that point outside the archive', async () => {
+    const badDirectory = await buildZip({ 'a.txt': 'alpha' });
+    endOfCentralDirectory(badDirectory).setUint32(16, badDirectory.byteLength + 100, true);
+    await expect(readZipEntries(badDirectory)).rejects.toThrow('Corrupt ZIP central directory');
+
+    const badSize = await buildZip({ 'a.txt': 'alpha' });
+    const directoryOffset = endOfCentralDirectory(badSize).getUint32(16, true);
+    new DataView(badSize).setUint32(directoryOffset + 20, 1_000_000, true);
+    await expect(readZipEntries(badSize)).rejects.toThrow('Corrupt ZIP entry: a.txt');
+
+    const badHeader = await buildZip({ 'a.txt': 'alpha' });
+    new DataView(badHeader).setUint32(directoryOffset + 42, badHeader.byteLength - 4, true);
+    await expect(readZipEntries(badHeader)).rejects.toThrow('Corrupt ZIP entry: a.txt');
+  });
+
+  it('rejects ZIP64 archives with a clear error', async () => {
+    const markedCount = await buildZip({ 'a.txt': 'alpha' });
+    endOfCentralDirectory(markedCount).setUint16(10, 0xffff, true);
+    await expect(readZipEntries(markedCount)).rejects.toThrow('ZIP64 archives are not supported');
+
+    const markedSize = await buildZip({ 'a.txt': 'alpha' });
+    const directoryOffset = endOfCentralDirectory(markedSize).getUint32(16, true);
+    new DataView(markedSize).setUint32(directoryOffset + 20, 0xffffffff, true);
+    await expect(readZipEntries(markedSize)).rejects.toThrow('ZIP64 archives are not supported');
+  });
+
+  it('stops inflating entries at their declared size', async () => {
+    const bomb = await buildZip({ 'doc.xml': 'a'.repeat(10_000) }, true);
+    const directoryOffset = endOfCentralDirectory(bomb).getUint32(16, true);
+    new DataView(bomb).setUint32(directoryOffset + 24, 100, true);
+    await expect(readZipEntries(bomb)).rejects.toThrow('Corrupt ZIP entry: doc.xml');
+
+    const huge = await buildZip({ 'doc.xml': 'a' }, true);
+    const hugeDirectoryOffset = endOfCentralDirectory(huge).getUint32(16, true);
+    new DataView(huge).setUint32(hugeDirectoryOffset + 24, MAX_ZIP_ENTRY_BYTES + 1, true);
+    await expect(readZipEntries(huge)).rejects.toThrow('ZIP entry is too large: doc.xml');
+  });
+});
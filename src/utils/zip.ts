@@ -0,0 +1,131 @@
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR = 0x07064b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const MAX_EOCD_SEARCH = 0xffff + 22;
+const ZIP64_MARKER_16 = 0xffff;
+const ZIP64_MARKER_32 = 0xffffffff;
+const ZIP64_ERROR = 'ZIP64 archives are not supported';
+// No part of an Office document comes near this; anything larger is a ZIP bomb
+export const MAX_ZIP_ENTRY_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Reads entries from a ZIP archive (the container of DOCX and XLSX files).
+ * Supports stored and deflated entries, which is all Office documents use.
+ * Offsets and sizes are checked against the buffer, so a truncated or crafted
+ * archive fails with an error instead of reading out of range, and entries are
+ * inflated no further than their declared size.
+ */
+export async function readZipEntries(
+  data: ArrayBuffer,
+  include: (name: string) => boolean = () => true
+): Promise<Map<string, Uint8Array>> {
+  const view = new DataView(data);
+  const eocdOffset = findEndOfCentralDirectory(view);
+  if (eocdOffset < 0) {
+    throw new Error('Not a ZIP archive');
+  }
+  if (
+    eocdOffset >= 20 &&
+    view.getUint32(eocdOffset - 20, true) === ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR
+  ) {
+    throw new Error(ZIP64_ERROR);
+  }
+
+  const entryCount = view.getUint16(eocdOffset + 10, true);
+  let offset = view.getUint32(eocdOffset + 16, true);
+  if (entryCount === ZIP64_MARKER_16 || offset === ZIP64_MARKER_32) {
+    throw new Error(ZIP64_ERROR);
+  }
+  const decoder = new TextDecoder();
+  const entries = new Map<string, Uint8Array>();
+
+  for (let index = 0; index < entryCount; index++) {
+    if (!inRange(view, offset, 46) || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const uncompressedSize = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+    if (!inRange(view, offset + 46, nameLength)) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+    const name = decoder.decode(new Uint8Array(data, offset + 46, nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/') || !include(name)) continue;
+    if (
+      compressedSize === ZIP64_MARKER_32 ||
+      uncompressedSize === ZIP64_MARKER_32 ||
+      localHeaderOffset === ZIP64_MARKER_32
+    ) {
+      throw new Error(ZIP64_ERROR);
+    }
+    if (
+      !inRange(view, localHeaderOffset, 30) ||
+      view.getUint32(localHeaderOffset, true) !== LOCAL_FILE_HEADER
+    ) {
+      throw new Error(`Corrupt ZIP entry: ${name}`);
+    }
+    const dataStart =
+      localHeaderOffset +
+      30 +
+      view.getUint16(localHeaderOffset + 26, true) +
+      view.getUint16(localHeaderOffset + 28, true);
+    if (!inRange(view, dataStart, compressedSize)) {
+      throw new Error(`Corrupt ZIP entry: ${name}`);
+    }
+    if (uncompressedSize > MAX_ZIP_ENTRY_BYTES) {
+      throw new Error(`ZIP entry is too large: ${name}`);
+    }
+    const compressed = new Uint8Array(data, dataStart, compressedSize);
+
+    if (method === 0) {
+      entries.set(name, compressed.slice());
+    } else if (method === 8) {
+      const inflated = await inflateRaw(compressed, uncompressedSize);
+      if (!inflated) throw new Error(`Corrupt ZIP entry: ${name}`);
+      entries.set(name, inflated);
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+    }
+  }
+
+  return entries;
+}
+
+function inRange(view: DataView, offset: number, length: number) {
+  return offset >= 0 && length >= 0 && offset + length <= view.byteLength;
+}
+
+function findEndOfCentralDirectory(view: DataView) {
+  const stop = Math.max(0, view.byteLength - MAX_EOCD_SEARCH);
+  for (let offset = view.byteLength - 22; offset >= stop; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  return -1;
+}
+
+// Null when the data does not inflate to exactly the expected size
+async function inflateRaw(bytes: Uint8Array, expectedSize: number): Promise<Uint8Array | null> {
+  const body = new Response(bytes as BufferSource).body;
+  if (!body) throw new Error('Failed to read ZIP entry');
+  const reader = body.pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+  const output = new Uint8Array(expectedSize);
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (length + value.byteLength > expectedSize) {
+      await reader.cancel();
+      return null;
+    }
+    output.set(value, length);
+    length += value.byteLength;
+  }
+  return length === expectedSize ? output : null;
+}
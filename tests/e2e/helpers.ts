@@ -1,4 +1,36 @@
 import type { Page, Route } from '@playwright/test';
+import type { MockMcpServer } from '../../src/tests/mockMcpServer';
+
+const MOCK_MCP_CORS_HEADERS = {
+  'access-control-allow-origin': '*',
+  'access-control-allow-methods': 'GET, POST, DELETE, OPTIONS',
+  'access-control-allow-headers': 'authorization, content-type, accept, mcp-session-id',
+  'access-control-expose-headers': 'mcp-session-id',
+};
+
+// Serves `url` from an in-process mock MCP server (see src/tests/mockMcpServer.ts).
+// Responses are buffered, so keep the server's GET event stream disabled here.
+export async function routeMockMcpServer(page: Page, url: string, server: MockMcpServer) {
+  await page.route(url, async (route: Route) => {
+    const request = route.request();
+    if (request.method() === 'OPTIONS') {
+      await route.fulfill({ status: 204, headers: MOCK_MCP_CORS_HEADERS });
+      return;
+    }
+    const response = await server.handle(
+      new Request(request.url(), {
+        method: request.method(),
+        headers: request.headers(),
+        body: request.postData() ?? undefined,
+      })
+    );
+    await route.fulfill({
+      status: response.status,
+      headers: { ...Object.fromEntries(response.headers), ...MOCK_MCP_CORS_HEADERS },
+      body: await response.text(),
+    });
+  });
+}
 
 export async function setupOpenRouterMocks(page: Page) {
   await page.route('https://openrouter.ai/api/v1/models', async (route: Route) => {
@@ -0,0 +1,31 @@
+import { test, expect } from '@playwright/test';
+import { createMockMcpServer } from '../../src/tests/mockMcpServer';
+import { resetStorage, routeMockMcpServer, setupOpenRouterMocks } from './helpers';
+
+const MCP_URL = 'https://mcp.test/mcp';
+
+test.beforeEach(async ({ page }) => {
+  await resetStorage(page);
+  await setupOpenRouterMocks(page);
+});
+
+test('discover tools from an MCP server', async ({ page }) => {
+  const server = createMockMcpServer({
+    tools: [
+      { name: 'search_docs', description: 'Search the docs', result: 'No matches.' },
+      { name: 'fetch_page', description: 'Fetch a page', result: 'Page body.' },
+    ],
+  });
+  await routeMockMcpServer(page, MCP_URL, server);
+
+  await page.goto('/');
+  await page.getByTestId('open-settings').click();
+  await page.getByTestId('settings-tab-tools').click();
+  await page.getByTestId('tool-mcp-url-0').fill(MCP_URL);
+  await page.getByRole('button', { name: 'Discover tools' }).click();
+
+  await expect(page.getByText('search_docs', { exact: true })).toBeVisible();
+  await expect(page.getByText('fetch_page', { exact: true })).toBeVisible();
+  await expect(page.getByTestId('tool-mcp-health-0')).toContainText('2 tools');
+  expect(server.requests.map((request) => request.method)).toContain('tools/list');
+});